@@ -3,52 +3,434 @@
 -- Kjør denne filen i Supabase SQL Editor
 -- =====================================================
 
+-- Skriptet kan kjøres på nytt, også på en database satt opp med en
+-- eldre versjon: tabeller opprettes bare hvis de mangler, og stegene
+-- under MIGRERING oppgraderer eksisterende tabeller.
+
+-- Alle data tilhører en eiendom (property). Flere brukere kan være
+-- medlem av samme eiendom (f.eks. en husstand eller et borettslag),
+-- og ser da samme brøytingslogg, kontakter og innstillinger.
+--
+-- Roller:
+-- - owner: Alt, inkludert medlemmer og invitasjoner
+-- - member: Lese og endre brøytinger, kontakter og innstillinger
+-- - viewer: Bare lese
+--
+-- Brukere logges inn med Supabase Auth (anonymt eller med e-post),
+-- og tilgangen styres av RLS ut fra medlemskap.
+
 -- =====================================================
 -- TABELLER
 -- =====================================================
 
+-- Properties (eiendommer)
+create table if not exists properties (
+  id text primary key,
+  name text not null,
+  created_by uuid references auth.users(id) on delete set null,
+  created_at timestamptz default now()
+);
+
+-- Property Members (medlemmer og roller)
+create table if not exists property_members (
+  property_id text not null references properties(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  role text not null check (role in ('owner', 'member', 'viewer')),
+  display_name text,
+  created_at timestamptz default now(),
+  primary key (property_id, user_id)
+);
+
+-- Property Invitations (invitasjoner med kode)
+create table if not exists property_invitations (
+  code text primary key,
+  property_id text not null references properties(id) on delete cascade,
+  role text not null check (role in ('member', 'viewer')),
+  created_by uuid references auth.users(id) on delete set null,
+  created_at timestamptz default now(),
+  expires_at timestamptz not null default now() + interval '7 days',
+  accepted_by uuid references auth.users(id) on delete set null,
+  accepted_at timestamptz
+);
+
+-- ID-ene lages i appen (også uten nett), så de er tekst og ikke uuid.
+-- De er unike per eiendom: samme kontakt eller brøyting kan finnes i
+-- flere eiendommer (f.eks. når et medlem tar med seg data ut).
+-- updated_at settes av appen til tidspunktet endringen ble gjort, og
+-- brukes bare til å avgjøre konflikter (siste endring vinner).
+-- synced_at settes av databasen hver gang raden skrives (se
+-- set_synced_at). Enhetene henter endringer etter synced_at, så en
+-- endring gjort uten nett eller med feil klokke blir likevel hentet.
+-- updated_by settes av databasen (se set_updated_by).
+-- Slettede rader beholdes med deleted = true, slik at andre enheter
+-- får med seg slettingen neste gang de synkroniserer.
+
 -- Contractors (kontakter/entreprenører)
-create table contractors (
-  id uuid default gen_random_uuid() primary key,
-  user_id text not null,
+create table if not exists contractors (
+  id text not null,
+  property_id text not null references properties(id) on delete cascade,
   name text not null,
   phone text not null,
   email text,
   is_primary boolean default false,
+  priority integer, -- plass i eskaleringsrekkefølgen (0 = hovedkontakt)
+  available_hours jsonb, -- {"start":"07:00","end":"22:00"}
+  response_timeout_minutes integer,
+  pricing jsonb, -- prisavtale: {"type":"per_visit","amount":...} / per_hour / seasonal
+  deleted boolean not null default false,
   created_at timestamptz default now(),
-  updated_at timestamptz default now()
+  updated_at timestamptz not null default now(),
+  updated_by uuid references auth.users(id) on delete set null,
+  synced_at timestamptz not null default now(),
+  primary key (property_id, id)
 );
 
 -- Plow Entries (brøytingshistorikk)
-create table plow_entries (
-  id uuid default gen_random_uuid() primary key,
-  user_id text not null,
+create table if not exists plow_entries (
+  id text not null,
+  property_id text not null references properties(id) on delete cascade,
   timestamp timestamptz not null,
-  snow_depth numeric,
+  snow_depth numeric, -- cm
   comment text,
-  contractor_id uuid references contractors(id),
-  created_at timestamptz default now()
+  contractor_id text,
+  contractor_name text, -- navnet da brøytingen ble logget
+  duration_minutes integer,
+  location_id text, -- lokasjonen i innstillingene
+  forecast_depth numeric, -- beregnet snødybde da brøytingen ble logget (cm)
+  edits jsonb, -- endringslogg: når, hvem og gamle/nye verdier
+  deleted boolean not null default false,
+  created_at timestamptz default now(),
+  updated_at timestamptz not null default now(),
+  updated_by uuid references auth.users(id) on delete set null,
+  synced_at timestamptz not null default now(),
+  primary key (property_id, id),
+  foreign key (property_id, contractor_id) references contractors(property_id, id)
+    on delete set null (contractor_id)
 );
 
--- Settings (brukerinnstillinger)
-create table settings (
-  id uuid default gen_random_uuid() primary key,
-  user_id text unique not null,
-  location_name text,
-  location_lat numeric,
-  location_lon numeric,
-  snow_threshold integer default 10,
-  notify_on_snow boolean default false,
-  notify_day boolean default true,
-  notify_night boolean default true,
-  updated_at timestamptz default now()
+-- Settings (innstillinger for eiendommen)
+-- Innstillingene lagres samlet som JSON (lokasjoner, varslingsregler,
+-- varslingsplan osv.). Valg som gjelder én enhet (aktiv lokasjon, varsler,
+-- push, værdata-kilde) synkroniseres ikke.
+create table if not exists settings (
+  property_id text primary key references properties(id) on delete cascade,
+  data jsonb not null,
+  updated_at timestamptz not null default now(),
+  updated_by uuid references auth.users(id) on delete set null,
+  synced_at timestamptz not null default now()
 );
 
+-- =====================================================
+-- MIGRERING
+-- =====================================================
+
+-- De første versjonene knyttet data til en synkroniseringsnøkkel
+-- (user_id) og brukte uuid som ID. Hver nøkkel blir en eiendom med
+-- nøkkelen som ID, uten medlemmer. Legg til eieren etterpå (se
+-- SUPABASE_GUIDE.md, «Eksisterende database»).
+do $$
+begin
+  if exists (
+    select 1 from information_schema.columns
+    where table_schema = 'public' and table_name = 'contractors' and column_name = 'user_id'
+  ) then
+    insert into properties (id, name)
+      select distinct user_id, 'Eiendom' from contractors
+      on conflict (id) do nothing;
+    -- Brøytinger pekte på kontaktens ID alene, nå på (eiendom, ID)
+    alter table plow_entries drop constraint if exists plow_entries_contractor_id_fkey;
+    alter table contractors alter column id drop default;
+    alter table contractors alter column id type text using id::text;
+    alter table contractors add column property_id text references properties(id) on delete cascade;
+    update contractors set property_id = user_id;
+    alter table contractors alter column property_id set not null;
+    alter table contractors drop constraint contractors_pkey;
+    alter table contractors add primary key (property_id, id);
+    alter table contractors drop column user_id;
+  end if;
+
+  if exists (
+    select 1 from information_schema.columns
+    where table_schema = 'public' and table_name = 'plow_entries' and column_name = 'user_id'
+  ) then
+    insert into properties (id, name)
+      select distinct user_id, 'Eiendom' from plow_entries
+      on conflict (id) do nothing;
+    alter table plow_entries drop constraint if exists plow_entries_contractor_id_fkey;
+    alter table plow_entries alter column id drop default;
+    alter table plow_entries alter column id type text using id::text;
+    alter table plow_entries alter column contractor_id type text using contractor_id::text;
+    alter table plow_entries add column property_id text references properties(id) on delete cascade;
+    update plow_entries set property_id = user_id;
+    alter table plow_entries alter column property_id set not null;
+    alter table plow_entries drop constraint plow_entries_pkey;
+    alter table plow_entries add primary key (property_id, id);
+    alter table plow_entries drop column user_id;
+    update plow_entries e set contractor_id = null
+      where contractor_id is not null and not exists (
+        select 1 from contractors c where c.property_id = e.property_id and c.id = e.contractor_id
+      );
+    alter table plow_entries add constraint plow_entries_property_id_contractor_id_fkey
+      foreign key (property_id, contractor_id) references contractors(property_id, id)
+      on delete set null (contractor_id);
+  end if;
+
+  if exists (
+    select 1 from information_schema.columns
+    where table_schema = 'public' and table_name = 'settings' and column_name = 'user_id'
+  ) then
+    -- Den første versjonen hadde én kolonne per valg, som ikke kan
+    -- gjøres om til appens format. Enhetene har innstillingene lokalt.
+    if not exists (
+      select 1 from information_schema.columns
+      where table_schema = 'public' and table_name = 'settings' and column_name = 'data'
+    ) then
+      delete from settings;
+      alter table settings
+        drop column location_name, drop column location_lat, drop column location_lon,
+        drop column snow_threshold, drop column notify_on_snow, drop column notify_day,
+        drop column notify_night;
+      alter table settings add column data jsonb not null;
+    end if;
+    insert into properties (id, name)
+      select distinct user_id, 'Eiendom' from settings
+      on conflict (id) do nothing;
+    alter table settings add column property_id text references properties(id) on delete cascade;
+    update settings set property_id = user_id;
+    alter table settings drop constraint settings_pkey;
+    alter table settings drop column id;
+    alter table settings drop column user_id;
+    alter table settings add primary key (property_id);
+  end if;
+end;
+$$;
+
+-- Kolonner lagt til i senere versjoner
+alter table contractors add column if not exists priority integer;
+alter table contractors add column if not exists available_hours jsonb;
+alter table contractors add column if not exists response_timeout_minutes integer;
+alter table contractors add column if not exists pricing jsonb;
+alter table contractors add column if not exists deleted boolean not null default false;
+alter table contractors add column if not exists updated_by uuid references auth.users(id) on delete set null;
+alter table contractors add column if not exists synced_at timestamptz not null default now();
+update contractors set updated_at = now() where updated_at is null;
+alter table contractors alter column updated_at set not null;
+
+alter table plow_entries add column if not exists location_id text;
+alter table plow_entries add column if not exists forecast_depth numeric;
+alter table plow_entries add column if not exists edits jsonb;
+alter table plow_entries add column if not exists deleted boolean not null default false;
+alter table plow_entries add column if not exists updated_at timestamptz not null default now();
+alter table plow_entries add column if not exists updated_by uuid references auth.users(id) on delete set null;
+alter table plow_entries add column if not exists synced_at timestamptz not null default now();
+
+alter table settings add column if not exists updated_by uuid references auth.users(id) on delete set null;
+alter table settings add column if not exists synced_at timestamptz not null default now();
+update settings set updated_at = now() where updated_at is null;
+alter table settings alter column updated_at set not null;
+
+-- Eldre policies ga alle tilgang til alle rader
+drop policy if exists "contractors_own_data" on contractors;
+drop policy if exists "plow_entries_own_data" on plow_entries;
+drop policy if exists "settings_own_data" on settings;
+
+-- =====================================================
+-- FUNKSJONER
+-- =====================================================
+
+-- Rollen til innlogget bruker i en eiendom (null = ikke medlem)
+-- security definer: leser medlemskap uten å gå via RLS (unngår løkke)
+create or replace function property_role(p_property_id text)
+returns text
+language sql stable security definer set search_path = public
+as $$
+  select role from property_members
+  where property_id = p_property_id and user_id = auth.uid()
+$$;
+
+-- Hvem som sist endret en rad
+create or replace function set_updated_by()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_by := auth.uid();
+  return new;
+end;
+$$;
+
+create or replace trigger contractors_updated_by before insert or update on contractors
+  for each row execute function set_updated_by();
+create or replace trigger plow_entries_updated_by before insert or update on plow_entries
+  for each row execute function set_updated_by();
+create or replace trigger settings_updated_by before insert or update on settings
+  for each row execute function set_updated_by();
+
+-- Når raden sist ble skrevet på serveren (markøren enhetene henter etter)
+create or replace function set_synced_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.synced_at := now();
+  return new;
+end;
+$$;
+
+create or replace trigger contractors_synced_at before insert or update on contractors
+  for each row execute function set_synced_at();
+create or replace trigger plow_entries_synced_at before insert or update on plow_entries
+  for each row execute function set_synced_at();
+create or replace trigger settings_synced_at before insert or update on settings
+  for each row execute function set_synced_at();
+
+-- Eiendommene innlogget bruker er medlem av
+create or replace function my_properties()
+returns table (id text, name text, role text)
+language sql stable security definer set search_path = public
+as $$
+  select p.id, p.name, m.role
+  from properties p
+  join property_members m on m.property_id = p.id
+  where m.user_id = auth.uid()
+  order by p.created_at
+$$;
+
+-- Opprett eiendom med innlogget bruker som eier
+create or replace function create_property(p_id text, p_name text, p_display_name text default null)
+returns void
+language plpgsql security definer set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'Ikke innlogget';
+  end if;
+  insert into properties (id, name, created_by) values (p_id, p_name, auth.uid());
+  insert into property_members (property_id, user_id, role, display_name)
+    values (p_id, auth.uid(), 'owner', p_display_name);
+end;
+$$;
+
+-- Lag invitasjon (kun eier). Returnerer koden som deles med den inviterte.
+create or replace function create_invitation(p_property_id text, p_role text)
+returns text
+language plpgsql security definer set search_path = public
+as $$
+declare
+  v_code text;
+begin
+  if property_role(p_property_id) is distinct from 'owner' then
+    raise exception 'Bare eiere kan invitere';
+  end if;
+  if p_role not in ('member', 'viewer') then
+    raise exception 'Ugyldig rolle';
+  end if;
+  v_code := upper(substr(replace(gen_random_uuid()::text, '-', ''), 1, 10));
+  insert into property_invitations (code, property_id, role, created_by)
+    values (v_code, p_property_id, p_role, auth.uid());
+  return v_code;
+end;
+$$;
+
+-- Godta invitasjon. Returnerer eiendommens ID.
+create or replace function accept_invitation(p_code text, p_display_name text default null)
+returns text
+language plpgsql security definer set search_path = public
+as $$
+declare
+  v_invitation property_invitations;
+begin
+  if auth.uid() is null then
+    raise exception 'Ikke innlogget';
+  end if;
+  select * into v_invitation from property_invitations
+    where code = upper(trim(p_code)) for update;
+  if not found or v_invitation.accepted_at is not null or v_invitation.expires_at < now() then
+    raise exception 'Invitasjonen er ugyldig eller utløpt';
+  end if;
+  insert into property_members (property_id, user_id, role, display_name)
+    values (v_invitation.property_id, auth.uid(), v_invitation.role, p_display_name)
+    on conflict (property_id, user_id) do nothing;
+  update property_invitations set accepted_by = auth.uid(), accepted_at = now()
+    where code = v_invitation.code;
+  return v_invitation.property_id;
+end;
+$$;
+
+-- Trekk tilbake invitasjon (kun eier)
+create or replace function revoke_invitation(p_code text)
+returns void
+language plpgsql security definer set search_path = public
+as $$
+begin
+  delete from property_invitations
+    where code = p_code and property_role(property_id) = 'owner';
+end;
+$$;
+
+-- Endre rolle (kun eier). Eiendommen må ha minst én eier.
+create or replace function set_member_role(p_property_id text, p_user_id uuid, p_role text)
+returns void
+language plpgsql security definer set search_path = public
+as $$
+begin
+  if property_role(p_property_id) is distinct from 'owner' then
+    raise exception 'Bare eiere kan endre roller';
+  end if;
+  if p_role not in ('owner', 'member', 'viewer') then
+    raise exception 'Ugyldig rolle';
+  end if;
+  if p_role <> 'owner' and not exists (
+    select 1 from property_members
+    where property_id = p_property_id and role = 'owner' and user_id <> p_user_id
+  ) then
+    raise exception 'Eiendommen må ha minst én eier';
+  end if;
+  update property_members set role = p_role
+    where property_id = p_property_id and user_id = p_user_id;
+end;
+$$;
+
+-- Fjern medlem (eier), eller forlat eiendommen (seg selv)
+create or replace function remove_member(p_property_id text, p_user_id uuid)
+returns void
+language plpgsql security definer set search_path = public
+as $$
+begin
+  if p_user_id <> auth.uid() and property_role(p_property_id) is distinct from 'owner' then
+    raise exception 'Bare eiere kan fjerne medlemmer';
+  end if;
+  if not exists (
+    select 1 from property_members
+    where property_id = p_property_id and role = 'owner' and user_id <> p_user_id
+  ) and exists (
+    select 1 from property_members
+    where property_id = p_property_id and role = 'owner' and user_id = p_user_id
+  ) then
+    raise exception 'Eiendommen må ha minst én eier';
+  end if;
+  delete from property_members
+    where property_id = p_property_id and user_id = p_user_id;
+end;
+$$;
+
+-- Navnet som vises for innlogget bruker i alle eiendommer
+create or replace function set_display_name(p_name text)
+returns void
+language sql security definer set search_path = public
+as $$
+  update property_members set display_name = nullif(trim(p_name), '')
+  where user_id = auth.uid()
+$$;
+
 -- =====================================================
 -- ROW LEVEL SECURITY (RLS)
 -- =====================================================
 
 -- Aktiver RLS på alle tabeller
+alter table properties enable row level security;
+alter table property_members enable row level security;
+alter table property_invitations enable row level security;
 alter table contractors enable row level security;
 alter table plow_entries enable row level security;
 alter table settings enable row level security;
@@ -57,55 +439,138 @@ alter table settings enable row level security;
 -- POLICIES
 -- =====================================================
 
--- Contractors: Alle kan administrere sine egne data
-drop policy if exists "contractors_own_data" on contractors;
-create policy "contractors_own_data" on contractors
-  for all
-  to anon, authenticated
-  using (true)
-  with check (true);
+-- Eiendommer, medlemmer og invitasjoner endres kun via funksjonene over
 
--- Plow Entries: Alle kan administrere sine egne data
-drop policy if exists "plow_entries_own_data" on plow_entries;
-create policy "plow_entries_own_data" on plow_entries
-  for all
-  to anon, authenticated
-  using (true)
-  with check (true);
+-- Properties: Medlemmer kan lese, eiere kan endre navn
+drop policy if exists "properties_members_read" on properties;
+create policy "properties_members_read" on properties
+  for select to authenticated
+  using (property_role(id) is not null);
 
--- Settings: Alle kan administrere sine egne data
-drop policy if exists "settings_own_data" on settings;
-create policy "settings_own_data" on settings
-  for all
-  to anon, authenticated
-  using (true)
-  with check (true);
+drop policy if exists "properties_owner_update" on properties;
+create policy "properties_owner_update" on properties
+  for update to authenticated
+  using (property_role(id) = 'owner')
+  with check (property_role(id) = 'owner');
+
+-- Property Members: Medlemmer ser hverandre
+drop policy if exists "property_members_read" on property_members;
+create policy "property_members_read" on property_members
+  for select to authenticated
+  using (property_role(property_id) is not null);
+
+-- Property Invitations: Eiere ser invitasjonene
+drop policy if exists "property_invitations_owner_read" on property_invitations;
+create policy "property_invitations_owner_read" on property_invitations
+  for select to authenticated
+  using (property_role(property_id) = 'owner');
+
+-- Contractors, Plow Entries og Settings: Alle medlemmer kan lese,
+-- eiere og medlemmer kan skrive. Rader slettes ikke (deleted = true).
+drop policy if exists "contractors_read" on contractors;
+create policy "contractors_read" on contractors
+  for select to authenticated
+  using (property_role(property_id) is not null);
+
+drop policy if exists "contractors_insert" on contractors;
+create policy "contractors_insert" on contractors
+  for insert to authenticated
+  with check (property_role(property_id) in ('owner', 'member'));
+
+drop policy if exists "contractors_update" on contractors;
+create policy "contractors_update" on contractors
+  for update to authenticated
+  using (property_role(property_id) in ('owner', 'member'))
+  with check (property_role(property_id) in ('owner', 'member'));
+
+drop policy if exists "plow_entries_read" on plow_entries;
+create policy "plow_entries_read" on plow_entries
+  for select to authenticated
+  using (property_role(property_id) is not null);
+
+drop policy if exists "plow_entries_insert" on plow_entries;
+create policy "plow_entries_insert" on plow_entries
+  for insert to authenticated
+  with check (property_role(property_id) in ('owner', 'member'));
+
+drop policy if exists "plow_entries_update" on plow_entries;
+create policy "plow_entries_update" on plow_entries
+  for update to authenticated
+  using (property_role(property_id) in ('owner', 'member'))
+  with check (property_role(property_id) in ('owner', 'member'));
+
+drop policy if exists "settings_read" on settings;
+create policy "settings_read" on settings
+  for select to authenticated
+  using (property_role(property_id) is not null);
+
+drop policy if exists "settings_insert" on settings;
+create policy "settings_insert" on settings
+  for insert to authenticated
+  with check (property_role(property_id) in ('owner', 'member'));
+
+drop policy if exists "settings_update" on settings;
+create policy "settings_update" on settings
+  for update to authenticated
+  using (property_role(property_id) in ('owner', 'member'))
+  with check (property_role(property_id) in ('owner', 'member'));
 
 -- =====================================================
 -- INDEKSER (for bedre ytelse)
 -- =====================================================
 
-create index if not exists idx_contractors_user_id on contractors(user_id);
-create index if not exists idx_plow_entries_user_id on plow_entries(user_id);
+create index if not exists idx_property_members_user_id on property_members(user_id);
+create index if not exists idx_property_invitations_property_id on property_invitations(property_id);
+drop index if exists idx_contractors_updated_at;
+drop index if exists idx_plow_entries_updated_at;
+create index if not exists idx_contractors_synced_at on contractors(property_id, synced_at);
+create index if not exists idx_plow_entries_synced_at on plow_entries(property_id, synced_at);
 create index if not exists idx_plow_entries_timestamp on plow_entries(timestamp desc);
-create index if not exists idx_settings_user_id on settings(user_id);
+
+-- =====================================================
+-- REALTIME
+-- =====================================================
+
+-- Endringer i brøytinger og kontakter sendes til de andre medlemmene
+-- med en gang (RLS avgjør hvem som får hvilke rader)
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'contractors'
+  ) then
+    alter publication supabase_realtime add table contractors;
+  end if;
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'plow_entries'
+  ) then
+    alter publication supabase_realtime add table plow_entries;
+  end if;
+end;
+$$;
 
 -- =====================================================
 -- FERDIG!
 -- =====================================================
 
 -- Verifiser at tabellene ble opprettet
-select 
-  'contractors' as table_name,
+select
+  'properties' as table_name,
   count(*) as row_count
+from properties
+union all
+select
+  'contractors',
+  count(*)
 from contractors
 union all
-select 
+select
   'plow_entries',
   count(*)
 from plow_entries
 union all
-select 
+select
   'settings',
   count(*)
 from settings;
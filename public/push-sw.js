@@ -0,0 +1,89 @@
+/**
+ * push-sw.js: Push-håndtering i service workeren
+ *
+ * Lastes inn i den genererte service workeren via
+ * `workbox.importScripts` i vite.config.ts.
+ *
+ * - push: Viser varselet fra push-relayet, med handlinger
+ * - notificationclick: Åpner appen med valgt handling (?action=...)
+ *
+ * Innholdet i push-meldingen er en PushPayload (se types/index.ts).
+ */
+
+/* global self, clients */
+
+// =============================================================================
+// KONSTANTER
+// =============================================================================
+
+// Tag for varsler uten egen tag (renotify krever tag, ellers kaster
+// showNotification en TypeError og varselet vises aldri)
+const DEFAULT_TAG = 'snoklar';
+
+// =============================================================================
+// PUSH
+// =============================================================================
+
+self.addEventListener('push', (event) => {
+  if (!event.data) return;
+
+  let payload;
+  try {
+    payload = event.data.json();
+  } catch {
+    payload = { title: 'Snøklar', body: event.data.text() };
+  }
+
+  // "Ring brøyter" gir bare mening når vi har et nummer
+  const actions = [{ action: 'log', title: 'Logg brøyting' }];
+  if (payload.contractorPhone) {
+    actions.unshift({ action: 'call', title: 'Ring brøyter' });
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(payload.title, {
+      body: payload.body,
+      icon: '/pwa-192x192.svg',
+      badge: '/pwa-192x192.svg',
+      tag: payload.tag || DEFAULT_TAG,
+      renotify: true,
+      requireInteraction: true,
+      actions,
+      data: {
+        locationId: payload.locationId ?? null,
+        contractorPhone: payload.contractorPhone ?? null,
+      },
+    })
+  );
+});
+
+// =============================================================================
+// KLIKK PÅ VARSEL
+// =============================================================================
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+
+  const { locationId } = event.notification.data ?? {};
+  const params = new URLSearchParams();
+  if (event.action === 'call' || event.action === 'log') {
+    params.set('action', event.action);
+  }
+  if (locationId) {
+    params.set('location', locationId);
+  }
+
+  const query = params.toString();
+  const url = new URL(query ? `/?${query}` : '/', self.location.origin).href;
+
+  event.waitUntil(
+    clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      // Gjenbruk åpen fane (last på nytt med handlingen), ellers åpne ny
+      const existing = windows.find((w) => new URL(w.url).origin === self.location.origin);
+      if (existing) {
+        return existing.navigate(url).then((w) => (w ?? existing).focus());
+      }
+      return clients.openWindow(url);
+    })
+  );
+});
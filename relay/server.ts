@@ -0,0 +1,439 @@
+/**
+ * server.ts: Push-relay for Snøklar
+ *
+ * En liten Node-server som sender Web Push-varsler, også når appen
+ * er lukket og telefonen er låst.
+ *
+ * - Tar imot push-abonnementer fra appen (POST /subscriptions)
+ * - Henter prognose og Nowcast fra Met.no for alle lokasjoner jevnlig
+ * - Evaluerer de samme varslingsreglene som appen (src/lib/alerts.ts)
+ * - Sender push til abonnenter der en regel slår til
+ *
+ * Kjøres lokalt med `npm run relay`. Abonnementer og VAPID-nøkler
+ * lagres i relay/data/.
+ *
+ * Miljøvariabler:
+ * - PUSH_RELAY_PORT: Port (standard 8787)
+ * - PUSH_POLL_MINUTES: Minutter mellom hver sjekk (standard 10)
+ * - PUSH_ALLOWED_ORIGIN: Tillatt origin for CORS (standard *)
+ * - VAPID_PUBLIC_KEY / VAPID_PRIVATE_KEY: Nøkler (genereres og lagres hvis de mangler)
+ * - VAPID_SUBJECT: Kontakt for push-tjenesten (mailto: eller https:)
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import webpush from 'web-push';
+import type {
+  MetNoNowcastResponse,
+  MetNoResponse,
+  MonitoredLocation,
+  NowcastData,
+  PushPayload,
+  PushRegistration,
+  SnowStatus,
+  WeatherData,
+} from '../src/types';
+import {
+  fetchCached,
+  mergePastHours,
+  parseNowcast,
+  parseWeatherData,
+  type CachedForecast,
+  type MetNoRequestOptions,
+} from '../src/services/metno';
+import { calculateSnowStatus } from '../src/lib/snowDepth';
+import { evaluateAlerts, getStatusToStore } from '../src/lib/alerts';
+import { DEFAULT_SCHEDULE } from '../src/lib/schedule';
+
+// =============================================================================
+// KONSTANTER
+// =============================================================================
+
+/**
+ * PORT: Porten relayet lytter på
+ */
+const PORT = Number(process.env.PUSH_RELAY_PORT ?? 8787);
+
+/**
+ * POLL_MS: Tid mellom hver sjekk av prognosen
+ *
+ * Locationforecast oppdateres omtrent hver time, Nowcast hvert 5. minutt.
+ * Svarene caches likevel til Expires, så kortere intervall gir ikke flere kall.
+ */
+const POLL_MS = Number(process.env.PUSH_POLL_MINUTES ?? 10) * 60 * 1000;
+
+/**
+ * ALLOWED_ORIGIN: Hvilken origin appen kjører på (CORS)
+ */
+const ALLOWED_ORIGIN = process.env.PUSH_ALLOWED_ORIGIN ?? '*';
+
+/**
+ * DATA_DIR: Mappe for abonnementer og nøkler (relay/data)
+ */
+const DATA_DIR = join(dirname(fileURLToPath(import.meta.url)), '..', 'data');
+const SUBSCRIBERS_FILE = join(DATA_DIR, 'subscriptions.json');
+const VAPID_FILE = join(DATA_DIR, 'vapid.json');
+
+/**
+ * Met.no-endepunkter (samme produkter som appen bruker)
+ */
+const FORECAST_URL = 'https://api.met.no/weatherapi/locationforecast/2.0/complete';
+const NOWCAST_URL = 'https://api.met.no/weatherapi/nowcast/2.0/complete';
+
+/**
+ * USER_AGENT: Påkrevd av Met.no for identifikasjon
+ */
+const USER_AGENT = 'Snoklar-push-relay/1.0 (kontakt@example.com)';
+
+/**
+ * NOWCAST_RETRY_MS: Pause før Nowcast prøves igjen etter feil (f.eks. utenfor dekning)
+ */
+const NOWCAST_RETRY_MS = 30 * 60 * 1000;
+
+/**
+ * MAX_BODY_BYTES: Største tillatte forespørsel
+ */
+const MAX_BODY_BYTES = 1024 * 1024;
+
+// =============================================================================
+// INTERFACES
+// =============================================================================
+
+/**
+ * Subscriber: Én enhet som får push
+ *
+ * @property alertLog - Siste varsel per regel og lokasjon (nedkjølingstid)
+ * @property lastStatus - Forrige snøstatus per lokasjon
+ * @property updatedAt - Når appen sist sendte registreringen
+ */
+interface Subscriber extends PushRegistration {
+  alertLog: Record<string, string>;
+  lastStatus: Record<string, SnowStatus>;
+  updatedAt: string;
+}
+
+// =============================================================================
+// LAGRING
+// =============================================================================
+
+/**
+ * readJson: Les en JSON-fil, eller standardverdi hvis den mangler
+ */
+function readJson<T>(file: string, defaultValue: T): T {
+  try {
+    return existsSync(file) ? JSON.parse(readFileSync(file, 'utf8')) : defaultValue;
+  } catch (error) {
+    console.error(`Kunne ikke lese ${file}:`, error);
+    return defaultValue;
+  }
+}
+
+/**
+ * writeJson: Skriv en JSON-fil (lager mappen ved behov)
+ */
+function writeJson(file: string, data: unknown): void {
+  mkdirSync(DATA_DIR, { recursive: true });
+  writeFileSync(file, JSON.stringify(data, null, 2));
+}
+
+/**
+ * loadVapidKeys: Hent VAPID-nøkler fra miljøet eller fil
+ *
+ * Mangler begge, genereres et nytt par som lagres. Nye nøkler gjør
+ * eksisterende abonnementer ugyldige, så filen bør tas vare på.
+ */
+function loadVapidKeys(): { publicKey: string; privateKey: string } {
+  if (process.env.VAPID_PUBLIC_KEY && process.env.VAPID_PRIVATE_KEY) {
+    return { publicKey: process.env.VAPID_PUBLIC_KEY, privateKey: process.env.VAPID_PRIVATE_KEY };
+  }
+
+  const saved = readJson<{ publicKey: string; privateKey: string } | null>(VAPID_FILE, null);
+  if (saved) return saved;
+
+  const keys = webpush.generateVAPIDKeys();
+  writeJson(VAPID_FILE, keys);
+  console.log(`Nye VAPID-nøkler lagret i ${VAPID_FILE}`);
+  return keys;
+}
+
+const vapidKeys = loadVapidKeys();
+webpush.setVapidDetails(
+  process.env.VAPID_SUBJECT ?? 'mailto:kontakt@example.com',
+  vapidKeys.publicKey,
+  vapidKeys.privateKey
+);
+
+/**
+ * subscribers: Alle abonnenter, med endpoint som nøkkel
+ */
+const subscribers = readJson<Record<string, Subscriber>>(SUBSCRIBERS_FILE, {});
+
+function saveSubscribers(): void {
+  writeJson(SUBSCRIBERS_FILE, subscribers);
+}
+
+// =============================================================================
+// MET.NO
+// =============================================================================
+
+/**
+ * metNoCache: HTTP-cachen til relayet (i minnet)
+ *
+ * Samme regler som appen (se fetchCached i services/metno.ts):
+ * Expires, If-Modified-Since/304 og pause ved 429 og Retry-After.
+ */
+const metNoCache = new Map<string, CachedForecast>();
+
+const METNO_OPTIONS: MetNoRequestOptions = {
+  cache: {
+    read: (key) => metNoCache.get(key),
+    write: (key, entry) => metNoCache.set(key, entry),
+  },
+  userAgent: USER_AGENT,
+};
+
+/**
+ * nowcastRetryAt: Når Nowcast kan prøves igjen etter feil, per koordinat
+ */
+const nowcastRetryAt = new Map<string, number>();
+
+/**
+ * getCoordinateKey: Koordinater avrundet til 4 desimaler (krav fra Met.no)
+ */
+function getCoordinateKey(location: MonitoredLocation): string {
+  return `lat=${location.lat.toFixed(4)}&lon=${location.lon.toFixed(4)}`;
+}
+
+/**
+ * getWeather: Prognose for en lokasjon (cachet til Expires)
+ *
+ * Passerte timer tas vare på mellom hentinger, slik at snødybde-modellen
+ * ser snøfall siden siste brøyting - som i appen.
+ */
+async function getWeather(location: MonitoredLocation): Promise<WeatherData> {
+  const coordinates = getCoordinateKey(location);
+  const key = `forecast:${coordinates}`;
+  return fetchCached(`${FORECAST_URL}?${coordinates}`, key, (data) => {
+    const previous = (metNoCache.get(key)?.data as WeatherData | undefined) ?? null;
+    return mergePastHours(previous, parseWeatherData(data as MetNoResponse));
+  }, METNO_OPTIONS);
+}
+
+/**
+ * getNowcast: Korttidsvarsel for en lokasjon, eller null utenfor dekning
+ */
+async function getNowcast(location: MonitoredLocation): Promise<NowcastData | null> {
+  const coordinates = getCoordinateKey(location);
+  if (Date.now() < (nowcastRetryAt.get(coordinates) ?? 0)) return null;
+
+  try {
+    return await fetchCached(
+      `${NOWCAST_URL}?${coordinates}`,
+      `nowcast:${coordinates}`,
+      (data) => parseNowcast(data as MetNoNowcastResponse),
+      METNO_OPTIONS
+    );
+  } catch {
+    nowcastRetryAt.set(coordinates, Date.now() + NOWCAST_RETRY_MS);
+    return null;
+  }
+}
+
+// =============================================================================
+// VARSLING
+// =============================================================================
+
+/**
+ * isExpiredSubscription: Har push-tjenesten glemt abonnementet?
+ */
+function isExpiredSubscription(error: unknown): boolean {
+  return error instanceof webpush.WebPushError && (error.statusCode === 404 || error.statusCode === 410);
+}
+
+/**
+ * checkSubscriber: Evaluer regler og send push for én abonnent
+ *
+ * @returns false hvis abonnementet er utløpt og skal fjernes
+ */
+async function checkSubscriber(subscriber: Subscriber): Promise<boolean> {
+  for (const location of subscriber.locations) {
+    const weather = await getWeather(location);
+    const nowcast = await getNowcast(location);
+    const status = calculateSnowStatus(location, weather, subscriber.history);
+    const previousStatus = subscriber.lastStatus[location.id] ?? null;
+
+    const now = new Date();
+    const context = { location, weather, nowcast, status, previousStatus, schedule: subscriber.schedule ?? DEFAULT_SCHEDULE, now };
+    const alerts = evaluateAlerts(subscriber.alertRules, context, subscriber.alertLog);
+
+    // En kritisk overgang som ble holdt tilbake, sjekkes på nytt ved neste runde
+    const nextStatus = getStatusToStore(subscriber.alertRules, context, alerts);
+    if (nextStatus) subscriber.lastStatus[location.id] = nextStatus;
+
+    for (const alert of alerts) {
+      const payload: PushPayload = {
+        title: alert.title,
+        body: alert.message,
+        tag: alert.key,
+        locationId: location.id,
+        contractorPhone: subscriber.contractorPhone,
+      };
+
+      try {
+        await webpush.sendNotification(subscriber.subscription as webpush.PushSubscription, JSON.stringify(payload));
+        subscriber.alertLog[alert.key] = now.toISOString();
+        console.log(`Push sendt: ${alert.title}`);
+      } catch (error) {
+        if (isExpiredSubscription(error)) return false;
+        throw error;
+      }
+    }
+  }
+
+  return true;
+}
+
+/**
+ * poll: Sjekk alle abonnenter
+ */
+async function poll(): Promise<void> {
+  for (const [endpoint, subscriber] of Object.entries(subscribers)) {
+    try {
+      if (!(await checkSubscriber(subscriber))) {
+        console.log(`Fjerner utløpt abonnement: ${endpoint}`);
+        delete subscribers[endpoint];
+      }
+    } catch (error) {
+      console.error('Sjekk feilet:', error);
+    }
+  }
+  saveSubscribers();
+}
+
+/**
+ * schedulePoll: Sjekk nå, og planlegg neste sjekk når denne er ferdig
+ *
+ * En treg sjekk (mange abonnenter eller trege API-er) skal ikke
+ * overlappe den neste, så intervallet regnes fra slutten av sjekken.
+ */
+async function schedulePoll(): Promise<void> {
+  try {
+    await poll();
+  } catch (error) {
+    console.error('Sjekk feilet:', error);
+  } finally {
+    setTimeout(schedulePoll, POLL_MS);
+  }
+}
+
+// =============================================================================
+// HTTP
+// =============================================================================
+
+/**
+ * readBody: Les JSON fra forespørselen
+ *
+ * @throws Error hvis innholdet er for stort eller ikke gyldig JSON
+ */
+async function readBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new Error('For stor forespørsel');
+    chunks.push(chunk);
+  }
+
+  return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+}
+
+/**
+ * isRegistration: Enkel validering av registrering fra appen
+ */
+function isRegistration(body: unknown): body is PushRegistration {
+  const registration = body as PushRegistration;
+  return Boolean(
+    registration?.subscription?.endpoint
+    && registration.subscription.keys?.p256dh
+    && registration.subscription.keys?.auth
+    && Array.isArray(registration.locations)
+    && Array.isArray(registration.alertRules)
+    && Array.isArray(registration.history)
+  );
+}
+
+/**
+ * send: Skriv svar med CORS-headere
+ */
+function send(res: ServerResponse, status: number, body = '', contentType = 'text/plain'): void {
+  res.writeHead(status, {
+    'Access-Control-Allow-Origin': ALLOWED_ORIGIN,
+    'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+    'Content-Type': contentType,
+  });
+  res.end(body);
+}
+
+/**
+ * handleRequest: Ruter
+ *
+ * - GET /vapid-public-key: Offentlig nøkkel for PushManager.subscribe
+ * - POST /subscriptions: Lagre/oppdater registrering (PushRegistration)
+ * - DELETE /subscriptions: Fjern abonnement ({ endpoint })
+ */
+async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+
+  if (req.method === 'OPTIONS') return send(res, 204);
+
+  if (req.method === 'GET' && path === '/vapid-public-key') {
+    return send(res, 200, vapidKeys.publicKey);
+  }
+
+  if (path === '/subscriptions' && req.method === 'POST') {
+    const body = await readBody(req);
+    if (!isRegistration(body)) return send(res, 400, 'Ugyldig registrering');
+
+    // Oppdater eksisterende objekt, så en pågående sjekk ikke mister varsel-loggen
+    const endpoint = body.subscription.endpoint as string;
+    const updatedAt = new Date().toISOString();
+    if (subscribers[endpoint]) {
+      Object.assign(subscribers[endpoint], body, { updatedAt });
+    } else {
+      subscribers[endpoint] = { ...body, alertLog: {}, lastStatus: {}, updatedAt };
+    }
+    saveSubscribers();
+    return send(res, 204);
+  }
+
+  if (path === '/subscriptions' && req.method === 'DELETE') {
+    const { endpoint } = (await readBody(req)) as { endpoint?: string };
+    if (endpoint) {
+      delete subscribers[endpoint];
+      saveSubscribers();
+    }
+    return send(res, 204);
+  }
+
+  send(res, 404, 'Ikke funnet');
+}
+
+// =============================================================================
+// OPPSTART
+// =============================================================================
+
+createServer((req, res) => {
+  handleRequest(req, res).catch((error) => {
+    console.error('Forespørsel feilet:', error);
+    send(res, 400, error instanceof Error ? error.message : 'Ukjent feil');
+  });
+}).listen(PORT, () => {
+  console.log(`Push-relay lytter på http://localhost:${PORT}`);
+  console.log(`${Object.keys(subscribers).length} abonnenter, sjekker hvert ${POLL_MS / 60000}. minutt`);
+});
+
+schedulePoll();
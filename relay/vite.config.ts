@@ -0,0 +1,24 @@
+/**
+ * Vite-konfigurasjon for push-relayet
+ *
+ * Bygger relay/server.ts til én Node-fil (relay/dist/server.js).
+ * Delt kode fra src/ (varslingsregler, snødybde, Met.no-parsing)
+ * pakkes inn, mens pakker fra node_modules (web-push) importeres som vanlig.
+ *
+ * Kjøres via `npm run relay`.
+ */
+
+import { fileURLToPath } from 'node:url'
+import { defineConfig } from 'vite'
+
+export default defineConfig({
+  // public/ hører til appen, ikke relayet
+  publicDir: false,
+  build: {
+    // SSR-bygg = Node-mål, avhengigheter holdes eksterne
+    ssr: fileURLToPath(new URL('./server.ts', import.meta.url)),
+    outDir: fileURLToPath(new URL('./dist', import.meta.url)),
+    emptyOutDir: true,
+    target: 'node20',
+  },
+})
@@ -6,7 +6,7 @@
  * - AppContent(): Hovedkomponent med navigasjon og layout
  * 
  * Navigasjon:
- * - Hjem (home): Vær, snøstatus, prognose
+ * - Hjem (home): Vær, snøstatus, prognose (per lokasjon + oversikt)
  * - Historikk (history): Logg over brøytinger
  * - Kontakt (contractor): Entreprenører
  * - Innstillinger (settings): App-innstillinger
@@ -14,15 +14,21 @@
  * @see AppProvider - Global state i context/AppContext.tsx
  */
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { AppProvider } from './context/AppContext';
+import { useApp } from './hooks/useApp';
+import { readNotificationAction } from './services/push';
 import { VERSION, BUILD_DATE } from './lib/version';
 import { WeatherCard } from './components/WeatherCard';
 import { ForecastChart } from './components/ForecastChart';
 import { SnowStatusCard } from './components/SnowStatusCard';
+import { LocationSwitcher } from './components/LocationSwitcher';
+import { LocationOverview } from './components/LocationOverview';
 import { HistoryTable } from './components/HistoryTable';
 import { SettingsForm } from './components/SettingsForm';
 import { ContractorCard } from './components/ContractorCard';
+import { SyncIndicator } from './components/SyncIndicator';
+import { RemoteChangeToast } from './components/RemoteChangeToast';
 import { usePWAAutoUpdate, PWAUpdateNotification } from './components/PWAUpdate';
 
 /**
@@ -46,8 +52,26 @@ type Tab = 'home' | 'history' | 'settings' | 'contractor';
  * @see useApp
  */
 function AppContent() {
+  const { state, dispatch } = useApp();
+  
+  // Handling fra et push-varsel ("Ring brøyter" / "Logg brøyting"), leses én gang
+  const [notificationAction] = useState(readNotificationAction);
+  
   // Aktivt fan-valg (state)
-  const [activeTab, setActiveTab] = useState<Tab>('home');
+  const [activeTab, setActiveTab] = useState<Tab>(() => {
+    if (notificationAction?.action === 'call') return 'contractor';
+    if (notificationAction?.action === 'log') return 'history';
+    return 'home';
+  });
+  const [logFromNotification, setLogFromNotification] = useState(notificationAction?.action === 'log');
+  
+  // Vis lokasjonen varselet gjaldt (når innstillingene er lastet)
+  const notifiedLocationExists = state.settings.locations.some(l => l.id === notificationAction?.locationId);
+  useEffect(() => {
+    if (notificationAction?.locationId && notifiedLocationExists) {
+      dispatch({ type: 'SET_ACTIVE_LOCATION', payload: notificationAction.locationId });
+    }
+  }, [notificationAction, notifiedLocationExists, dispatch]);
   
   // PWA oppdaterings-håndtering
   const { updateAvailable, updateApp } = usePWAAutoUpdate();
@@ -88,17 +112,29 @@ function AppContent() {
        */}
       <PWAUpdateNotification updateAvailable={updateAvailable} onUpdate={updateApp} />
       
+      {/* =====================
+       * Endringer fra andre
+       * =====================
+       * Vises når et annet medlem, en annen enhet eller fane endrer data
+       * @see RemoteChangeToast.tsx
+       */}
+      <RemoteChangeToast />
+      
       {/**
        * Header
        * 
        * Viser:
        * - App-tittel
+       * - Synkroniseringsstatus (med Supabase)
        * - Kreditering til Met.no
        */}
       <header className="bg-gradient-to-r from-slate-900 via-slate-800 to-slate-900 shadow-md z-10">
         <div className="max-w-2xl mx-auto px-4 py-4">
-          {/* App-tittel */}
-          <h1 className="text-2xl font-extrabold text-white">❄️ Snøklar</h1>
+          {/* App-tittel og synkroniseringsstatus */}
+          <div className="flex items-center justify-between gap-2">
+            <h1 className="text-2xl font-extrabold text-white">❄️ Snøklar</h1>
+            <SyncIndicator />
+          </div>
           
           {/* Kreditering til Met.no */}
           <a 
@@ -122,14 +158,16 @@ function AppContent() {
       <main className="max-w-2xl mx-auto px-4 py-6 space-y-4 flex-1 overflow-hidden">
         {activeTab === 'home' && (
           <>
-            {/* Hjem-fane: Vær, snøstatus, prognose */}
+            {/* Hjem-fane: Stedvelger, vær, snøstatus, prognose, oversikt */}
+            <LocationSwitcher />
             <WeatherCard />
             <SnowStatusCard />
             <ForecastChart />
+            <LocationOverview />
           </>
         )}
 
-        {activeTab === 'history' && <HistoryTable />}
+        {activeTab === 'history' && <HistoryTable openAddEntry={logFromNotification} />}
 
         {activeTab === 'contractor' && <ContractorCard />}
 
@@ -149,7 +187,10 @@ function AppContent() {
             {tabs.map((tab) => (
               <button
                 key={tab.id}
-                onClick={() => setActiveTab(tab.id)}
+                onClick={() => {
+                  setActiveTab(tab.id);
+                  setLogFromNotification(false);
+                }}
                 className={`flex flex-col items-center py-2 px-4 rounded-lg transition-colors ${
                   activeTab === tab.id
                     ? 'text-sky-400 bg-slate-800'
@@ -0,0 +1,133 @@
+import { useState } from 'react';
+import { useApp } from '../hooks/useApp';
+import type { PropertyControls } from '../hooks/useProperty';
+
+interface AccountSettingsProps {
+  controls: PropertyControls;
+}
+
+export function AccountSettings({ controls }: AccountSettingsProps) {
+  const { state } = useApp();
+  const { session, members, busy } = controls;
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [name, setName] = useState<string | null>(null);
+
+  const currentName = members.find((m) => m.userId === session?.userId)?.displayName ?? '';
+  const blocked = state.sync.pending > 0;
+  const canSubmit = email.trim() !== '' && password.length >= 6 && !busy;
+
+  const handleSaveAccount = async () => {
+    await controls.saveAccount(email, password);
+    setPassword('');
+  };
+
+  const handleSignIn = async () => {
+    if (!confirm('Logge inn som en annen bruker? Data på denne enheten erstattes av kontoens data.')) return;
+    await controls.signIn(email, password);
+    setPassword('');
+  };
+
+  const handleSignOut = () => {
+    if (!confirm('Logge ut? Enheten får en ny anonym bruker, og dataene blir liggende i en ny, egen eiendom.')) return;
+    controls.signOut();
+  };
+
+  const handleRename = async () => {
+    if (name === null) return;
+    await controls.rename(name);
+    setName(null);
+  };
+
+  return (
+    <div className="mt-4">
+      <h4 className="text-sm font-medium text-slate-300 mb-2">Konto</h4>
+
+      <div className="flex items-center justify-between gap-3 mb-3">
+        <p className="text-sm text-slate-300">
+          {session?.email
+            ? `Innlogget som ${session.email}`
+            : session
+              ? 'Anonym bruker på denne enheten'
+              : 'Ikke innlogget ennå'}
+        </p>
+        {session?.email && (
+          <button
+            onClick={handleSignOut}
+            disabled={busy || blocked}
+            className="text-sm text-slate-400 hover:text-white disabled:opacity-50 transition-colors"
+          >
+            Logg ut
+          </button>
+        )}
+      </div>
+
+      {session && (
+        <>
+          <label className="block text-sm text-slate-400 mb-1">Navn som vises for andre medlemmer</label>
+          <div className="flex gap-2 mb-3">
+            <input
+              type="text"
+              value={name ?? currentName}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="F.eks. Kari"
+              className="flex-1 px-3 py-2 bg-slate-800 border border-slate-600 rounded-lg text-white focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+            />
+            <button
+              onClick={handleRename}
+              disabled={name === null || busy}
+              className="px-4 py-2 bg-slate-700 text-white rounded-lg hover:bg-slate-600 disabled:opacity-50 transition-colors"
+            >
+              Lagre
+            </button>
+          </div>
+        </>
+      )}
+
+      {!session?.email && (
+        <>
+          <div className="grid grid-cols-2 gap-2 mb-2">
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="E-post"
+              autoComplete="email"
+              className="px-3 py-2 bg-slate-800 border border-slate-600 rounded-lg text-white focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+            />
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Passord (minst 6 tegn)"
+              autoComplete="current-password"
+              className="px-3 py-2 bg-slate-800 border border-slate-600 rounded-lg text-white focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+            />
+          </div>
+          <div className="flex gap-2">
+            {session && (
+              <button
+                onClick={handleSaveAccount}
+                disabled={!canSubmit}
+                className="flex-1 px-4 py-2 bg-sky-600 text-white rounded-lg hover:bg-sky-500 disabled:opacity-50 transition-colors"
+              >
+                Lagre konto
+              </button>
+            )}
+            <button
+              onClick={handleSignIn}
+              disabled={!canSubmit || blocked}
+              className="flex-1 px-4 py-2 bg-slate-700 text-white rounded-lg hover:bg-slate-600 disabled:opacity-50 transition-colors"
+            >
+              Logg inn
+            </button>
+          </div>
+          <p className="text-xs text-slate-500 mt-2">
+            Lagre kontoen med e-post og passord for å bruke den på flere enheter, eller logg inn med en
+            konto du allerede har.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
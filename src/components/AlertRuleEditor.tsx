@@ -0,0 +1,194 @@
+import type { AlertCondition, AlertConditionType, AlertRule } from '../types';
+import {
+  ALERT_CONDITION_LABELS,
+  ALERT_TEMPLATE_VARIABLES,
+  DEFAULT_CONDITIONS,
+  DEFAULT_TEMPLATES,
+  createAlertRule,
+} from '../lib/alerts';
+
+interface AlertRuleEditorProps {
+  rules: AlertRule[];
+  onChange: (rules: AlertRule[]) => void;
+}
+
+const inputClass =
+  'w-full px-3 py-2 bg-slate-900 border border-slate-600 rounded-lg text-white focus:ring-2 focus:ring-sky-500 focus:border-sky-500';
+
+export function AlertRuleEditor({ rules, onChange }: AlertRuleEditorProps) {
+  const updateRule = (id: string, changes: Partial<AlertRule>) => {
+    onChange(rules.map((r) => (r.id === id ? { ...r, ...changes } : r)));
+  };
+
+  const updateCondition = (rule: AlertRule, changes: Partial<AlertCondition>) => {
+    updateRule(rule.id, { condition: { ...rule.condition, ...changes } as AlertCondition });
+  };
+
+  const handleTypeChange = (rule: AlertRule, type: AlertConditionType) => {
+    // Behold egendefinert navn og mal, bytt bare ut standardverdiene
+    const isDefaultName = rule.name === ALERT_CONDITION_LABELS[rule.condition.type];
+    const isDefaultTemplate = rule.template === DEFAULT_TEMPLATES[rule.condition.type];
+    updateRule(rule.id, {
+      condition: DEFAULT_CONDITIONS[type],
+      name: isDefaultName ? ALERT_CONDITION_LABELS[type] : rule.name,
+      template: isDefaultTemplate ? DEFAULT_TEMPLATES[type] : rule.template,
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      {rules.map((rule) => {
+        const { condition, quietHours } = rule;
+        return (
+          <div key={rule.id} className={`p-3 bg-slate-800 rounded-lg space-y-3 ${rule.enabled ? '' : 'opacity-60'}`}>
+            <div className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={rule.enabled}
+                onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+                className="h-4 w-4 accent-sky-500"
+                title="Aktiver regel"
+              />
+              <input
+                type="text"
+                value={rule.name}
+                onChange={(e) => updateRule(rule.id, { name: e.target.value })}
+                className={`flex-1 min-w-0 ${inputClass}`}
+              />
+              <button
+                type="button"
+                onClick={() => onChange(rules.filter((r) => r.id !== rule.id))}
+                className="p-2 text-slate-400 hover:text-red-400 hover:bg-slate-700 rounded"
+                title="Slett regel"
+              >
+                🗑️
+              </button>
+            </div>
+
+            <div>
+              <label className="block text-xs text-slate-400 mb-1">Betingelse</label>
+              <select
+                value={condition.type}
+                onChange={(e) => handleTypeChange(rule, e.target.value as AlertConditionType)}
+                className={inputClass}
+              >
+                {(Object.keys(ALERT_CONDITION_LABELS) as AlertConditionType[]).map((type) => (
+                  <option key={type} value={type}>{ALERT_CONDITION_LABELS[type]}</option>
+                ))}
+              </select>
+            </div>
+
+            {(condition.type === 'forecast_snow' || condition.type === 'freezing_rain' || condition.type === 'temperature_crossing') && (
+              <div className="grid grid-cols-2 gap-3">
+                {condition.type === 'forecast_snow' && (
+                  <div>
+                    <label className="block text-xs text-slate-400 mb-1">Minst (mm snø)</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.5"
+                      value={condition.amountMm}
+                      onChange={(e) => updateCondition(rule, { amountMm: parseFloat(e.target.value) || 0 })}
+                      className={inputClass}
+                    />
+                  </div>
+                )}
+                {condition.type === 'temperature_crossing' && (
+                  <div>
+                    <label className="block text-xs text-slate-400 mb-1">Retning</label>
+                    <select
+                      value={condition.direction}
+                      onChange={(e) => updateCondition(rule, { direction: e.target.value as 'up' | 'down' })}
+                      className={inputClass}
+                    >
+                      <option value="up">Mildvær (over 0 °C)</option>
+                      <option value="down">Kuldegrader (under 0 °C)</option>
+                    </select>
+                  </div>
+                )}
+                <div>
+                  <label className="block text-xs text-slate-400 mb-1">Neste (timer)</label>
+                  <input
+                    type="number"
+                    min="1"
+                    max="72"
+                    value={condition.hours}
+                    onChange={(e) => updateCondition(rule, { hours: parseInt(e.target.value) || 1 })}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="flex items-center gap-2 text-xs text-slate-400 mb-1">
+                  <input
+                    type="checkbox"
+                    checked={quietHours !== null}
+                    onChange={(e) =>
+                      updateRule(rule.id, { quietHours: e.target.checked ? { start: '22:00', end: '07:00' } : null })
+                    }
+                    className="accent-sky-500"
+                  />
+                  Stille periode
+                </label>
+                {quietHours && (
+                  <div className="flex items-center gap-1">
+                    <input
+                      type="time"
+                      value={quietHours.start}
+                      onChange={(e) => updateRule(rule.id, { quietHours: { ...quietHours, start: e.target.value } })}
+                      className={inputClass}
+                    />
+                    <span className="text-slate-500">–</span>
+                    <input
+                      type="time"
+                      value={quietHours.end}
+                      onChange={(e) => updateRule(rule.id, { quietHours: { ...quietHours, end: e.target.value } })}
+                      className={inputClass}
+                    />
+                  </div>
+                )}
+              </div>
+              <div>
+                <label className="block text-xs text-slate-400 mb-1">Maks ett varsel per (min)</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="30"
+                  value={rule.cooldownMinutes}
+                  onChange={(e) => updateRule(rule.id, { cooldownMinutes: parseInt(e.target.value) || 0 })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-xs text-slate-400 mb-1">Melding</label>
+              <textarea
+                value={rule.template}
+                onChange={(e) => updateRule(rule.id, { template: e.target.value })}
+                rows={2}
+                className={inputClass}
+              />
+              <p className="text-xs text-slate-500 mt-1">
+                {Object.entries(ALERT_TEMPLATE_VARIABLES).map(([name, description]) => (
+                  <span key={name} title={description} className="inline-block mr-2">{`{${name}}`}</span>
+                ))}
+              </p>
+            </div>
+          </div>
+        );
+      })}
+
+      <button
+        type="button"
+        onClick={() => onChange([...rules, createAlertRule()])}
+        className="w-full px-4 py-2 bg-slate-700 text-white rounded-lg hover:bg-slate-600 transition-colors"
+      >
+        + Ny regel
+      </button>
+    </div>
+  );
+}
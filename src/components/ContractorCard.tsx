@@ -1,11 +1,28 @@
 import { useState } from 'react';
 import { useApp } from '../hooks/useApp';
-import type { Contractor } from '../types';
+import type { Contractor, PricingAgreement } from '../types';
+import { DEFAULT_RESPONSE_TIMEOUT, sortContractors } from '../lib/contractors';
+import { formatCost } from '../lib/costs';
+import { canEdit } from '../services/properties';
+import { getHistoryByContractor } from '../services/repository';
 
 function generateId(): string {
   return Date.now().toString(36) + Math.random().toString(36).substr(2);
 }
 
+function createPricing(type: string): PricingAgreement | undefined {
+  switch (type) {
+    case 'per_visit':
+      return { type: 'per_visit', amount: 0 };
+    case 'per_hour':
+      return { type: 'per_hour', hourlyRate: 0 };
+    case 'seasonal':
+      return { type: 'seasonal', amount: 0 };
+    default:
+      return undefined;
+  }
+}
+
 function ContractorForm({
   contractor,
   onSave,
@@ -109,6 +126,115 @@ function ContractorForm({
         />
       </div>
 
+      <div>
+        <label className="block text-sm text-slate-300 mb-1">Tilgjengelig</label>
+        <div className="flex items-center gap-2">
+          <select
+            value={formData.availableHours ? 'hours' : 'always'}
+            onChange={(e) => setFormData({
+              ...formData,
+              availableHours: e.target.value === 'hours' ? { start: '06:00', end: '22:00' } : undefined,
+            })}
+            className="px-2 py-2 bg-slate-800 border border-slate-600 rounded-lg text-white focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+          >
+            <option value="always">Hele døgnet</option>
+            <option value="hours">Fra–til</option>
+          </select>
+          {formData.availableHours && (
+            <>
+              <input
+                type="time"
+                value={formData.availableHours.start}
+                onChange={(e) => setFormData({
+                  ...formData,
+                  availableHours: { start: e.target.value, end: formData.availableHours?.end ?? '22:00' },
+                })}
+                className="min-w-0 flex-1 px-2 py-2 bg-slate-800 border border-slate-600 rounded-lg text-white focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+              />
+              <span className="text-slate-500">–</span>
+              <input
+                type="time"
+                value={formData.availableHours.end}
+                onChange={(e) => setFormData({
+                  ...formData,
+                  availableHours: { start: formData.availableHours?.start ?? '06:00', end: e.target.value },
+                })}
+                className="min-w-0 flex-1 px-2 py-2 bg-slate-800 border border-slate-600 rounded-lg text-white focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+              />
+            </>
+          )}
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm text-slate-300 mb-1">Svarfrist (minutter)</label>
+        <input
+          type="number"
+          min="5"
+          step="5"
+          value={formData.responseTimeoutMinutes ?? DEFAULT_RESPONSE_TIMEOUT}
+          onChange={(e) => setFormData({ ...formData, responseTimeoutMinutes: parseInt(e.target.value) || DEFAULT_RESPONSE_TIMEOUT })}
+          className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-lg text-white focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+        />
+        <p className="text-xs text-slate-500 mt-1">
+          Uten bekreftelse innen fristen foreslås neste kontakt i rekkefølgen.
+        </p>
+      </div>
+
+      <div>
+        <label className="block text-sm text-slate-300 mb-1">Prisavtale</label>
+        <div className="flex gap-2">
+          <select
+            value={formData.pricing?.type ?? 'none'}
+            onChange={(e) => setFormData({ ...formData, pricing: createPricing(e.target.value) })}
+            className="px-2 py-2 bg-slate-800 border border-slate-600 rounded-lg text-white focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+          >
+            <option value="none">Ingen</option>
+            <option value="per_visit">Per besøk</option>
+            <option value="per_hour">Per time</option>
+            <option value="seasonal">Per sesong</option>
+          </select>
+          {formData.pricing && (
+            <input
+              type="number"
+              min="0"
+              value={formData.pricing.type === 'per_hour' ? formData.pricing.hourlyRate : formData.pricing.amount}
+              onChange={(e) => {
+                const value = parseFloat(e.target.value) || 0;
+                const pricing = formData.pricing;
+                if (!pricing) return;
+                setFormData({
+                  ...formData,
+                  pricing: pricing.type === 'per_hour' ? { ...pricing, hourlyRate: value } : { ...pricing, amount: value },
+                });
+              }}
+              className="min-w-0 flex-1 px-3 py-2 bg-slate-800 border border-slate-600 rounded-lg text-white focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+              placeholder="kr"
+            />
+          )}
+        </div>
+        {formData.pricing?.type === 'per_hour' && (
+          <div className="flex items-center gap-2 mt-2">
+            <label className="text-xs text-slate-400">Minstetid per besøk (timer)</label>
+            <input
+              type="number"
+              min="0"
+              step="0.5"
+              value={formData.pricing.minimumHours ?? ''}
+              onChange={(e) => {
+                const pricing = formData.pricing;
+                if (pricing?.type !== 'per_hour') return;
+                setFormData({
+                  ...formData,
+                  pricing: { ...pricing, minimumHours: e.target.value ? parseFloat(e.target.value) : undefined },
+                });
+              }}
+              className="w-20 px-2 py-1 bg-slate-800 border border-slate-600 rounded-lg text-white text-sm focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+            />
+          </div>
+        )}
+      </div>
+
       <div className="flex gap-3 pt-2">
         <button
           type="submit"
@@ -131,14 +257,30 @@ function ContractorForm({
 
 function ContractorItem({
   contractor,
+  rank,
+  isDragging,
+  readOnly,
   onEdit,
   onDelete,
   onSetPrimary,
+  onMove,
+  onDragStart,
+  onDragOver,
+  onDrop,
+  onDragEnd,
 }: {
   contractor: Contractor;
+  rank: number;
+  isDragging: boolean;
+  readOnly: boolean;
   onEdit: () => void;
   onDelete: () => void;
   onSetPrimary: () => void;
+  onMove: (offset: number) => void;
+  onDragStart: () => void;
+  onDragOver: (e: React.DragEvent) => void;
+  onDrop: () => void;
+  onDragEnd: () => void;
 }) {
   const handleCall = () => {
     window.location.href = `tel:${contractor.phone}`;
@@ -153,10 +295,21 @@ function ContractorItem({
   };
 
   return (
-    <div className={`bg-slate-800 rounded-lg p-4 ${contractor.isPrimary ? 'ring-2 ring-sky-500' : ''}`}>
+    <div
+      draggable={!readOnly}
+      onDragStart={onDragStart}
+      onDragOver={onDragOver}
+      onDrop={onDrop}
+      onDragEnd={onDragEnd}
+      className={`bg-slate-800 rounded-lg p-4 ${contractor.isPrimary ? 'ring-2 ring-sky-500' : ''} ${isDragging ? 'opacity-50' : ''}`}
+    >
       <div className="flex justify-between items-start mb-2">
         <div>
           <div className="flex items-center gap-2">
+            {!readOnly && (
+              <span className="cursor-grab text-slate-500 select-none" title="Dra for å endre rekkefølge">⋮⋮</span>
+            )}
+            <span className="text-xs text-slate-400">{rank}.</span>
             <p className="font-medium text-white">{contractor.name}</p>
             {contractor.isPrimary && (
               <span className="text-xs bg-sky-600 text-white px-2 py-0.5 rounded-full">Favoritt</span>
@@ -166,32 +319,61 @@ function ContractorItem({
           {contractor.email && (
             <p className="text-sm text-slate-500">{contractor.email}</p>
           )}
+          <p className="text-xs text-slate-500">
+            {contractor.availableHours
+              ? `Tilgjengelig ${contractor.availableHours.start}–${contractor.availableHours.end}`
+              : 'Tilgjengelig hele døgnet'}
+            {' · '}svarfrist {contractor.responseTimeoutMinutes ?? DEFAULT_RESPONSE_TIMEOUT} min
+          </p>
+          {contractor.pricing && (
+            <p className="text-xs text-slate-500">
+              {contractor.pricing.type === 'per_visit' && `${formatCost(contractor.pricing.amount)} per besøk`}
+              {contractor.pricing.type === 'per_hour' && `${formatCost(contractor.pricing.hourlyRate)} per time`}
+              {contractor.pricing.type === 'seasonal' && `${formatCost(contractor.pricing.amount)} per sesong`}
+            </p>
+          )}
         </div>
-        <div className="flex gap-1">
-          {!contractor.isPrimary && (
+        {!readOnly && (
+          <div className="flex gap-1">
             <button
-              onClick={onSetPrimary}
+              onClick={() => onMove(-1)}
+              className="p-1.5 text-slate-400 hover:text-white hover:bg-slate-700 rounded"
+              title="Flytt opp"
+            >
+              ▲
+            </button>
+            <button
+              onClick={() => onMove(1)}
+              className="p-1.5 text-slate-400 hover:text-white hover:bg-slate-700 rounded"
+              title="Flytt ned"
+            >
+              ▼
+            </button>
+            {!contractor.isPrimary && (
+              <button
+                onClick={onSetPrimary}
+                className="p-1.5 text-slate-400 hover:text-yellow-400 hover:bg-slate-700 rounded"
+                title="Sett som favoritt"
+              >
+                ★
+              </button>
+            )}
+            <button
+              onClick={onEdit}
               className="p-1.5 text-slate-400 hover:text-yellow-400 hover:bg-slate-700 rounded"
-              title="Sett som favoritt"
+              title="Rediger"
             >
-              ★
+              ✏️
             </button>
-          )}
-          <button
-            onClick={onEdit}
-            className="p-1.5 text-slate-400 hover:text-yellow-400 hover:bg-slate-700 rounded"
-            title="Rediger"
-          >
-            ✏️
-          </button>
-          <button
-            onClick={onDelete}
-            className="p-1.5 text-slate-400 hover:text-red-400 hover:bg-slate-700 rounded"
-            title="Slett"
-          >
-            🗑️
-          </button>
-        </div>
+            <button
+              onClick={onDelete}
+              className="p-1.5 text-slate-400 hover:text-red-400 hover:bg-slate-700 rounded"
+              title="Slett"
+            >
+              🗑️
+            </button>
+          </div>
+        )}
       </div>
 
       <div className="flex gap-2 pt-2">
@@ -223,20 +405,22 @@ function ContractorItem({
 export function ContractorCard() {
   const { state, dispatch } = useApp();
   const { contractors } = state;
+  // Medlemmer med lesetilgang kan ikke endre kontaktene
+  const readOnly = !canEdit(state.sync.property);
   
   const [isAdding, setIsAdding] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
+  const [dragId, setDragId] = useState<string | null>(null);
 
-  const sortedContractors = [...contractors].sort((a, b) => {
-    if (a.isPrimary && !b.isPrimary) return -1;
-    if (!a.isPrimary && b.isPrimary) return 1;
-    return 0;
-  });
+  const sortedContractors = sortContractors(contractors);
+
+  const reorder = (id: string, targetIndex: number) => {
+    const ids = sortedContractors.map(c => c.id).filter(cid => cid !== id);
+    ids.splice(Math.max(0, Math.min(targetIndex, ids.length)), 0, id);
+    dispatch({ type: 'REORDER_CONTRACTORS', payload: ids });
+  };
 
   const handleAdd = (contractor: Contractor) => {
-    if (contractors.length === 0) {
-      contractor.isPrimary = true;
-    }
     dispatch({ type: 'ADD_CONTRACTOR', payload: contractor });
     setIsAdding(false);
   };
@@ -246,14 +430,13 @@ export function ContractorCard() {
     setEditingId(null);
   };
 
-  const handleDelete = (id: string) => {
-    if (confirm('Er du sikker på at du vil slette denne kontakten?')) {
-      const contractor = contractors.find(c => c.id === id);
-      if (contractor?.isPrimary && contractors.length > 1) {
-        const remaining = contractors.filter(c => c.id !== id);
-        remaining[0].isPrimary = true;
-        dispatch({ type: 'SET_CONTRACTOR_PRIMARY', payload: remaining[0].id });
-      }
+  const handleDelete = async (id: string) => {
+    const linked = (await getHistoryByContractor(id)).length;
+    const message = linked > 0
+      ? `Er du sikker på at du vil slette denne kontakten? ${linked} brøytinger i loggen beholder navnet, men mister koblingen.`
+      : 'Er du sikker på at du vil slette denne kontakten?';
+    if (confirm(message)) {
+      // Neste i rekkefølgen blir hovedkontakt (se reduceren)
       dispatch({ type: 'DELETE_CONTRACTOR', payload: id });
     }
   };
@@ -270,7 +453,7 @@ export function ContractorCard() {
     <div className="bg-slate-900 rounded-xl shadow-md p-6">
       <div className="flex justify-between items-center border-b border-slate-700 pb-3 mb-4">
         <h2 className="text-lg font-semibold text-white">Kontakter</h2>
-        {!isAdding && !editingId && (
+        {!readOnly && !isAdding && !editingId && (
           <button
             onClick={() => setIsAdding(true)}
             className="px-4 py-2 bg-sky-600 text-white text-sm rounded-lg hover:bg-sky-500"
@@ -302,27 +485,46 @@ export function ContractorCard() {
       )}
 
       <div className="space-y-3">
-        {sortedContractors.map((contractor) => (
+        {sortedContractors.map((contractor, index) => (
           <ContractorItem
             key={contractor.id}
             contractor={contractor}
+            rank={index + 1}
+            isDragging={dragId === contractor.id}
+            readOnly={readOnly}
             onEdit={() => setEditingId(contractor.id)}
             onDelete={() => handleDelete(contractor.id)}
             onSetPrimary={() => handleSetPrimary(contractor.id)}
+            onMove={(offset) => reorder(contractor.id, index + offset)}
+            onDragStart={() => setDragId(contractor.id)}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={() => dragId && dragId !== contractor.id && reorder(dragId, index)}
+            onDragEnd={() => setDragId(null)}
           />
         ))}
       </div>
 
+      {contractors.length > 1 && (
+        <p className="text-xs text-slate-500 mt-3">
+          Rekkefølgen brukes ved bestilling: svarer ikke første kontakt innen fristen,
+          foreslås neste.
+        </p>
+      )}
+
       {contractors.length === 0 && !isAdding && (
         <p className="text-center text-slate-500 py-4">
           Ingen kontakter lagt til ennå.
-          <br />
-          <button
-            onClick={() => setIsAdding(true)}
-            className="text-sky-400 hover:text-sky-300"
-          >
-            Legg til din første kontakt
-          </button>
+          {!readOnly && (
+            <>
+              <br />
+              <button
+                onClick={() => setIsAdding(true)}
+                className="text-sky-400 hover:text-sky-300"
+              >
+                Legg til din første kontakt
+              </button>
+            </>
+          )}
         </p>
       )}
     </div>
@@ -0,0 +1,42 @@
+import { useApp } from '../hooks/useApp';
+import { sortContractors } from '../lib/contractors';
+
+/**
+ * LEGACY_VALUE: Valg for et gammelt navn som ikke er koblet til en kontakt
+ */
+const LEGACY_VALUE = '__legacy__';
+
+interface ContractorPickerProps {
+  value: string | null;
+  legacyName?: string;
+  keepLegacy?: boolean;
+  onChange: (contractorId: string | null, keepLegacy: boolean) => void;
+}
+
+export function ContractorPicker({ value, legacyName, keepLegacy = false, onChange }: ContractorPickerProps) {
+  const { state } = useApp();
+  const contractors = sortContractors(state.contractors);
+
+  const selectValue = value ?? (legacyName && keepLegacy ? LEGACY_VALUE : '');
+
+  const handleChange = (selected: string) => {
+    if (selected === LEGACY_VALUE) onChange(null, true);
+    else onChange(selected || null, false);
+  };
+
+  return (
+    <select
+      value={selectValue}
+      onChange={(e) => handleChange(e.target.value)}
+      className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-lg text-white focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+    >
+      <option value="">Ingen</option>
+      {legacyName && (
+        <option value={LEGACY_VALUE}>{legacyName} (ikke i kontakter)</option>
+      )}
+      {contractors.map((c) => (
+        <option key={c.id} value={c.id}>{c.name}</option>
+      ))}
+    </select>
+  );
+}
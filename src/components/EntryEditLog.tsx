@@ -0,0 +1,46 @@
+import type { SnowEntryEdit } from '../types';
+import { useProperty } from '../hooks/useProperty';
+import { ENTRY_FIELD_LABELS, formatEntryValue } from '../lib/history';
+
+interface EntryEditLogProps {
+  edits: SnowEntryEdit[];
+}
+
+export function EntryEditLog({ edits }: EntryEditLogProps) {
+  const { session, members } = useProperty();
+
+  const getAuthor = (userId: string | null) => {
+    if (!userId) return null;
+    if (userId === session?.userId) return 'Du';
+    return members.find((m) => m.userId === userId)?.displayName ?? 'Et medlem';
+  };
+
+  return (
+    <details className="mt-4 text-sm">
+      <summary className="cursor-pointer text-slate-400 hover:text-white">
+        Endret {edits.length} {edits.length === 1 ? 'gang' : 'ganger'}
+      </summary>
+      <ul className="mt-2 space-y-2 max-h-48 overflow-y-auto">
+        {[...edits].reverse().map((edit, index) => {
+          const author = getAuthor(edit.by);
+          return (
+            <li key={`${edit.at}-${index}`} className="border-l-2 border-slate-700 pl-3">
+              <p className="text-xs text-slate-500">
+                {new Date(edit.at).toLocaleString('nb-NO', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })}
+                {author && ` · ${author}`}
+              </p>
+              {edit.changes.map((change) => (
+                <p key={change.field} className="text-slate-300">
+                  {ENTRY_FIELD_LABELS[change.field]}:{' '}
+                  <span className="text-slate-500 line-through">{formatEntryValue(change.field, change.from)}</span>
+                  {' → '}
+                  {formatEntryValue(change.field, change.to)}
+                </p>
+              ))}
+            </li>
+          );
+        })}
+      </ul>
+    </details>
+  );
+}
@@ -1,11 +1,23 @@
-import { useMemo } from 'react';
-import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
+import { useMemo, useState } from 'react';
+import { BarChart, Bar, ErrorBar, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
 import { useApp } from '../hooks/useApp';
-import { getWeatherConditionEmoji, getWeatherConditionLabel } from '../services/metno';
+import { getWeatherConditionEmoji, getWeatherConditionLabel, calculateDailySnow } from '../services/metno';
+
+type ForecastView = 'hours' | 'days';
+
+const tooltipStyle = {
+  backgroundColor: '#0f172a',
+  border: '1px solid #334155',
+  borderRadius: '8px',
+  fontSize: '12px',
+  color: '#f1f5f9',
+  whiteSpace: 'pre-line' as const,
+};
 
 export function ForecastChart() {
-  const { state } = useApp();
-  const { weather, settings } = state;
+  const { activeWeather: weather, getSnowStatus } = useApp();
+  const [view, setView] = useState<ForecastView>('hours');
+  const { projectedDepth, projectedDepthLow, projectedDepthHigh } = getSnowStatus();
 
   const chartData = useMemo(() => {
     if (!weather) return [];
@@ -15,6 +27,14 @@ export function ForecastChart() {
       return {
         time: date.getHours().toString().padStart(2, '0') + ':00',
         snow: entry.snow,
+        snowMin: entry.snowMin ?? entry.snow,
+        snowMax: entry.snowMax ?? entry.snow,
+        // ErrorBar forventer [avstand ned, avstand opp] fra medianen
+        snowRange: [
+          entry.snow - (entry.snowMin ?? entry.snow),
+          (entry.snowMax ?? entry.snow) - entry.snow,
+        ],
+        precipitationProbability: entry.precipitationProbability,
         precipitationType: entry.precipitationType,
         precipitation: entry.precipitation,
         temperature: entry.temperature,
@@ -23,6 +43,16 @@ export function ForecastChart() {
     });
   }, [weather]);
 
+  const dailyData = useMemo(() => {
+    if (!weather) return [];
+
+    return calculateDailySnow(weather).map((day) => ({
+      ...day,
+      day: new Date(`${day.date}T12:00:00`).toLocaleDateString('nb-NO', { weekday: 'short', day: 'numeric' }),
+      snowRange: [day.snow - day.snowMin, day.snowMax - day.snow],
+    }));
+  }, [weather]);
+
   const getPrecipIcon = (type: string) => {
     if (type === 'snow') return '❄️';
     if (type === 'sleet') return '🌨️';
@@ -35,8 +65,26 @@ export function ForecastChart() {
 
   return (
     <div className="bg-slate-900 rounded-xl shadow-md p-6">
-      <h2 className="text-lg font-semibold text-white border-b border-slate-700 pb-3 mb-4">Snøprognose (24 timer)</h2>
+      <div className="flex justify-between items-center border-b border-slate-700 pb-3 mb-4">
+        <h2 className="text-lg font-semibold text-white">
+          Snøprognose ({view === 'hours' ? '24 timer' : `${dailyData.length} døgn`})
+        </h2>
+        <div className="flex bg-slate-800 rounded-lg p-0.5 text-xs">
+          {(['hours', 'days'] as const).map((v) => (
+            <button
+              key={v}
+              onClick={() => setView(v)}
+              className={`px-3 py-1 rounded-md transition-colors ${
+                view === v ? 'bg-sky-600 text-white' : 'text-slate-300 hover:text-white'
+              }`}
+            >
+              {v === 'hours' ? 'Timer' : 'Døgn'}
+            </button>
+          ))}
+        </div>
+      </div>
       
+      {view === 'hours' ? (
       <div className="h-48 w-full">
         <ResponsiveContainer width="100%" height={192}>
           <BarChart data={chartData} margin={{ top: 5, right: 5, bottom: 5, left: 5 }}>
@@ -50,14 +98,7 @@ export function ForecastChart() {
               label={{ value: 'mm', angle: -90, position: 'insideLeft', fontSize: 10, fill: '#94a3b8' }}
             />
             <Tooltip
-              contentStyle={{
-                backgroundColor: '#0f172a',
-                border: '1px solid #334155',
-                borderRadius: '8px',
-                fontSize: '12px',
-                color: '#f1f5f9',
-                whiteSpace: 'pre-line',
-              }}
+              contentStyle={tooltipStyle}
               formatter={(value, name, props) => {
                 if (name === 'snow') {
                   const hasPrecip = props.payload.precipitation > 0;
@@ -67,8 +108,15 @@ export function ForecastChart() {
                   const label = hasPrecip 
                     ? 'Nedbør'
                     : getWeatherConditionLabel(props.payload.weatherCondition);
+                  const { snowMin, snowMax, precipitationProbability } = props.payload;
+                  const range = snowMax > snowMin
+                    ? '\n' + `↕️ ${snowMin.toFixed(1)}–${snowMax.toFixed(1)} mm`
+                    : '';
+                  const probability = precipitationProbability !== undefined
+                    ? '\n' + `☔ ${Math.round(precipitationProbability)} % sjanse`
+                    : '';
                   return [
-                    `${label}` + '\n' + `${icon} ${Number(value).toFixed(1)} mm` + '\n' + `🌡️ ${props.payload.temperature}°C`,
+                    `${label}` + '\n' + `${icon} ${Number(value).toFixed(1)} mm` + range + probability + '\n' + `🌡️ ${props.payload.temperature}°C`,
                     undefined
                   ];
                 }
@@ -80,14 +128,51 @@ export function ForecastChart() {
               dataKey="snow" 
               fill="#38bdf8" 
               radius={[4, 4, 0, 0]}
+            >
+              {/* Usikkerhetsbånd: lavt til høyt anslag fra Met.no complete */}
+              <ErrorBar dataKey="snowRange" width={3} stroke="#f59e0b" strokeWidth={1} />
+            </Bar>
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+      ) : (
+      <div className="h-48 w-full">
+        <ResponsiveContainer width="100%" height={192}>
+          <BarChart data={dailyData} margin={{ top: 5, right: 5, bottom: 5, left: 5 }}>
+            <XAxis dataKey="day" tick={{ fontSize: 10, fill: '#94a3b8' }} interval={0} />
+            <YAxis
+              tick={{ fontSize: 10, fill: '#94a3b8' }}
+              label={{ value: 'mm', angle: -90, position: 'insideLeft', fontSize: 10, fill: '#94a3b8' }}
+            />
+            <Tooltip
+              contentStyle={tooltipStyle}
+              formatter={(value, name, props) => {
+                if (name === 'snow') {
+                  const { snowMin, snowMax } = props.payload;
+                  return [
+                    `❄️ ${Number(value).toFixed(1)} mm` + '\n' + `↕️ ${snowMin.toFixed(1)}–${snowMax.toFixed(1)} mm`,
+                    undefined,
+                  ];
+                }
+                return [value, name];
+              }}
             />
+            <Bar dataKey="snow" fill="#38bdf8" radius={[4, 4, 0, 0]}>
+              <ErrorBar dataKey="snowRange" width={4} stroke="#f59e0b" strokeWidth={1} />
+            </Bar>
           </BarChart>
         </ResponsiveContainer>
       </div>
+      )}
 
       <div className="mt-4 pt-4 border-t border-slate-700 flex justify-between text-sm text-slate-300">
-        <span>Terskel: {settings.snowThreshold.toFixed(1)} mm</span>
-        <span>Total: {chartData.reduce((sum, d) => sum + d.snow, 0).toFixed(1)} mm</span>
+        <span>
+          Total: {(view === 'hours' ? chartData : dailyData).reduce((sum, d) => sum + d.snow, 0).toFixed(1)} mm (vannekv.)
+        </span>
+        <span>
+          Snødybde om 24t: {projectedDepth.toFixed(1)} cm
+          <span className="text-slate-500"> ({projectedDepthLow.toFixed(1)}–{projectedDepthHigh.toFixed(1)})</span>
+        </span>
       </div>
     </div>
   );
@@ -0,0 +1,126 @@
+import { useState } from 'react';
+import { useApp } from '../hooks/useApp';
+import { useHistoryQuery } from '../hooks/useHistoryQuery';
+import type { SnowEntry } from '../types';
+import {
+  EXPORT_FORMAT_LABELS,
+  createExport,
+  filterEntries,
+  getContractorOptions,
+  getExportQuery,
+  type ExportFormat,
+} from '../lib/historyExport';
+
+const REVOKE_URL_MS = 60 * 1000;
+
+export function HistoryExport({
+  isOpen,
+  onClose,
+  entries,
+  indexed,
+}: {
+  isOpen: boolean;
+  onClose: () => void;
+  entries: SnowEntry[];
+  indexed: boolean;
+}) {
+  const { state } = useApp();
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [contractor, setContractor] = useState('');
+
+  // Den aktive loggen hentes fra databasens indekser; arkivet filtreres i minnet
+  const filter = { from: from || null, to: to || null, contractor: contractor || null };
+  const query = useHistoryQuery(isOpen && indexed ? getExportQuery(filter) : null, entries);
+
+  if (!isOpen) return null;
+
+  const selected = filterEntries(query.entries ?? entries, filter);
+  const options = getContractorOptions(entries, state.contractors);
+
+  const handleExport = (format: ExportFormat) => {
+    const file = createExport(format, selected, entries, state.contractors, state.settings.locations, filter, new Date());
+    const blob = new Blob([file.data], { type: file.type });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = file.fileName;
+    link.click();
+    // Nedlastingen trenger adressen en stund etter klikket
+    setTimeout(() => URL.revokeObjectURL(url), REVOKE_URL_MS);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4">
+      <div className="bg-slate-900 rounded-xl p-6 w-full max-w-md border border-slate-700">
+        <h2 className="text-xl font-semibold text-white mb-4">Eksporter brøytinger</h2>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-1">Fra</label>
+              <input
+                type="date"
+                value={from}
+                onChange={(e) => setFrom(e.target.value)}
+                className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-lg text-white focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-1">Til</label>
+              <input
+                type="date"
+                value={to}
+                onChange={(e) => setTo(e.target.value)}
+                className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-lg text-white focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-1">Entreprenør</label>
+            <select
+              value={contractor}
+              onChange={(e) => setContractor(e.target.value)}
+              className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-lg text-white focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+            >
+              <option value="">Alle</option>
+              {options.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <p className="text-sm text-slate-400">
+            {query.loading ? 'Henter brøytinger...' : `${selected.length} av ${entries.length} brøytinger eksporteres.`}
+          </p>
+
+          <div className="grid grid-cols-3 gap-2">
+            {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map((format) => (
+              <button
+                key={format}
+                onClick={() => handleExport(format)}
+                disabled={query.loading || selected.length === 0}
+                className="px-3 py-2 bg-sky-600 text-white text-sm rounded-lg hover:bg-sky-500 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {EXPORT_FORMAT_LABELS[format]}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-slate-500">
+            CSV og Excel har kostnad etter prisavtalen. JSON kan importeres igjen.
+          </p>
+        </div>
+
+        <div className="flex mt-6">
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-2 border border-slate-600 text-slate-300 rounded-lg hover:bg-slate-800"
+          >
+            Lukk
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
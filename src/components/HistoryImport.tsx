@@ -0,0 +1,265 @@
+import { useState } from 'react';
+import { useApp } from '../hooks/useApp';
+import type { SnowEntry } from '../types';
+import { getAllArchivedEntries } from '../services/repository';
+import {
+  IMPORT_FIELD_LABELS,
+  buildImportPreview,
+  getMappingError,
+  guessMapping,
+  mergeImportedEntries,
+  readImportFile,
+  type ColumnMapping,
+  type ImportField,
+  type ImportRow,
+  type ImportTable,
+} from '../lib/historyImport';
+
+type Step = 'file' | 'mapping' | 'preview';
+
+export function HistoryImport({ isOpen, onClose }: { isOpen: boolean; onClose: () => void }) {
+  const { state, dispatch, activeLocation } = useApp();
+  const [step, setStep] = useState<Step>('file');
+  const [fileName, setFileName] = useState('');
+  const [table, setTable] = useState<ImportTable | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>([]);
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [archived, setArchived] = useState<SnowEntry[]>([]);
+  const [includeDuplicates, setIncludeDuplicates] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  if (!isOpen) return null;
+
+  const handleClose = () => {
+    setStep('file');
+    setFileName('');
+    setTable(null);
+    setMapping([]);
+    setRows([]);
+    setArchived([]);
+    setIncludeDuplicates(false);
+    setError(null);
+    onClose();
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await readImportFile(file);
+      setFileName(file.name);
+      setTable(result);
+      setMapping(guessMapping(result.header));
+      setStep('mapping');
+    } catch (err) {
+      setError(`Kunne ikke lese filen: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleMappingChange = (column: number, field: ImportField | null) => {
+    // Hvert felt kan bare kobles til én kolonne
+    setMapping(mapping.map((current, i) => (i === column ? field : current === field ? null : current)));
+  };
+
+  // Arkiverte sesonger hentes også, så gamle brøytinger ikke importeres på nytt
+  const handlePreview = async () => {
+    if (!table) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const archivedEntries = await getAllArchivedEntries();
+      setArchived(archivedEntries);
+      setRows(buildImportPreview(table, mapping, {
+        history: state.history,
+        archived: archivedEntries,
+        contractors: state.contractors,
+        locations: state.settings.locations,
+        defaultLocationId: activeLocation.id,
+      }));
+      setStep('preview');
+    } catch (err) {
+      setError(`Kunne ikke lese arkivet: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleImport = () => {
+    dispatch({
+      type: 'SET_HISTORY',
+      payload: mergeImportedEntries({ history: state.history, archived }, rows, includeDuplicates),
+    });
+    handleClose();
+  };
+
+  const mappingError = getMappingError(mapping);
+  const valid = rows.filter(r => r.entry !== null);
+  const duplicates = valid.filter(r => r.duplicate);
+  const invalid = rows.length - valid.length;
+  const importCount = includeDuplicates ? valid.length : valid.length - duplicates.length;
+
+  const formatDate = (isoString: string) => {
+    return new Date(isoString).toLocaleString('nb-NO', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const getLocationName = (locationId?: string) => {
+    return state.settings.locations.find(l => l.id === locationId)?.name ?? '-';
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4">
+      <div className="bg-slate-900 rounded-xl p-6 w-full max-w-2xl border border-slate-700 max-h-[90vh] flex flex-col">
+        <h2 className="text-xl font-semibold text-white mb-1">Importer brøytinger</h2>
+        <p className="text-sm text-slate-400 mb-4">
+          {step === 'file' && 'Steg 1 av 3: Velg fil'}
+          {step === 'mapping' && `Steg 2 av 3: Koble kolonner (${fileName})`}
+          {step === 'preview' && 'Steg 3 av 3: Kontroller'}
+        </p>
+
+        <div className="overflow-y-auto flex-1">
+          {step === 'file' && (
+            <div className="space-y-3">
+              <p className="text-sm text-slate-300">
+                Velg en CSV-, Excel- (XLSX) eller JSON-fil med én brøyting per rad. Filer eksportert fra
+                Snøklar kan leses direkte.
+              </p>
+              <input
+                type="file"
+                accept=".csv,.txt,.xlsx,.json,text/csv,application/json"
+                disabled={loading}
+                onChange={(e) => handleFile(e.target.files?.[0])}
+                className="block w-full text-sm text-slate-300 file:mr-3 file:px-4 file:py-2 file:rounded-lg file:border-0 file:bg-sky-600 file:text-white hover:file:bg-sky-500"
+              />
+              {loading && <p className="text-sm text-slate-400">Leser filen...</p>}
+            </div>
+          )}
+
+          {step === 'mapping' && table && (
+            <div className="space-y-2">
+              <p className="text-sm text-slate-300 mb-3">
+                {table.rows.length} rader. Velg hva hver kolonne inneholder. Datoen må være med; klokkeslett kan stå
+                i samme kolonne eller i en egen.
+              </p>
+              {table.header.map((header, column) => (
+                <div key={column} className="grid grid-cols-3 gap-3 items-center">
+                  <div className="text-sm text-white truncate" title={header}>{header || `Kolonne ${column + 1}`}</div>
+                  <select
+                    value={mapping[column] ?? ''}
+                    onChange={(e) => handleMappingChange(column, (e.target.value || null) as ImportField | null)}
+                    className="px-2 py-1.5 bg-slate-800 border border-slate-600 rounded-lg text-white text-sm focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+                  >
+                    <option value="">Ignorer</option>
+                    {(Object.keys(IMPORT_FIELD_LABELS) as ImportField[]).map((field) => (
+                      <option key={field} value={field}>{IMPORT_FIELD_LABELS[field]}</option>
+                    ))}
+                  </select>
+                  <div className="text-xs text-slate-500 truncate" title={table.rows[0]?.[column] ?? ''}>
+                    f.eks. {table.rows[0]?.[column] || '–'}
+                  </div>
+                </div>
+              ))}
+              {mappingError && <p className="text-sm text-yellow-400 mt-3">{mappingError}</p>}
+            </div>
+          )}
+
+          {step === 'preview' && (
+            <div className="space-y-3">
+              <p className="text-sm text-slate-300">
+                {valid.length - duplicates.length} nye, {duplicates.length} duplikater og {invalid} med feil.
+              </p>
+              {duplicates.length > 0 && (
+                <label className="flex items-center gap-2 text-sm text-slate-300">
+                  <input
+                    type="checkbox"
+                    checked={includeDuplicates}
+                    onChange={(e) => setIncludeDuplicates(e.target.checked)}
+                    className="rounded border-slate-600 bg-slate-800 text-sky-600 focus:ring-sky-500"
+                  />
+                  Importer duplikater likevel
+                </label>
+              )}
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-slate-700">
+                    <th className="text-left py-2 font-medium text-slate-400 w-12">Linje</th>
+                    <th className="text-left py-2 font-medium text-slate-400">Brøyting</th>
+                    <th className="text-left py-2 font-medium text-slate-400 w-24">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((row) => (
+                    <tr key={row.line} className="border-b border-slate-700/50 align-top">
+                      <td className="py-2 text-slate-500">{row.line}</td>
+                      <td className="py-2 text-slate-300">
+                        {row.entry && (
+                          <div>
+                            {formatDate(row.entry.timestamp)}
+                            {row.entry.snowDepth !== undefined && ` · ${row.entry.snowDepth * 10} mm`}
+                            {row.entry.contractor && ` · ${row.entry.contractor}`}
+                            {row.entry.durationMinutes !== undefined && ` · ${row.entry.durationMinutes} min`}
+                            {state.settings.locations.length > 1 && ` · ${getLocationName(row.entry.locationId)}`}
+                            {row.entry.comment && <span className="text-slate-500"> · {row.entry.comment}</span>}
+                          </div>
+                        )}
+                        {row.errors.map((message) => (
+                          <div key={message} className="text-xs text-red-400">{message}</div>
+                        ))}
+                        {row.warnings.map((message) => (
+                          <div key={message} className="text-xs text-yellow-400">{message}</div>
+                        ))}
+                      </td>
+                      <td className="py-2 whitespace-nowrap">
+                        {!row.entry && <span className="text-red-400">Feil</span>}
+                        {row.entry && row.duplicate && <span className="text-slate-400">Duplikat</span>}
+                        {row.entry && !row.duplicate && <span className="text-green-400">Ny</span>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-400 mt-3">{error}</p>}
+        </div>
+
+        <div className="flex gap-3 mt-6">
+          <button
+            onClick={step === 'file' ? handleClose : () => setStep(step === 'preview' ? 'mapping' : 'file')}
+            className="flex-1 px-4 py-2 border border-slate-600 text-slate-300 rounded-lg hover:bg-slate-800"
+          >
+            {step === 'file' ? 'Avbryt' : 'Tilbake'}
+          </button>
+          {step === 'mapping' && (
+            <button
+              onClick={handlePreview}
+              disabled={mappingError !== null || loading}
+              className="flex-1 px-4 py-2 bg-sky-600 text-white rounded-lg hover:bg-sky-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Neste
+            </button>
+          )}
+          {step === 'preview' && (
+            <button
+              onClick={handleImport}
+              disabled={importCount === 0}
+              className="flex-1 px-4 py-2 bg-sky-600 text-white rounded-lg hover:bg-sky-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Importer {importCount} brøytinger
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import { useState } from 'react';
+import { useApp } from '../hooks/useApp';
+import { useHistoryQuery } from '../hooks/useHistoryQuery';
+import type { SnowEntry } from '../types';
+import { getSeasonRange, getSeasonReports } from '../lib/costs';
+import { createSeasonReportPdf, getReportFileName } from '../lib/seasonReportPdf';
+
+const REVOKE_URL_MS = 60 * 1000;
+
+export function HistoryReport({
+  isOpen,
+  onClose,
+  entries,
+  indexed,
+}: {
+  isOpen: boolean;
+  onClose: () => void;
+  entries: SnowEntry[];
+  indexed: boolean;
+}) {
+  const { state } = useApp();
+  const [selected, setSelected] = useState<string | null>(null);
+
+  const reports = isOpen ? getSeasonReports(entries, state.contractors) : [];
+  const report = reports.find((r) => r.season === selected) ?? reports[0];
+
+  // Sesongens brøytinger i den aktive loggen hentes fra databasens indekser
+  const range = report && indexed ? getSeasonRange(report.season) : null;
+  const query = useHistoryQuery(range && { ...range, contractorId: null }, entries);
+
+  if (!isOpen) return null;
+
+  const createUrl = () => {
+    const pdf = createSeasonReportPdf({
+      season: report.season,
+      history: query.entries ?? entries,
+      contractors: state.contractors,
+      locations: state.settings.locations,
+      propertyName: state.sync.property?.name ?? null,
+      now: new Date(),
+    });
+    return URL.createObjectURL(new Blob([pdf], { type: 'application/pdf' }));
+  };
+
+  // Nedlastingen og fanen trenger adressen en stund etter klikket
+  const revokeLater = (url: string) => setTimeout(() => URL.revokeObjectURL(url), REVOKE_URL_MS);
+
+  const handleDownload = () => {
+    const url = createUrl();
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = getReportFileName(report.season);
+    link.click();
+    revokeLater(url);
+  };
+
+  const handleOpen = () => {
+    const url = createUrl();
+    window.open(url, '_blank');
+    revokeLater(url);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4">
+      <div className="bg-slate-900 rounded-xl p-6 w-full max-w-md border border-slate-700">
+        <h2 className="text-xl font-semibold text-white mb-4">Brøyterapport</h2>
+
+        {!report ? (
+          <p className="text-sm text-slate-400">Ingen brøytinger å lage rapport fra.</p>
+        ) : (
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-1">Sesong</label>
+              <select
+                value={report.season}
+                onChange={(e) => setSelected(e.target.value)}
+                className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-lg text-white focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+              >
+                {reports.map((r) => (
+                  <option key={r.season} value={r.season}>{r.season} ({r.visits} brøytinger)</option>
+                ))}
+              </select>
+            </div>
+
+            <p className="text-sm text-slate-400">
+              PDF med nøkkeltall, brøytinger per måned, snødybde og modellens estimat, fordeling per
+              entreprenør og alle brøytinger i sesongen. Rapporten lages på enheten.
+            </p>
+
+            <div className="grid grid-cols-2 gap-2">
+              <button
+                onClick={handleDownload}
+                disabled={query.loading}
+                className="px-3 py-2 bg-sky-600 text-white text-sm rounded-lg hover:bg-sky-500 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Last ned PDF
+              </button>
+              <button
+                onClick={handleOpen}
+                disabled={query.loading}
+                className="px-3 py-2 border border-slate-600 text-slate-300 text-sm rounded-lg hover:bg-slate-800 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Åpne for utskrift
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div className="flex mt-6">
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-2 border border-slate-600 text-slate-300 rounded-lg hover:bg-slate-800"
+          >
+            Lukk
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
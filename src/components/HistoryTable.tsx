@@ -1,6 +1,20 @@
 import { useState, useEffect } from 'react';
 import { useApp } from '../hooks/useApp';
 import type { SnowEntry } from '../types';
+import { useFrostObservations } from '../hooks/useFrostObservations';
+import { getEntryObservation } from '../services/frost';
+import { findEntryContractor } from '../lib/costs';
+import { describeRetention } from '../lib/retention';
+import { useHistoryArchive } from '../hooks/useHistoryArchive';
+import { canEdit } from '../services/properties';
+import { ContractorPicker } from './ContractorPicker';
+import { EntryEditLog } from './EntryEditLog';
+import { HistoryExport } from './HistoryExport';
+import { HistoryImport } from './HistoryImport';
+import { HistoryReport } from './HistoryReport';
+import { SeasonReport } from './SeasonReport';
+
+const UNDO_MS = 8 * 1000;
 
 export function EditEntryModal({ 
   isOpen, 
@@ -11,7 +25,7 @@ export function EditEntryModal({
   onClose: () => void; 
   entry: SnowEntry | null;
 }) {
-  const { dispatch } = useApp();
+  const { state, dispatch } = useApp();
   
   const getDateFromIso = (iso: string) => {
     const d = new Date(iso);
@@ -26,17 +40,24 @@ export function EditEntryModal({
   const getInitialState = () => ({
     snowDepth: entry?.snowDepth?.toString() || '',
     comment: entry?.comment || '',
-    contractor: entry?.contractor || '',
+    contractorId: entry?.contractorId ?? null,
+    duration: entry?.durationMinutes ? (entry.durationMinutes / 60).toString() : '',
     date: entry ? getDateFromIso(entry.timestamp) : '',
     time: entry ? getTimeFromIso(entry.timestamp) : '',
   });
 
   const [snowDepth, setSnowDepth] = useState(getInitialState().snowDepth);
   const [comment, setComment] = useState(getInitialState().comment);
-  const [contractor, setContractor] = useState(getInitialState().contractor);
+  const [contractorId, setContractorId] = useState<string | null>(getInitialState().contractorId);
+  const [keepLegacy, setKeepLegacy] = useState(true);
+  const [duration, setDuration] = useState(getInitialState().duration);
   const [date, setDate] = useState(getInitialState().date);
   const [time, setTime] = useState(getInitialState().time);
 
+  const getContractorName = (id: string | null) => {
+    return state.contractors.find(c => c.id === id)?.name;
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!entry) return;
@@ -48,10 +69,12 @@ export function EditEntryModal({
       timestamp,
       snowDepth: snowDepth ? parseFloat(snowDepth) : undefined,
       comment: comment || undefined,
-      contractor: contractor || undefined,
+      contractor: getContractorName(contractorId) ?? (keepLegacy && !entry.contractorId ? entry.contractor : undefined),
+      contractorId: contractorId ?? undefined,
+      durationMinutes: duration ? Math.round(parseFloat(duration) * 60) : undefined,
     };
 
-    dispatch({ type: 'ADD_HISTORY', payload: updatedEntry });
+    dispatch({ type: 'UPDATE_HISTORY', payload: { entry: updatedEntry, editedAt: new Date().toISOString() } });
     onClose();
   };
 
@@ -120,12 +143,29 @@ export function EditEntryModal({
               <label className="block text-sm font-medium text-slate-300 mb-1">
                 Entreprenør - valgfritt
               </label>
+              <ContractorPicker
+                value={contractorId}
+                legacyName={entry.contractorId ? undefined : entry.contractor}
+                keepLegacy={keepLegacy}
+                onChange={(id, keep) => {
+                  setContractorId(id);
+                  setKeepLegacy(keep);
+                }}
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-1">
+                Tid brukt (timer) - valgfritt
+              </label>
               <input
-                type="text"
-                value={contractor}
-                onChange={(e) => setContractor(e.target.value)}
+                type="number"
+                step="0.25"
+                min="0"
+                value={duration}
+                onChange={(e) => setDuration(e.target.value)}
                 className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-lg text-white focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
-                placeholder="f.eks. Brøy'n AS"
+                placeholder="f.eks. 1.5"
               />
             </div>
           </div>
@@ -146,27 +186,29 @@ export function EditEntryModal({
             </button>
           </div>
         </form>
+
+        {entry.edits && entry.edits.length > 0 && <EntryEditLog edits={entry.edits} />}
       </div>
     </div>
   );
 }
 
 export function AddEntryModal({ isOpen, onClose }: { isOpen: boolean; onClose: () => void }) {
-  const { state, dispatch } = useApp();
+  const { state, dispatch, activeLocation, activeWeather, getSnowStatus } = useApp();
   
   const getInitialSnowDepth = () => {
-    if (!state.weather) return '';
-    const temp = state.weather.current.temperature;
-    const precip = state.weather.current.precipitation;
-    if (temp < 2 && precip > 0) {
-      return precip.toString();
+    if (!activeWeather) return '';
+    const snow = activeWeather.current.snow;
+    if (snow > 0) {
+      return snow.toString();
     }
     return '';
   };
   
   const [snowDepth, setSnowDepth] = useState(getInitialSnowDepth);
   const [comment, setComment] = useState('');
-  const [contractor, setContractor] = useState('');
+  const [contractorId, setContractorId] = useState<string | null>(null);
+  const [duration, setDuration] = useState('');
   const [date, setDate] = useState('');
   const [time, setTime] = useState('');
 
@@ -174,7 +216,7 @@ export function AddEntryModal({ isOpen, onClose }: { isOpen: boolean; onClose: (
     if (isOpen) {
       setSnowDepth(getInitialSnowDepth());
     }
-  }, [isOpen, state.weather]);
+  }, [isOpen, activeWeather]);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -186,19 +228,27 @@ export function AddEntryModal({ isOpen, onClose }: { isOpen: boolean; onClose: (
       timestamp = new Date().toISOString();
     }
     
+    // Modellens estimat gjelder kun når brøytingen logges nå
+    const isNow = !(date && time);
+    
     const entry: SnowEntry = {
       id: crypto.randomUUID(),
       timestamp,
       snowDepth: snowDepth ? parseFloat(snowDepth) : undefined,
       comment: comment || undefined,
-      contractor: contractor || undefined,
+      contractor: state.contractors.find(c => c.id === contractorId)?.name,
+      contractorId: contractorId ?? undefined,
+      durationMinutes: duration ? Math.round(parseFloat(duration) * 60) : undefined,
+      locationId: activeLocation.id,
+      forecastDepth: isNow && activeWeather ? getSnowStatus(activeLocation.id).currentDepth : undefined,
     };
 
     dispatch({ type: 'ADD_HISTORY', payload: entry });
     
     setSnowDepth('');
     setComment('');
-    setContractor('');
+    setContractorId(null);
+    setDuration('');
     setDate('');
     setTime('');
     onClose();
@@ -210,6 +260,7 @@ export function AddEntryModal({ isOpen, onClose }: { isOpen: boolean; onClose: (
     <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4">
       <div className="bg-slate-900 rounded-xl p-6 w-full max-w-md border border-slate-700">
         <h2 className="text-xl font-semibold text-white mb-4">Logg brøyting</h2>
+        <p className="text-sm text-slate-400 -mt-3 mb-4">📍 {activeLocation.name}</p>
         
         <form onSubmit={handleSubmit}>
           <div className="space-y-4">
@@ -270,12 +321,21 @@ export function AddEntryModal({ isOpen, onClose }: { isOpen: boolean; onClose: (
               <label className="block text-sm font-medium text-slate-300 mb-1">
                 Entreprenør - valgfritt
               </label>
+              <ContractorPicker value={contractorId} onChange={(id) => setContractorId(id)} />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-1">
+                Tid brukt (timer) - valgfritt
+              </label>
               <input
-                type="text"
-                value={contractor}
-                onChange={(e) => setContractor(e.target.value)}
+                type="number"
+                step="0.25"
+                min="0"
+                value={duration}
+                onChange={(e) => setDuration(e.target.value)}
                 className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-lg text-white focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
-                placeholder="f.eks. Brøy'n AS"
+                placeholder="f.eks. 1.5"
               />
             </div>
           </div>
@@ -301,15 +361,53 @@ export function AddEntryModal({ isOpen, onClose }: { isOpen: boolean; onClose: (
   );
 }
 
-export function HistoryTable() {
+export function HistoryTable({ openAddEntry = false }: { openAddEntry?: boolean }) {
   const { state, dispatch } = useApp();
-  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [isModalOpen, setIsModalOpen] = useState(openAddEntry);
   const [editingEntry, setEditingEntry] = useState<SnowEntry | null>(null);
+  const [season, setSeason] = useState<string | null>(null);
+  const [deletedEntry, setDeletedEntry] = useState<SnowEntry | null>(null);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isReportOpen, setIsReportOpen] = useState(false);
+
+  // Arkiverte sesonger vises uten redigering
+  const archive = useHistoryArchive(season, state.history);
+  const isArchive = season !== null && archive.seasons.some(s => s.season === season);
+  const entries = isArchive ? archive.entries : state.history;
+  // Medlemmer med lesetilgang kan ikke endre loggen
+  const viewer = !canEdit(state.sync.property);
+  const readOnly = isArchive || viewer;
 
-  const sortedHistory = [...state.history].sort(
+  const showLocation = state.settings.locations.length > 1;
+  const defaultLocationId = state.settings.locations[0]?.id;
+  const frost = useFrostObservations(entries, state.settings.locations);
+  const showComparison = frost.configured || entries.some(e => e.forecastDepth !== undefined);
+
+  const getLocationName = (locationId?: string) => {
+    return state.settings.locations.find(l => l.id === locationId)?.name || '-';
+  };
+
+  const sortedHistory = [...entries].sort(
     (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
   );
 
+  // Forrige brøyting på samme sted (listen er sortert nyeste først)
+  const getPrevious = (index: number) => {
+    const locationId = sortedHistory[index].locationId ?? defaultLocationId;
+    return sortedHistory.slice(index + 1).find(e => (e.locationId ?? defaultLocationId) === locationId) ?? null;
+  };
+
+  const getObservation = (entry: SnowEntry, index: number) => {
+    const observations = frost.observations[entry.locationId ?? defaultLocationId];
+    if (!observations) return null;
+    return getEntryObservation(entry, getPrevious(index), observations);
+  };
+
+  const stationNames = Object.values(frost.stations)
+    .filter((s) => s !== null)
+    .map((s) => `${s.name} (${s.distance} km)`);
+
   const formatDate = (isoString: string) => {
     const date = new Date(isoString);
     return date.toLocaleDateString('nb-NO', {
@@ -321,29 +419,95 @@ export function HistoryTable() {
     });
   };
 
-  const handleDelete = (id: string) => {
-    if (confirm('Er du sikker på at du vil slette denne posten?')) {
-      dispatch({ type: 'DELETE_HISTORY', payload: id });
-    }
+  // Slettingen kan angres en liten stund (ny sletting erstatter den forrige)
+  useEffect(() => {
+    if (!deletedEntry) return;
+    const timeoutId = setTimeout(() => setDeletedEntry(null), UNDO_MS);
+    return () => clearTimeout(timeoutId);
+  }, [deletedEntry]);
+
+  const handleDelete = (entry: SnowEntry) => {
+    dispatch({ type: 'DELETE_HISTORY', payload: entry.id });
+    setDeletedEntry(entry);
+  };
+
+  const handleUndo = () => {
+    if (!deletedEntry) return;
+    dispatch({ type: 'ADD_HISTORY', payload: deletedEntry });
+    setDeletedEntry(null);
   };
 
   return (
     <div className="bg-slate-900 rounded-xl shadow-md p-6">
       <div className="flex justify-between items-center border-b border-slate-700 pb-3 mb-4">
         <h2 className="text-lg font-semibold text-white">Brøytingshistorikk</h2>
-        <button
-          onClick={() => setIsModalOpen(true)}
-          className="px-4 py-2 bg-sky-600 text-white text-sm rounded-lg hover:bg-sky-500"
-        >
-          + Logg brøyting
-        </button>
+        <div className="flex flex-wrap items-center justify-end gap-2">
+          {archive.seasons.length > 0 && (
+            <select
+              value={isArchive ? season ?? '' : ''}
+              onChange={(e) => setSeason(e.target.value || null)}
+              className="px-2 py-2 bg-slate-800 border border-slate-600 rounded-lg text-white text-sm focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+            >
+              <option value="">Aktiv logg</option>
+              {archive.seasons.map((s) => (
+                <option key={s.season} value={s.season}>{s.season} (arkiv)</option>
+              ))}
+            </select>
+          )}
+          {entries.length > 0 && (
+            <button
+              onClick={() => setIsReportOpen(true)}
+              className="px-3 py-2 border border-slate-600 text-slate-300 text-sm rounded-lg hover:bg-slate-800"
+            >
+              Generer rapport
+            </button>
+          )}
+          {entries.length > 0 && (
+            <button
+              onClick={() => setIsExportOpen(true)}
+              className="px-3 py-2 border border-slate-600 text-slate-300 text-sm rounded-lg hover:bg-slate-800"
+            >
+              Eksporter
+            </button>
+          )}
+          {!readOnly && (
+            <button
+              onClick={() => setIsImportOpen(true)}
+              className="px-3 py-2 border border-slate-600 text-slate-300 text-sm rounded-lg hover:bg-slate-800"
+            >
+              Importer
+            </button>
+          )}
+          {!readOnly && (
+            <button
+              onClick={() => setIsModalOpen(true)}
+              className="px-4 py-2 bg-sky-600 text-white text-sm rounded-lg hover:bg-sky-500"
+            >
+              + Logg brøyting
+            </button>
+          )}
+        </div>
       </div>
 
+      {isArchive && (
+        <p className="text-xs text-slate-500 mb-3">
+          {archive.loading && 'Henter arkivet...'}
+          {archive.error && `Kunne ikke lese arkivet: ${archive.error}`}
+          {!archive.loading && !archive.error && `Arkivert sesong ${season}, ${archive.entries.length} brøytinger. Arkivet kan ikke redigeres.`}
+        </p>
+      )}
+
+      {viewer && !isArchive && (
+        <p className="text-xs text-slate-500 mb-3">Du har bare lesetilgang til denne eiendommen.</p>
+      )}
+
       {sortedHistory.length === 0 ? (
-        <div className="text-center py-8 text-slate-400">
-          <p>Ingen brøytingslogg ennå.</p>
-          <p className="text-sm mt-1">Trykk på "Logg brøyting" for å registrere.</p>
-        </div>
+        !isArchive && (
+          <div className="text-center py-8 text-slate-400">
+            <p>Ingen brøytingslogg ennå.</p>
+            {!viewer && <p className="text-sm mt-1">Trykk på "Logg brøyting" for å registrere.</p>}
+          </div>
+        )
       ) : (
         <div className="overflow-x-auto">
           <table className="w-full text-sm table-fixed">
@@ -351,48 +515,117 @@ export function HistoryTable() {
               <tr className="border-b border-slate-700">
                 <th className="text-left py-2 font-medium text-slate-400 w-40">Dato</th>
                 <th className="text-left py-2 font-medium text-slate-400 w-24">Snødybde</th>
+                {showComparison && (
+                  <>
+                    <th className="text-left py-2 font-medium text-slate-400 w-24" title="Modellens estimat da brøytingen ble logget">Prognose</th>
+                    <th className="text-left py-2 font-medium text-slate-400 w-32" title="Snødybde og nedbør siden forrige brøyting (Frost)">Observert</th>
+                  </>
+                )}
+                {showLocation && (
+                  <th className="text-left py-2 font-medium text-slate-400 w-28">Sted</th>
+                )}
                 <th className="text-left py-2 font-medium text-slate-400 w-32">Entreprenør</th>
                 <th className="text-left py-2 font-medium text-slate-400">Kommentar</th>
                 <th className="text-right py-2 w-24"></th>
               </tr>
             </thead>
             <tbody>
-              {sortedHistory.map((entry) => (
-                <tr key={entry.id} className="border-b border-slate-700/50 hover:bg-slate-800/50">
-                  <td className="py-3 text-slate-300 whitespace-nowrap">{formatDate(entry.timestamp)}</td>
-                  <td className="py-3 text-slate-300 whitespace-nowrap">{entry.snowDepth ? `${entry.snowDepth * 10} mm` : '-'}</td>
-                  <td className="py-3 text-slate-300 whitespace-nowrap">{entry.contractor || '-'}</td>
-                  <td className="py-3 text-slate-300 truncate" title={entry.comment || ''}>{entry.comment || '-'}</td>
-                  <td className="py-3 text-right whitespace-nowrap">
-                    <button
-                      onClick={() => setEditingEntry(entry)}
-                      className="text-slate-400 hover:text-yellow-400 p-1"
-                      title="Rediger"
-                    >
-                      ✏️
-                    </button>
-                    <button
-                      onClick={() => handleDelete(entry.id)}
-                      className="text-slate-400 hover:text-red-400 p-1 ml-2"
-                      title="Slett"
-                    >
-                      🗑️
-                    </button>
-                  </td>
-                </tr>
-              ))}
+              {sortedHistory.map((entry, index) => {
+                const observation = showComparison ? getObservation(entry, index) : null;
+
+                return (
+                  <tr key={entry.id} className="border-b border-slate-700/50 hover:bg-slate-800/50">
+                    <td className="py-3 text-slate-300 whitespace-nowrap">
+                      {formatDate(entry.timestamp)}
+                      {entry.edits && entry.edits.length > 0 && (
+                        <span className="text-xs text-slate-500 ml-1" title={`Endret ${formatDate(entry.edits[entry.edits.length - 1].at)}`}>(endret)</span>
+                      )}
+                    </td>
+                    <td className="py-3 text-slate-300 whitespace-nowrap">{entry.snowDepth ? `${entry.snowDepth * 10} mm` : '-'}</td>
+                    {showComparison && (
+                      <>
+                        <td className="py-3 text-slate-300 whitespace-nowrap">
+                          {entry.forecastDepth !== undefined ? `${entry.forecastDepth.toFixed(1)} cm` : '-'}
+                        </td>
+                        <td className="py-3 text-slate-300 whitespace-nowrap">
+                          {observation?.snowDepth != null ? `${observation.snowDepth} cm` : '-'}
+                          {observation?.precipitation != null && (
+                            <span className="text-xs text-slate-500 ml-1">({observation.precipitation} mm)</span>
+                          )}
+                        </td>
+                      </>
+                    )}
+                    {showLocation && (
+                      <td className="py-3 text-slate-300 truncate">{getLocationName(entry.locationId)}</td>
+                    )}
+                    <td className="py-3 text-slate-300 whitespace-nowrap">{findEntryContractor(entry, state.contractors)?.name ?? (entry.contractor || '-')}</td>
+                    <td className="py-3 text-slate-300 truncate" title={entry.comment || ''}>{entry.comment || '-'}</td>
+                    <td className="py-3 text-right whitespace-nowrap">
+                      {!readOnly && (
+                        <>
+                          <button
+                            onClick={() => setEditingEntry(entry)}
+                            className="text-slate-400 hover:text-yellow-400 p-1"
+                            title="Rediger"
+                          >
+                            ✏️
+                          </button>
+                          <button
+                            onClick={() => handleDelete(entry)}
+                            className="text-slate-400 hover:text-red-400 p-1 ml-2"
+                            title="Slett"
+                          >
+                            🗑️
+                          </button>
+                        </>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
             </tbody>
           </table>
+          {showComparison && (
+            <p className="text-xs text-slate-500 mt-3">
+              {!frost.configured && 'Sett VITE_FROST_CLIENT_ID for å vise observasjoner fra MET (Frost).'}
+              {frost.loading && 'Henter observasjoner fra Frost...'}
+              {frost.error && `Kunne ikke hente observasjoner: ${frost.error}`}
+              {!frost.loading && !frost.error && stationNames.length > 0 && `Observasjoner fra ${stationNames.join(', ')}.`}
+            </p>
+          )}
+        </div>
+      )}
+
+      {!isArchive && state.settings.historyRetention.type !== 'forever' && (
+        <p className="text-xs text-slate-500 mt-3">
+          Loggen viser {describeRetention(state.settings.historyRetention)}. Eldre brøytinger arkiveres per sesong
+          og kan velges over (endres under Innstillinger).
+        </p>
+      )}
+
+      <SeasonReport history={entries} />
+
+      {deletedEntry && (
+        <div className="fixed bottom-20 left-4 right-4 z-40 flex justify-center">
+          <div role="status" className="bg-slate-800 border border-slate-600 text-sm text-slate-200 px-4 py-2 rounded-xl shadow-lg flex items-center gap-4">
+            <span>Brøytingen {formatDate(deletedEntry.timestamp)} er slettet</span>
+            <button onClick={handleUndo} className="font-medium text-sky-400 hover:text-sky-300">
+              Angre
+            </button>
+          </div>
         </div>
       )}
 
-      <AddEntryModal isOpen={isModalOpen} onClose={() => setIsModalOpen(false)} />
+      <AddEntryModal isOpen={isModalOpen && !viewer} onClose={() => setIsModalOpen(false)} />
       <EditEntryModal 
         key={editingEntry?.id || 'new'}
         isOpen={!!editingEntry} 
         onClose={() => setEditingEntry(null)} 
         entry={editingEntry}
       />
+      <HistoryExport isOpen={isExportOpen} onClose={() => setIsExportOpen(false)} entries={entries} indexed={!isArchive} />
+      <HistoryReport isOpen={isReportOpen} onClose={() => setIsReportOpen(false)} entries={entries} indexed={!isArchive} />
+      <HistoryImport isOpen={isImportOpen && !readOnly} onClose={() => setIsImportOpen(false)} />
     </div>
   );
 }
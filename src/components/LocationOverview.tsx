@@ -0,0 +1,60 @@
+import { useApp } from '../hooks/useApp';
+import type { SnowStatus } from '../types';
+import { getWeatherConditionEmoji } from '../services/metno';
+
+const statusStyles: Record<SnowStatus, { dot: string; label: string }> = {
+  normal: { dot: 'bg-green-500', label: 'Normal' },
+  warning: { dot: 'bg-yellow-500', label: 'Advarsel' },
+  critical: { dot: 'bg-red-500', label: 'Kritisk' },
+};
+
+export function LocationOverview() {
+  const { state, dispatch, getSnowStatus, activeLocation } = useApp();
+  const { locations } = state.settings;
+
+  if (locations.length < 2) {
+    return null;
+  }
+
+  return (
+    <div className="bg-slate-900 rounded-xl shadow-md p-6">
+      <h2 className="text-lg font-semibold text-white border-b border-slate-700 pb-3 mb-4">Alle steder</h2>
+
+      <div className="space-y-2">
+        {locations.map((location) => {
+          const weather = state.weather[location.id];
+          const { status, currentDepth, projectedDepth } = getSnowStatus(location.id);
+          const style = statusStyles[status];
+
+          return (
+            <button
+              key={location.id}
+              onClick={() => dispatch({ type: 'SET_ACTIVE_LOCATION', payload: location.id })}
+              className={`w-full flex items-center justify-between gap-3 p-3 rounded-lg text-left transition-colors ${
+                location.id === activeLocation.id ? 'bg-slate-800 ring-1 ring-sky-500' : 'bg-slate-800/50 hover:bg-slate-800'
+              }`}
+            >
+              <div className="flex items-center gap-3 min-w-0">
+                <span className={`h-3 w-3 rounded-full shrink-0 ${style.dot}`} title={style.label} />
+                <div className="min-w-0">
+                  <p className="font-medium text-white truncate">{location.name}</p>
+                  <p className="text-xs text-slate-400">
+                    {style.label} · {currentDepth.toFixed(1)} cm nå · {projectedDepth.toFixed(1)} / {location.snowThreshold} cm (24t)
+                  </p>
+                </div>
+              </div>
+              {weather ? (
+                <div className="text-right shrink-0">
+                  <div className="text-lg">{getWeatherConditionEmoji(weather.current.weatherCondition)}</div>
+                  <div className="text-sm text-slate-300">{weather.current.temperature}°</div>
+                </div>
+              ) : (
+                <span className="text-xs text-slate-500 shrink-0">Ingen data</span>
+              )}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
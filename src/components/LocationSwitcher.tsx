@@ -0,0 +1,28 @@
+import { useApp } from '../hooks/useApp';
+
+export function LocationSwitcher() {
+  const { state, dispatch, activeLocation } = useApp();
+  const { locations } = state.settings;
+
+  if (locations.length < 2) {
+    return null;
+  }
+
+  return (
+    <div className="flex gap-2 overflow-x-auto pb-1">
+      {locations.map((location) => (
+        <button
+          key={location.id}
+          onClick={() => dispatch({ type: 'SET_ACTIVE_LOCATION', payload: location.id })}
+          className={`px-4 py-2 text-sm rounded-full whitespace-nowrap transition-colors ${
+            location.id === activeLocation.id
+              ? 'bg-sky-600 text-white'
+              : 'bg-slate-800 text-slate-300 hover:bg-slate-700'
+          }`}
+        >
+          📍 {location.name}
+        </button>
+      ))}
+    </div>
+  );
+}
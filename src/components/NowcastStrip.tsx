@@ -0,0 +1,63 @@
+import type { NowcastData, PrecipitationType } from '../types';
+import { getSnowOnset } from '../services/metno';
+
+const stepColors: Record<PrecipitationType, string> = {
+  snow: 'bg-sky-300',
+  sleet: 'bg-indigo-300',
+  rain: 'bg-blue-500',
+};
+
+const coverageLabels = {
+  'temporarily unavailable': 'Radar midlertidig utilgjengelig',
+  'no coverage': 'Utenfor radardekning',
+};
+
+export function NowcastStrip({ nowcast }: { nowcast: NowcastData }) {
+  if (nowcast.radarCoverage !== 'ok') {
+    return <p className="text-xs text-slate-500 text-center">📡 {coverageLabels[nowcast.radarCoverage]}</p>;
+  }
+
+  const steps = nowcast.steps;
+  if (steps.length === 0) return null;
+
+  const start = new Date(steps[0].time);
+  const onset = getSnowOnset(nowcast, start);
+  const maxRate = Math.max(1, ...steps.map((s) => s.precipitationRate));
+  const hasPrecip = steps.some((s) => s.precipitationRate > 0);
+
+  const getSummary = () => {
+    if (onset) {
+      const minutes = Math.round((new Date(onset).getTime() - start.getTime()) / 60000);
+      return minutes <= 5 ? '❄️ Snør nå' : `❄️ Snø om ca. ${minutes} min`;
+    }
+    return hasPrecip ? '🌧️ Nedbør neste 2 timer, ikke snø' : 'Ingen nedbør de neste 2 timene';
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-baseline mb-2">
+        <span className="text-sm text-slate-200">{getSummary()}</span>
+        <span className="text-xs text-slate-500">Radar (Nowcast)</span>
+      </div>
+
+      <div className="flex items-end gap-0.5 h-8">
+        {steps.map((step) => (
+          <div
+            key={step.time}
+            className={`flex-1 rounded-sm ${step.precipitationRate > 0 ? stepColors[step.precipitationType] : 'bg-slate-700'}`}
+            style={{ height: step.precipitationRate > 0 ? `${Math.max(15, (step.precipitationRate / maxRate) * 100)}%` : '2px' }}
+            title={`${new Date(step.time).toLocaleTimeString('nb-NO', { hour: '2-digit', minute: '2-digit' })}: ${step.precipitationRate} mm/t`}
+          />
+        ))}
+      </div>
+
+      <div className="flex justify-between text-[10px] text-slate-500 mt-1">
+        <span>Nå</span>
+        <span>30 min</span>
+        <span>1 t</span>
+        <span>1 t 30</span>
+        <span>2 t</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+import { useEffect, useState } from 'react';
+import { useApp } from '../hooks/useApp';
+import type { Contractor, PlowOrder } from '../types';
+import { ORDER_STATUS_LABELS, createEntryFromOrder, isOrderOpen } from '../lib/orders';
+import { getEscalationState } from '../lib/escalation';
+import { PlowOrderModal } from './PlowOrderModal';
+
+export function PlowOrderList() {
+  const { state, dispatch, activeLocation, getSnowStatus } = useApp();
+  const orders = state.orders.filter((o) => o.locationId === activeLocation.id && isOrderOpen(o));
+  const [now, setNow] = useState(() => new Date());
+  const [escalation, setEscalation] = useState<{ order: PlowOrder; next: Contractor } | null>(null);
+
+  // Oppdater svarfristene hvert halve minutt
+  useEffect(() => {
+    const intervalId = setInterval(() => setNow(new Date()), 30 * 1000);
+    return () => clearInterval(intervalId);
+  }, []);
+
+  const formatTime = (date: Date) => {
+    return date.toLocaleTimeString('nb-NO', { hour: '2-digit', minute: '2-digit' });
+  };
+
+  const formatDate = (isoString: string) => {
+    return new Date(isoString).toLocaleDateString('nb-NO', {
+      day: 'numeric',
+      month: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const handleConfirm = (order: PlowOrder) => {
+    dispatch({
+      type: 'UPDATE_ORDER',
+      payload: { ...order, status: 'confirmed', confirmedAt: new Date().toISOString() },
+    });
+  };
+
+  const handleCancel = (order: PlowOrder) => {
+    if (confirm(`Avbryte bestillingen hos ${order.contractorName}?`)) {
+      dispatch({
+        type: 'UPDATE_ORDER',
+        payload: { ...order, status: 'cancelled', completedAt: new Date().toISOString() },
+      });
+    }
+  };
+
+  // Utført: logg brøytingen med modellens estimat nå
+  const handleDone = (order: PlowOrder) => {
+    const forecastDepth = state.weather[order.locationId]
+      ? getSnowStatus(order.locationId).currentDepth
+      : undefined;
+    dispatch({ type: 'COMPLETE_ORDER', payload: { order, entry: createEntryFromOrder(order, forecastDepth) } });
+  };
+
+  if (orders.length === 0 && !escalation) return null;
+
+  return (
+    <div className="mt-3 space-y-2">
+      {orders.map((order) => {
+        const phase = getEscalationState(order, {
+          contractors: state.contractors,
+          orders: state.orders,
+          location: activeLocation,
+          now,
+        });
+
+        return (
+          <div key={order.id} className="p-3 bg-slate-900/50 rounded-lg text-sm">
+            <div className="flex items-center justify-between">
+              <span className="text-slate-200">
+                {order.channel === 'sms' ? '💬' : '✉️'} {order.contractorName}
+              </span>
+              <span className={`text-xs px-2 py-0.5 rounded ${
+                order.status === 'confirmed' ? 'bg-sky-900/60 text-sky-300' : 'bg-slate-700 text-slate-300'
+              }`}>
+                {ORDER_STATUS_LABELS[order.status]}
+              </span>
+            </div>
+            <p className="text-xs text-slate-400 mt-1">
+              Bestilt {formatDate(order.requestedAt)}
+              {order.confirmedAt && ` · bekreftet ${formatDate(order.confirmedAt)}`}
+              {phase.phase === 'waiting' && ` · svarfrist ${formatTime(phase.deadline)}`}
+            </p>
+            {phase.phase === 'overdue' && (
+              <div className="flex items-center justify-between gap-2 mt-2 text-xs text-yellow-400">
+                <span>Ingen svar innen {formatTime(phase.deadline)}</span>
+                <button
+                  onClick={() => setEscalation({ order, next: phase.next })}
+                  className="px-2 py-1 bg-yellow-600 text-white rounded hover:bg-yellow-500"
+                >
+                  Send til {phase.next.name}
+                </button>
+              </div>
+            )}
+            {phase.phase === 'exhausted' && (
+              <p className="mt-2 text-xs text-yellow-400">
+                Ingen svar, og ingen flere tilgjengelige kontakter
+              </p>
+            )}
+            <div className="flex gap-2 mt-2">
+              {order.status === 'requested' && (
+                <button
+                  onClick={() => handleConfirm(order)}
+                  className="px-2 py-1 text-xs bg-slate-700 text-slate-200 rounded hover:bg-slate-600"
+                >
+                  Bekreftet
+                </button>
+              )}
+              <button
+                onClick={() => handleDone(order)}
+                className="px-2 py-1 text-xs bg-sky-600 text-white rounded hover:bg-sky-500"
+              >
+                ✓ Brøytet
+              </button>
+              <button
+                onClick={() => handleCancel(order)}
+                className="px-2 py-1 text-xs text-slate-400 hover:text-red-400 ml-auto"
+              >
+                Avbryt
+              </button>
+            </div>
+          </div>
+        );
+      })}
+
+      {escalation && (
+        <PlowOrderModal
+          escalateFrom={escalation.order}
+          contractorId={escalation.next.id}
+          onClose={() => setEscalation(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+import { useState } from 'react';
+import { useApp } from '../hooks/useApp';
+import type { OrderChannel, PlowOrder } from '../types';
+import { createPlowOrder, getOrderLink, renderOrderMessage } from '../lib/orders';
+import { sortContractors } from '../lib/contractors';
+import { escalateOrder, getEscalationChain } from '../lib/escalation';
+
+interface PlowOrderModalProps {
+  escalateFrom?: PlowOrder;
+  contractorId?: string;
+  onClose: () => void;
+}
+
+export function PlowOrderModal({ escalateFrom, contractorId: initialContractorId, onClose }: PlowOrderModalProps) {
+  const { state, dispatch, activeLocation, getSnowStatus } = useApp();
+  const contractors = sortContractors(state.contractors);
+  const [available] = useState(() => getEscalationChain(state.contractors, activeLocation, new Date()));
+  const defaultId = initialContractorId ?? available[0]?.id ?? contractors[0]?.id ?? '';
+
+  const getMessage = (id: string) => {
+    const selected = contractors.find((c) => c.id === id);
+    return selected
+      ? renderOrderMessage(state.settings.orderTemplate, activeLocation, getSnowStatus(activeLocation.id), selected)
+      : '';
+  };
+
+  const [contractorId, setContractorId] = useState(defaultId);
+  const [channel, setChannel] = useState<OrderChannel>('sms');
+  const [message, setMessage] = useState(() => getMessage(defaultId));
+
+  const contractor = contractors.find((c) => c.id === contractorId) ?? contractors[0];
+
+  const handleContractorChange = (id: string) => {
+    setContractorId(id);
+    if (!contractors.find((c) => c.id === id)?.email) setChannel('sms');
+    setMessage(getMessage(id));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!contractor) return;
+
+    if (escalateFrom) {
+      dispatch({ type: 'ESCALATE_ORDER', payload: escalateOrder(escalateFrom, activeLocation, contractor, channel, message) });
+    } else {
+      dispatch({ type: 'ADD_ORDER', payload: createPlowOrder(activeLocation, contractor, channel, message) });
+    }
+    window.location.href = getOrderLink(channel, contractor, message, `Brøyting: ${activeLocation.name}`);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4">
+      <div className="bg-slate-900 rounded-xl p-6 w-full max-w-md border border-slate-700">
+        <h2 className="text-xl font-semibold text-white mb-4">Bestill brøyting</h2>
+        <p className="text-sm text-slate-400 -mt-3 mb-4">📍 {activeLocation.name}</p>
+        {escalateFrom && (
+          <p className="text-sm text-yellow-400 -mt-2 mb-4">
+            Ingen svar fra {escalateFrom.contractorName}. Bestillingen sendes videre.
+          </p>
+        )}
+
+        {!contractor ? (
+          <div className="space-y-4">
+            <p className="text-sm text-slate-300">Legg til en kontakt under Kontakter først.</p>
+            <button
+              type="button"
+              onClick={onClose}
+              className="w-full px-4 py-2 border border-slate-600 text-slate-300 rounded-lg hover:bg-slate-800"
+            >
+              Lukk
+            </button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit}>
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-slate-300 mb-1">Kontakt</label>
+                  <select
+                    value={contractor.id}
+                    onChange={(e) => handleContractorChange(e.target.value)}
+                    className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-lg text-white focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+                  >
+                    {contractors.map((c) => (
+                      <option key={c.id} value={c.id}>
+                        {c.isPrimary ? '⭐ ' : ''}{c.name}
+                        {available.some((a) => a.id === c.id) ? '' : ' (utenfor tilgjengelig tid)'}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-300 mb-1">Send som</label>
+                  <select
+                    value={channel}
+                    onChange={(e) => setChannel(e.target.value as OrderChannel)}
+                    className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-lg text-white focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+                  >
+                    <option value="sms">💬 SMS</option>
+                    <option value="email" disabled={!contractor.email}>✉️ E-post</option>
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-slate-300 mb-1">Melding</label>
+                <textarea
+                  value={message}
+                  onChange={(e) => setMessage(e.target.value)}
+                  rows={5}
+                  className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-lg text-white focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+                />
+                <p className="text-xs text-slate-500 mt-1">
+                  Mal og adkomst endres under Innstillinger.
+                </p>
+              </div>
+            </div>
+
+            <div className="flex gap-3 mt-6">
+              <button
+                type="button"
+                onClick={onClose}
+                className="flex-1 px-4 py-2 border border-slate-600 text-slate-300 rounded-lg hover:bg-slate-800"
+              >
+                Avbryt
+              </button>
+              <button
+                type="submit"
+                disabled={!message.trim()}
+                className="flex-1 px-4 py-2 bg-sky-600 text-white rounded-lg hover:bg-sky-500 disabled:opacity-50"
+              >
+                Send bestilling
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,204 @@
+import { useState } from 'react';
+import type { PropertyInvitation, PropertyRole } from '../types';
+import { useApp } from '../hooks/useApp';
+import type { PropertyControls } from '../hooks/useProperty';
+import { PROPERTY_ROLE_LABELS } from '../services/properties';
+
+interface PropertySettingsProps {
+  controls: PropertyControls;
+}
+
+export function PropertySettings({ controls }: PropertySettingsProps) {
+  const { state } = useApp();
+  const { property, pending } = state.sync;
+  const { session, properties, members, invitations, busy } = controls;
+  const [code, setCode] = useState('');
+  const [displayName, setDisplayName] = useState('');
+
+  const isOwner = property?.role === 'owner';
+  const now = new Date();
+  const openInvitations = invitations.filter((inv) => !inv.acceptedAt && new Date(inv.expiresAt) > now);
+
+  // Bytte av eiendom forkaster endringer som ikke er sendt
+  const blocked = pending > 0;
+  const replaceWarning = 'Brøytinger, kontakter og innstillinger på denne enheten erstattes av eiendommens data. Fortsette?';
+
+  const handleSwitch = (id: string) => {
+    const target = properties.find((p) => p.id === id);
+    if (!target || target.id === property?.id || !confirm(replaceWarning)) return;
+    controls.switchTo(target);
+  };
+
+  const handleJoin = async () => {
+    if (!code.trim() || !confirm(replaceWarning)) return;
+    await controls.join(code, displayName);
+    setCode('');
+  };
+
+  const handleLeave = () => {
+    if (!property) return;
+    if (!confirm(`Forlate ${property.name}? Dataene blir liggende på enheten i en ny, egen eiendom.`)) return;
+    controls.leave();
+  };
+
+  const handleInvite = (role: PropertyInvitation['role']) => controls.invite(role);
+
+  return (
+    <div className="mt-4">
+      <h4 className="text-sm font-medium text-slate-300 mb-2">Eiendom</h4>
+
+      {!property ? (
+        <p className="text-xs text-slate-500 mb-3">Opprettes ved første synkronisering.</p>
+      ) : (
+        <div className="mb-3">
+          {properties.length > 1 ? (
+            <select
+              value={property.id}
+              onChange={(e) => handleSwitch(e.target.value)}
+              disabled={busy || blocked}
+              className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-lg text-white focus:ring-2 focus:ring-sky-500 focus:border-sky-500 disabled:opacity-50"
+            >
+              {properties.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.name} ({PROPERTY_ROLE_LABELS[p.role]})
+                </option>
+              ))}
+            </select>
+          ) : (
+            <p className="text-sm text-slate-200">{property.name}</p>
+          )}
+          <p className="text-xs text-slate-500 mt-1">
+            Din rolle: {PROPERTY_ROLE_LABELS[property.role]}
+            {property.role === 'viewer' && ' – du kan se, men ikke endre, brøytinger og kontakter'}
+          </p>
+        </div>
+      )}
+
+      {members.length > 0 && (
+        <>
+          <label className="block text-sm text-slate-400 mb-1">Medlemmer</label>
+          <ul className="space-y-1 mb-3">
+            {members.map((member) => {
+              const isSelf = member.userId === session?.userId;
+              return (
+                <li key={member.userId} className="flex items-center justify-between gap-2 text-sm">
+                  <span className="text-slate-300 truncate">
+                    {member.displayName ?? 'Uten navn'}
+                    {isSelf && <span className="text-slate-500"> (deg)</span>}
+                  </span>
+                  <div className="flex items-center gap-2">
+                    {isOwner && !isSelf ? (
+                      <>
+                        <select
+                          value={member.role}
+                          onChange={(e) => controls.changeRole(member.userId, e.target.value as PropertyRole)}
+                          disabled={busy}
+                          className="px-2 py-1 bg-slate-800 border border-slate-600 rounded text-xs text-white"
+                        >
+                          {Object.entries(PROPERTY_ROLE_LABELS).map(([role, label]) => (
+                            <option key={role} value={role}>{label}</option>
+                          ))}
+                        </select>
+                        <button
+                          onClick={() => confirm('Fjerne medlemmet?') && controls.remove(member.userId)}
+                          disabled={busy}
+                          className="text-xs text-red-400 hover:text-red-300"
+                        >
+                          Fjern
+                        </button>
+                      </>
+                    ) : (
+                      <span className="text-xs text-slate-500">{PROPERTY_ROLE_LABELS[member.role]}</span>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        </>
+      )}
+
+      {isOwner && (
+        <>
+          <label className="block text-sm text-slate-400 mb-1">Inviter</label>
+          <div className="flex gap-2 mb-2">
+            <button
+              onClick={() => handleInvite('member')}
+              disabled={busy}
+              className="flex-1 px-3 py-2 bg-slate-700 text-white text-sm rounded-lg hover:bg-slate-600 disabled:opacity-50 transition-colors"
+            >
+              + Medlem
+            </button>
+            <button
+              onClick={() => handleInvite('viewer')}
+              disabled={busy}
+              className="flex-1 px-3 py-2 bg-slate-700 text-white text-sm rounded-lg hover:bg-slate-600 disabled:opacity-50 transition-colors"
+            >
+              + Kun lesetilgang
+            </button>
+          </div>
+          {openInvitations.length > 0 && (
+            <ul className="space-y-1 mb-3">
+              {openInvitations.map((inv) => (
+                <li key={inv.code} className="flex items-center justify-between gap-2 text-sm">
+                  <code className="text-sky-300">{inv.code}</code>
+                  <span className="text-xs text-slate-500">
+                    {PROPERTY_ROLE_LABELS[inv.role]} · til {new Date(inv.expiresAt).toLocaleDateString('nb-NO')}
+                  </span>
+                  <button
+                    onClick={() => controls.revoke(inv.code)}
+                    disabled={busy}
+                    className="text-xs text-slate-400 hover:text-white"
+                  >
+                    Trekk tilbake
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <p className="text-xs text-slate-500 mb-3">
+            Del koden med den du vil invitere. Den gjelder i 7 dager og kan brukes én gang.
+          </p>
+        </>
+      )}
+
+      <label className="block text-sm text-slate-400 mb-1">Bli med i en annen eiendom</label>
+      <div className="flex gap-2 mb-2">
+        <input
+          type="text"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          placeholder="Invitasjonskode"
+          className="flex-1 min-w-0 px-3 py-2 bg-slate-800 border border-slate-600 rounded-lg text-white uppercase focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+        />
+        <input
+          type="text"
+          value={displayName}
+          onChange={(e) => setDisplayName(e.target.value)}
+          placeholder="Ditt navn"
+          className="flex-1 min-w-0 px-3 py-2 bg-slate-800 border border-slate-600 rounded-lg text-white focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+        />
+        <button
+          onClick={handleJoin}
+          disabled={!code.trim() || busy || blocked}
+          className="px-4 py-2 bg-sky-600 text-white rounded-lg hover:bg-sky-500 disabled:opacity-50 transition-colors"
+        >
+          Bli med
+        </button>
+      </div>
+      {blocked && (
+        <p className="text-xs text-yellow-400 mb-2">Vent til alle endringer er synkronisert før du bytter eiendom.</p>
+      )}
+
+      {property && members.length > 1 && (
+        <button
+          onClick={handleLeave}
+          disabled={busy || blocked}
+          className="text-sm text-red-400 hover:text-red-300 disabled:opacity-50"
+        >
+          Forlat eiendommen
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import { useEffect } from 'react';
+import { useApp } from '../hooks/useApp';
+
+const VISIBLE_MS = 6 * 1000;
+
+export function RemoteChangeToast() {
+  const { state, dispatch } = useApp();
+  const notice = state.remoteChange;
+
+  // Skjul etter noen sekunder (ny endring starter tiden på nytt)
+  useEffect(() => {
+    if (!notice) return;
+    const timeoutId = setTimeout(() => dispatch({ type: 'SET_REMOTE_CHANGE', payload: null }), VISIBLE_MS);
+    return () => clearTimeout(timeoutId);
+  }, [notice, dispatch]);
+
+  if (!notice) return null;
+
+  return (
+    <div className="fixed top-4 left-4 right-4 z-50 flex justify-center pointer-events-none">
+      <div
+        role="status"
+        className="pointer-events-auto bg-slate-800 border border-slate-600 text-sm text-slate-200 px-4 py-2 rounded-xl shadow-lg flex items-center gap-3"
+      >
+        <span>{notice.source === 'tab' ? '🗂️' : '📱'}</span>
+        <span>
+          <span className="font-medium text-white">{notice.author ?? 'Et medlem'}</span> {notice.description}
+        </span>
+        <button
+          onClick={() => dispatch({ type: 'SET_REMOTE_CHANGE', payload: null })}
+          className="text-slate-400 hover:text-white"
+          aria-label="Lukk"
+        >
+          ✕
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+import type { NotificationSchedule, TimeRange } from '../types';
+import { WEEKDAY_LABELS, getQuietGrid, gridToQuietHours } from '../lib/schedule';
+
+interface ScheduleEditorProps {
+  schedule: NotificationSchedule;
+  onChange: (schedule: NotificationSchedule) => void;
+}
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+const FIXED_DAY_WINDOW: TimeRange = { start: '09:00', end: '18:00' };
+
+const inputClass =
+  'px-2 py-1 bg-slate-900 border border-slate-600 rounded-lg text-white text-sm focus:ring-2 focus:ring-sky-500 focus:border-sky-500';
+
+export function ScheduleEditor({ schedule, onChange }: ScheduleEditorProps) {
+  const grid = getQuietGrid(schedule);
+  const dayWindow = schedule.dayWindow === 'sun' ? null : schedule.dayWindow;
+
+  const setGrid = (next: boolean[][]) => {
+    onChange({ ...schedule, quietHours: gridToQuietHours(next) });
+  };
+
+  const toggleHour = (weekday: number, hour: number) => {
+    setGrid(grid.map((hours, d) => (d === weekday ? hours.map((q, h) => (h === hour ? !q : q)) : hours)));
+  };
+
+  // Klikk på ukedagen: alle timer stille, eller ingen hvis alle allerede er det
+  const toggleDay = (weekday: number) => {
+    const allQuiet = grid[weekday].every(Boolean);
+    setGrid(grid.map((hours, d) => (d === weekday ? hours.map(() => !allQuiet) : hours)));
+  };
+
+  const applyPreset = (isQuiet: (weekday: number, hour: number) => boolean) => {
+    setGrid(WEEKDAY_LABELS.map((_, d) => HOURS.map((h) => isQuiet(d, h))));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm text-slate-300 mb-1">Dagtid</label>
+        <div className="flex flex-wrap items-center gap-3 text-sm text-slate-200">
+          <label className="flex items-center gap-1">
+            <input
+              type="radio"
+              checked={dayWindow === null}
+              onChange={() => onChange({ ...schedule, dayWindow: 'sun' })}
+              className="accent-sky-500"
+            />
+            Soloppgang–solnedgang
+          </label>
+          <label className="flex items-center gap-1">
+            <input
+              type="radio"
+              checked={dayWindow !== null}
+              onChange={() => onChange({ ...schedule, dayWindow: FIXED_DAY_WINDOW })}
+              className="accent-sky-500"
+            />
+            Faste tider
+          </label>
+          {dayWindow && (
+            <span className="flex items-center gap-1">
+              <input
+                type="time"
+                value={dayWindow.start}
+                onChange={(e) => onChange({ ...schedule, dayWindow: { ...dayWindow, start: e.target.value } })}
+                className={inputClass}
+              />
+              <span className="text-slate-500">–</span>
+              <input
+                type="time"
+                value={dayWindow.end}
+                onChange={(e) => onChange({ ...schedule, dayWindow: { ...dayWindow, end: e.target.value } })}
+                className={inputClass}
+              />
+            </span>
+          )}
+        </div>
+        <p className="text-xs text-slate-500 mt-1">Styrer sol/måne i værkortet.</p>
+      </div>
+
+      <div>
+        <label className="block text-sm text-slate-300 mb-1">Stille perioder</label>
+        <p className="text-xs text-slate-500 mb-2">
+          Trykk på timer uten varsler (mørk = stille). Tidene gjelder i hvert steds tidssone.
+        </p>
+        <div className="overflow-x-auto">
+          <table className="border-separate border-spacing-0.5">
+            <thead>
+              <tr>
+                <th />
+                {HOURS.map((hour) => (
+                  <th key={hour} className="text-[10px] font-normal text-slate-500 w-4">
+                    {hour % 6 === 0 ? hour : ''}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {WEEKDAY_LABELS.map((label, weekday) => (
+                <tr key={label}>
+                  <td>
+                    <button
+                      type="button"
+                      onClick={() => toggleDay(weekday)}
+                      className="text-xs text-slate-300 hover:text-white pr-2"
+                    >
+                      {label}
+                    </button>
+                  </td>
+                  {HOURS.map((hour) => (
+                    <td key={hour} className="p-0">
+                      <button
+                        type="button"
+                        onClick={() => toggleHour(weekday, hour)}
+                        className={`block w-4 h-5 rounded-sm ${grid[weekday][hour] ? 'bg-indigo-800' : 'bg-sky-700/60 hover:bg-sky-600'}`}
+                        title={`${label} ${String(hour).padStart(2, '0')}:00${grid[weekday][hour] ? ' (stille)' : ''}`}
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <div className="flex flex-wrap gap-2 mt-2">
+          <button
+            type="button"
+            onClick={() => applyPreset((_, h) => h >= 22 || h < 7)}
+            className="px-2 py-1 text-xs bg-slate-700 text-slate-200 rounded hover:bg-slate-600"
+          >
+            Natt (22–07)
+          </button>
+          <button
+            type="button"
+            onClick={() => applyPreset((d, h) => (d < 5 ? h >= 22 || h < 6 : h >= 23 || h < 8))}
+            className="px-2 py-1 text-xs bg-slate-700 text-slate-200 rounded hover:bg-slate-600"
+          >
+            Natt, lengre i helgen
+          </button>
+          <button
+            type="button"
+            onClick={() => applyPreset(() => false)}
+            className="px-2 py-1 text-xs bg-slate-700 text-slate-200 rounded hover:bg-slate-600"
+          >
+            Ingen
+          </button>
+        </div>
+      </div>
+
+      <label className="flex items-start gap-2 text-sm text-slate-200">
+        <input
+          type="checkbox"
+          checked={schedule.urgentOverridesQuiet}
+          onChange={(e) => onChange({ ...schedule, urgentOverridesQuiet: e.target.checked })}
+          className="mt-1 accent-sky-500"
+        />
+        <span>
+          Kritisk status varsler alltid
+          <span className="block text-xs text-slate-500">Gjelder også regelens egen stille periode</span>
+        </span>
+      </label>
+    </div>
+  );
+}
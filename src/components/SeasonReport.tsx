@@ -0,0 +1,75 @@
+import { useState } from 'react';
+import { useApp } from '../hooks/useApp';
+import type { SnowEntry } from '../types';
+import { formatCost, getSeasonReports } from '../lib/costs';
+
+export function SeasonReport({ history }: { history: SnowEntry[] }) {
+  const { state } = useApp();
+  const reports = getSeasonReports(history, state.contractors);
+  const [selected, setSelected] = useState<string | null>(null);
+
+  if (reports.length === 0) return null;
+
+  const report = reports.find((r) => r.season === selected) ?? reports[0];
+  const missingPrice = report.contractors.some((c) => c.cost === null);
+
+  return (
+    <div className="mt-6 border-t border-slate-700 pt-4">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="font-medium text-slate-200">Sesongrapport</h3>
+        <select
+          value={report.season}
+          onChange={(e) => setSelected(e.target.value)}
+          className="px-2 py-1 bg-slate-800 border border-slate-600 rounded-lg text-white text-sm focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+        >
+          {reports.map((r) => (
+            <option key={r.season} value={r.season}>{r.season}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 text-center mb-3">
+        <div className="bg-slate-800 rounded-lg py-2">
+          <div className="text-lg font-semibold text-white">{report.visits}</div>
+          <div className="text-xs text-slate-500">Brøytinger</div>
+        </div>
+        <div className="bg-slate-800 rounded-lg py-2">
+          <div className="text-lg font-semibold text-white">{formatCost(report.totalCost)}</div>
+          <div className="text-xs text-slate-500">Totalt</div>
+        </div>
+        <div className="bg-slate-800 rounded-lg py-2">
+          <div className="text-lg font-semibold text-white">
+            {report.costPerCm !== null ? formatCost(report.costPerCm) : '-'}
+          </div>
+          <div className="text-xs text-slate-500">Per cm snø</div>
+        </div>
+      </div>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b border-slate-700">
+            <th className="text-left py-2 font-medium text-slate-400">Entreprenør</th>
+            <th className="text-right py-2 font-medium text-slate-400">Besøk</th>
+            <th className="text-right py-2 font-medium text-slate-400">Timer</th>
+            <th className="text-right py-2 font-medium text-slate-400">Kostnad</th>
+          </tr>
+        </thead>
+        <tbody>
+          {report.contractors.map((c) => (
+            <tr key={c.contractorId ?? c.name} className="border-b border-slate-700/50">
+              <td className="py-2 text-slate-300">{c.name}</td>
+              <td className="py-2 text-right text-slate-300">{c.visits}</td>
+              <td className="py-2 text-right text-slate-300">{c.hours > 0 ? c.hours.toFixed(1) : '-'}</td>
+              <td className="py-2 text-right text-slate-300">{c.cost !== null ? formatCost(c.cost) : '-'}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <p className="text-xs text-slate-500 mt-2">
+        Snø per brøyting er målt dybde, ellers modellens estimat. Sesongen går fra juli til juni.
+        {missingPrice && ' Kostnad mangler der kontakten ikke har prisavtale, eller timepris uten tid brukt.'}
+      </p>
+    </div>
+  );
+}
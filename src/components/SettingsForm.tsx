@@ -1,8 +1,26 @@
 import { useState, useEffect, useRef } from 'react';
 import { useApp } from '../hooks/useApp';
-import type { Settings } from '../types';
+import type { Settings, MonitoredLocation, WeatherProviderId, HistoryRetention } from '../types';
 import { searchPlaces, type GeocodingResult } from '../services/geocoding';
+import { createMonitoredLocation, DEFAULT_SNOW_THRESHOLD } from '../lib/locations';
 import { requestNotificationPermission } from '../services/notifications';
+import { isPushSupported } from '../services/push';
+import { getCountryTimeZone, getDeviceTimeZone } from '../lib/schedule';
+import { DEFAULT_ORDER_TEMPLATE, ORDER_TEMPLATE_VARIABLES } from '../lib/orders';
+import { RETENTION_LABELS, createRetention } from '../lib/retention';
+import { AlertRuleEditor } from './AlertRuleEditor';
+import { ScheduleEditor } from './ScheduleEditor';
+import { StorageQuarantine } from './StorageQuarantine';
+import { SyncSettings } from './SyncSettings';
+import {
+  WEATHER_PROVIDER_LABELS,
+  WEATHER_SCENARIOS,
+  getWeatherProviderId,
+  getWeatherScenario,
+  getWeatherScenarioId,
+} from '../services/weatherProviders';
+
+const TIME_ZONES = Intl.supportedValuesOf('timeZone');
 
 interface BeforeInstallPromptEvent extends Event {
   prompt(): Promise<void>;
@@ -16,7 +34,7 @@ export function SettingsForm() {
   const [deferredPrompt, setDeferredPrompt] = useState<BeforeInstallPromptEvent | null>(null);
   const [isInstallable, setIsInstallable] = useState(false);
 
-  const [searchQuery, setSearchQuery] = useState(state.settings.location.name);
+  const [searchQuery, setSearchQuery] = useState('');
   const [suggestions, setSuggestions] = useState<GeocodingResult[]>([]);
   const [isSearching, setIsSearching] = useState(false);
   const [showSuggestions, setShowSuggestions] = useState(false);
@@ -59,17 +77,33 @@ export function SettingsForm() {
     setSaved(false);
   };
 
-  const handleLocationChange = (field: 'name' | 'lat' | 'lon', value: string | number) => {
+  const handleRetentionChange = (historyRetention: HistoryRetention) => {
+    setFormData((prev) => ({ ...prev, historyRetention }));
+    setSaved(false);
+  };
+
+  const handleLocationChange = (
+    id: string,
+    field: keyof Omit<MonitoredLocation, 'id'>,
+    value: string | number
+  ) => {
     setFormData((prev) => ({
       ...prev,
-      location: { ...prev.location, [field]: value },
+      locations: prev.locations.map((l) => (l.id === id ? { ...l, [field]: value } : l)),
+    }));
+    setSaved(false);
+  };
+
+  const handleRemoveLocation = (id: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      locations: prev.locations.filter((l) => l.id !== id),
     }));
     setSaved(false);
   };
 
   const handleSearchChange = (value: string) => {
     setSearchQuery(value);
-    handleLocationChange('name', value);
 
     if (searchTimeoutRef.current) {
       clearTimeout(searchTimeoutRef.current);
@@ -92,14 +126,19 @@ export function SettingsForm() {
   };
 
   const handleSelectSuggestion = (suggestion: GeocodingResult) => {
-    setSearchQuery(suggestion.name);
+    // Land med flere tidssoner får enhetens sone, som kan endres under stedet
+    const timezone = getCountryTimeZone(suggestion.countryCode) ?? getDeviceTimeZone();
+    setSearchQuery('');
     setFormData((prev) => ({
       ...prev,
-      location: {
-        name: suggestion.name,
-        lat: suggestion.lat,
-        lon: suggestion.lon,
-      },
+      locations: [
+        ...prev.locations,
+        createMonitoredLocation({
+          name: suggestion.name,
+          lat: suggestion.lat,
+          lon: suggestion.lon,
+        }, DEFAULT_SNOW_THRESHOLD, timezone),
+      ],
     }));
     setSuggestions([]);
     setShowSuggestions(false);
@@ -107,7 +146,12 @@ export function SettingsForm() {
   };
 
   const handleSave = () => {
-    dispatch({ type: 'SET_SETTINGS', payload: formData });
+    // Sørg for at aktiv lokasjon fortsatt finnes
+    const activeExists = formData.locations.some((l) => l.id === formData.activeLocationId);
+    dispatch({
+      type: 'SET_SETTINGS',
+      payload: activeExists ? formData : { ...formData, activeLocationId: formData.locations[0].id },
+    });
     refreshWeather();
     setSaved(true);
     setTimeout(() => setSaved(false), 2000);
@@ -119,10 +163,98 @@ export function SettingsForm() {
 
       <div className="space-y-6">
         <div>
-          <h3 className="font-medium text-slate-200 mb-3">Lokasjon</h3>
-          <div className="space-y-3" ref={containerRef}>
-            <div>
-              <label className="block text-sm text-slate-400 mb-1">Sted</label>
+          <h3 className="font-medium text-slate-200 mb-3">Lokasjoner</h3>
+          <div className="space-y-3">
+            {formData.locations.map((location) => (
+              <div key={location.id} className="p-3 bg-slate-800 rounded-lg space-y-3">
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={location.name}
+                    onChange={(e) => handleLocationChange(location.id, 'name', e.target.value)}
+                    placeholder="f.eks. Hytta"
+                    className="flex-1 min-w-0 px-3 py-2 bg-slate-900 border border-slate-600 rounded-lg text-white focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => handleRemoveLocation(location.id)}
+                    disabled={formData.locations.length < 2}
+                    className="p-2 text-slate-400 hover:text-red-400 hover:bg-slate-700 rounded disabled:opacity-30 disabled:cursor-not-allowed"
+                    title="Fjern sted"
+                  >
+                    🗑️
+                  </button>
+                </div>
+                <div className="grid grid-cols-3 gap-3">
+                  <div>
+                    <label className="block text-xs text-slate-400 mb-1">Breddegrad</label>
+                    <input
+                      type="number"
+                      step="0.0001"
+                      value={location.lat}
+                      onChange={(e) => handleLocationChange(location.id, 'lat', parseFloat(e.target.value))}
+                      className="w-full px-3 py-2 bg-slate-900 border border-slate-600 rounded-lg text-white focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-slate-400 mb-1">Lengdegrad</label>
+                    <input
+                      type="number"
+                      step="0.0001"
+                      value={location.lon}
+                      onChange={(e) => handleLocationChange(location.id, 'lon', parseFloat(e.target.value))}
+                      className="w-full px-3 py-2 bg-slate-900 border border-slate-600 rounded-lg text-white focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-slate-400 mb-1">Snøterskel (cm)</label>
+                    <input
+                      type="number"
+                      min="1"
+                      max="100"
+                      value={location.snowThreshold}
+                      onChange={(e) => handleLocationChange(location.id, 'snowThreshold', parseInt(e.target.value))}
+                      className="w-full px-3 py-2 bg-slate-900 border border-slate-600 rounded-lg text-white focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-xs text-slate-400 mb-1">Tidssone</label>
+                  <select
+                    value={location.timezone ?? getDeviceTimeZone()}
+                    onChange={(e) => handleLocationChange(location.id, 'timezone', e.target.value)}
+                    className="w-full px-3 py-2 bg-slate-900 border border-slate-600 rounded-lg text-white focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+                  >
+                    {TIME_ZONES.map((zone) => (
+                      <option key={zone} value={zone}>{zone}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs text-slate-400 mb-1">Adresse</label>
+                  <input
+                    type="text"
+                    value={location.address ?? ''}
+                    onChange={(e) => handleLocationChange(location.id, 'address', e.target.value)}
+                    placeholder="f.eks. Fjellveien 12"
+                    className="w-full px-3 py-2 bg-slate-900 border border-slate-600 rounded-lg text-white focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-slate-400 mb-1">Adkomst</label>
+                  <input
+                    type="text"
+                    value={location.accessNotes ?? ''}
+                    onChange={(e) => handleLocationChange(location.id, 'accessNotes', e.target.value)}
+                    placeholder="f.eks. Portkode 1234, legg snøen til venstre"
+                    className="w-full px-3 py-2 bg-slate-900 border border-slate-600 rounded-lg text-white focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+                  />
+                </div>
+              </div>
+            ))}
+
+            <div ref={containerRef}>
+              <label className="block text-sm text-slate-400 mb-1">Legg til sted</label>
               <div className="relative">
                 <input
                   type="text"
@@ -161,119 +293,191 @@ export function SettingsForm() {
                 )}
               </div>
             </div>
-            <div className="grid grid-cols-2 gap-3">
-              <div>
-                <label className="block text-sm text-slate-400 mb-1">Breddegrad</label>
-                <input
-                  type="number"
-                  step="0.0001"
-                  value={formData.location.lat}
-                  onChange={(e) => handleLocationChange('lat', parseFloat(e.target.value))}
-                  className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-lg text-white focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
-                />
-              </div>
+            <p className="text-xs text-slate-500">
+              Hvert sted har egen snøterskel og vises i oversikten på hjem-fanen.
+              Koordinater kan justeres manuelt.
+            </p>
+          </div>
+        </div>
+
+        <div className="border-t border-slate-700 pt-4">
+          <h3 className="font-medium text-slate-200 mb-3">Værdata</h3>
+          <div className="space-y-3">
+            <div>
+              <label className="block text-sm text-slate-300 mb-1">Kilde</label>
+              <select
+                value={getWeatherProviderId(formData)}
+                onChange={(e) => handleChange('weatherProvider', e.target.value as WeatherProviderId)}
+                className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-lg text-white focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+              >
+                {(Object.keys(WEATHER_PROVIDER_LABELS) as WeatherProviderId[]).map((id) => (
+                  <option key={id} value={id}>{WEATHER_PROVIDER_LABELS[id]}</option>
+                ))}
+              </select>
+            </div>
+
+            {getWeatherProviderId(formData) === 'fixture' && (
               <div>
-                <label className="block text-sm text-slate-400 mb-1">Lengdegrad</label>
-                <input
-                  type="number"
-                  step="0.0001"
-                  value={formData.location.lon}
-                  onChange={(e) => handleLocationChange('lon', parseFloat(e.target.value))}
+                <label className="block text-sm text-slate-300 mb-1">Scenario</label>
+                <select
+                  value={getWeatherScenarioId(formData) ?? ''}
+                  onChange={(e) => handleChange('weatherScenario', e.target.value)}
                   className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-lg text-white focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
-                />
+                >
+                  {WEATHER_SCENARIOS.map((scenario) => (
+                    <option key={scenario.id} value={scenario.id}>{scenario.name}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-slate-500 mt-1">
+                  {getWeatherScenario(getWeatherScenarioId(formData))?.description}
+                </p>
               </div>
-            </div>
+            )}
+
             <p className="text-xs text-slate-500">
-              Velg et sted fra listen, eller skriv inn koordinater manuelt.
+              Testdata brukes uten nettverk, f.eks. for å vise kritisk status i en demo.
             </p>
           </div>
         </div>
 
         <div className="border-t border-slate-700 pt-4">
-          <h3 className="font-medium text-slate-200 mb-3">Varslingsinnstillinger</h3>
-          <div className="space-y-3">
-            <div>
-              <label className="block text-sm text-slate-400 mb-1">
-                Snøterskel (cm)
-              </label>
+          <h3 className="font-medium text-slate-200 mb-3">Bestilling av brøyting</h3>
+          <div className="space-y-2">
+            <label className="block text-sm text-slate-300 mb-1">Meldingsmal</label>
+            <textarea
+              value={formData.orderTemplate}
+              onChange={(e) => handleChange('orderTemplate', e.target.value)}
+              rows={4}
+              className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-lg text-white focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+            />
+            <p className="text-xs text-slate-500">
+              {Object.entries(ORDER_TEMPLATE_VARIABLES).map(([name, description]) => (
+                <span key={name} title={description} className="inline-block mr-2">{`{${name}}`}</span>
+              ))}
+            </p>
+            {formData.orderTemplate !== DEFAULT_ORDER_TEMPLATE && (
+              <button
+                type="button"
+                onClick={() => handleChange('orderTemplate', DEFAULT_ORDER_TEMPLATE)}
+                className="px-2 py-1 text-xs bg-slate-700 text-slate-200 rounded hover:bg-slate-600"
+              >
+                Tilbakestill mal
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div className="border-t border-slate-700 pt-4">
+          <h3 className="font-medium text-slate-200 mb-3">Brøytingslogg</h3>
+          <div className="flex gap-2">
+            <select
+              value={formData.historyRetention.type}
+              onChange={(e) => handleRetentionChange(createRetention(e.target.value as HistoryRetention['type']))}
+              className="flex-1 px-3 py-2 bg-slate-800 border border-slate-600 rounded-lg text-white focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+            >
+              {(Object.keys(RETENTION_LABELS) as HistoryRetention['type'][]).map((type) => (
+                <option key={type} value={type}>{RETENTION_LABELS[type]}</option>
+              ))}
+            </select>
+            {formData.historyRetention.type !== 'forever' && (
               <input
                 type="number"
                 min="1"
-                max="100"
-                value={formData.snowThreshold}
-                onChange={(e) => handleChange('snowThreshold', parseInt(e.target.value))}
-                className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-lg text-white focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+                value={formData.historyRetention.count}
+                onChange={(e) => handleRetentionChange({
+                  ...formData.historyRetention,
+                  count: Math.max(1, parseInt(e.target.value) || 1),
+                } as HistoryRetention)}
+                className="w-20 px-3 py-2 bg-slate-800 border border-slate-600 rounded-lg text-white focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
               />
-              <p className="text-xs text-slate-500 mt-1">
-                Du vil bli varslet når det er ventet mer enn dette.
-              </p>
-            </div>
+            )}
+          </div>
+          <p className="text-xs text-slate-500 mt-2">
+            Eldre brøytinger slettes ikke, men arkiveres komprimert per sesong og kan blas i under Historikk.
+            Siste brøyting på hvert sted blir alltid i loggen.
+          </p>
+        </div>
 
+        <div className="border-t border-slate-700 pt-4">
+          <h3 className="font-medium text-slate-200 mb-3">Varslingsinnstillinger</h3>
+          <div className="space-y-3">
             <div className="flex items-center justify-between">
               <div>
-                <label className="text-sm text-slate-200">Varsle ved snø</label>
-                <p className="text-xs text-slate-500">Få beskjed når det begynner å snø</p>
+                <label className="text-sm text-slate-200">Varsler</label>
+                <p className="text-xs text-slate-500">Send varsler når en regel slår til</p>
               </div>
               <button
                 type="button"
                 onClick={async () => {
-                  if (!formData.notifyOnSnow) {
+                  if (!formData.notifyEnabled) {
                     const granted = await requestNotificationPermission();
                     if (!granted) return;
                   }
-                  handleChange('notifyOnSnow', !formData.notifyOnSnow);
+                  handleChange('notifyEnabled', !formData.notifyEnabled);
                 }}
                 className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
-                  formData.notifyOnSnow ? 'bg-sky-500' : 'bg-slate-600'
+                  formData.notifyEnabled ? 'bg-sky-500' : 'bg-slate-600'
                 }`}
               >
                 <span
                   className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
-                    formData.notifyOnSnow ? 'translate-x-6' : 'translate-x-1'
+                    formData.notifyEnabled ? 'translate-x-6' : 'translate-x-1'
                   }`}
                 />
               </button>
             </div>
 
-            <div className="flex items-center justify-between">
-              <div>
-                <label className="text-sm text-slate-200">Varsle på dagtid</label>
-                <p className="text-xs text-slate-500">Kl. 09:00 - 18:00</p>
-              </div>
-              <button
-                type="button"
-                onClick={() => handleChange('notifyDay', !formData.notifyDay)}
-                className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
-                  formData.notifyDay ? 'bg-sky-500' : 'bg-slate-600'
-                }`}
-              >
-                <span
-                  className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
-                    formData.notifyDay ? 'translate-x-6' : 'translate-x-1'
+            {formData.notifyEnabled && isPushSupported() && (
+              <div className="flex items-center justify-between">
+                <div>
+                  <label className="text-sm text-slate-200">Varsle når appen er lukket</label>
+                  <p className="text-xs text-slate-500">Push via relay, også på låst telefon</p>
+                </div>
+                <button
+                  type="button"
+                  onClick={async () => {
+                    if (!formData.pushEnabled) {
+                      const granted = await requestNotificationPermission();
+                      if (!granted) return;
+                    }
+                    handleChange('pushEnabled', !formData.pushEnabled);
+                  }}
+                  className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                    formData.pushEnabled ? 'bg-sky-500' : 'bg-slate-600'
                   }`}
-                />
-              </button>
-            </div>
-
-            <div className="flex items-center justify-between">
-              <div>
-                <label className="text-sm text-slate-200">Varsle på natttid</label>
-                <p className="text-xs text-slate-500">Kl. 18:00 - 09:00</p>
+                >
+                  <span
+                    className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                      formData.pushEnabled ? 'translate-x-6' : 'translate-x-1'
+                    }`}
+                  />
+                </button>
               </div>
-              <button
-                type="button"
-                onClick={() => handleChange('notifyNight', !formData.notifyNight)}
-                className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
-                  formData.notifyNight ? 'bg-sky-500' : 'bg-slate-600'
-                }`}
-              >
-                <span
-                  className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
-                    formData.notifyNight ? 'translate-x-6' : 'translate-x-1'
-                  }`}
-                />
-              </button>
-            </div>
+            )}
+
+            {formData.notifyEnabled && formData.pushEnabled && state.push.error && (
+              <p className="text-xs text-yellow-400">
+                Push virker ikke ({state.push.error}). Varsler vises i appen i stedet.
+              </p>
+            )}
+
+            <ScheduleEditor
+              schedule={formData.schedule}
+              onChange={(schedule) => {
+                setFormData((prev) => ({ ...prev, schedule }));
+                setSaved(false);
+              }}
+            />
+
+            {formData.notifyEnabled && (
+              <AlertRuleEditor
+                rules={formData.alertRules}
+                onChange={(alertRules) => {
+                  setFormData((prev) => ({ ...prev, alertRules }));
+                  setSaved(false);
+                }}
+              />
+            )}
           </div>
         </div>
 
@@ -300,6 +504,10 @@ export function SettingsForm() {
           </div>
         )}
 
+        <SyncSettings />
+
+        <StorageQuarantine />
+
         <div className="border-t border-slate-700 pt-4">
           <h3 className="font-medium text-slate-200 mb-3">Tilbakemelding</h3>
           <p className="text-xs text-slate-500 mb-3">
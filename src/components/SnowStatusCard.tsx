@@ -1,5 +1,8 @@
+import { useState } from 'react';
 import { useApp } from '../hooks/useApp';
 import type { SnowStatus } from '../types';
+import { PlowOrderModal } from './PlowOrderModal';
+import { PlowOrderList } from './PlowOrderList';
 
 interface StatusConfig {
   bg: string;
@@ -34,13 +37,40 @@ const statusConfigs: Record<SnowStatus, StatusConfig> = {
 };
 
 export function SnowStatusCard() {
-  const { getSnowStatus, state } = useApp();
-  const { status, snowAmount } = getSnowStatus();
+  const { getSnowStatus, activeLocation } = useApp();
+  const [showOrder, setShowOrder] = useState(false);
+  const {
+    status,
+    currentDepth,
+    projectedDepth,
+    projectedDepthLow,
+    projectedDepthHigh,
+    precipitationProbability,
+    nextPlowingExpected,
+    nextPlowingEarliest,
+    lastPlowing,
+  } = getSnowStatus();
   const config = statusConfigs[status];
-  const threshold = state.settings.snowThreshold;
+  const threshold = activeLocation.snowThreshold;
 
-  const thresholdMm = threshold;
-  const snowAmountMm = snowAmount;
+  const formatDate = (isoString: string) => {
+    return new Date(isoString).toLocaleDateString('nb-NO', {
+      day: 'numeric',
+      month: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const formatDay = (isoString: string) => {
+    return new Date(isoString).toLocaleDateString('nb-NO', {
+      weekday: 'long',
+      day: 'numeric',
+      month: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
 
   return (
     <div className={`${config.bg} border ${config.border} rounded-xl p-6`}>
@@ -54,13 +84,62 @@ export function SnowStatusCard() {
         </div>
       </div>
       
-      <div className="mt-4 flex items-center justify-between">
-        <div className="text-sm text-slate-200">
-          <span className="font-medium">{snowAmountMm.toFixed(1)} mm</span> nedbør ventet (24t)
+      <div className="mt-4 grid grid-cols-2 gap-4">
+        <div>
+          <div className="text-2xl font-bold text-white">{currentDepth.toFixed(1)} cm</div>
+          <div className="text-xs text-slate-400">Snø på bakken nå</div>
+        </div>
+        <div className="text-right">
+          <div className="text-2xl font-bold text-white">{projectedDepth.toFixed(1)} cm</div>
+          <div className="text-xs text-slate-400">Ventet innen 24t</div>
+        </div>
+      </div>
+
+      <div className="mt-3 grid grid-cols-3 gap-2 text-center">
+        <div className="bg-slate-900/50 rounded-lg py-2">
+          <div className="text-sm font-medium text-slate-200">{projectedDepthLow.toFixed(1)} cm</div>
+          <div className="text-xs text-slate-500">Lavt</div>
+        </div>
+        <div className="bg-slate-900/50 rounded-lg py-2">
+          <div className="text-sm font-medium text-slate-200">{projectedDepth.toFixed(1)} cm</div>
+          <div className="text-xs text-slate-500">Forventet</div>
+        </div>
+        <div className={`bg-slate-900/50 rounded-lg py-2 ${projectedDepthHigh >= threshold ? 'ring-1 ring-red-500/60' : ''}`}>
+          <div className="text-sm font-medium text-slate-200">{projectedDepthHigh.toFixed(1)} cm</div>
+          <div className="text-xs text-slate-500">Høyt</div>
         </div>
-        <div className="text-sm text-slate-400">
-          Terskel: {thresholdMm} mm
+      </div>
+      {precipitationProbability !== null && (
+        <p className="mt-2 text-xs text-slate-400">
+          Sannsynlighet for nedbør neste 24t: {Math.round(precipitationProbability)} %
+          {projectedDepthHigh >= threshold && status === 'normal' && ' · verste tilfelle over terskel'}
+        </p>
+      )}
+
+      <div className="mt-3 flex items-center justify-between text-sm">
+        <div className="text-slate-400">
+          {lastPlowing ? `Siden brøyting ${formatDate(lastPlowing)}` : 'Ingen brøyting logget'}
         </div>
+        <div className="text-slate-400">
+          Terskel: {threshold} cm
+        </div>
+      </div>
+
+      <div className="mt-3 p-3 bg-slate-900/50 rounded-lg text-sm">
+        {nextPlowingExpected ? (
+          <p className="text-slate-200">
+            🚜 Neste brøyting trolig nødvendig: <span className="font-medium">
+              {currentDepth >= threshold ? 'nå' : formatDay(nextPlowingExpected)}
+            </span>
+          </p>
+        ) : (
+          <p className="text-slate-300">🚜 Brøyting ikke ventet innen prognosen (ca. 9 døgn)</p>
+        )}
+        {nextPlowingEarliest && nextPlowingEarliest !== nextPlowingExpected && (
+          <p className="text-xs text-slate-400 mt-1">
+            Tidligst (høyt anslag): {formatDay(nextPlowingEarliest)}
+          </p>
+        )}
       </div>
 
       <div className="mt-3 h-2 bg-slate-800 rounded-full overflow-hidden">
@@ -68,9 +147,22 @@ export function SnowStatusCard() {
           className={`h-full transition-all duration-300 ${
             status === 'normal' ? 'bg-green-500' : status === 'warning' ? 'bg-yellow-500' : 'bg-red-500'
           }`}
-          style={{ width: `${Math.min((snowAmount / threshold) * 100, 100)}%` }}
+          style={{ width: `${Math.min((projectedDepth / threshold) * 100, 100)}%` }}
         />
       </div>
+
+      <PlowOrderList />
+
+      <button
+        onClick={() => setShowOrder(true)}
+        className={`mt-3 w-full py-2 rounded-lg font-medium ${
+          status === 'normal' ? 'bg-slate-700 text-slate-200 hover:bg-slate-600' : 'bg-sky-600 text-white hover:bg-sky-500'
+        }`}
+      >
+        🚜 Bestill brøyting
+      </button>
+
+      {showOrder && <PlowOrderModal onClose={() => setShowOrder(false)} />}
     </div>
   );
 }
@@ -0,0 +1,59 @@
+import { useState } from 'react';
+import { clearQuarantine, getQuarantine } from '../lib/storage';
+
+const REVOKE_URL_MS = 60 * 1000;
+
+export function StorageQuarantine() {
+  const [items, setItems] = useState(() => getQuarantine());
+
+  if (items.length === 0) return null;
+
+  const handleDownload = () => {
+    const blob = new Blob([JSON.stringify(items, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'snoklar-karantene.json';
+    link.click();
+    // Nedlastingen trenger adressen en stund etter klikket
+    setTimeout(() => URL.revokeObjectURL(url), REVOKE_URL_MS);
+  };
+
+  const handleClear = () => {
+    if (confirm('Slette dataene i karantene for godt?')) {
+      clearQuarantine();
+      setItems([]);
+    }
+  };
+
+  return (
+    <div className="border-t border-slate-700 pt-4">
+      <h3 className="font-medium text-slate-200 mb-3">Data som ikke kunne leses</h3>
+      <p className="text-xs text-yellow-400 mb-3">
+        {items.length} {items.length === 1 ? 'element' : 'elementer'} fra lagringen var skadet eller
+        i ukjent format, og er lagt til side i stedet for å slettes.
+      </p>
+      <ul className="text-xs text-slate-400 mb-3 space-y-1">
+        {items.slice(-5).map((item) => (
+          <li key={`${item.key}-${item.quarantinedAt}`}>
+            {new Date(item.quarantinedAt).toLocaleDateString('nb-NO')} · {item.key.replace('snomaking_', '')}: {item.reason}
+          </li>
+        ))}
+      </ul>
+      <div className="flex gap-2">
+        <button
+          onClick={handleDownload}
+          className="flex-1 px-4 py-2 bg-slate-700 text-white rounded-lg hover:bg-slate-600 transition-colors"
+        >
+          Last ned
+        </button>
+        <button
+          onClick={handleClear}
+          className="px-4 py-2 text-slate-400 hover:text-red-400 transition-colors"
+        >
+          Slett
+        </button>
+      </div>
+    </div>
+  );
+}
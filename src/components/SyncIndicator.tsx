@@ -0,0 +1,29 @@
+import { useApp } from '../hooks/useApp';
+import { SYNC_PHASE_LABELS } from '../services/sync';
+
+const PHASE_STYLES = {
+  idle: 'text-slate-400',
+  syncing: 'text-sky-400',
+  offline: 'text-yellow-400',
+  error: 'text-red-400',
+};
+
+export function SyncIndicator() {
+  const { state, syncNow } = useApp();
+  const { phase, pending, live } = state.sync;
+
+  if (phase === 'disabled') return null;
+
+  return (
+    <button
+      onClick={() => syncNow()}
+      disabled={phase === 'syncing'}
+      title={live ? 'Synkroniser nå (endringer fra andre vises med en gang)' : 'Synkroniser nå'}
+      className={`text-xs px-2 py-1 rounded-lg bg-slate-800 hover:bg-slate-700 transition-colors ${PHASE_STYLES[phase]}`}
+    >
+      {phase === 'syncing' ? '⟳' : '☁️'} {SYNC_PHASE_LABELS[phase]}
+      {pending > 0 && phase !== 'syncing' && ` · ${pending} venter`}
+      {live && phase === 'idle' && <span className="ml-1 text-green-400">●</span>}
+    </button>
+  );
+}
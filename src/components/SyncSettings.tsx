@@ -0,0 +1,60 @@
+import { useApp } from '../hooks/useApp';
+import { useProperty } from '../hooks/useProperty';
+import { SYNC_PHASE_LABELS } from '../services/sync';
+import { AccountSettings } from './AccountSettings';
+import { PropertySettings } from './PropertySettings';
+
+export function SyncSettings() {
+  const { state, syncNow } = useApp();
+  const { phase, pending, lastSyncedAt, error } = state.sync;
+  const controls = useProperty();
+
+  if (phase === 'disabled') {
+    return (
+      <div className="border-t border-slate-700 pt-4">
+        <h3 className="font-medium text-slate-200 mb-3">Synkronisering</h3>
+        <p className="text-xs text-slate-500">
+          Sett VITE_SUPABASE_URL og VITE_SUPABASE_ANON_KEY for å synkronisere innstillinger, kontakter
+          og brøytinger med andre enheter og brukere.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="border-t border-slate-700 pt-4">
+      <h3 className="font-medium text-slate-200 mb-3">Synkronisering</h3>
+
+      <div className="flex items-center justify-between gap-3 mb-2">
+        <div className="text-sm">
+          <p className={phase === 'error' ? 'text-red-400' : phase === 'offline' ? 'text-yellow-400' : 'text-slate-300'}>
+            {SYNC_PHASE_LABELS[phase]}
+            {pending > 0 && ` · ${pending} ${pending === 1 ? 'endring venter' : 'endringer venter'}`}
+          </p>
+          {error && <p className="text-xs text-red-400 mt-1">{error}</p>}
+          {controls.error && <p className="text-xs text-red-400 mt-1">{controls.error}</p>}
+          <p className="text-xs text-slate-500 mt-1">
+            {lastSyncedAt
+              ? `Sist synkronisert ${new Date(lastSyncedAt).toLocaleString('nb-NO', { dateStyle: 'short', timeStyle: 'short' })}`
+              : 'Ikke synkronisert ennå'}
+          </p>
+        </div>
+        <button
+          onClick={() => syncNow()}
+          disabled={phase === 'syncing'}
+          className="px-4 py-2 bg-slate-700 text-white rounded-lg hover:bg-slate-600 disabled:opacity-50 transition-colors"
+        >
+          Synkroniser nå
+        </button>
+      </div>
+
+      <p className="text-xs text-slate-500">
+        Alle medlemmer av eiendommen deler brøytinger, kontakter og innstillinger. Endringer uten nett
+        sendes når forbindelsen er tilbake; ved konflikt gjelder siste endring.
+      </p>
+
+      <AccountSettings controls={controls} />
+      <PropertySettings controls={controls} />
+    </div>
+  );
+}
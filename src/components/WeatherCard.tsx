@@ -1,10 +1,11 @@
 import { useApp } from '../hooks/useApp';
 import { getWeatherConditionEmoji, getWeatherConditionLabel } from '../services/metno';
-import { isNightTime } from '../services/notifications';
+import { getLocationTimeZone, isDayTime } from '../lib/schedule';
+import { getSunTimes } from '../lib/sun';
+import { NowcastStrip } from './NowcastStrip';
+import { getWeatherProviderId, getWeatherScenario, getWeatherScenarioId } from '../services/weatherProviders';
 
-function getWeatherEmojiWithDayNight(condition: string): string {
-  const night = isNightTime();
-  
+function getWeatherEmojiWithDayNight(condition: string, night: boolean): string {
   if (night) {
     const baseEmoji = getWeatherConditionEmoji(condition);
     if (baseEmoji === '☀️') {
@@ -17,15 +18,31 @@ function getWeatherEmojiWithDayNight(condition: string): string {
 }
 
 export function WeatherCard() {
-  const { state, refreshWeather } = useApp();
-  const { weather, loading, error } = state;
-  const { lat, lon } = state.settings.location;
+  const { state, refreshWeather, activeLocation, activeWeather: weather } = useApp();
+  const { loading, error } = state;
+  const { lat, lon } = activeLocation;
+  const nowcast = state.nowcast[activeLocation.id];
+  const now = new Date();
+  const night = !isDayTime(state.settings.schedule, activeLocation, now);
+  const sun = getSunTimes(lat, lon, now);
+  const timeZone = getLocationTimeZone(activeLocation);
+  const scenario = getWeatherProviderId(state.settings) === 'fixture'
+    ? getWeatherScenario(getWeatherScenarioId(state.settings))
+    : undefined;
 
   const formatTime = (isoString: string) => {
     const date = new Date(isoString);
     return date.toLocaleTimeString('nb-NO', { hour: '2-digit', minute: '2-digit' });
   };
 
+  const formatSunTime = (date: Date) =>
+    date.toLocaleTimeString('nb-NO', { hour: '2-digit', minute: '2-digit', timeZone });
+
+  const getSunLabel = () => {
+    if (!sun.sunrise || !sun.sunset) return sun.polar === 'day' ? '☀️ Midnattssol' : '🌑 Mørketid';
+    return `🌅 ${formatSunTime(sun.sunrise)} · 🌇 ${formatSunTime(sun.sunset)}`;
+  };
+
   const precipIcons = {
     snow: '❄️',
     sleet: '🌨️',
@@ -47,7 +64,14 @@ export function WeatherCard() {
   return (
     <div className="bg-slate-900 rounded-xl shadow-md p-6">
       <div className="flex justify-between items-center border-b border-slate-700 pb-3 mb-4">
-        <h2 className="text-lg font-semibold text-white">Vær nå</h2>
+        <h2 className="text-lg font-semibold text-white">
+          Vær nå
+          {scenario && (
+            <span className="ml-2 px-2 py-0.5 text-xs font-normal rounded-full bg-amber-900/50 text-amber-300">
+              Testdata: {scenario.name}
+            </span>
+          )}
+        </h2>
         <button
           onClick={refreshWeather}
           disabled={loading}
@@ -65,7 +89,8 @@ export function WeatherCard() {
 
       <div className="flex items-center gap-2 mb-4 text-sm text-slate-300">
         <span>📍</span>
-        <span>{state.settings.location.name}</span>
+        <span>{activeLocation.name}</span>
+        <span className="ml-auto text-xs text-slate-500">{getSunLabel()}</span>
       </div>
 
       {weather ? (
@@ -84,7 +109,7 @@ export function WeatherCard() {
               </>
             ) : (
               <>
-                <div className="text-3xl mb-1">{getWeatherEmojiWithDayNight(weather.current.weatherCondition)}</div>
+                <div className="text-3xl mb-1">{getWeatherEmojiWithDayNight(weather.current.weatherCondition, night)}</div>
                 <div className="text-2xl font-bold text-white">{getWeatherConditionLabel(weather.current.weatherCondition)}</div>
                 <div className="text-xs text-slate-400">Vær</div>
               </>
@@ -102,6 +127,12 @@ export function WeatherCard() {
         </div>
       )}
 
+      {nowcast && (
+        <div className="mt-4 pt-4 border-t border-slate-700">
+          <NowcastStrip nowcast={nowcast} />
+        </div>
+      )}
+
       {weather && (
         <div className="mt-4 pt-4 border-t border-slate-700 space-y-2">
           <p className="text-xs text-slate-500 text-center">
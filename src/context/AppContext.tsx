@@ -6,11 +6,12 @@
  * - Værdata (current weather, forecast)
  * - Brøytingshistorikk (log over når det er brøytet)
  * - Kontakter (entreprenører)
+ * - Synkronisering med Supabase (valgfritt)
  * 
  * Implementerer Redux-lignende mønster med:
  * - createContext: Gir tilgang til state globalt
  * - useReducer: Håndterer state-oppdateringer
- * - useEffect: Håndterer side effects (API-kall, localStorage)
+ * - useEffect: Håndterer side effects (API-kall, lagring i IndexedDB)
  * 
  * @see https://react.dev/learn/passing-data-deeply-with-context - Context i React
  * @see https://react.dev/reference/react/useReducer - useReducer hook
@@ -22,39 +23,77 @@
 
 import React, { createContext, useReducer, useEffect, useRef } from 'react';
 import type { ReactNode } from 'react';
-import type { AppState, AppAction, Settings, SnowEntry, Contractor, WeatherData } from '../types';
+import type {
+  AppState,
+  AppAction,
+  Settings,
+  WeatherData,
+  NowcastData,
+  MonitoredLocation,
+  SnowStatus,
+  SnowStatusResult,
+  SyncStatus,
+  RemoteAction,
+  RemoteChangeNotice,
+} from '../types';
 
-// API-funksjoner for værdata og snøberegning
-import { fetchWeatherData, calculateSnowInPeriod } from '../services/metno';
+// API-funksjoner for værdata
+import { mergePastHours } from '../services/metno';
+import { getWeatherProvider, getWeatherProviderId, getWeatherScenarioId } from '../services/weatherProviders';
 
-// Notifikasjonsfunksjoner
-import { showNotification, isDayTime, isNightTime } from '../services/notifications';
+// Snødybde-modell (snø på bakken siden siste brøyting)
+import { calculateSnowStatus, getLastPlowing } from '../lib/snowDepth';
 
-// LocalStorage-hjelpere for data-persistens
-import { getFromLocalStorage, setToLocalStorage } from '../hooks/useLocalStorage';
+// Notifikasjonsfunksjoner og varslingsregler
+import { showNotification } from '../services/notifications';
+import { createPushRegistration, isPushSupported, syncPushSubscription, unsubscribeFromPush } from '../services/push';
+import { createDefaultAlertRules, evaluateAlerts, getStatusToStore } from '../lib/alerts';
+import { DEFAULT_SCHEDULE } from '../lib/schedule';
+
+// Bestilling av brøyting
+import { DEFAULT_ORDER_TEMPLATE } from '../lib/orders';
+import { setContractorOrder, sortContractors, unlinkContractor } from '../lib/contractors';
+import { getEscalationState } from '../lib/escalation';
+
+// Lokal database (IndexedDB) for data-persistens
+import { archiveEntries, loadAppData, persistChanges } from '../services/repository';
+
+// Synkronisering med Supabase (offline først)
+import { getDefaultSupabaseClient } from '../services/supabase';
+import { getStoredSession } from '../services/auth';
+import {
+  acceptRemoteAction,
+  applyRecordChanges,
+  getActiveProperty,
+  getLocalActions,
+  isOfflineError,
+  markLocalRemovals,
+  queueChanges,
+  runSync,
+  toRealtimeAction,
+} from '../services/sync';
+
+// Endringer i sanntid fra andre enheter og faner
+import { createTabChannel, describeRemoteAction, getDefaultRealtimeClient, resolveAuthor } from '../services/realtime';
+
+// Redigering, oppbevaring og arkivering av brøytingsloggen
+import { applyEntryEdit } from '../lib/history';
+import { DEFAULT_RETENTION, getEntriesToArchive } from '../lib/retention';
+
+// Hjelpere for flere overvåkede lokasjoner
+import { getActiveLocation, DEFAULT_SNOW_THRESHOLD } from '../lib/locations';
 
 // =============================================================================
 // KONSTANTER
 // =============================================================================
 
 /**
- * STORAGE_KEYS: Nøkler for localStorage
+ * DEFAULT_LOCATION_ID: ID for standard-lokasjonen
  * 
- * Disse nøklene brukes for å lagre data i browserens localStorage.
- * Prefix 'snomaking_' unngår konflikter med andre apper.
- * 
- * Data som lagres:
- * - settings: Brukerens innstillinger
- * - history: Brøytingslogg
- * - contractors: Kontakter/entreprenører
- * - weather: Siste værdata (for offline-visning)
+ * Brukes også når eldre innstillinger (med én lokasjon) migreres
+ * (se MIGRATIONS i lib/storage).
  */
-const STORAGE_KEYS = {
-  SETTINGS: 'snomaking_settings',       // Brukerinnstillinger
-  HISTORY: 'snomaking_history',         // Brøytingshistorikk
-  CONTRACTORS: 'snomaking_contractors', // Kontakter
-  WEATHER: 'snomaking_weather',         // Værdata (cache)
-};
+const DEFAULT_LOCATION_ID = 'default';
 
 /**
  * DEFAULT_SETTINGS: Standard innstillinger
@@ -63,35 +102,77 @@ const STORAGE_KEYS = {
  * Oslo er valgt som standard siden appen er norsk.
  */
 const DEFAULT_SETTINGS: Settings = {
-  location: {
-    name: 'Oslo',
-    lat: 59.9139,
-    lon: 10.7522,
-  },
-  snowThreshold: 10,      // 10mm snø = varsling
-  notifyNight: true,      // Varsle om natten
-  notifyDay: true,        // Varsle på dagen
+  locations: [
+    {
+      id: DEFAULT_LOCATION_ID,
+      name: 'Oslo',
+      lat: 59.9139,
+      lon: 10.7522,
+      snowThreshold: DEFAULT_SNOW_THRESHOLD, // 10 cm snø på bakken = varsling
+    },
+  ],
+  activeLocationId: DEFAULT_LOCATION_ID,
   notifyEnabled: true,    // Hovedbryter for varsler
-  notifyOnSnow: false,    // Varsle når det snør
+  alertRules: createDefaultAlertRules(), // Snøstart (av) og kritisk status (på)
+  schedule: DEFAULT_SCHEDULE, // Dagtid etter sola, ingen stille perioder
+  orderTemplate: DEFAULT_ORDER_TEMPLATE, // Melding ved bestilling av brøyting
+  historyRetention: DEFAULT_RETENTION, // To sesonger i loggen, eldre arkiveres
 };
 
+/**
+ * supabaseClient: Klient mot Supabase (null hvis ikke satt opp)
+ * 
+ * Uten VITE_SUPABASE_URL fungerer appen som før, kun lokalt.
+ */
+const supabaseClient = getDefaultSupabaseClient();
+
+/**
+ * realtimeClient / tabChannel: Endringer i sanntid
+ * 
+ * Fra andre enheter via Supabase Realtime (null uten Supabase), og fra
+ * andre faner via BroadcastChannel (null hvis nettleseren mangler det).
+ */
+const realtimeClient = getDefaultRealtimeClient();
+const tabChannel = createTabChannel();
+
+/**
+ * SYNC_DELAY_MS / SYNC_INTERVAL_MS: Når det synkroniseres
+ * 
+ * Lokale endringer sendes etter 2 sekunder (flere endringer samles),
+ * og endringer fra andre enheter hentes hvert 5. minutt.
+ */
+const SYNC_DELAY_MS = 2 * 1000;
+const SYNC_INTERVAL_MS = 5 * 60 * 1000;
+
 // =============================================================================
 // HJELPEFUNKSJONER
 // =============================================================================
 
 /**
- * cleanOldHistory: Fjerner gamle oppføringer
+ * getWeatherSourceKey: Identifiserer valgt værdata-kilde og scenario
+ * 
+ * Værdata fra ulike kilder skal aldri blandes (f.eks. passerte
+ * timer fra Met.no sammen med et testscenario).
+ * 
+ * @param settings - Brukerinnstillinger
+ * @returns Nøkkel som endres når kilde eller scenario byttes
+ */
+function getWeatherSourceKey(settings: Settings): string {
+  const providerId = getWeatherProviderId(settings);
+  return providerId === 'fixture' ? `${providerId}:${getWeatherScenarioId(settings)}` : providerId;
+}
+
+/**
+ * getSyncErrorStatus: Synkroniseringsstatus etter en feil
  * 
- * Brøytingsloggen skal kun vise de siste 6 månedene.
- * Denne funksjonen filtrerer bort eldre oppføringer.
+ * Uten nett venter endringene i køen (offline), ellers vises feilen.
  * 
- * @param entries - Alle brøytingsoppføringer
- * @returns Kun oppføringer fra siste 6 måneder
+ * @param error - Feilen fra runSync
+ * @returns Status for SET_SYNC_STATUS
  */
-function cleanOldHistory(entries: SnowEntry[]): SnowEntry[] {
-  const sixMonthsAgo = new Date();
-  sixMonthsAgo.setMonth(sixMonthsAgo.getMonth() - 6);
-  return entries.filter(entry => new Date(entry.timestamp) >= sixMonthsAgo);
+function getSyncErrorStatus(error: unknown): Partial<SyncStatus> {
+  if (isOfflineError(error)) return { phase: 'offline', error: null };
+  return { phase: 'error', error: error instanceof Error ? error.message : 'Ukjent feil' };
 }
 
 // =============================================================================
@@ -102,16 +183,30 @@ function cleanOldHistory(entries: SnowEntry[]): SnowEntry[] {
  * initialState: Startverdier for appen
  * 
  * Disse verdiene brukes når appen starter for første gang.
- * Deretter lastes lagret data fra localStorage.
+ * Deretter lastes lagret data fra databasen (IndexedDB).
  */
 const initialState: AppState = {
   settings: DEFAULT_SETTINGS,
-  weather: null,
+  weather: {},
+  nowcast: {},
   history: [],
   contractors: [],
+  orders: [],
   loading: false,
   error: null,
-  lastNotifiedSnow: null,
+  alertLog: {},
+  lastStatus: {},
+  sync: {
+    phase: supabaseClient ? 'idle' : 'disabled',
+    pending: 0,
+    lastSyncedAt: null,
+    error: null,
+    property: null,
+    live: false,
+    userId: null,
+  },
+  push: { subscribed: false, error: null },
+  remoteChange: null,
 };
 
 // =============================================================================
@@ -124,10 +219,9 @@ const initialState: AppState = {
  * Reduceren tar nåværende state og en action, og returnerer ny state.
  * Dette er samme mønster som Redux.
  * 
- * Hver case:
- * 1. Utfører logikken for den aktuelle handlingen
- * 2. Lagrer endringen til localStorage
- * 3. Returnerer ny state
+ * Reduceren er ren (ingen side effects). Endringer lagres etterpå
+ * av en effect i AppProvider (se persistChanges). Uendrede poster
+ * beholder samme objekt, slik at kun endrede poster skrives.
  * 
  * @param state - Nåværende tilstand
  * @param action - Handling som skal utføres
@@ -136,43 +230,92 @@ const initialState: AppState = {
 function appReducer(state: AppState, action: AppAction): AppState {
   switch (action.type) {
     // SETTINGS: Oppdater brukerinnstillinger
-    case 'SET_SETTINGS':
-      setToLocalStorage(STORAGE_KEYS.SETTINGS, action.payload);
-      return { ...state, settings: action.payload };
+    case 'SET_SETTINGS': {
+
+      // Ny værdata-kilde: forkast data fra forrige kilde (inkl. passerte timer)
+      if (getWeatherSourceKey(state.settings) !== getWeatherSourceKey(action.payload)) {
+        return { ...state, settings: action.payload, weather: {}, nowcast: {} };
+      }
+
+      // Fjern værdata for lokasjoner som ikke lenger finnes
+      const locationIds = new Set(action.payload.locations.map(l => l.id));
+      const newWeather = Object.fromEntries(
+        Object.entries(state.weather).filter(([locationId]) => locationIds.has(locationId))
+      );
+      const newNowcast = Object.fromEntries(
+        Object.entries(state.nowcast).filter(([locationId]) => locationIds.has(locationId))
+      );
+      return { ...state, settings: action.payload, weather: newWeather, nowcast: newNowcast };
+    }
+      
+    // SET_ACTIVE_LOCATION: Bytt lokasjon som vises på hjem-fanen
+    case 'SET_ACTIVE_LOCATION': {
+      const newSettings = { ...state.settings, activeLocationId: action.payload };
+      return { ...state, settings: newSettings };
+    }
       
-    // SET_WEATHER: Oppdater værdata
-    case 'SET_WEATHER':
-      setToLocalStorage(STORAGE_KEYS.WEATHER, action.payload);
-      return { ...state, weather: action.payload };
+    // SET_WEATHER: Oppdater værdata for én lokasjon
+    case 'SET_WEATHER': {
+      const newWeather = { ...state.weather, [action.payload.locationId]: action.payload.weather };
+      return { ...state, weather: newWeather };
+    }
+      
+    // SET_NOWCAST: Oppdater korttidsvarsel for én lokasjon (lagres ikke, utdateres raskt)
+    case 'SET_NOWCAST': {
+      const newNowcast = { ...state.nowcast };
+      if (action.payload.nowcast) {
+        newNowcast[action.payload.locationId] = action.payload.nowcast;
+      } else {
+        delete newNowcast[action.payload.locationId];
+      }
+      return { ...state, nowcast: newNowcast };
+    }
       
     // SET_HISTORY: Sett komplett historikk (f.eks. ved lasting)
     case 'SET_HISTORY':
-      setToLocalStorage(STORAGE_KEYS.HISTORY, action.payload);
       return { ...state, history: action.payload };
       
     // ADD_HISTORY: Legg til ny brøytingsoppføring
+    // Finnes ID-en fra før (f.eks. samme endring fra en annen enhet), erstattes den
     case 'ADD_HISTORY': {
-      const newHistory = cleanOldHistory([...state.history, action.payload]);
-      setToLocalStorage(STORAGE_KEYS.HISTORY, newHistory);
+      const exists = state.history.some(e => e.id === action.payload.id);
+      const newHistory = exists
+        ? state.history.map(e => (e.id === action.payload.id ? action.payload : e))
+        : [...state.history, action.payload];
       return { ...state, history: newHistory };
     }
     
+    // UPDATE_HISTORY: Rediger en oppføring (samme ID, endringen legges i loggen)
+    case 'UPDATE_HISTORY': {
+      const { entry, editedAt } = action.payload;
+      const current = state.history.find(e => e.id === entry.id);
+      const updated = current && applyEntryEdit(current, entry, editedAt, state.sync.userId);
+      if (!updated) return state;
+      return { ...state, history: state.history.map(e => (e.id === updated.id ? updated : e)) };
+    }
+    
     // DELETE_HISTORY: Fjern en oppføring
     case 'DELETE_HISTORY': {
       const newHistory = state.history.filter(e => e.id !== action.payload);
-      setToLocalStorage(STORAGE_KEYS.HISTORY, newHistory);
       return { ...state, history: newHistory };
     }
     
+    // ARCHIVE_HISTORY: Fjern oppføringer som er flyttet til arkivet
+    case 'ARCHIVE_HISTORY': {
+      const archived = new Set(action.payload);
+      return { ...state, history: state.history.filter(e => !archived.has(e.id)) };
+    }
+    
     // SET_CONTRACTORS: Sett alle kontakter
     case 'SET_CONTRACTORS':
-      setToLocalStorage(STORAGE_KEYS.CONTRACTORS, action.payload);
       return { ...state, contractors: action.payload };
       
-    // ADD_CONTRACTOR: Legg til ny kontakt
+    // ADD_CONTRACTOR: Legg til ny kontakt (bakerst i rekkefølgen)
     case 'ADD_CONTRACTOR': {
-      const newContractors = [...state.contractors, action.payload];
-      setToLocalStorage(STORAGE_KEYS.CONTRACTORS, newContractors);
+      const newContractors = setContractorOrder(
+        [...state.contractors, action.payload],
+        [...sortContractors(state.contractors), action.payload].map(c => c.id)
+      );
       return { ...state, contractors: newContractors };
     }
     
@@ -181,27 +324,75 @@ function appReducer(state: AppState, action: AppAction): AppState {
       const newContractors = state.contractors.map(c =>
         c.id === action.payload.id ? action.payload : c
       );
-      setToLocalStorage(STORAGE_KEYS.CONTRACTORS, newContractors);
       return { ...state, contractors: newContractors };
     }
     
     // DELETE_CONTRACTOR: Fjern kontakt
+    // Brøytinger som viser til kontakten beholder navnet, men mister koblingen
     case 'DELETE_CONTRACTOR': {
-      const newContractors = state.contractors.filter(c => c.id !== action.payload);
-      setToLocalStorage(STORAGE_KEYS.CONTRACTORS, newContractors);
-      return { ...state, contractors: newContractors };
+      const deleted = state.contractors.find(c => c.id === action.payload);
+      if (!deleted) return state;
+      const remaining = state.contractors.filter(c => c.id !== action.payload);
+      const newContractors = setContractorOrder(remaining, sortContractors(remaining).map(c => c.id));
+      const newHistory = unlinkContractor(state.history, deleted);
+      return { ...state, contractors: newContractors, history: newHistory };
     }
     
-    // SET_CONTRACTOR_PRIMARY: Sett hovedkontakt
+    // SET_CONTRACTOR_PRIMARY: Sett hovedkontakt (flyttes først i rekkefølgen)
     case 'SET_CONTRACTOR_PRIMARY': {
-      const newContractors = state.contractors.map(c => ({
-        ...c,
-        isPrimary: c.id === action.payload,
-      }));
-      setToLocalStorage(STORAGE_KEYS.CONTRACTORS, newContractors);
+      const newContractors = setContractorOrder(state.contractors, [
+        action.payload,
+        ...sortContractors(state.contractors).map(c => c.id).filter(id => id !== action.payload),
+      ]);
       return { ...state, contractors: newContractors };
     }
     
+    // REORDER_CONTRACTORS: Ny eskaleringsrekkefølge (første blir hovedkontakt)
+    case 'REORDER_CONTRACTORS': {
+      const newContractors = setContractorOrder(state.contractors, action.payload);
+      return { ...state, contractors: newContractors };
+    }
+    
+    // SET_ORDERS: Sett alle bestillinger (f.eks. ved lasting)
+    case 'SET_ORDERS':
+      return { ...state, orders: action.payload };
+      
+    // ADD_ORDER: Legg til ny bestilling
+    case 'ADD_ORDER': {
+      const newOrders = [...state.orders, action.payload];
+      return { ...state, orders: newOrders };
+    }
+    
+    // UPDATE_ORDER: Oppdater bestilling (bekreftet/avbrutt)
+    case 'UPDATE_ORDER': {
+      const newOrders = state.orders.map(o =>
+        o.id === action.payload.id ? action.payload : o
+      );
+      return { ...state, orders: newOrders };
+    }
+    
+    // COMPLETE_ORDER: Marker bestilling som utført og logg brøytingen
+    case 'COMPLETE_ORDER': {
+      const { order, entry } = action.payload;
+      const newOrders = state.orders.map(o =>
+        o.id === order.id
+          ? { ...order, status: 'done' as const, completedAt: entry.timestamp, entryId: entry.id }
+          : o
+      );
+      const newHistory = [...state.history, entry];
+      return { ...state, orders: newOrders, history: newHistory };
+    }
+    
+    // ESCALATE_ORDER: Send ubekreftet bestilling videre til neste kontakt
+    case 'ESCALATE_ORDER': {
+      const { previous, next } = action.payload;
+      const newOrders = [
+        ...state.orders.map(o => (o.id === previous.id ? previous : o)),
+        next,
+      ];
+      return { ...state, orders: newOrders };
+    }
+    
     // SET_LOADING: Vis/skjul last-indikator
     case 'SET_LOADING':
       return { ...state, loading: action.payload };
@@ -210,9 +401,46 @@ function appReducer(state: AppState, action: AppAction): AppState {
     case 'SET_ERROR':
       return { ...state, error: action.payload };
       
-    // SET_LAST_NOTIFIED_SNOW: Oppdater siste varsel-tidspunkt
-    case 'SET_LAST_NOTIFIED_SNOW':
-      return { ...state, lastNotifiedSnow: action.payload };
+    // SET_ALERT_LOG: Sett komplett varsel-logg (f.eks. ved lasting)
+    case 'SET_ALERT_LOG':
+      return { ...state, alertLog: action.payload };
+      
+    // RECORD_ALERT: Lagre når en regel sist sendte varsel for en lokasjon
+    case 'RECORD_ALERT': {
+      const newLog = { ...state.alertLog, [action.payload.key]: action.payload.time };
+      return { ...state, alertLog: newLog };
+    }
+      
+    // SET_LAST_STATUS: Husk snøstatus (for regler som reagerer på endring)
+    case 'SET_LAST_STATUS':
+      return {
+        ...state,
+        lastStatus: { ...state.lastStatus, [action.payload.locationId]: action.payload.status },
+      };
+      
+    // SET_SYNC_STATUS: Oppdater status for synkroniseringen
+    case 'SET_SYNC_STATUS':
+      return { ...state, sync: { ...state.sync, ...action.payload } };
+      
+    // SET_PUSH_STATUS: Oppdater status for push-abonnementet
+    case 'SET_PUSH_STATUS':
+      return { ...state, push: action.payload };
+      
+    // APPLY_REMOTE_CHANGES: Endringer fra andre enheter (via Supabase)
+    // Innstillinger går via SET_SETTINGS, så værdata ryddes på samme måte
+    case 'APPLY_REMOTE_CHANGES': {
+      const { settings, contractors, history } = action.payload;
+      const next = settings ? appReducer(state, { type: 'SET_SETTINGS', payload: settings }) : state;
+      return {
+        ...next,
+        contractors: applyRecordChanges(next.contractors, contractors),
+        history: applyRecordChanges(next.history, history),
+      };
+    }
+      
+    // SET_REMOTE_CHANGE: Vis (eller skjul) siste endring fra andre
+    case 'SET_REMOTE_CHANGE':
+      return { ...state, remoteChange: action.payload };
       
     // Default: Returner uendret state
     default:
@@ -232,8 +460,11 @@ function appReducer(state: AppState, action: AppAction): AppState {
 interface AppContextType {
   state: AppState;                                             // Global tilstand
   dispatch: React.Dispatch<AppAction>;                         // Dispatch funksjon
-  refreshWeather: () => Promise<void>;                         // Hent ny værdata
-  getSnowStatus: () => { status: 'normal' | 'warning' | 'critical'; snowAmount: number }; // Beregn snøstatus
+  refreshWeather: () => Promise<void>;                         // Hent ny værdata for alle lokasjoner
+  getSnowStatus: (locationId?: string) => SnowStatusResult;    // Beregn snøstatus (standard: aktiv lokasjon)
+  activeLocation: MonitoredLocation;                           // Lokasjonen som vises på hjem-fanen
+  activeWeather: WeatherData | null;                           // Værdata for aktiv lokasjon
+  syncNow: () => Promise<void>;                                // Synkroniser med Supabase nå
 }
 
 // Opprett context med undefined som standard (må wrap med Provider)
@@ -247,9 +478,10 @@ export const AppContext = createContext<AppContextType | undefined>(undefined);
  * AppProvider: Wrapper som gir tilgang til global state
  * 
  * Denne komponenten:
- * 1. Initialiserer state fra localStorage
+ * 1. Initialiserer state fra databasen og lagrer endringer
  * 2. Setter opp periodisk oppdatering av værdata
  * 3. Håndterer varslinger
+ * 4. Synkroniserer med Supabase (hvis satt opp)
  * 
  * @param children - Komponentene som skal ha tilgang til state
  */
@@ -263,109 +495,256 @@ export function AppProvider({ children }: { children: ReactNode }) {
    * Disse oppdateres kontinuerlig men triggere ikke re-render.
    * Brukes for å unngå stale closures i async funksjoner.
    */
-  const locationRef = useRef(state.settings.location);    // Gjeldende lokasjon
+  const settingsRef = useRef(state.settings);                   // Gjeldende innstillinger
+  const alertLogRef = useRef(state.alertLog);                  // Siste varsel per regel/lokasjon
+  const lastStatusRef = useRef(state.lastStatus);              // Forrige snøstatus per lokasjon
+  const historyRef = useRef(state.history);                    // Brøytingslogg (for snøstatus)
+  const contractorsRef = useRef(state.contractors);            // Kontakter (for synkronisering)
+  const weatherRef = useRef(state.weather);                    // Forrige værdata (for passerte timer)
+  const pushSubscribedRef = useRef(state.push.subscribed);     // Har relayet bekreftet push-abonnementet?
   const initialLoadComplete = useRef(false);             // Sjekk om første lasting er ferdig
+  const persistedStateRef = useRef<AppState | null>(null);     // Sist lagrede tilstand (se persistChanges)
+  const syncRunningRef = useRef(false);                        // Pågår en synkronisering?
+  const syncAgainRef = useRef(false);                          // Synkroniser på nytt etter denne runden
+  const syncTimeoutRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined); // Utsatt synkronisering
   
-  // Hold locationRef oppdatert når settings endres
+  // Hold refs oppdatert når state endres
   useEffect(() => {
-    locationRef.current = state.settings.location;
-  }, [state.settings.location]);
+    settingsRef.current = state.settings;
+    alertLogRef.current = state.alertLog;
+    lastStatusRef.current = state.lastStatus;
+    historyRef.current = state.history;
+    contractorsRef.current = state.contractors;
+    weatherRef.current = state.weather;
+    pushSubscribedRef.current = state.push.subscribed;
+  }, [state.settings, state.alertLog, state.lastStatus, state.history, state.contractors, state.weather, state.push.subscribed]);
   
   /**
-   * Initial lasting fra localStorage
+   * Initial lasting fra databasen
    * 
    * Når appen starter:
-   * 1. Last inn lagrede innstillinger
-   * 2. Last inn historikk (og fjern gamle oppføringer)
-   * 3. Last inn kontakter
+   * 1. Les alle lagrede data (migrert og validert, se lib/storage)
+   *    Første gang flyttes data fra localStorage over til IndexedDB
+   * 2. Last inn innstillinger og kontakter
+   * 3. Last inn historikk og bestillinger
    * 4. Last inn cached værdata (hvis tilgjengelig)
+   * 5. Last inn varsel-logg
    */
   useEffect(() => {
-    // Last inn lagrede innstillinger
-    const savedSettings = getFromLocalStorage(STORAGE_KEYS.SETTINGS, DEFAULT_SETTINGS);
-    dispatch({ type: 'SET_SETTINGS', payload: savedSettings });
-    
-    // Last inn historikk og fjern gamle oppføringer
-    const savedHistory = getFromLocalStorage<SnowEntry[]>(STORAGE_KEYS.HISTORY, []);
-    dispatch({ type: 'SET_HISTORY', payload: cleanOldHistory(savedHistory) });
-    
-    // Last inn kontakter
-    const savedContractors = getFromLocalStorage<Contractor[]>(STORAGE_KEYS.CONTRACTORS, []);
-    dispatch({ type: 'SET_CONTRACTORS', payload: savedContractors });
-    
-    // Last inn cached værdata (for offline-støtte)
-    const savedWeather = getFromLocalStorage<WeatherData | null>(STORAGE_KEYS.WEATHER, null);
-    if (savedWeather) {
-      dispatch({ type: 'SET_WEATHER', payload: savedWeather });
-    }
+    const load = async () => {
+      try {
+        // Les, migrer og valider alt som er lagret
+        const saved = await loadAppData(DEFAULT_SETTINGS);
+        
+        // Last inn lagrede innstillinger
+        settingsRef.current = saved.settings;
+        dispatch({ type: 'SET_SETTINGS', payload: saved.settings });
+        
+        // Last inn kontakter
+        dispatch({ type: 'SET_CONTRACTORS', payload: saved.contractors });
+        
+        // Last inn historikk
+        historyRef.current = saved.history;
+        dispatch({ type: 'SET_HISTORY', payload: saved.history });
+        
+        // Last inn bestillinger
+        dispatch({ type: 'SET_ORDERS', payload: saved.orders });
+        
+        // Last inn cached værdata (for offline-støtte)
+        Object.entries(saved.weather)
+          .filter(([locationId]) => saved.settings.locations.some(l => l.id === locationId))
+          .forEach(([locationId, weather]) => {
+            weatherRef.current = { ...weatherRef.current, [locationId]: weather };
+            dispatch({ type: 'SET_WEATHER', payload: { locationId, weather } });
+          });
+        
+        // Last inn varsel-logg
+        alertLogRef.current = saved.alertLog;
+        dispatch({ type: 'SET_ALERT_LOG', payload: saved.alertLog });
+      } catch (error) {
+        console.error('Failed to load stored data:', error);
+        dispatch({ type: 'SET_ERROR', payload: 'Kunne ikke lese lagrede data. Endringer lagres kanskje ikke.' });
+      }
+      
+      // Marker at initial lasting er ferdig
+      initialLoadComplete.current = true;
+    };
     
-    // Marker at initial lasting er ferdig
-    initialLoadComplete.current = true;
+    load();
   }, []);
   
   /**
-   * refreshWeather: Hent ny værdata fra Met.no API
+   * Effect: Lagre endringer i databasen
+   * 
+   * Sammenligner med forrige lagrede tilstand og skriver kun det
+   * som er endret. Første kjøring etter lasting setter utgangspunktet.
+   * Endringer i brøytinger og kontakter sendes til andre faner. Med
+   * Supabase legges endringene også i synkroniseringskøen, og sendes
+   * etter en kort pause.
+   * @see persistChanges
+   * @see getLocalActions
+   * @see queueChanges
+   */
+  useEffect(() => {
+    if (!initialLoadComplete.current) return;
+    const previous = persistedStateRef.current;
+    persistedStateRef.current = state;
+    if (!previous) return;
+    
+    persistChanges(previous, state).catch((error) => console.error('Failed to save changes:', error));
+    
+    // Før køen, som fjerner merkene for endringer utenfra
+    tabChannel?.post(getLocalActions(previous, state));
+    
+    if (!supabaseClient) return;
+    queueChanges(previous, state)
+      .then((pending) => {
+        if (pending === null) return;
+        dispatch({ type: 'SET_SYNC_STATUS', payload: { pending } });
+        clearTimeout(syncTimeoutRef.current);
+        syncTimeoutRef.current = setTimeout(syncNow, SYNC_DELAY_MS);
+      })
+      .catch((error) => console.error('Failed to queue changes:', error));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [state]);
+  
+  /**
+   * Effect: Arkiver gamle brøytinger
+   * 
+   * Brøytinger eldre enn valgt oppbevaring flyttes til arkivet
+   * (komprimert per sesong) og fjernes deretter fra loggen.
+   * Kjører ved oppstart, når loggen endres og når oppbevaringen endres.
+   * @see getEntriesToArchive
+   */
+  useEffect(() => {
+    if (!initialLoadComplete.current) return;
+    const archived = getEntriesToArchive(state.history, state.settings.historyRetention, new Date());
+    if (archived.length === 0) return;
+    
+    archiveEntries(archived)
+      .then(() => {
+        // Arkiverte brøytinger skal ikke slettes på serveren
+        markLocalRemovals(archived.map(e => e.id));
+        dispatch({ type: 'ARCHIVE_HISTORY', payload: archived.map(e => e.id) });
+      })
+      .catch((error) => console.error('Failed to archive history:', error));
+  }, [state.history, state.settings.historyRetention]);
+  
+  /**
+   * refreshWeather: Hent ny værdata fra valgt kilde
    * 
    * Denne funksjonen:
    * 1. Setter loading til true
    * 2. Fjerner eventuelle feil
-   * 3. Henter værdata for gjeldende lokasjon
-   * 4. Sjekker om varsling skal sendes
+   * 3. Henter værdata og korttidsvarsel (Nowcast) for alle lokasjoner parallelt
+   *    (Met.no eller testdata)
+   * 4. Evaluerer varslingsreglene for hver lokasjon
    * 5. Oppdaterer state med ny data
    * 
-   * @throws Error hvis API-kall feiler
+   * Feil for enkelt-lokasjoner stopper ikke de andre.
    */
   const refreshWeather = async () => {
     dispatch({ type: 'SET_LOADING', payload: true });
     dispatch({ type: 'SET_ERROR', payload: null });
     
-    try {
-      // Hent værdata fra Met.no
-      const weather = await fetchWeatherData(locationRef.current.lat, locationRef.current.lon);
-      dispatch({ type: 'SET_WEATHER', payload: weather });
+    const settings = settingsRef.current;
+    const provider = getWeatherProvider(settings);
+    const source = getWeatherSourceKey(settings);
+    
+    // Hent værdata og korttidsvarsel for alle lokasjoner samtidig
+    // Nowcast er valgfritt: utenfor radardekning feiler det uten å stoppe resten
+    const [results, nowcasts] = await Promise.all([
+      Promise.allSettled(settings.locations.map(location => provider.fetchWeather(location))),
+      Promise.allSettled(settings.locations.map(location =>
+        provider.fetchNowcast ? provider.fetchNowcast(location) : Promise.reject(new Error('Ingen Nowcast'))
+      )),
+    ]);
+    
+    // Kilden ble byttet mens vi ventet: forkast svarene
+    if (getWeatherSourceKey(settingsRef.current) !== source) {
+      dispatch({ type: 'SET_LOADING', payload: false });
+      return;
+    }
+    
+    const failed: string[] = [];
+    
+    results.forEach((result, index) => {
+      const location = settings.locations[index];
       
-      const { settings, lastNotifiedSnow } = state;
-      const currentPrecipType = weather.current.precipitationType;
-      const now = new Date().toISOString();
+      if (result.status === 'rejected') {
+        failed.push(location.name);
+        return;
+      }
       
-      /**
-       * shouldNotify: Sjekk om brukeren skal varsles
-       * 
-       * Vurderer:
-       * - Er "varsle ved snø" aktivert?
-       * - Er det dagtid og varsling på dag tid aktivert?
-       * - Er det natt og varsling på natt aktivert?
-       */
-      const shouldNotify = () => {
-        if (!settings.notifyOnSnow) return false;
-        if (isDayTime() && !settings.notifyDay) return false;
-        if (isNightTime() && !settings.notifyNight) return false;
-        return true;
-      };
+      // Behold timer som har passert siden forrige henting
+      const weather = mergePastHours(weatherRef.current[location.id] ?? null, result.value);
+      weatherRef.current = { ...weatherRef.current, [location.id]: weather };
+      dispatch({ type: 'SET_WEATHER', payload: { locationId: location.id, weather } });
       
-      // Send varsling hvis det snør og brukeren har aktivert varsling
-      if (shouldNotify() && currentPrecipType === 'snow') {
-        const oneHourAgo = new Date();
-        oneHourAgo.setHours(oneHourAgo.getHours() - 1);
-        
-        // Unngå spam: kun varsle hvis det er mer enn 1 time siden forrige varsel
-        if (!lastNotifiedSnow || new Date(lastNotifiedSnow) < oneHourAgo) {
-          showNotification('🥶 Det snør!', 'Vurder å bestille brøyting.');
-          dispatch({ type: 'SET_LAST_NOTIFIED_SNOW', payload: now });
-        }
-      }
+      const nowcastResult = nowcasts[index];
+      const nowcast = nowcastResult.status === 'fulfilled' ? nowcastResult.value : null;
+      dispatch({ type: 'SET_NOWCAST', payload: { locationId: location.id, nowcast } });
       
-      // Nullstill varsel-timestamp hvis det ikke lenger snør
-      if (currentPrecipType !== 'snow') {
-        dispatch({ type: 'SET_LAST_NOTIFIED_SNOW', payload: null });
-      }
-    } catch (error) {
-      // Sett feilmelding i state (vises til bruker)
-      dispatch({ type: 'SET_ERROR', payload: error instanceof Error ? error.message : 'Ukjent feil' });
-    } finally {
-      // Alltid nullstille loading, uansett om suksess eller feil
-      dispatch({ type: 'SET_LOADING', payload: false });
+      runAlertRules(location, weather, nowcast);
+    });
+    
+    // Sett feilmelding i state (vises til bruker)
+    if (failed.length > 0) {
+      const reason = results.find(r => r.status === 'rejected') as PromiseRejectedResult;
+      const message = reason.reason instanceof Error ? reason.reason.message : 'Ukjent feil';
+      dispatch({
+        type: 'SET_ERROR',
+        payload: failed.length === settings.locations.length ? message : `${message} (${failed.join(', ')})`,
+      });
     }
+    
+    // Alltid nullstille loading, uansett om suksess eller feil
+    dispatch({ type: 'SET_LOADING', payload: false });
+  };
+  
+  /**
+   * runAlertRules: Evaluer varslingsregler for én lokasjon
+   * 
+   * Beregner snøstatus med de nye værdataene, og sender varsel for
+   * hver regel som slår til (utenom stille periode og nedkjølingstid).
+   * Forrige status huskes slik at "status blir kritisk" kun varsler ved endring,
+   * men en overgang som ble holdt tilbake av stille periode huskes ikke før den er varslet.
+   * 
+   * @param location - Lokasjonen værdataene gjelder
+   * @param weather - Nye værdata
+   * @param nowcast - Korttidsvarsel (eller null)
+   * @see evaluateAlerts
+   */
+  const runAlertRules = (location: MonitoredLocation, weather: WeatherData, nowcast: NowcastData | null) => {
+    const settings = settingsRef.current;
+    const status = calculateSnowStatus(location, weather, historyRef.current);
+    const previousStatus = lastStatusRef.current[location.id] ?? null;
+    
+    const rememberStatus = (next: SnowStatus | null) => {
+      if (!next) return;
+      lastStatusRef.current = { ...lastStatusRef.current, [location.id]: next };
+      dispatch({ type: 'SET_LAST_STATUS', payload: { locationId: location.id, status: next } });
+    };
+    
+    // Hovedbryter for alle varsler, og med bekreftet push sender relayet varslene (unngår doble varsler).
+    // Feiler abonnementet, varsles det lokalt som før.
+    if (!settings.notifyEnabled || (settings.pushEnabled && pushSubscribedRef.current)) {
+      rememberStatus(status.status);
+      return;
+    }
+    
+    const now = new Date();
+    const context = { location, weather, nowcast, status, previousStatus, schedule: settings.schedule, now };
+    const alerts = evaluateAlerts(settings.alertRules, context, alertLogRef.current);
+    
+    // En kritisk overgang som ble holdt tilbake, sjekkes på nytt neste gang
+    rememberStatus(getStatusToStore(settings.alertRules, context, alerts));
+    
+    alerts.forEach((alert) => {
+      showNotification(alert.title, alert.message);
+      alertLogRef.current = { ...alertLogRef.current, [alert.key]: now.toISOString() };
+      dispatch({ type: 'RECORD_ALERT', payload: { key: alert.key, time: now.toISOString() } });
+    });
   };
   
   /**
@@ -376,35 +755,43 @@ export function AppProvider({ children }: { children: ReactNode }) {
    */
   useEffect(() => {
     if (!initialLoadComplete.current) return;
-    if (state.settings.location.lat && state.settings.location.lon) {
+    if (state.settings.locations.length > 0) {
       refreshWeather();
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [initialLoadComplete.current]);
   
   /**
-   * Effect: Hent værdata når lokasjon endres
+   * Effect: Hent værdata når lokasjoner endres
    * 
-   * Kjører når brukeren endrer lokasjon i innstillinger.
+   * Kjører når brukeren legger til, fjerner eller flytter en lokasjon,
+   * eller bytter værdata-kilde/scenario.
+   * Nøkkelen endres kun når koordinatene endres (ikke navn/terskel).
    */
+  const locationsKey = [
+    getWeatherSourceKey(state.settings),
+    ...state.settings.locations.map(l => `${l.id}:${l.lat},${l.lon}`),
+  ].join('|');
   useEffect(() => {
     if (!initialLoadComplete.current) return;
-    if (state.settings.location.lat && state.settings.location.lon) {
+    if (state.settings.locations.length > 0) {
       refreshWeather();
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [state.settings.location.lat, state.settings.location.lon]);
+  }, [locationsKey]);
   
   /**
    * Effect: Periodisk oppdatering
    * 
-   * Setter opp interval som refresher værdata hvert 15. minutt.
-   * 15 * 60 * 1000 = 900000 ms = 15 minutter
+   * Setter opp interval som refresher værdata hvert 5. minutt,
+   * like ofte som radaren (Nowcast) oppdateres.
+   * Locationforecast hentes likevel kun når Expires har passert (HTTP-cache).
+   * 5 * 60 * 1000 = 300000 ms = 5 minutter
    */
   useEffect(() => {
     const intervalId = setInterval(() => {
       refreshWeather();
-    }, 15 * 60 * 1000);
+    }, 5 * 60 * 1000);
     
     // Cleanup: Fjern interval når component unmounts
     return () => clearInterval(intervalId);
@@ -430,35 +817,258 @@ export function AppProvider({ children }: { children: ReactNode }) {
   }, []);
   
   /**
-   * getSnowStatus: Beregn snøstatus basert på 24t prognose
+   * Effect: Hold push-relayet oppdatert
    * 
-   * Sammenligner forventet snømengde med brukerens terskel:
-   * - normal: < terskel
-   * - warning: >= terskel
-   * - critical: >= terskel * 1.5
+   * Relayet evaluerer reglene selv, så det trenger lokasjoner, regler,
+   * siste brøyting og kontakt hver gang disse endres.
+   * Når push eller varsler slås av, avsluttes abonnementet.
+   */
+  useEffect(() => {
+    if (!initialLoadComplete.current || !isPushSupported()) return;
+    
+    const { settings, history, contractors } = state;
+    const subscribe = Boolean(settings.notifyEnabled && settings.pushEnabled);
+    const sync = subscribe
+      ? syncPushSubscription(createPushRegistration(settings, history, contractors))
+      : unsubscribeFromPush();
+    
+    sync
+      .then(() => dispatch({ type: 'SET_PUSH_STATUS', payload: { subscribed: subscribe, error: null } }))
+      .catch((error) => {
+        console.error('Failed to sync push subscription:', error);
+        const message = error instanceof Error ? error.message : 'Ukjent feil';
+        dispatch({ type: 'SET_PUSH_STATUS', payload: { subscribed: false, error: subscribe ? message : null } });
+      });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [state.settings, state.history, state.contractors]);
+  
+  /**
+   * Effect: Eskaler bestillinger uten svar
+   * 
+   * Sjekker åpne bestillinger hvert minutt. Når svarfristen går ut,
+   * varsles brukeren én gang med forslag om neste kontakt i rekkefølgen.
+   * Selve videresendingen gjøres fra snøstatus-kortet.
+   * @see getEscalationState
+   */
+  useEffect(() => {
+    const checkOrders = () => {
+      const { settings, orders, contractors } = state;
+      const now = new Date();
+      
+      orders
+        .filter(o => o.status === 'requested' && !o.overdueNotifiedAt)
+        .forEach((order) => {
+          const location = settings.locations.find(l => l.id === order.locationId);
+          if (!location) return;
+          
+          const escalation = getEscalationState(order, { contractors, orders, location, now });
+          if (escalation.phase !== 'overdue' && escalation.phase !== 'exhausted') return;
+          
+          if (settings.notifyEnabled) {
+            showNotification(
+              `Ingen svar fra ${order.contractorName}`,
+              escalation.phase === 'overdue'
+                ? `${location.name}: Send bestillingen til ${escalation.next.name}?`
+                : `${location.name}: Ingen flere kontakter å prøve`
+            );
+          }
+          dispatch({ type: 'UPDATE_ORDER', payload: { ...order, overdueNotifiedAt: now.toISOString() } });
+        });
+    };
+    
+    checkOrders();
+    const intervalId = setInterval(checkOrders, 60 * 1000);
+    return () => clearInterval(intervalId);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [state.orders, state.contractors, state.settings]);
+  
+  /**
+   * syncNow: Synkroniser med Supabase
    * 
-   * @returns Status og snømengde
+   * Henter endringer fra andre enheter og sender lokale endringer.
+   * Kjører aldri to ganger samtidig: kommer et nytt kall mens en runde
+   * pågår, tas en ny runde etterpå.
+   * @see runSync
    */
-  const getSnowStatus = () => {
-    if (!state.weather) {
-      return { status: 'normal' as const, snowAmount: 0 };
+  const syncNow = async () => {
+    if (!supabaseClient) return;
+    if (syncRunningRef.current) {
+      syncAgainRef.current = true;
+      return;
     }
     
-    const snow24h = calculateSnowInPeriod(state.weather.hourly, 24);
-    const threshold = state.settings.snowThreshold;
+    syncRunningRef.current = true;
+    clearTimeout(syncTimeoutRef.current);
+    dispatch({ type: 'SET_SYNC_STATUS', payload: { phase: 'syncing', error: null } });
+    
+    try {
+      const result = await runSync(supabaseClient, {
+        settings: settingsRef.current,
+        contractors: contractorsRef.current,
+        history: historyRef.current,
+      });
+      if (result.changes) {
+        dispatch({ type: 'APPLY_REMOTE_CHANGES', payload: result.changes });
+      }
+      if (result.pushError) console.error('Failed to push changes:', result.pushError);
+      
+      // Brukeren kan ha byttet (innlogging), og trengs i endringsloggen
+      const userId = (await getStoredSession())?.userId ?? null;
+      dispatch({
+        type: 'SET_SYNC_STATUS',
+        payload: result.pushError
+          ? { ...getSyncErrorStatus(result.pushError), pending: result.pending, property: result.property, userId }
+          : { phase: 'idle', pending: result.pending, lastSyncedAt: new Date().toISOString(), property: result.property, userId },
+      });
+    } catch (error) {
+      console.error('Failed to sync:', error);
+      dispatch({ type: 'SET_SYNC_STATUS', payload: getSyncErrorStatus(error) });
+    }
     
-    if (snow24h >= threshold * 1.5) {
-      return { status: 'critical' as const, snowAmount: snow24h };
-    } else if (snow24h >= threshold) {
-      return { status: 'warning' as const, snowAmount: snow24h };
+    syncRunningRef.current = false;
+    if (syncAgainRef.current) {
+      syncAgainRef.current = false;
+      syncNow();
     }
+  };
+  
+  /**
+   * Effect: Synkroniser ved oppstart, jevnlig og når nettet kommer tilbake
+   * 
+   * Lokale endringer sendes i tillegg rett etter at de er gjort
+   * (se effect for lagring over). Eiendommen og brukeren fra forrige gang
+   * brukes med en gang, også uten nett.
+   */
+  useEffect(() => {
+    if (!initialLoadComplete.current || !supabaseClient) return;
+    
+    Promise.all([getActiveProperty(), getStoredSession()])
+      .then(([property, session]) => {
+        dispatch({ type: 'SET_SYNC_STATUS', payload: { ...(property && { property }), userId: session?.userId ?? null } });
+      })
+      .catch((error) => console.error('Failed to read active property:', error));
+    syncNow();
+    const intervalId = setInterval(syncNow, SYNC_INTERVAL_MS);
+    window.addEventListener('online', syncNow);
+    
+    return () => {
+      clearInterval(intervalId);
+      window.removeEventListener('online', syncNow);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [initialLoadComplete.current]);
+  
+  /**
+   * applyRemoteAction: Kjør en endring fra en annen enhet eller fane
+   * 
+   * Endringen sjekkes mot gjeldende state (se acceptRemoteAction), og
+   * vises med hvem som gjorde den.
+   * 
+   * @param action - Endringen (eller null hvis den ble hoppet over)
+   * @param getAuthor - Henter navnet på den som gjorde endringen
+   * @param source - Hvor endringen kom fra
+   */
+  const applyRemoteAction = async (
+    action: RemoteAction | null,
+    getAuthor: () => Promise<string | null>,
+    source: RemoteChangeNotice['source']
+  ) => {
+    if (!action) return;
+    const description = describeRemoteAction(action, contractorsRef.current, historyRef.current);
+    dispatch(action);
     
-    return { status: 'normal' as const, snowAmount: snow24h };
+    const author = await getAuthor();
+    dispatch({ type: 'SET_REMOTE_CHANGE', payload: { description, author, source, at: new Date().toISOString() } });
   };
   
+  /**
+   * Effect: Endringer fra andre faner på samme enhet
+   * 
+   * Fanene deler databasen og køen, så endringen skal bare inn i state.
+   */
+  useEffect(() => {
+    if (!tabChannel) return;
+    return tabChannel.subscribe((action) => {
+      if (!initialLoadComplete.current) return;
+      const accepted = acceptRemoteAction(action, {
+        settings: settingsRef.current,
+        contractors: contractorsRef.current,
+        history: historyRef.current,
+      });
+      applyRemoteAction(accepted, async () => 'Du (i en annen fane)', 'tab');
+    });
+  }, []);
+  
+  /**
+   * Effect: Endringer fra andre enheter i sanntid (Supabase Realtime)
+   * 
+   * Abonnerer på aktiv eiendom, og bytter abonnement når eiendommen
+   * byttes. Endringene behandles én om gangen, i rekkefølgen de kom.
+   * Uten forbindelse hentes endringene ved vanlig synkronisering.
+   * @see toRealtimeAction
+   */
+  const propertyId = state.sync.property?.id;
+  useEffect(() => {
+    if (!realtimeClient || !supabaseClient || !propertyId) return;
+    const client = supabaseClient;
+    let queue = Promise.resolve();
+    
+    const unsubscribe = realtimeClient.subscribe(propertyId, {
+      onChange: (change) => {
+        queue = queue
+          .then(async () => {
+            const action = await toRealtimeAction(change, {
+              settings: settingsRef.current,
+              contractors: contractorsRef.current,
+              history: historyRef.current,
+            });
+            await applyRemoteAction(action, () => resolveAuthor(client, propertyId, change.row.updated_by), 'device');
+          })
+          .catch((error) => console.error('Failed to apply realtime change:', error));
+      },
+      onStatus: (live) => dispatch({ type: 'SET_SYNC_STATUS', payload: { live } }),
+    });
+    
+    return () => {
+      unsubscribe();
+      dispatch({ type: 'SET_SYNC_STATUS', payload: { live: false } });
+    };
+  }, [propertyId]);
+  
+  /**
+   * getSnowStatus: Beregn snøstatus basert på snødybde-modellen
+   * 
+   * @param locationId - Lokasjon (standard: aktiv lokasjon)
+   * @returns Status og estimert snødybde
+   * @see calculateSnowStatus
+   */
+  const getSnowStatus = (locationId: string = activeLocation.id): SnowStatusResult => {
+    const location = state.settings.locations.find(l => l.id === locationId);
+    
+    if (!location) {
+      return {
+        status: 'normal',
+        currentDepth: 0,
+        projectedDepth: 0,
+        projectedDepthLow: 0,
+        projectedDepthHigh: 0,
+        precipitationProbability: null,
+        nextPlowingExpected: null,
+        nextPlowingEarliest: null,
+        lastPlowing: getLastPlowing(state.history, locationId),
+      };
+    }
+    
+    return calculateSnowStatus(location, state.weather[locationId], state.history);
+  };
+  
+  // Aktiv lokasjon og tilhørende værdata (for hjem-fanen)
+  const activeLocation = getActiveLocation(state.settings);
+  const activeWeather = state.weather[activeLocation.id] ?? null;
+  
   // Gjør state og funksjoner tilgjengelig via Context
   return (
-    <AppContext.Provider value={{ state, dispatch, refreshWeather, getSnowStatus }}>
+    <AppContext.Provider value={{ state, dispatch, refreshWeather, getSnowStatus, activeLocation, activeWeather, syncNow }}>
       {children}
     </AppContext.Provider>
   );
@@ -0,0 +1,140 @@
+/**
+ * useFrostObservations: Hook for observasjoner fra Frost
+ *
+ * Henter nærmeste stasjon og døgnobservasjoner for hver lokasjon
+ * som har brøytinger i loggen, for perioden loggen dekker.
+ * Observasjonene lagres i den lokale databasen og brukes når
+ * Frost ikke svarer.
+ *
+ * BRUK:
+ * const { configured, stations, observations } = useFrostObservations(history, locations);
+ *
+ * @see frost.ts - API-funksjonene
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import type { MonitoredLocation, SnowEntry } from '../types';
+import {
+  fetchObservations,
+  findNearestStation,
+  getDefaultFrostClient,
+  type DailyObservation,
+  type FrostClient,
+  type FrostStation,
+} from '../services/frost';
+import { getObservations, saveObservations } from '../services/repository';
+
+/**
+ * FrostResult: Resultat for én forespørsel
+ *
+ * @property key - Hvilken forespørsel resultatet gjelder
+ * @property stations - Nærmeste stasjon per lokasjon
+ * @property observations - Døgnobservasjoner per lokasjon
+ * @property error - Feilmelding (eller null)
+ */
+interface FrostResult {
+  key: string;
+  stations: Record<string, FrostStation | null>;
+  observations: Record<string, DailyObservation[]>;
+  error: string | null;
+}
+
+/**
+ * toDate: ISO-tidspunkt → YYYY-MM-DD, forskjøvet med et antall døgn
+ */
+function toDate(iso: string, offsetDays: number): string {
+  return new Date(new Date(iso).getTime() + offsetDays * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+/**
+ * loadObservations: Hent observasjoner og ta vare på dem lokalt
+ *
+ * Uten nett brukes observasjonene som er lagret fra før.
+ */
+async function loadObservations(
+  stationId: string,
+  from: string,
+  to: string,
+  client: FrostClient
+): Promise<DailyObservation[]> {
+  try {
+    const observations = await fetchObservations(stationId, from, to, client);
+    saveObservations(stationId, observations).catch((error) => console.error('Failed to save observations:', error));
+    return observations;
+  } catch (error) {
+    const stored = await getObservations(stationId, from, to).catch(() => []);
+    if (stored.length === 0) throw error;
+    return stored;
+  }
+}
+
+/**
+ * useFrostObservations: Custom hook for Frost-observasjoner
+ *
+ * Brøytinger uten lokasjon knyttes til første lokasjon.
+ *
+ * @param history - Brøytingslogg
+ * @param locations - Overvåkede lokasjoner
+ * @param client - Frost-klient (standard: fra VITE_FROST_CLIENT_ID)
+ * @returns Om Frost er konfigurert, stasjoner, observasjoner og status
+ */
+export function useFrostObservations(
+  history: SnowEntry[],
+  locations: MonitoredLocation[],
+  client: FrostClient | null = getDefaultFrostClient()
+) {
+  const [result, setResult] = useState<FrostResult | null>(null);
+
+  // Periode og lokasjoner som trengs (som nøkkel, så vi ikke henter på nytt ved hver render)
+  const key = useMemo(() => {
+    if (history.length === 0) return '';
+    const timestamps = history.map(e => e.timestamp).sort();
+    const usedIds = new Set(history.map(e => e.locationId ?? locations[0]?.id));
+    const used = locations
+      .filter(l => usedIds.has(l.id))
+      .map(l => `${l.id}@${l.lat},${l.lon}`);
+    return [toDate(timestamps[0], -1), toDate(timestamps[timestamps.length - 1], 1), ...used].join('|');
+  }, [history, locations]);
+
+  useEffect(() => {
+    if (!client || !key) return;
+    let cancelled = false;
+
+    const load = async () => {
+      const [from, to, ...used] = key.split('|');
+      const stations: Record<string, FrostStation | null> = {};
+      const observations: Record<string, DailyObservation[]> = {};
+
+      try {
+        for (const item of used) {
+          const [locationId, coords] = item.split('@');
+          const [lat, lon] = coords.split(',').map(Number);
+          const station = await findNearestStation(lat, lon, client);
+          stations[locationId] = station;
+          observations[locationId] = station ? await loadObservations(station.id, from, to, client) : [];
+        }
+        if (!cancelled) setResult({ key, stations, observations, error: null });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Ukjent feil';
+        if (!cancelled) setResult({ key, stations, observations, error: message });
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+    // Klienten lages på nytt ved hver render, nøkkelen styrer henting
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [key]);
+
+  const current = result?.key === key ? result : null;
+
+  return {
+    configured: client !== null,
+    loading: client !== null && key !== '' && current === null,
+    stations: current?.stations ?? {},
+    observations: current?.observations ?? {},
+    error: current?.error ?? null,
+  };
+}
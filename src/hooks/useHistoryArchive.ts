@@ -0,0 +1,84 @@
+/**
+ * useHistoryArchive: Hook for arkiverte sesonger
+ *
+ * Henter oversikten over sesonger i arkivet, og brøytingene i
+ * sesongen som er valgt.
+ *
+ * BRUK:
+ * const { seasons, entries, loading } = useHistoryArchive(season, state.history);
+ *
+ * @see archiveEntries - Hvordan brøytinger havner i arkivet
+ */
+
+import { useEffect, useState } from 'react';
+import type { SnowEntry } from '../types';
+import { getArchivedEntries, getArchivedSeasons, type ArchiveSummary } from '../services/repository';
+
+/**
+ * ArchiveResult: Brøytinger for én arkivert sesong
+ *
+ * @property key - Sesong og antall (endres når sesongen får flere brøytinger)
+ * @property entries - Brøytingene
+ * @property error - Feilmelding (eller null)
+ */
+interface ArchiveResult {
+  key: string;
+  entries: SnowEntry[];
+  error: string | null;
+}
+
+/**
+ * useHistoryArchive: Custom hook for arkivet
+ *
+ * @param season - Valgt sesong, eller null for den aktive loggen
+ * @param history - Aktiv logg (oversikten hentes på nytt når den endres)
+ * @returns Arkiverte sesonger, brøytinger i valgt sesong og status
+ */
+export function useHistoryArchive(season: string | null, history: SnowEntry[]) {
+  const [seasons, setSeasons] = useState<ArchiveSummary[]>([]);
+  const [result, setResult] = useState<ArchiveResult | null>(null);
+
+  // Nye arkiveringer fjerner brøytinger fra loggen, så hent oversikten på nytt
+  useEffect(() => {
+    let cancelled = false;
+    getArchivedSeasons()
+      .then((summaries) => {
+        if (!cancelled) setSeasons(summaries);
+      })
+      .catch((error) => console.error('Failed to read archive:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [history]);
+
+  const summary = seasons.find((s) => s.season === season);
+  const key = summary ? `${summary.season}:${summary.count}` : '';
+
+  useEffect(() => {
+    if (!summary) return;
+    let cancelled = false;
+
+    getArchivedEntries(summary.season)
+      .then((entries) => {
+        if (!cancelled) setResult({ key, entries, error: null });
+      })
+      .catch((error) => {
+        const message = error instanceof Error ? error.message : 'Ukjent feil';
+        if (!cancelled) setResult({ key, entries: [], error: message });
+      });
+    return () => {
+      cancelled = true;
+    };
+    // Nøkkelen styrer henting
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [key]);
+
+  const current = key && result?.key === key ? result : null;
+
+  return {
+    seasons,
+    entries: current?.entries ?? [],
+    loading: key !== '' && current === null,
+    error: current?.error ?? null,
+  };
+}
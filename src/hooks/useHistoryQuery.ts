@@ -0,0 +1,68 @@
+/**
+ * useHistoryQuery: Hook for brøytinger hentet via databasens indekser
+ *
+ * Henter et utvalg av den aktive loggen (tidsrom og/eller kontakt) fra
+ * IndexedDB i stedet for å filtrere hele loggen i minnet. Arkiverte
+ * sesonger ligger ikke i indeksene (se useHistoryArchive).
+ *
+ * BRUK:
+ * const { entries, loading } = useHistoryQuery(query, state.history);
+ *
+ * @see queryHistory - Spørringen mot indeksene
+ */
+
+import { useEffect, useState } from 'react';
+import type { SnowEntry } from '../types';
+import { queryHistory, type HistoryQuery } from '../services/repository';
+
+/**
+ * QueryResult: Brøytinger for én spørring
+ *
+ * @property key - Spørringen som tekst (endres når utvalget endres)
+ * @property entries - Brøytingene, eller null hvis spørringen feilet
+ */
+interface QueryResult {
+  key: string;
+  entries: SnowEntry[] | null;
+}
+
+/**
+ * useHistoryQuery: Custom hook for indekserte spørringer
+ *
+ * @param query - Utvalget, eller null for ingen spørring
+ * @param history - Aktiv logg (spørringen kjøres på nytt når den endres)
+ * @returns Brøytinger i utvalget, og om spørringen kjører. Uten spørring,
+ *   mens den kjører eller hvis den feiler, er entries null: filtrer da i minnet.
+ */
+export function useHistoryQuery(query: HistoryQuery | null, history: SnowEntry[]) {
+  const [result, setResult] = useState<QueryResult | null>(null);
+  const key = query
+    ? JSON.stringify([query.from?.toISOString(), query.to?.toISOString(), query.contractorId])
+    : '';
+
+  useEffect(() => {
+    if (!query) return;
+    let cancelled = false;
+
+    queryHistory(query)
+      .then((entries) => {
+        if (!cancelled) setResult({ key, entries });
+      })
+      .catch((error) => {
+        console.error('Failed to query history:', error);
+        if (!cancelled) setResult({ key, entries: null });
+      });
+    return () => {
+      cancelled = true;
+    };
+    // Nøkkelen styrer henting; loggen endres når brøytinger lagres
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [key, history]);
+
+  const current = key && result?.key === key ? result : null;
+
+  return {
+    entries: current?.entries ?? null,
+    loading: key !== '' && current === null,
+  };
+}
@@ -0,0 +1,227 @@
+/**
+ * useProperty: Hook for delte eiendommer og innlogging
+ *
+ * Henter eiendommene brukeren er medlem av, medlemmene og
+ * invitasjonene til den aktive eiendommen, og innloggingen på
+ * enheten. Hentes på nytt etter hver synkronisering og handling.
+ *
+ * Handlinger som bytter eiendom eller bruker, forkaster endringer
+ * som ikke er sendt (se switchProperty), og starter en ny
+ * synkronisering som henter eiendommens data.
+ *
+ * BRUK:
+ * const { properties, members, invite, join } = useProperty();
+ *
+ * @see properties.ts - Eiendommer, medlemmer og invitasjoner
+ * @see auth.ts - Innlogging
+ */
+
+import { useEffect, useState } from 'react';
+import type { Property, PropertyInvitation, PropertyMember, PropertyRole } from '../types';
+import { useApp } from './useApp';
+import {
+  getDefaultAuthClient,
+  getStoredSession,
+  saveAccount,
+  signIn,
+  signOut,
+  type AuthClient,
+  type AuthSession,
+} from '../services/auth';
+import {
+  acceptInvitation,
+  createInvitation,
+  listInvitations,
+  listMembers,
+  listProperties,
+  removeMember,
+  revokeInvitation,
+  setDisplayName,
+  setMemberRole,
+} from '../services/properties';
+import { getDefaultSupabaseClient, type SupabaseClient } from '../services/supabase';
+import { resetActiveProperty, switchProperty } from '../services/sync';
+
+// =============================================================================
+// KONSTANTER
+// =============================================================================
+
+const supabaseClient = getDefaultSupabaseClient();
+const authClient = getDefaultAuthClient();
+
+// =============================================================================
+// INTERFACES
+// =============================================================================
+
+/**
+ * PropertyData: Data for én henting
+ *
+ * @property key - Hvilken henting dataene gjelder
+ * @property session - Innlogget bruker (eller null)
+ * @property properties - Eiendommene brukeren er medlem av
+ * @property members - Medlemmer av aktiv eiendom
+ * @property invitations - Invitasjoner til aktiv eiendom (kun for eier)
+ * @property error - Feilmelding ved henting (eller null)
+ */
+interface PropertyData {
+  key: string;
+  session: AuthSession | null;
+  properties: Property[];
+  members: PropertyMember[];
+  invitations: PropertyInvitation[];
+  error: string | null;
+}
+
+// =============================================================================
+// HJELPEFUNKSJONER
+// =============================================================================
+
+/**
+ * getErrorMessage: Feilmelding som kan vises
+ */
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Ukjent feil';
+}
+
+// =============================================================================
+// HOOK
+// =============================================================================
+
+/**
+ * useProperty: Custom hook for eiendommer og innlogging
+ *
+ * @returns Data, status og handlinger
+ */
+export function useProperty() {
+  const { state, syncNow } = useApp();
+  const { property, lastSyncedAt } = state.sync;
+  const [version, setVersion] = useState(0);
+  const [data, setData] = useState<PropertyData | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const key = `${property?.id ?? ''}:${property?.role ?? ''}:${lastSyncedAt ?? ''}:${version}`;
+
+  useEffect(() => {
+    if (!supabaseClient) return;
+    let cancelled = false;
+
+    Promise.all([
+      getStoredSession(),
+      property ? listProperties(supabaseClient) : [],
+      property ? listMembers(supabaseClient, property.id) : [],
+      property?.role === 'owner' ? listInvitations(supabaseClient, property.id) : [],
+    ])
+      .then(([session, properties, members, invitations]) => {
+        if (!cancelled) setData({ key, session, properties, members, invitations, error: null });
+      })
+      .catch((error) => {
+        // Behold forrige data (f.eks. uten nett)
+        if (!cancelled) {
+          setData((previous) => ({
+            session: null, properties: [], members: [], invitations: [],
+            ...previous,
+            key,
+            error: getErrorMessage(error),
+          }));
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+    // Nøkkelen styrer henting
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [key]);
+
+  /**
+   * perform: Kjør en handling og hent data på nytt
+   *
+   * @param action - Handlingen (får klientene)
+   * @param resync - Synkroniser etterpå (ved bytte av eiendom eller bruker)
+   */
+  const perform = async (action: (client: SupabaseClient, auth: AuthClient) => Promise<unknown>, resync = false) => {
+    if (!supabaseClient || !authClient) return;
+    setBusy(true);
+    setActionError(null);
+    try {
+      await action(supabaseClient, authClient);
+      if (resync) await syncNow();
+    } catch (error) {
+      console.error('Property action failed:', error);
+      setActionError(getErrorMessage(error));
+    }
+    setBusy(false);
+    setVersion((v) => v + 1);
+  };
+
+  const userId = data?.session?.userId ?? null;
+
+  return {
+    session: data?.session ?? null,
+    properties: data?.properties ?? [],
+    members: data?.members ?? [],
+    invitations: data?.invitations ?? [],
+    loading: supabaseClient !== null && data?.key !== key,
+    busy,
+    error: actionError ?? data?.error ?? null,
+
+    /** Bytt til en annen eiendom brukeren er medlem av */
+    switchTo: (target: Property) => perform(() => switchProperty(target), true),
+
+    /** Bli med i en eiendom med invitasjonskode, og bytt til den */
+    join: (code: string, displayName: string) => perform(async (client) => {
+      const propertyId = await acceptInvitation(client, code, displayName);
+      const target = (await listProperties(client)).find((p) => p.id === propertyId);
+      if (!target) throw new Error('Fant ikke eiendommen');
+      await switchProperty(target);
+    }, true),
+
+    /** Forlat aktiv eiendom (neste synkronisering velger en annen) */
+    leave: () => perform(async (client) => {
+      if (!property || !userId) return;
+      await removeMember(client, property.id, userId);
+      await resetActiveProperty();
+    }, true),
+
+    /** Lag invitasjon til aktiv eiendom */
+    invite: (role: PropertyInvitation['role']) => perform(async (client) => {
+      if (property) await createInvitation(client, property.id, role);
+    }),
+
+    /** Trekk tilbake en invitasjon */
+    revoke: (code: string) => perform((client) => revokeInvitation(client, code)),
+
+    /** Endre rollen til et medlem (ny rolle for egen bruker hentes ved synkronisering) */
+    changeRole: (memberId: string, role: PropertyRole) => perform(async (client) => {
+      if (property) await setMemberRole(client, property.id, memberId, role);
+    }, memberId === userId),
+
+    /** Fjern et medlem fra aktiv eiendom */
+    remove: (memberId: string) => perform(async (client) => {
+      if (property) await removeMember(client, property.id, memberId);
+    }),
+
+    /** Endre navnet andre medlemmer ser */
+    rename: (name: string) => perform((client) => setDisplayName(client, name)),
+
+    /** Gi den anonyme brukeren e-post og passord */
+    saveAccount: (email: string, password: string) => perform((_, auth) => saveAccount(auth, email, password)),
+
+    /** Logg inn som en annen bruker (lokale data erstattes) */
+    signIn: (email: string, password: string) => perform(async (_, auth) => {
+      await signIn(auth, email, password);
+      await resetActiveProperty();
+    }, true),
+
+    /** Logg ut (enheten får en ny anonym bruker) */
+    signOut: () => perform(async (_, auth) => {
+      await signOut(auth);
+      await resetActiveProperty();
+    }, true),
+  };
+}
+
+/**
+ * PropertyControls: Det useProperty returnerer
+ */
+export type PropertyControls = ReturnType<typeof useProperty>;
@@ -0,0 +1,420 @@
+/**
+ * alerts.ts: Regelbasert varsling
+ *
+ * Hver varslingsregel har:
+ * - En betingelse (f.eks. "mer enn 5 mm snø neste 12 timer")
+ * - En egen stille periode (ingen varsler, f.eks. 22:00-07:00)
+ * - En nedkjølingstid (minste tid mellom to varsler per lokasjon)
+ * - En meldingsmal med variabler (se ALERT_TEMPLATE_VARIABLES)
+ *
+ * I tillegg gjelder den felles varslingsplanen (se schedule.ts).
+ * Reglene evalueres mot hver nye WeatherData for hver lokasjon.
+ * Selve sendingen av varsler skjer i AppContext.
+ */
+
+import type {
+  AlertCondition,
+  AlertConditionType,
+  AlertRule,
+  HourlyForecast,
+  MonitoredLocation,
+  NotificationSchedule,
+  NowcastData,
+  QuietHours,
+  SnowStatus,
+  SnowStatusResult,
+  WeatherData,
+} from '../types';
+import { getSnowOnset } from '../services/metno';
+import { renderTemplate, type TemplateVariables } from './templates';
+import { getDeviceTimeZone, getLocationTimeZone, getZonedTime, isInTimeRange, isQuietNow } from './schedule';
+
+// =============================================================================
+// INTERFACES
+// =============================================================================
+
+/**
+ * AlertContext: Alt en regel kan evalueres mot
+ *
+ * @property location - Lokasjonen
+ * @property weather - Nye værdata
+ * @property nowcast - Korttidsvarsel (eller null)
+ * @property status - Beregnet snøstatus med nye værdata
+ * @property previousStatus - Status ved forrige evaluering (eller null)
+ * @property schedule - Felles varslingsplan
+ * @property now - Nåtidspunkt
+ */
+export interface AlertContext {
+  location: MonitoredLocation;
+  weather: WeatherData;
+  nowcast: NowcastData | null;
+  status: SnowStatusResult;
+  previousStatus: SnowStatus | null;
+  schedule: NotificationSchedule;
+  now: Date;
+}
+
+/**
+ * TriggeredAlert: Et varsel som skal sendes
+ *
+ * @property rule - Regelen som slo til
+ * @property key - Nøkkel i varsel-loggen ("regel-ID:lokasjons-ID")
+ * @property title - Overskrift (regelnavn og sted)
+ * @property message - Ferdig utfylt meldingsmal
+ */
+export interface TriggeredAlert {
+  rule: AlertRule;
+  key: string;
+  title: string;
+  message: string;
+}
+
+// =============================================================================
+// KONSTANTER
+// =============================================================================
+
+/**
+ * ONE_HOUR_MS: Én time i millisekunder
+ */
+const ONE_HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * ALERT_CONDITION_LABELS: Norsk navn for hver betingelse
+ */
+export const ALERT_CONDITION_LABELS: Record<AlertConditionType, string> = {
+  forecast_snow: 'Snø i prognosen',
+  status_critical: 'Status blir kritisk',
+  freezing_rain: 'Underkjølt regn etter snø',
+  temperature_crossing: 'Temperatur krysser 0 °C',
+  snow_onset: 'Det begynner å snø',
+};
+
+/**
+ * DEFAULT_CONDITIONS: Standardverdier når en betingelse velges
+ */
+export const DEFAULT_CONDITIONS: Record<AlertConditionType, AlertCondition> = {
+  forecast_snow: { type: 'forecast_snow', amountMm: 5, hours: 12 },
+  status_critical: { type: 'status_critical' },
+  freezing_rain: { type: 'freezing_rain', hours: 12 },
+  temperature_crossing: { type: 'temperature_crossing', direction: 'up', hours: 12 },
+  snow_onset: { type: 'snow_onset' },
+};
+
+/**
+ * DEFAULT_TEMPLATES: Standard meldingsmal per betingelse
+ */
+export const DEFAULT_TEMPLATES: Record<AlertConditionType, string> = {
+  forecast_snow: '{sted}: {mm} mm snø ventet neste {timer} timer.',
+  status_critical: '{sted}: ca. {cm} cm snø (terskel {terskel} cm). Bestill brøyting nå!',
+  freezing_rain: '{sted}: Regn ved kuldegrader fra {tid} etter snøfall. Fare for is.',
+  temperature_crossing: '{sted}: Temperaturen krysser 0 °C rundt {tid} ({temp} °C).',
+  snow_onset: '{sted}: Snø om {min} min. Vurder å bestille brøyting.',
+};
+
+/**
+ * ALERT_TEMPLATE_VARIABLES: Variabler som kan brukes i meldingsmaler
+ */
+export const ALERT_TEMPLATE_VARIABLES: Record<string, string> = {
+  sted: 'Lokasjonens navn',
+  cm: 'Estimert snødybde nå (cm)',
+  terskel: 'Lokasjonens terskel (cm)',
+  status: 'Snøstatus (normal/advarsel/kritisk)',
+  mm: 'Snø i perioden (mm, kun snø i prognosen)',
+  timer: 'Antall timer regelen ser frem',
+  tid: 'Klokkeslett for hendelsen',
+  temp: 'Temperatur ved hendelsen (°C)',
+  min: 'Minutter til snøen kommer (kun snøstart)',
+};
+
+/**
+ * statusLabels: Norsk navn for snøstatus (brukes i maler)
+ */
+const statusLabels: Record<SnowStatus, string> = {
+  normal: 'normal',
+  warning: 'advarsel',
+  critical: 'kritisk',
+};
+
+// =============================================================================
+// HJELPEFUNKSJONER
+// =============================================================================
+
+/**
+ * formatClock: Dato → "HH:MM" i lokasjonens tidssone
+ *
+ * Relayet kjører i UTC, så tidssonen må alltid oppgis.
+ * Ugyldig tidssone gir enhetens tid (som getZonedTime).
+ */
+function formatClock(iso: string, timeZone: string): string {
+  const options: Intl.DateTimeFormatOptions = { hour: '2-digit', minute: '2-digit' };
+  try {
+    return new Date(iso).toLocaleTimeString('nb-NO', { ...options, timeZone });
+  } catch {
+    return new Date(iso).toLocaleTimeString('nb-NO', options);
+  }
+}
+
+/**
+ * getUpcomingPeriods: Prognoseperioder som overlapper de neste timene
+ *
+ * @param weather - Værdata
+ * @param hours - Antall timer frem
+ * @param now - Nåtidspunkt
+ * @returns Perioder sortert etter tid
+ */
+function getUpcomingPeriods(weather: WeatherData, hours: number, now: Date): HourlyForecast[] {
+  const nowMs = now.getTime();
+  const endMs = nowMs + hours * ONE_HOUR_MS;
+
+  return [...weather.hourly, ...(weather.sixHourly ?? [])].filter((period) => {
+    const startMs = new Date(period.time).getTime();
+    const periodEndMs = startMs + (period.durationHours ?? 1) * ONE_HOUR_MS;
+    return periodEndMs > nowMs && startMs < endMs;
+  });
+}
+
+/**
+ * isUrgent: Skal regelen varsle også i stille periode?
+ *
+ * Kritisk status er så viktig at planen kan tillate den alltid.
+ */
+function isUrgent(rule: AlertRule, schedule: NotificationSchedule): boolean {
+  return schedule.urgentOverridesQuiet && rule.condition.type === 'status_critical';
+}
+
+// =============================================================================
+// FUNKSJONER
+// =============================================================================
+
+/**
+ * evaluateCondition: Sjekk om en betingelse er oppfylt
+ *
+ * @param condition - Betingelsen
+ * @param context - Værdata, status og tid
+ * @returns Variabler til meldingsmalen, eller null hvis ikke oppfylt
+ */
+export function evaluateCondition(condition: AlertCondition, context: AlertContext): TemplateVariables | null {
+  const { weather, nowcast, status, previousStatus, now } = context;
+  const timeZone = getLocationTimeZone(context.location);
+
+  switch (condition.type) {
+    case 'forecast_snow': {
+      const snow = getUpcomingPeriods(weather, condition.hours, now).reduce((sum, p) => sum + p.snow, 0);
+      return snow >= condition.amountMm
+        ? { mm: snow.toFixed(1), timer: condition.hours }
+        : null;
+    }
+
+    case 'status_critical':
+      // Kun ved endring, ikke så lenge statusen er kritisk
+      return status.status === 'critical' && previousStatus !== 'critical' ? {} : null;
+
+    case 'freezing_rain': {
+      // Regn ved kuldegrader, når det ligger eller kommer snø først
+      let snowBefore = status.currentDepth > 0;
+      for (const period of getUpcomingPeriods(weather, condition.hours, now)) {
+        if (period.precipitationType === 'rain' && period.precipitation > 0 && period.temperature <= 0 && snowBefore) {
+          return { tid: formatClock(period.time, timeZone), temp: period.temperature, timer: condition.hours };
+        }
+        if (period.snow > 0) snowBefore = true;
+      }
+      return null;
+    }
+
+    case 'temperature_crossing': {
+      let previous = weather.current.temperature;
+      for (const period of getUpcomingPeriods(weather, condition.hours, now)) {
+        const crossedUp = condition.direction === 'up' && previous <= 0 && period.temperature > 0;
+        const crossedDown = condition.direction === 'down' && previous > 0 && period.temperature <= 0;
+        if (crossedUp || crossedDown) {
+          return { tid: formatClock(period.time, timeZone), temp: period.temperature, timer: condition.hours };
+        }
+        previous = period.temperature;
+      }
+      return null;
+    }
+
+    case 'snow_onset': {
+      // Radar når den finnes, ellers første time i prognosen
+      if (nowcast?.radarCoverage === 'ok') {
+        const onset = getSnowOnset(nowcast, now);
+        if (!onset) return null;
+        return {
+          min: Math.max(0, Math.round((new Date(onset).getTime() - now.getTime()) / 60000)),
+          tid: formatClock(onset, timeZone),
+        };
+      }
+      return weather.current.precipitationType === 'snow' && weather.current.precipitation > 0
+        ? { min: 0, tid: formatClock(now.toISOString(), timeZone) }
+        : null;
+    }
+  }
+}
+
+/**
+ * isInQuietHours: Er tidspunktet innenfor regelens stille periode?
+ *
+ * Støtter perioder over midnatt (f.eks. 22:00-07:00).
+ *
+ * @param quietHours - Stille periode (eller null)
+ * @param now - Tidspunkt som sjekkes
+ * @param timeZone - Tidssonen klokkeslettene gjelder i (standard: enhetens)
+ * @returns true hvis varsler skal holdes tilbake
+ *
+ * @example
+ * isInQuietHours({ start: '22:00', end: '07:00' }, new Date('2026-01-15T22:30Z'), 'Europe/Oslo');
+ * // true (23:30 i Oslo)
+ */
+export function isInQuietHours(
+  quietHours: QuietHours | null,
+  now: Date,
+  timeZone: string = getDeviceTimeZone()
+): boolean {
+  if (!quietHours) return false;
+  return isInTimeRange(quietHours, getZonedTime(now, timeZone).minutes);
+}
+
+
+/**
+ * getAlertKey: Nøkkel i varsel-loggen for en regel og lokasjon
+ */
+export function getAlertKey(ruleId: string, locationId: string): string {
+  return `${ruleId}:${locationId}`;
+}
+
+/**
+ * evaluateAlerts: Finn varsler som skal sendes for én lokasjon
+ *
+ * En regel sender varsel når:
+ * 1. Den er aktivert
+ * 2. Vi ikke er i en stille periode (planen eller regelens egen),
+ *    med mindre regelen er akutt (kritisk status) og planen tillater det
+ * 3. Nedkjølingstiden siden forrige varsel har passert
+ * 4. Betingelsen er oppfylt
+ *
+ * @param rules - Alle varslingsregler
+ * @param context - Værdata, status og tid for lokasjonen
+ * @param alertLog - Siste varsel per regel og lokasjon
+ * @returns Varsler som skal sendes
+ *
+ * @example
+ * const alerts = evaluateAlerts(settings.alertRules, context, state.alertLog);
+ * alerts.forEach(a => showNotification(a.title, a.message));
+ */
+export function evaluateAlerts(
+  rules: AlertRule[],
+  context: AlertContext,
+  alertLog: Record<string, string>
+): TriggeredAlert[] {
+  const { location, status, schedule, now } = context;
+  const timeZone = getLocationTimeZone(location);
+  const quietNow = isQuietNow(schedule, location, now);
+  const triggered: TriggeredAlert[] = [];
+
+  for (const rule of rules) {
+    if (!rule.enabled) continue;
+    if (!isUrgent(rule, schedule) && (quietNow || isInQuietHours(rule.quietHours, now, timeZone))) continue;
+
+    const key = getAlertKey(rule.id, location.id);
+    const lastFired = alertLog[key];
+    if (lastFired && now.getTime() - new Date(lastFired).getTime() < rule.cooldownMinutes * 60 * 1000) {
+      continue;
+    }
+
+    const variables = evaluateCondition(rule.condition, context);
+    if (!variables) continue;
+
+    triggered.push({
+      rule,
+      key,
+      title: `${rule.name} – ${location.name}`,
+      message: renderTemplate(rule.template, {
+        sted: location.name,
+        cm: status.currentDepth.toFixed(1),
+        terskel: location.snowThreshold,
+        status: statusLabels[status.status],
+        ...variables,
+      }),
+    });
+  }
+
+  return triggered;
+}
+
+/**
+ * getStatusToStore: Status som skal huskes til neste evaluering
+ *
+ * En overgang til kritisk som ingen aktivert regel fikk varslet om
+ * (holdt tilbake av stille periode eller nedkjøling), skal ikke brukes opp.
+ * Da beholdes forrige status, så regelen slår til ved neste evaluering
+ * etter perioden hvis statusen fortsatt er kritisk.
+ *
+ * @param rules - Alle varslingsregler
+ * @param context - Samme kontekst som ble gitt til evaluateAlerts
+ * @param triggered - Varslene evaluateAlerts returnerte
+ * @returns Status å lagre, eller null hvis ingenting skal lagres
+ *
+ * @example
+ * const alerts = evaluateAlerts(rules, context, alertLog);
+ * const next = getStatusToStore(rules, context, alerts);
+ * if (next) lastStatus[location.id] = next;
+ */
+export function getStatusToStore(
+  rules: AlertRule[],
+  context: AlertContext,
+  triggered: TriggeredAlert[]
+): SnowStatus | null {
+  const { status, previousStatus } = context;
+  if (status.status !== 'critical' || previousStatus === 'critical') return status.status;
+
+  const pending = rules.some(
+    (rule) =>
+      rule.enabled &&
+      rule.condition.type === 'status_critical' &&
+      !triggered.some((alert) => alert.rule.id === rule.id)
+  );
+  return pending ? previousStatus : status.status;
+}
+
+/**
+ * createAlertRule: Lag en ny regel med standardverdier
+ *
+ * @param type - Betingelse (standard: snø i prognosen)
+ * @returns Ny, aktivert regel
+ */
+export function createAlertRule(type: AlertConditionType = 'forecast_snow'): AlertRule {
+  return {
+    id: crypto.randomUUID(),
+    name: ALERT_CONDITION_LABELS[type],
+    enabled: true,
+    condition: DEFAULT_CONDITIONS[type],
+    quietHours: null,
+    cooldownMinutes: 6 * 60,
+    template: DEFAULT_TEMPLATES[type],
+  };
+}
+
+/**
+ * createDefaultAlertRules: Standardregler for nye brukere
+ *
+ * Tilsvarer den gamle "varsle ved snø"-bryteren, pluss varsel
+ * når snødybden når terskelen.
+ *
+ * @param options - Om snøstart-regelen er på
+ * @returns Liste med standardregler
+ */
+export function createDefaultAlertRules(options: { snowOnset?: boolean } = {}): AlertRule[] {
+  return [
+    {
+      ...createAlertRule('snow_onset'),
+      id: 'default-snow-onset',
+      enabled: options.snowOnset ?? false,
+      cooldownMinutes: 60,
+    },
+    {
+      ...createAlertRule('status_critical'),
+      id: 'default-status-critical',
+      cooldownMinutes: 12 * 60,
+    },
+  ];
+}
@@ -0,0 +1,216 @@
+/**
+ * contractors.ts: Rekkefølge og tilgjengelighet for kontakter
+ *
+ * Kontaktene står i en prioritert liste. Den første er hovedkontakten
+ * (isPrimary), de neste brukes når en bestilling ikke blir bekreftet
+ * i tide (se escalation.ts).
+ */
+
+import type { Contractor, MonitoredLocation, SnowEntry } from '../types';
+import { getLocationTimeZone, getZonedTime, isInTimeRange } from './schedule';
+
+// =============================================================================
+// KONSTANTER
+// =============================================================================
+
+/**
+ * DEFAULT_RESPONSE_TIMEOUT: Minutter vi venter på bekreftelse som standard
+ */
+export const DEFAULT_RESPONSE_TIMEOUT = 30;
+
+/**
+ * NAME_MATCH_THRESHOLD: Minste likhet (0-1) for å koble et gammelt navn til en kontakt
+ */
+const NAME_MATCH_THRESHOLD = 0.8;
+
+/**
+ * COMPANY_SUFFIXES: Selskapsformer som ignoreres ved navnesammenligning
+ */
+const COMPANY_SUFFIXES = ['as', 'asa', 'ans', 'da', 'enk', 'ab'];
+
+// =============================================================================
+// HJELPEFUNKSJONER
+// =============================================================================
+
+/**
+ * normalizeName: Navn → sammenlignbar form
+ *
+ * Små bokstaver, uten aksenter, tegnsetting og selskapsform.
+ *
+ * @example
+ * normalizeName("Brøy'n AS"); // "broyn"
+ */
+function normalizeName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/æ/g, 'ae')
+    .replace(/ø/g, 'o')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9\s]/g, '')
+    .split(/\s+/)
+    .filter((word) => word && !COMPANY_SUFFIXES.includes(word))
+    .join(' ');
+}
+
+/**
+ * getSimilarity: Likhet mellom to strenger (0-1) basert på Levenshtein-avstand
+ */
+function getSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (!a || !b) return 0;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return 1 - previous[b.length] / Math.max(a.length, b.length);
+}
+
+// =============================================================================
+// FUNKSJONER
+// =============================================================================
+
+/**
+ * matchContractorName: Finn kontakten et fritekstnavn mest sannsynlig gjelder
+ *
+ * Brukes for å koble eldre brøytinger (kun navn) til kontakter.
+ * Gir kun treff når én kontakt skiller seg ut, slik at "Ola" ikke
+ * kobles tilfeldig når både "Ola Hansen" og "Ola Berg" finnes.
+ *
+ * @param name - Navn skrevet inn for hånd
+ * @param contractors - Alle kontakter
+ * @returns Kontakten, eller undefined ved ingen eller flere like gode treff
+ *
+ * @example
+ * matchContractorName('broyn as', [{ name: "Brøy'n AS", ... }]); // Brøy'n AS
+ */
+export function matchContractorName(name: string, contractors: Contractor[]): Contractor | undefined {
+  const target = normalizeName(name);
+  if (!target) return undefined;
+
+  const scored = contractors.map((contractor) => {
+    const candidate = normalizeName(contractor.name);
+    const similarity = getSimilarity(candidate, target);
+    // "Brøy'n" skrevet for "Brøy'n Snørydding" regnes som treff
+    const contains = Math.min(candidate.length, target.length) >= 3
+      && (candidate.includes(target) || target.includes(candidate));
+    return { contractor, score: contains ? Math.max(similarity, NAME_MATCH_THRESHOLD) : similarity };
+  });
+
+  const best = scored.filter((s) => s.score >= NAME_MATCH_THRESHOLD).sort((a, b) => b.score - a.score);
+  if (best.length === 0) return undefined;
+  if (best.length > 1 && best[1].score === best[0].score) return undefined;
+  return best[0].contractor;
+}
+
+/**
+ * linkEntryContractors: Koble brøytinger med kun navn til kontakter
+ *
+ * Oppføringer som allerede har `contractorId`, eller ikke får et
+ * sikkert treff, beholdes som de er. Navnet beholdes uansett.
+ *
+ * @param entries - Brøytingslogg
+ * @param contractors - Alle kontakter
+ * @returns Logg med `contractorId` der navnet kunne kobles
+ */
+export function linkEntryContractors(entries: SnowEntry[], contractors: Contractor[]): SnowEntry[] {
+  return entries.map((entry) => {
+    if (entry.contractorId || !entry.contractor) return entry;
+    const match = matchContractorName(entry.contractor, contractors);
+    return match ? { ...entry, contractorId: match.id } : entry;
+  });
+}
+
+/**
+ * unlinkContractor: Fjern koblingen til en slettet kontakt
+ *
+ * Navnet står igjen på oppføringen, slik at loggen fortsatt viser
+ * hvem som brøytet.
+ *
+ * @param entries - Brøytingslogg
+ * @param contractor - Kontakten som slettes
+ * @returns Logg uten referanser til kontakten
+ */
+export function unlinkContractor(entries: SnowEntry[], contractor: Contractor): SnowEntry[] {
+  return entries.map((entry) =>
+    entry.contractorId === contractor.id
+      ? { ...entry, contractorId: undefined, contractor: entry.contractor || contractor.name }
+      : entry
+  );
+}
+
+/**
+ * sortContractors: Kontakter i prioritert rekkefølge
+ *
+ * Eldre kontakter uten `priority` havner etter de som har det,
+ * med hovedkontakten først.
+ *
+ * @param contractors - Alle kontakter
+ * @returns Ny liste sortert etter prioritet
+ */
+export function sortContractors(contractors: Contractor[]): Contractor[] {
+  return [...contractors].sort((a, b) =>
+    (a.priority ?? Infinity) - (b.priority ?? Infinity)
+    || Number(!!b.isPrimary) - Number(!!a.isPrimary)
+  );
+}
+
+/**
+ * setContractorOrder: Gi kontaktene prioritet etter rekkefølgen i listen
+ *
+ * Første kontakt blir hovedkontakt. Ukjente ID-er ignoreres, og
+ * kontakter som mangler i listen legges til bakerst.
+ *
+ * @param contractors - Alle kontakter
+ * @param orderedIds - Kontakt-ID-er i ønsket rekkefølge
+ * @returns Kontakter med oppdatert priority og isPrimary
+ *
+ * @example
+ * setContractorOrder(contractors, ['ola', 'kari']); // ola er nå hovedkontakt
+ */
+export function setContractorOrder(contractors: Contractor[], orderedIds: string[]): Contractor[] {
+  const byId = new Map(contractors.map((c) => [c.id, c]));
+  const ordered = [
+    ...orderedIds.map((id) => byId.get(id)).filter((c): c is Contractor => c !== undefined),
+    ...sortContractors(contractors).filter((c) => !orderedIds.includes(c.id)),
+  ];
+
+  return ordered.map((c, index) => ({ ...c, priority: index, isPrimary: index === 0 }));
+}
+
+/**
+ * getResponseTimeout: Hvor lenge vi venter på kontakten (minutter)
+ */
+export function getResponseTimeout(contractor: Contractor): number {
+  return contractor.responseTimeoutMinutes ?? DEFAULT_RESPONSE_TIMEOUT;
+}
+
+/**
+ * isContractorAvailable: Kan kontakten bestilles nå?
+ *
+ * Tidene tolkes i lokasjonens tidssone, som varslingsplanen.
+ *
+ * @param contractor - Kontakten
+ * @param location - Stedet som skal brøytes
+ * @param now - Tidspunkt
+ * @returns true hvis kontakten er tilgjengelig (eller ikke har begrensning)
+ */
+export function isContractorAvailable(
+  contractor: Contractor,
+  location: MonitoredLocation,
+  now: Date
+): boolean {
+  if (!contractor.availableHours) return true;
+  const { minutes } = getZonedTime(now, getLocationTimeZone(location));
+  return isInTimeRange(contractor.availableHours, minutes);
+}
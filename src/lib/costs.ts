@@ -0,0 +1,259 @@
+/**
+ * costs.ts: Kostnad per brøyting og sesongrapport
+ *
+ * Prisen regnes ut fra kontaktens prisavtale (se PricingAgreement):
+ * - per besøk: fast beløp
+ * - per time: timepris × tid brukt (minst minstetiden)
+ * - sesong: fast beløp én gang per sesong, også uten besøk (fordelt
+ *   likt på besøkene når kostnaden vises per brøyting)
+ *
+ * En sesong går fra 1. juli til 30. juni, slik at en vinter ikke
+ * deles i to ved nyttår. Rapporten brukes til å stemme av fakturaer.
+ *
+ * Kostnaden regnes fra dagens avtale, så endrer du prisen midt i
+ * en sesong, gjelder den nye prisen for hele sesongen. En sesongavtale
+ * gjelder dermed alle sesongene i rapporten.
+ */
+
+import type { Contractor, SnowEntry } from '../types';
+
+// =============================================================================
+// INTERFACES
+// =============================================================================
+
+/**
+ * ContractorCost: Én kontakts andel av en sesong
+ *
+ * @property contractorId - Kontakten (eller null for ukjent)
+ * @property name - Navn på kontakten
+ * @property visits - Antall brøytinger
+ * @property hours - Timer brukt (kun oppføringer med tid)
+ * @property cost - Sum kostnad i kroner (null uten prisavtale)
+ */
+export interface ContractorCost {
+  contractorId: string | null;
+  name: string;
+  visits: number;
+  hours: number;
+  cost: number | null;
+}
+
+/**
+ * SeasonReport: Oppsummering av én sesong
+ *
+ * @property season - Sesong, f.eks. "2025/26"
+ * @property visits - Antall brøytinger
+ * @property snowCm - Sum snødybde ved brøyting (cm)
+ * @property totalCost - Sum kostnad i kroner
+ * @property costPerCm - Kostnad per cm snø (null uten snødybde)
+ * @property contractors - Fordeling per kontakt
+ */
+export interface SeasonReport {
+  season: string;
+  visits: number;
+  snowCm: number;
+  totalCost: number;
+  costPerCm: number | null;
+  contractors: ContractorCost[];
+}
+
+// =============================================================================
+// KONSTANTER
+// =============================================================================
+
+/**
+ * SEASON_START_MONTH: Måneden sesongen starter (0 = januar, 6 = juli)
+ */
+const SEASON_START_MONTH = 6;
+
+// =============================================================================
+// HJELPEFUNKSJONER
+// =============================================================================
+
+/**
+ * getEntrySnow: Snødybde (cm) for en brøyting
+ *
+ * Målt dybde hvis den er logget, ellers modellens estimat.
+ */
+function getEntrySnow(entry: SnowEntry): number {
+  return entry.snowDepth ?? entry.forecastDepth ?? 0;
+}
+
+// =============================================================================
+// FUNKSJONER
+// =============================================================================
+
+/**
+ * getSeasonStart: Starten på sesongen et tidspunkt hører til
+ *
+ * @param date - Tidspunkt
+ * @returns 1. juli kl. 00:00 (lokal tid) i sesongens første år
+ *
+ * @example
+ * getSeasonStart(new Date('2026-02-01')); // 1. juli 2025
+ */
+export function getSeasonStart(date: Date): Date {
+  const startYear = date.getMonth() >= SEASON_START_MONTH ? date.getFullYear() : date.getFullYear() - 1;
+  return new Date(startYear, SEASON_START_MONTH, 1);
+}
+
+/**
+ * getSeason: Sesongen et tidspunkt hører til
+ *
+ * @param date - Tidspunkt
+ * @returns Sesong, f.eks. "2025/26"
+ *
+ * @example
+ * getSeason(new Date('2026-02-01')); // "2025/26"
+ */
+export function getSeason(date: Date): string {
+  const startYear = getSeasonStart(date).getFullYear();
+  return `${startYear}/${String((startYear + 1) % 100).padStart(2, '0')}`;
+}
+
+/**
+ * getSeasonRange: Første og siste tidspunkt i en sesong
+ *
+ * @param season - Sesong, f.eks. "2025/26"
+ * @returns 1. juli kl. 00:00 og 30. juni kl. 23:59:59.999 (lokal tid)
+ *
+ * @example
+ * getSeasonRange('2025/26'); // { from: 1. juli 2025, to: 30. juni 2026 }
+ */
+export function getSeasonRange(season: string): { from: Date; to: Date } {
+  const startYear = parseInt(season, 10);
+  return {
+    from: new Date(startYear, SEASON_START_MONTH, 1),
+    to: new Date(new Date(startYear + 1, SEASON_START_MONTH, 1).getTime() - 1),
+  };
+}
+
+/**
+ * findEntryContractor: Kontakten en brøyting er koblet til
+ *
+ * Eldre oppføringer kobles ved oppstart (se linkEntryContractors).
+ * Oppføringer uten kobling grupperes på navnet i rapporten.
+ *
+ * @param entry - Brøytingen
+ * @param contractors - Alle kontakter
+ * @returns Kontakten, eller undefined
+ */
+export function findEntryContractor(entry: SnowEntry, contractors: Contractor[]): Contractor | undefined {
+  return entry.contractorId ? contractors.find((c) => c.id === entry.contractorId) : undefined;
+}
+
+/**
+ * getVisitCost: Kostnad for én brøyting
+ *
+ * Sesongpris gir brøytingens andel av beløpet. Sesongrapporten fører
+ * i stedet hele beløpet én gang (se getSeasonReports).
+ *
+ * @param entry - Brøytingen
+ * @param contractor - Kontakten som brøytet (med prisavtale)
+ * @param seasonVisits - Kontaktens besøk i sesongen (for sesongpris)
+ * @returns Kostnad i kroner, eller null uten prisavtale / tid brukt
+ *
+ * @example
+ * getVisitCost({ ...entry, durationMinutes: 90 }, { ...ola, pricing: { type: 'per_hour', hourlyRate: 800 } }); // 1200
+ */
+export function getVisitCost(
+  entry: SnowEntry,
+  contractor: Contractor | undefined,
+  seasonVisits: number = 1
+): number | null {
+  const pricing = contractor?.pricing;
+  if (!pricing) return null;
+
+  switch (pricing.type) {
+    case 'per_visit':
+      return pricing.amount;
+    case 'per_hour': {
+      if (entry.durationMinutes === undefined) return null;
+      const hours = Math.max(entry.durationMinutes / 60, pricing.minimumHours ?? 0);
+      return hours * pricing.hourlyRate;
+    }
+    case 'seasonal':
+      return pricing.amount / Math.max(seasonVisits, 1);
+  }
+}
+
+/**
+ * getSeasonReports: Sesongrapporter for hele brøytingsloggen
+ *
+ * Kontakter med sesongpris tas med i hver sesong med hele beløpet,
+ * også når de ikke har brøytet.
+ *
+ * @param history - Brøytingslogg
+ * @param contractors - Kontakter med prisavtaler
+ * @param extraSeasons - Sesonger som skal med selv uten brøytinger
+ * @returns Én rapport per sesong, nyeste først
+ *
+ * @example
+ * getSeasonReports([], [{ ...ola, pricing: { type: 'seasonal', amount: 15000 } }], ['2025/26'])[0].totalCost; // 15000
+ */
+export function getSeasonReports(
+  history: SnowEntry[],
+  contractors: Contractor[],
+  extraSeasons: string[] = []
+): SeasonReport[] {
+  const seasons = new Map<string, SnowEntry[]>(extraSeasons.map((season) => [season, []]));
+  history.forEach((entry) => {
+    const season = getSeason(new Date(entry.timestamp));
+    seasons.set(season, [...(seasons.get(season) ?? []), entry]);
+  });
+
+  return [...seasons.entries()]
+    .sort(([a], [b]) => b.localeCompare(a))
+    .map(([season, entries]) => {
+      const byContractor = new Map<string, { contractor?: Contractor; entries: SnowEntry[] }>();
+      entries.forEach((entry) => {
+        const contractor = findEntryContractor(entry, contractors);
+        const key = contractor?.id ?? entry.contractor?.trim() ?? '';
+        const group = byContractor.get(key) ?? { contractor, entries: [] };
+        byContractor.set(key, { ...group, entries: [...group.entries, entry] });
+      });
+
+      // Sesongavtaler gjelder hele sesongen, uansett antall besøk
+      contractors
+        .filter((c) => c.pricing?.type === 'seasonal' && !byContractor.has(c.id))
+        .forEach((contractor) => byContractor.set(contractor.id, { contractor, entries: [] }));
+
+      const contractorCosts: ContractorCost[] = [...byContractor.entries()].map(([key, group]) => {
+        const pricing = group.contractor?.pricing;
+        const costs = pricing?.type === 'seasonal'
+          ? [pricing.amount]
+          : group.entries.map((e) => getVisitCost(e, group.contractor));
+        const known = costs.filter((c): c is number => c !== null);
+
+        return {
+          contractorId: group.contractor?.id ?? null,
+          name: group.contractor?.name ?? (key || 'Ukjent'),
+          visits: group.entries.length,
+          hours: group.entries.reduce((sum, e) => sum + (e.durationMinutes ?? 0), 0) / 60,
+          cost: known.length > 0 ? known.reduce((sum, c) => sum + c, 0) : null,
+        };
+      });
+
+      const totalCost = contractorCosts.reduce((sum, c) => sum + (c.cost ?? 0), 0);
+      const snowCm = entries.reduce((sum, e) => sum + getEntrySnow(e), 0);
+
+      return {
+        season,
+        visits: entries.length,
+        snowCm,
+        totalCost,
+        costPerCm: snowCm > 0 ? totalCost / snowCm : null,
+        contractors: contractorCosts.sort((a, b) => b.visits - a.visits),
+      };
+    });
+}
+
+/**
+ * formatCost: Beløp i kroner for visning
+ *
+ * @example
+ * formatCost(12500); // "12 500 kr"
+ */
+export function formatCost(amount: number): string {
+  return `${Math.round(amount).toLocaleString('nb-NO')} kr`;
+}
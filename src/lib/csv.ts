@@ -0,0 +1,144 @@
+/**
+ * csv.ts: Lese og skrive CSV
+ *
+ * Norsk Excel bruker komma som desimaltegn, og forventer derfor
+ * semikolon mellom feltene. Filer som skrives, får semikolon og BOM
+ * (så Excel leser æøå riktig). Ved lesing gjettes skilletegnet
+ * (semikolon, komma eller tabulator) fra første linje.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc4180
+ */
+
+// =============================================================================
+// KONSTANTER
+// =============================================================================
+
+/**
+ * CSV_SEPARATOR: Skilletegn i filer som skrives
+ */
+const CSV_SEPARATOR = ';';
+
+/**
+ * BOM: Byte order mark, forteller Excel at filen er UTF-8
+ */
+const BOM = '\uFEFF';
+
+/**
+ * SEPARATORS: Skilletegn som gjenkjennes ved lesing
+ */
+const SEPARATORS = [';', ',', '\t'];
+
+/**
+ * FORMULA_PREFIX: Tekst som Excel tolker som formel
+ *
+ * Slike tekstfelt skrives med apostrof foran (CSV-injeksjon), og
+ * apostrofen fjernes igjen ved lesing.
+ *
+ * @see https://owasp.org/www-community/attacks/CSV_Injection
+ */
+const FORMULA_PREFIX = /^'?[=+\-@]/;
+
+// =============================================================================
+// HJELPEFUNKSJONER
+// =============================================================================
+
+/**
+ * formatField: Verdi → CSV-felt (i anførselstegn ved behov)
+ *
+ * Tall skrives med komma som desimaltegn, som i norsk Excel. Tekst
+ * som ser ut som en formel, får apostrof foran.
+ */
+function formatField(value: string | number | null): string {
+  if (value === null) return '';
+  const text = typeof value === 'number'
+    ? String(value).replace('.', ',')
+    : FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[";\n\r,\t]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * detectSeparator: Skilletegnet som gir flest felt i første linje
+ */
+function detectSeparator(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  const [best] = SEPARATORS
+    .map((separator) => ({ separator, count: firstLine.split(separator).length - 1 }))
+    .sort((a, b) => b.count - a.count);
+  return best.count > 0 ? best.separator : CSV_SEPARATOR;
+}
+
+// =============================================================================
+// FUNKSJONER
+// =============================================================================
+
+/**
+ * toCsv: Rader → CSV-tekst (for Excel)
+ *
+ * @param rows - Rader med celler
+ * @returns CSV med semikolon, CRLF og BOM
+ *
+ * @example
+ * toCsv([['Dato', 'Snødybde'], ['2026-01-05', 12.5]]); // "\uFEFFDato;Snødybde\r\n2026-01-05;12,5"
+ */
+export function toCsv(rows: (string | number | null)[][]): string {
+  return BOM + rows.map((row) => row.map(formatField).join(CSV_SEPARATOR)).join('\r\n');
+}
+
+/**
+ * unescapeFormula: Fjern apostrofen som formatField setter foran formler
+ */
+function unescapeFormula(field: string): string {
+  return field.startsWith("'") && FORMULA_PREFIX.test(field.slice(1)) ? field.slice(1) : field;
+}
+
+/**
+ * parseCsv: CSV-tekst → rader
+ *
+ * Tåler anførselstegn rundt felt (også med linjeskift inni), BOM
+ * og tomme linjer (som hoppes over). Apostrof foran formler fjernes.
+ *
+ * @param text - Filinnholdet
+ * @returns Rader med celler som tekst
+ *
+ * @example
+ * parseCsv('Dato;Kommentar\n2026-01-05;"Mye snø; is"'); // [['Dato', 'Kommentar'], ['2026-01-05', 'Mye snø; is']]
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, '');
+  const separator = detectSeparator(input);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === separator) {
+      row.push(unescapeFormula(field));
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(unescapeFormula(field));
+      if (row.some((cell) => cell.trim() !== '')) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  row.push(unescapeFormula(field));
+  if (row.some((cell) => cell.trim() !== '')) rows.push(row);
+  return rows;
+}
@@ -0,0 +1,158 @@
+/**
+ * escalation.ts: Eskalering når en kontakt ikke svarer
+ *
+ * En bestilling går gjennom disse fasene:
+ *
+ *   waiting ──(svarfristen går ut)──→ overdue ──(send til neste)──→ ny bestilling
+ *      │                                 │
+ *      │                                 └──(ingen flere kontakter)──→ exhausted
+ *      └──(bekreftet/utført/avbrutt)──→ closed
+ *
+ * Fasen beregnes fra bestillingen og klokka, og lagres ikke.
+ * AppContext sjekker åpne bestillinger hvert minutt og varsler
+ * når en går over i "overdue". Selve videresendingen gjøres av
+ * brukeren, siden SMS og e-post sendes fra brukerens egen enhet.
+ */
+
+import type { Contractor, MonitoredLocation, PlowOrder } from '../types';
+import { getResponseTimeout, isContractorAvailable, sortContractors } from './contractors';
+import { createPlowOrder } from './orders';
+
+// =============================================================================
+// INTERFACES
+// =============================================================================
+
+/**
+ * EscalationState: Hvor en bestilling står i eskaleringen
+ *
+ * - waiting: Venter på svar til `deadline`
+ * - overdue: Fristen er ute, `next` er neste tilgjengelige kontakt
+ * - exhausted: Fristen er ute og ingen flere kontakter kan prøves
+ * - closed: Bestillingen er bekreftet, utført, avbrutt eller sendt videre
+ */
+export type EscalationState =
+  | { phase: 'waiting'; deadline: Date }
+  | { phase: 'overdue'; deadline: Date; next: Contractor }
+  | { phase: 'exhausted'; deadline: Date }
+  | { phase: 'closed' };
+
+/**
+ * EscalationContext: Det som trengs for å beregne fasen
+ *
+ * @property contractors - Alle kontakter
+ * @property orders - Alle bestillinger (for å finne hvem som er prøvd)
+ * @property location - Stedet bestillingen gjelder
+ * @property now - Nåtidspunkt
+ */
+export interface EscalationContext {
+  contractors: Contractor[];
+  orders: PlowOrder[];
+  location: MonitoredLocation;
+  now: Date;
+}
+
+// =============================================================================
+// HJELPEFUNKSJONER
+// =============================================================================
+
+/**
+ * getTriedContractorIds: Kontakter som allerede har fått denne bestillingen
+ *
+ * Følger `escalatedFrom` bakover til første bestilling.
+ */
+function getTriedContractorIds(order: PlowOrder, orders: PlowOrder[]): Set<string> {
+  const tried = new Set<string>();
+  let current: PlowOrder | undefined = order;
+
+  while (current && !tried.has(current.contractorId)) {
+    tried.add(current.contractorId);
+    const previousId: string | undefined = current.escalatedFrom;
+    current = previousId ? orders.find((o) => o.id === previousId) : undefined;
+  }
+
+  return tried;
+}
+
+// =============================================================================
+// FUNKSJONER
+// =============================================================================
+
+/**
+ * getEscalationChain: Kontakter som kan bestilles nå, i prioritert rekkefølge
+ *
+ * @param contractors - Alle kontakter
+ * @param location - Stedet som skal brøytes
+ * @param now - Tidspunkt
+ * @returns Tilgjengelige kontakter, hovedkontakten først
+ */
+export function getEscalationChain(
+  contractors: Contractor[],
+  location: MonitoredLocation,
+  now: Date
+): Contractor[] {
+  return sortContractors(contractors).filter((c) => isContractorAvailable(c, location, now));
+}
+
+/**
+ * getOrderDeadline: Når bestillingen må være bekreftet
+ *
+ * @param order - Bestillingen
+ * @param contractors - Alle kontakter (for kontaktens svarfrist)
+ * @returns Frist, eller null hvis kontakten er slettet
+ */
+export function getOrderDeadline(order: PlowOrder, contractors: Contractor[]): Date | null {
+  const contractor = contractors.find((c) => c.id === order.contractorId);
+  if (!contractor) return null;
+  return new Date(new Date(order.requestedAt).getTime() + getResponseTimeout(contractor) * 60 * 1000);
+}
+
+/**
+ * getEscalationState: Beregn fasen for en bestilling
+ *
+ * Kun bestillinger med status 'requested' eskaleres. Slettede
+ * kontakter regnes som ute av tiden med en gang.
+ *
+ * @param order - Bestillingen
+ * @param context - Kontakter, bestillinger, sted og klokke
+ * @returns Eskaleringsfase
+ *
+ * @example
+ * const state = getEscalationState(order, { contractors, orders, location, now: new Date() });
+ * if (state.phase === 'overdue') console.log(`Prøv ${state.next.name}`);
+ */
+export function getEscalationState(order: PlowOrder, context: EscalationContext): EscalationState {
+  if (order.status !== 'requested') return { phase: 'closed' };
+
+  const deadline = getOrderDeadline(order, context.contractors) ?? new Date(order.requestedAt);
+  if (context.now < deadline) return { phase: 'waiting', deadline };
+
+  const tried = getTriedContractorIds(order, context.orders);
+  const next = getEscalationChain(context.contractors, context.location, context.now)
+    .find((c) => !tried.has(c.id));
+
+  return next ? { phase: 'overdue', deadline, next } : { phase: 'exhausted', deadline };
+}
+
+/**
+ * escalateOrder: Send bestillingen videre til neste kontakt
+ *
+ * @param order - Bestillingen som ikke ble bekreftet
+ * @param location - Stedet som skal brøytes
+ * @param next - Kontakten som skal få bestillingen
+ * @param channel - SMS eller e-post
+ * @param message - Meldingen som sendes
+ * @returns Den gamle bestillingen (status 'escalated') og den nye
+ */
+export function escalateOrder(
+  order: PlowOrder,
+  location: MonitoredLocation,
+  next: Contractor,
+  channel: PlowOrder['channel'],
+  message: string
+): { previous: PlowOrder; next: PlowOrder } {
+  const nextOrder = { ...createPlowOrder(location, next, channel, message), escalatedFrom: order.id };
+  return {
+    previous: { ...order, status: 'escalated', completedAt: nextOrder.requestedAt },
+    next: nextOrder,
+  };
+}
@@ -0,0 +1,116 @@
+/**
+ * history.ts: Redigering av brøytingsloggen
+ *
+ * En brøyting som endres, beholder ID-en og får en ny linje i
+ * endringsloggen (`edits`): når, hvem, og gamle og nye verdier for
+ * hvert felt. Loggen følger brøytingen ved synkronisering, så alle
+ * medlemmer ser hva som er endret.
+ */
+
+import type { SnowEntry, SnowEntryChange, SnowEntryField } from '../types';
+
+// =============================================================================
+// KONSTANTER
+// =============================================================================
+
+/**
+ * ENTRY_FIELD_LABELS: Visningsnavn for feltene som kan redigeres
+ */
+export const ENTRY_FIELD_LABELS: Record<SnowEntryField, string> = {
+  timestamp: 'Tidspunkt',
+  snowDepth: 'Snødybde',
+  comment: 'Kommentar',
+  contractor: 'Entreprenør',
+  durationMinutes: 'Tid brukt',
+};
+
+// =============================================================================
+// HJELPEFUNKSJONER
+// =============================================================================
+
+/**
+ * getFieldValue: Verdien til et felt (null = tomt)
+ *
+ * Entreprenøren lagres med navnet, så endringen kan leses selv om
+ * kontakten slettes senere.
+ */
+function getFieldValue(entry: SnowEntry, field: SnowEntryField): string | number | null {
+  const value = entry[field];
+  return value === undefined || value === '' ? null : value;
+}
+
+// =============================================================================
+// FUNKSJONER
+// =============================================================================
+
+/**
+ * getEntryChanges: Feltene som er endret mellom to versjoner av en brøyting
+ *
+ * Bytte av kontakt regnes som endret også når navnet er likt.
+ *
+ * @param before - Brøytingen før
+ * @param after - Brøytingen etter
+ * @returns Endrede felt (tom liste hvis ingenting er endret)
+ *
+ * @example
+ * getEntryChanges({ ...entry, snowDepth: 10 }, { ...entry, snowDepth: 12 });
+ * // [{ field: 'snowDepth', from: 10, to: 12 }]
+ */
+export function getEntryChanges(before: SnowEntry, after: SnowEntry): SnowEntryChange[] {
+  return (Object.keys(ENTRY_FIELD_LABELS) as SnowEntryField[])
+    .filter((field) =>
+      getFieldValue(before, field) !== getFieldValue(after, field)
+      || (field === 'contractor' && (before.contractorId ?? null) !== (after.contractorId ?? null))
+    )
+    .map((field) => ({ field, from: getFieldValue(before, field), to: getFieldValue(after, field) }));
+}
+
+/**
+ * applyEntryEdit: Ny versjon av en brøyting, med endringen i loggen
+ *
+ * Endringsloggen tas fra `before`, slik at den ikke kan overskrives
+ * av den som redigerer.
+ *
+ * @param before - Brøytingen slik den er lagret
+ * @param after - Brøytingen slik den er redigert
+ * @param editedAt - Tidspunktet for endringen (ISO-8601)
+ * @param editedBy - Brukeren som endret (eller null)
+ * @returns Ny brøyting, eller null hvis ingenting er endret
+ */
+export function applyEntryEdit(
+  before: SnowEntry,
+  after: SnowEntry,
+  editedAt: string,
+  editedBy: string | null
+): SnowEntry | null {
+  const changes = getEntryChanges(before, after);
+  if (changes.length === 0) return null;
+  return {
+    ...after,
+    id: before.id,
+    edits: [...(before.edits ?? []), { at: editedAt, by: editedBy, changes }],
+  };
+}
+
+/**
+ * formatEntryValue: Verdi i endringsloggen, for visning
+ *
+ * Snødybden vises i mm, som i loggen.
+ *
+ * @param field - Feltet
+ * @param value - Verdien (null = tom)
+ * @returns Tekst (f.eks. "120 mm" eller "–")
+ */
+export function formatEntryValue(field: SnowEntryField, value: string | number | null): string {
+  if (value === null) return '–';
+  switch (field) {
+    case 'timestamp':
+      return new Date(value).toLocaleString('nb-NO', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+    case 'snowDepth':
+      return `${Number(value) * 10} mm`;
+    case 'durationMinutes':
+      return `${value} min`;
+    default:
+      return String(value);
+  }
+}
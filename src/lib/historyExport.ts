@@ -0,0 +1,284 @@
+/**
+ * historyExport.ts: Eksport av brøytingsloggen
+ *
+ * Loggen kan lastes ned som CSV (for Excel), XLSX eller JSON, f.eks.
+ * for å sende den til styret i borettslaget. Utvalget kan begrenses
+ * til en periode og én entreprenør.
+ *
+ * CSV og XLSX har én rad per brøyting, med lokal dato og tid og
+ * kostnad etter prisavtalen (se costs.ts). JSON inneholder brøytingene
+ * som de er lagret, og kan importeres igjen (se historyImport.ts).
+ */
+
+import type { Contractor, MonitoredLocation, SnowEntry } from '../types';
+import type { HistoryQuery } from '../services/repository';
+import { findEntryContractor, getSeason, getVisitCost } from './costs';
+import { toCsv } from './csv';
+import { createXlsx, XLSX_MIME_TYPE, type XlsxCell } from './xlsx';
+
+// =============================================================================
+// KONSTANTER
+// =============================================================================
+
+/**
+ * EXPORT_FORMAT_LABELS: Visningsnavn for hvert format
+ */
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  xlsx: 'Excel (XLSX)',
+  json: 'JSON',
+};
+
+/**
+ * EXPORT_COLUMNS: Kolonnene i CSV og XLSX
+ *
+ * Overskriftene gjenkjennes ved import (se guessMapping).
+ */
+export const EXPORT_COLUMNS = [
+  'Dato',
+  'Klokkeslett',
+  'Sted',
+  'Snødybde (cm)',
+  'Entreprenør',
+  'Tid brukt (min)',
+  'Kostnad (kr)',
+  'Kommentar',
+  'ID',
+];
+
+/**
+ * UNLINKED_PREFIX: Filterverdi for entreprenører som bare har navn
+ */
+const UNLINKED_PREFIX = 'name:';
+
+// =============================================================================
+// INTERFACES
+// =============================================================================
+
+/**
+ * ExportFormat: Filformat for eksport
+ */
+export type ExportFormat = 'csv' | 'xlsx' | 'json';
+
+/**
+ * ExportFilter: Utvalget som eksporteres
+ *
+ * @property from - Første dag (YYYY-MM-DD, lokal tid), eller null
+ * @property to - Siste dag (YYYY-MM-DD, lokal tid), eller null
+ * @property contractor - Entreprenør (se getContractorOptions), eller null for alle
+ */
+export interface ExportFilter {
+  from: string | null;
+  to: string | null;
+  contractor: string | null;
+}
+
+/**
+ * ContractorOption: Valg i entreprenørfilteret
+ */
+export interface ContractorOption {
+  value: string;
+  label: string;
+}
+
+/**
+ * ExportFile: Ferdig fil for nedlasting
+ */
+export interface ExportFile {
+  data: BlobPart;
+  type: string;
+  fileName: string;
+}
+
+// =============================================================================
+// HJELPEFUNKSJONER
+// =============================================================================
+
+/**
+ * pad: Tall med to sifre
+ */
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+/**
+ * formatLocalDate: Tidspunkt → lokal dato (YYYY-MM-DD)
+ */
+function formatLocalDate(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * getContractorKey: Filterverdien for en brøyting
+ */
+function getContractorKey(entry: SnowEntry): string | null {
+  if (entry.contractorId) return entry.contractorId;
+  const name = entry.contractor?.trim();
+  return name ? `${UNLINKED_PREFIX}${name}` : null;
+}
+
+// =============================================================================
+// FUNKSJONER
+// =============================================================================
+
+/**
+ * getContractorOptions: Entreprenørene som finnes i loggen
+ *
+ * Kontakter vises med dagens navn; brøytinger med bare navn (eldre
+ * oppføringer eller slettede kontakter) får ett valg per navn.
+ *
+ * @param entries - Brøytinger
+ * @param contractors - Kontakter
+ * @returns Valg sortert på navn
+ */
+export function getContractorOptions(entries: SnowEntry[], contractors: Contractor[]): ContractorOption[] {
+  const options = new Map<string, string>();
+  entries.forEach((entry) => {
+    const key = getContractorKey(entry);
+    if (key && !options.has(key)) {
+      options.set(key, findEntryContractor(entry, contractors)?.name ?? entry.contractor ?? key);
+    }
+  });
+  return [...options.entries()]
+    .map(([value, label]) => ({ value, label }))
+    .sort((a, b) => a.label.localeCompare(b.label, 'nb'));
+}
+
+/**
+ * filterEntries: Brøytingene i utvalget, eldste først
+ *
+ * @param entries - Brøytinger
+ * @param filter - Periode og entreprenør
+ * @returns Brøytinger som passer
+ *
+ * @example
+ * filterEntries(history, { from: '2025-07-01', to: '2026-06-30', contractor: null });
+ */
+export function filterEntries(entries: SnowEntry[], filter: ExportFilter): SnowEntry[] {
+  return entries
+    .filter((entry) => {
+      const day = formatLocalDate(new Date(entry.timestamp));
+      if (filter.from && day < filter.from) return false;
+      if (filter.to && day > filter.to) return false;
+      return !filter.contractor || getContractorKey(entry) === filter.contractor;
+    })
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+}
+
+/**
+ * getExportQuery: Utvalget som spørring mot databasens indekser
+ *
+ * Entreprenører som bare har navn, filtreres etterpå med filterEntries.
+ *
+ * @param filter - Periode og entreprenør
+ * @returns Spørring, eller null hvis hele loggen eksporteres
+ */
+export function getExportQuery(filter: ExportFilter): HistoryQuery | null {
+  const contractorId = filter.contractor && !filter.contractor.startsWith(UNLINKED_PREFIX) ? filter.contractor : null;
+  if (!filter.from && !filter.to && !contractorId) return null;
+  return {
+    from: filter.from ? new Date(`${filter.from}T00:00:00`) : null,
+    to: filter.to ? new Date(`${filter.to}T23:59:59.999`) : null,
+    contractorId,
+  };
+}
+
+/**
+ * getExportRows: Brøytinger → tabell med overskrift (se EXPORT_COLUMNS)
+ *
+ * Sesongpris fordeles på alle kontaktens besøk i sesongen i `history`,
+ * ikke bare de som eksporteres, så summen stemmer med sesongrapporten.
+ *
+ * @param entries - Brøytingene som eksporteres
+ * @param history - Hele loggen (for sesongpris)
+ * @param contractors - Kontakter med prisavtaler
+ * @param locations - Overvåkede steder (for stedsnavn)
+ * @returns Overskrift og én rad per brøyting
+ */
+export function getExportRows(
+  entries: SnowEntry[],
+  history: SnowEntry[],
+  contractors: Contractor[],
+  locations: MonitoredLocation[]
+): XlsxCell[][] {
+  const seasonVisits = (entry: SnowEntry, contractor: Contractor) => {
+    const season = getSeason(new Date(entry.timestamp));
+    return history.filter((e) => e.contractorId === contractor.id && getSeason(new Date(e.timestamp)) === season).length;
+  };
+
+  const rows = entries.map((entry): XlsxCell[] => {
+    const date = new Date(entry.timestamp);
+    const contractor = findEntryContractor(entry, contractors);
+    const location = locations.find((l) => l.id === entry.locationId) ?? (entry.locationId ? undefined : locations[0]);
+    return [
+      formatLocalDate(date),
+      `${pad(date.getHours())}:${pad(date.getMinutes())}`,
+      location?.name ?? entry.locationId ?? null,
+      entry.snowDepth ?? null,
+      contractor?.name ?? entry.contractor ?? null,
+      entry.durationMinutes ?? null,
+      contractor ? getVisitCost(entry, contractor, seasonVisits(entry, contractor)) : null,
+      entry.comment ?? null,
+      entry.id,
+    ];
+  });
+
+  return [EXPORT_COLUMNS, ...rows];
+}
+
+/**
+ * getExportFileName: Filnavn med perioden (f.eks. "brøytinger-2025-07-01-2026-06-30.csv")
+ *
+ * @param filter - Utvalget
+ * @param format - Filformat
+ * @param now - Tidspunkt for eksporten (brukes uten periode)
+ */
+export function getExportFileName(filter: ExportFilter, format: ExportFormat, now: Date): string {
+  const period = filter.from || filter.to
+    ? [filter.from ?? 'start', filter.to ?? formatLocalDate(now)].join('-')
+    : formatLocalDate(now);
+  return `brøytinger-${period}.${format}`;
+}
+
+/**
+ * createExport: Lag filen som skal lastes ned
+ *
+ * @param format - Filformat
+ * @param entries - Brøytingene som eksporteres (se filterEntries)
+ * @param history - Hele loggen (for sesongpris)
+ * @param contractors - Kontakter
+ * @param locations - Overvåkede steder
+ * @param filter - Utvalget (for filnavnet)
+ * @param now - Tidspunkt for eksporten
+ * @returns Data, filtype og filnavn
+ *
+ * @example
+ * const file = createExport('xlsx', filterEntries(history, filter), history, contractors, locations, filter, new Date());
+ */
+export function createExport(
+  format: ExportFormat,
+  entries: SnowEntry[],
+  history: SnowEntry[],
+  contractors: Contractor[],
+  locations: MonitoredLocation[],
+  filter: ExportFilter,
+  now: Date
+): ExportFile {
+  const fileName = getExportFileName(filter, format, now);
+
+  switch (format) {
+    case 'csv':
+      return { data: toCsv(getExportRows(entries, history, contractors, locations)), type: 'text/csv;charset=utf-8', fileName };
+    case 'xlsx':
+      return { data: createXlsx(getExportRows(entries, history, contractors, locations), 'Brøytinger', true), type: XLSX_MIME_TYPE, fileName };
+    case 'json': {
+      // Navnet tas med, så filen kan leses uten kontaktlisten
+      const exported = entries.map((entry) => ({
+        ...entry,
+        contractor: findEntryContractor(entry, contractors)?.name ?? entry.contractor,
+      }));
+      const data = JSON.stringify({ exportedAt: now.toISOString(), filter, entries: exported }, null, 2);
+      return { data, type: 'application/json', fileName };
+    }
+  }
+}
@@ -0,0 +1,448 @@
+/**
+ * historyImport.ts: Import av brøytinger fra CSV, XLSX eller JSON
+ *
+ * Importen går i tre steg (se HistoryImport-komponenten):
+ * 1. Filen leses som en tabell (readImportFile)
+ * 2. Kolonnene kobles til felt (guessMapping gjetter ut fra overskriften)
+ * 3. Radene tolkes og sjekkes (buildImportPreview), og vises før de
+ *    legges til i loggen (mergeImportedEntries)
+ *
+ * Datoer kan stå som ISO-8601, "05.01.2026 07:30", "2026-01-05" med
+ * klokkeslett i egen kolonne, eller som Excel-dato (tall). Tall kan
+ * ha komma som desimaltegn og enhet ("12,5 cm", "1,5 t").
+ *
+ * En rad regnes som duplikat når loggen (eller en tidligere rad i
+ * filen) har en brøyting med samme ID, eller samme minutt og samme
+ * entreprenør.
+ */
+
+import type { Contractor, MonitoredLocation, SnowEntry } from '../types';
+import { matchContractorName } from './contractors';
+import { parseCsv } from './csv';
+import { readXlsx } from './xlsx';
+
+// =============================================================================
+// KONSTANTER
+// =============================================================================
+
+/**
+ * IMPORT_FIELD_LABELS: Visningsnavn for feltene en kolonne kan kobles til
+ */
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  timestamp: 'Dato og klokkeslett',
+  date: 'Dato',
+  time: 'Klokkeslett',
+  snowDepth: 'Snødybde',
+  contractor: 'Entreprenør',
+  durationMinutes: 'Tid brukt',
+  comment: 'Kommentar',
+  location: 'Sted',
+  id: 'ID',
+};
+
+/**
+ * FIELD_PATTERNS: Overskrifter som gjenkjennes, i prioritert rekkefølge
+ *
+ * `null` betyr at kolonnen ignoreres (f.eks. kostnad fra eksporten).
+ */
+const FIELD_PATTERNS: [RegExp, ImportField | null][] = [
+  [/prognose|forecast|kostnad|cost|edits|contractorid/, null],
+  [/tid brukt|varighet|duration|minutter/, 'durationMinutes'],
+  [/tidspunkt|timestamp|dato og tid|datetime/, 'timestamp'],
+  [/snø|sno|snow|dybde|depth/, 'snowDepth'],
+  [/entrepren|brøyter|broyter|kontakt|contractor|firma/, 'contractor'],
+  [/kommentar|merknad|notat|comment|note/, 'comment'],
+  [/sted|lokasjon|location|eiendom|adresse/, 'location'],
+  [/^id$/, 'id'],
+  [/dato|date|dag/, 'date'],
+  [/klokkeslett|^kl|^tid$|^time$|clock/, 'time'],
+];
+
+/**
+ * DEFAULT_TIME: Klokkeslett for datoer uten tid
+ *
+ * Midt på dagen, så brøytingen havner på riktig dag i alle visninger.
+ */
+const DEFAULT_TIME = { hours: 12, minutes: 0 };
+
+/**
+ * EXCEL_EPOCH: Dag 0 i Excel-datoer (30.12.1899, lokal tid)
+ */
+const EXCEL_EPOCH = { year: 1899, month: 11, day: 30 };
+
+// =============================================================================
+// INTERFACES
+// =============================================================================
+
+/**
+ * ImportField: Felt en kolonne kan kobles til
+ */
+export type ImportField =
+  | 'timestamp'
+  | 'date'
+  | 'time'
+  | 'snowDepth'
+  | 'contractor'
+  | 'durationMinutes'
+  | 'comment'
+  | 'location'
+  | 'id';
+
+/**
+ * ColumnMapping: Felt for hver kolonne (null = ignoreres)
+ */
+export type ColumnMapping = (ImportField | null)[];
+
+/**
+ * ImportTable: Filen som tabell
+ *
+ * @property header - Overskriftene (første rad)
+ * @property rows - Radene under, med celler som tekst
+ */
+export interface ImportTable {
+  header: string[];
+  rows: string[][];
+}
+
+/**
+ * ImportContext: Det importen sammenlignes med
+ *
+ * @property history - Brøytingene i loggen
+ * @property archived - Arkiverte brøytinger (sjekkes også for duplikater)
+ * @property contractors - Kontakter (navn kobles til kontakter)
+ * @property locations - Overvåkede steder
+ * @property defaultLocationId - Sted for rader uten (gjenkjent) sted
+ */
+export interface ImportContext {
+  history: SnowEntry[];
+  archived: SnowEntry[];
+  contractors: Contractor[];
+  locations: MonitoredLocation[];
+  defaultLocationId: string;
+}
+
+/**
+ * ImportRow: Én rad etter tolking
+ *
+ * @property line - Linjenummer i filen (overskriften er linje 1)
+ * @property entry - Brøytingen (null ved feil)
+ * @property errors - Feil som gjør at raden ikke kan importeres
+ * @property warnings - Merknader (raden importeres likevel)
+ * @property duplicate - Brøytingen finnes fra før
+ */
+export interface ImportRow {
+  line: number;
+  entry: SnowEntry | null;
+  errors: string[];
+  warnings: string[];
+  duplicate: boolean;
+}
+
+// =============================================================================
+// HJELPEFUNKSJONER
+// =============================================================================
+
+/**
+ * tableFromJson: JSON (liste, eller { entries } fra eksporten) → tabell
+ *
+ * @throws Error hvis JSON-en ikke inneholder en liste med objekter
+ */
+function tableFromJson(text: string): string[][] {
+  const parsed: unknown = JSON.parse(text);
+  const list = Array.isArray(parsed)
+    ? parsed
+    : (parsed as { entries?: unknown } | null)?.entries;
+  if (!Array.isArray(list)) throw new Error('Fant ingen liste med brøytinger i filen');
+
+  const objects = list.filter((item): item is Record<string, unknown> => item !== null && typeof item === 'object');
+  const header = [...new Set(objects.flatMap((item) => Object.keys(item)))];
+  const cell = (value: unknown) => {
+    if (value === null || value === undefined) return '';
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  };
+  return [header, ...objects.map((item) => header.map((key) => cell(item[key])))];
+}
+
+/**
+ * normalizeHeader: Overskrift → sammenlignbar form
+ */
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/\(.*?\)/g, '').replace(/[_-]/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * parseNumber: Tekst → tall og enhet ("12,5 cm" → { value: 12.5, unit: 'cm' })
+ */
+function parseNumber(text: string): { value: number; unit: string } | null {
+  const match = text.replace(/\s/g, '').match(/^(-?\d+(?:[.,]\d+)?)([a-zæøå]*)\.?$/i);
+  if (!match) return null;
+  return { value: parseFloat(match[1].replace(',', '.')), unit: match[2].toLowerCase() };
+}
+
+/**
+ * fromExcelDate: Excel-dato (dager siden 1900, med tid som brøk) → Date
+ */
+function fromExcelDate(serial: number): Date {
+  const days = Math.floor(serial);
+  const minutes = Math.round((serial - days) * 24 * 60);
+  return new Date(EXCEL_EPOCH.year, EXCEL_EPOCH.month, EXCEL_EPOCH.day + days, 0, minutes);
+}
+
+/**
+ * createLocalDate: Lokal dato og tid, eller null hvis datoen ikke finnes (f.eks. 31.02)
+ */
+function createLocalDate(year: number, month: number, day: number, hours: number, minutes: number): Date | null {
+  if (year < 100) year += 2000;
+  const date = new Date(year, month - 1, day, hours, minutes);
+  const valid = date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day
+    && hours < 24 && minutes < 60;
+  return valid ? date : null;
+}
+
+/**
+ * parseTime: Klokkeslett ("07:30", "7.30" eller Excel-brøk) → timer og minutter
+ */
+function parseTime(text: string): { hours: number; minutes: number } | null {
+  const value = text.trim();
+  const match = value.match(/^(\d{1,2})[:.](\d{2})(?::\d{2})?$/);
+  if (match) {
+    const hours = Number(match[1]);
+    const minutes = Number(match[2]);
+    return hours < 24 && minutes < 60 ? { hours, minutes } : null;
+  }
+  const fraction = Number(value);
+  if (value !== '' && fraction >= 0 && fraction < 1) {
+    const total = Math.round(fraction * 24 * 60);
+    return { hours: Math.floor(total / 60), minutes: total % 60 };
+  }
+  return null;
+}
+
+/**
+ * parseDate: Dato (med eller uten klokkeslett) → Date
+ *
+ * @param text - Dato fra filen
+ * @param time - Klokkeslett fra egen kolonne (eller null)
+ * @returns Tidspunktet, eller null hvis det ikke kan tolkes
+ */
+function parseDate(text: string, time: { hours: number; minutes: number } | null): Date | null {
+  const value = text.trim();
+
+  // ISO-8601 med klokkeslett (f.eks. fra JSON-eksporten)
+  if (/^\d{4}-\d{2}-\d{2}T/.test(value)) {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? null : date;
+  }
+
+  // Excel-dato
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    const serial = Number(value);
+    if (serial < 1 || serial > 2958465) return null;
+    const date = fromExcelDate(serial);
+    if (time && Number.isInteger(serial)) date.setHours(time.hours, time.minutes);
+    return date;
+  }
+
+  const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[ T]+(.+))?$/);
+  const norwegian = value.match(/^(\d{1,2})[./](\d{1,2})[./](\d{2}|\d{4})(?:,?\s+(?:kl\.?\s*)?(.+))?$/i);
+  const parts = iso
+    ? { year: Number(iso[1]), month: Number(iso[2]), day: Number(iso[3]), time: iso[4] }
+    : norwegian
+      ? { year: Number(norwegian[3]), month: Number(norwegian[2]), day: Number(norwegian[1]), time: norwegian[4] }
+      : null;
+  if (!parts) return null;
+
+  const clock = parts.time ? parseTime(parts.time) : time ?? DEFAULT_TIME;
+  if (!clock) return null;
+  return createLocalDate(parts.year, parts.month, parts.day, clock.hours, clock.minutes);
+}
+
+/**
+ * getDuplicateKey: Samme minutt og samme entreprenør
+ */
+function getDuplicateKey(entry: SnowEntry): string {
+  const minute = Math.floor(new Date(entry.timestamp).getTime() / 60000);
+  const contractor = entry.contractorId ?? entry.contractor?.trim().toLowerCase() ?? '';
+  return `${minute}|${contractor}`;
+}
+
+// =============================================================================
+// FUNKSJONER
+// =============================================================================
+
+/**
+ * readImportFile: Les en fil som tabell
+ *
+ * Formatet bestemmes av filendelsen (.json, .xlsx, ellers CSV).
+ *
+ * @param file - Filen brukeren valgte
+ * @returns Overskrift og rader
+ * @throws Error hvis filen ikke kan leses eller er tom
+ */
+export async function readImportFile(file: File): Promise<ImportTable> {
+  const name = file.name.toLowerCase();
+  const rows = name.endsWith('.json')
+    ? tableFromJson(await file.text())
+    : name.endsWith('.xlsx')
+      ? await readXlsx(await file.arrayBuffer())
+      : parseCsv(await file.text());
+
+  const [header, ...rest] = rows.filter((row) => row.some((cell) => cell.trim() !== ''));
+  if (!header || rest.length === 0) throw new Error('Fant ingen rader i filen');
+  return { header: header.map((cell) => cell.trim()), rows: rest };
+}
+
+/**
+ * guessMapping: Gjett felt ut fra overskriftene
+ *
+ * Hvert felt brukes bare én gang (første kolonne som passer).
+ *
+ * @param header - Overskriftene
+ * @returns Felt per kolonne (null = ignoreres)
+ *
+ * @example
+ * guessMapping(['Dato', 'Klokkeslett', 'Snødybde (cm)']); // ['date', 'time', 'snowDepth']
+ */
+export function guessMapping(header: string[]): ColumnMapping {
+  const used = new Set<ImportField>();
+  return header.map((text) => {
+    const normalized = normalizeHeader(text);
+    const field = FIELD_PATTERNS.find(([pattern]) => pattern.test(normalized))?.[1] ?? null;
+    if (!field || used.has(field)) return null;
+    used.add(field);
+    return field;
+  });
+}
+
+/**
+ * getMappingError: Mangler koblingen noe vesentlig?
+ *
+ * @param mapping - Felt per kolonne
+ * @returns Feilmelding, eller null hvis importen kan fortsette
+ */
+export function getMappingError(mapping: ColumnMapping): string | null {
+  if (!mapping.includes('timestamp') && !mapping.includes('date')) {
+    return 'Velg hvilken kolonne som inneholder datoen';
+  }
+  return null;
+}
+
+/**
+ * buildImportPreview: Tolk og sjekk radene
+ *
+ * Entreprenører kobles til kontakter ved navn (se matchContractorName),
+ * og steder ved navn eller ID. Duplikater sjekkes mot både loggen og arkivet.
+ *
+ * @param table - Filen som tabell
+ * @param mapping - Felt per kolonne
+ * @param context - Logg, arkiv, kontakter og steder
+ * @returns Én rad per rad i filen
+ */
+export function buildImportPreview(
+  table: ImportTable,
+  mapping: ColumnMapping,
+  context: ImportContext
+): ImportRow[] {
+  const existing = [...context.history, ...context.archived];
+  const existingIds = new Set(existing.map((e) => e.id));
+  const existingKeys = new Set(existing.map(getDuplicateKey));
+  const defaultLocation = context.locations.find((l) => l.id === context.defaultLocationId) ?? context.locations[0];
+
+  return table.rows.map((cells, index) => {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const value = (field: ImportField) => {
+      const column = mapping.indexOf(field);
+      return column >= 0 ? (cells[column] ?? '').trim() : '';
+    };
+
+    // Tidspunkt
+    const timeText = value('time');
+    const time = timeText ? parseTime(timeText) : null;
+    if (timeText && !time) errors.push(`Ugyldig klokkeslett: ${timeText}`);
+    const dateText = value('timestamp') || value('date');
+    const date = dateText ? parseDate(dateText, time) : null;
+    if (!dateText) errors.push('Mangler dato');
+    else if (!date) errors.push(`Ugyldig dato: ${dateText}`);
+
+    // Snødybde i cm (mm regnes om)
+    const depthText = value('snowDepth');
+    const depth = depthText ? parseNumber(depthText) : null;
+    let snowDepth: number | undefined;
+    if (depthText && (!depth || depth.value < 0 || !['', 'cm', 'mm'].includes(depth.unit))) {
+      errors.push(`Ugyldig snødybde: ${depthText}`);
+    } else if (depth) {
+      snowDepth = depth.unit === 'mm' ? depth.value / 10 : depth.value;
+    }
+
+    // Tid brukt i minutter (timer regnes om)
+    const durationText = value('durationMinutes');
+    const duration = durationText ? parseNumber(durationText) : null;
+    let durationMinutes: number | undefined;
+    if (durationText && (!duration || duration.value < 0 || !['', 'min', 'm', 't', 'h', 'timer'].includes(duration.unit))) {
+      errors.push(`Ugyldig tid brukt: ${durationText}`);
+    } else if (duration) {
+      durationMinutes = Math.round(['t', 'h', 'timer'].includes(duration.unit) ? duration.value * 60 : duration.value);
+    }
+
+    // Entreprenør
+    const contractorName = value('contractor');
+    const contractor = contractorName ? matchContractorName(contractorName, context.contractors) : undefined;
+    if (contractorName && !contractor) warnings.push(`Fant ikke kontakten «${contractorName}», lagres med navnet`);
+
+    // Sted
+    const locationText = value('location');
+    const location = locationText
+      ? context.locations.find((l) => l.id === locationText || l.name.toLowerCase() === locationText.toLowerCase())
+      : undefined;
+    if (locationText && !location) warnings.push(`Ukjent sted «${locationText}», lagres på ${defaultLocation?.name ?? 'standardstedet'}`);
+
+    const line = index + 2;
+    if (errors.length > 0 || !date) return { line, entry: null, errors, warnings, duplicate: false };
+
+    const entry: SnowEntry = {
+      id: value('id') || crypto.randomUUID(),
+      timestamp: date.toISOString(),
+      snowDepth,
+      comment: value('comment') || undefined,
+      contractor: contractor?.name ?? (contractorName || undefined),
+      contractorId: contractor?.id,
+      durationMinutes,
+      locationId: (location ?? defaultLocation)?.id,
+    };
+
+    const key = getDuplicateKey(entry);
+    const duplicate = existingIds.has(entry.id) || existingKeys.has(key);
+    existingIds.add(entry.id);
+    existingKeys.add(key);
+    return { line, entry, errors, warnings, duplicate };
+  });
+}
+
+/**
+ * mergeImportedEntries: Loggen med de importerte brøytingene
+ *
+ * Duplikater hoppes over, med mindre `includeDuplicates` er satt.
+ * Da får de ny ID hvis ID-en er i bruk i loggen eller arkivet,
+ * så ingen brøyting overskrives.
+ *
+ * @param context - Logg og arkiv
+ * @param rows - Tolkede rader (se buildImportPreview)
+ * @param includeDuplicates - Importer også duplikater
+ * @returns Ny logg for SET_HISTORY
+ */
+export function mergeImportedEntries(
+  context: Pick<ImportContext, 'history' | 'archived'>,
+  rows: ImportRow[],
+  includeDuplicates: boolean
+): SnowEntry[] {
+  const ids = new Set([...context.history, ...context.archived].map((e) => e.id));
+  const imported = rows
+    .filter((row): row is ImportRow & { entry: SnowEntry } => row.entry !== null && (includeDuplicates || !row.duplicate))
+    .map(({ entry }) => {
+      const unique = ids.has(entry.id) ? { ...entry, id: crypto.randomUUID() } : entry;
+      ids.add(unique.id);
+      return unique;
+    });
+  return [...context.history, ...imported];
+}
@@ -0,0 +1,61 @@
+/**
+ * Hjelpefunksjoner for overvåkede lokasjoner
+ *
+ * Appen kan følge med på flere steder samtidig (hytte, hjem, kontor).
+ * Disse funksjonene brukes både av AppContext og komponentene.
+ */
+
+import type { Location, MonitoredLocation, Settings } from '../types';
+import { getDeviceTimeZone } from './schedule';
+
+// =============================================================================
+// KONSTANTER
+// =============================================================================
+
+/**
+ * DEFAULT_SNOW_THRESHOLD: Standard snøterskel for nye steder
+ */
+export const DEFAULT_SNOW_THRESHOLD = 10;
+
+// =============================================================================
+// FUNKSJONER
+// =============================================================================
+
+/**
+ * createMonitoredLocation: Lag en ny overvåket lokasjon
+ *
+ * @param location - Navn og koordinater
+ * @param snowThreshold - Snøterskel for stedet
+ * @param timezone - Stedets tidssone (standard: enhetens, kan endres i innstillingene)
+ * @returns Ny lokasjon med unik ID
+ *
+ * @example
+ * const hytta = createMonitoredLocation({ name: 'Hytta', lat: 61.1, lon: 9.1 }, 10, 'Europe/Oslo');
+ */
+export function createMonitoredLocation(
+  location: Location,
+  snowThreshold: number = DEFAULT_SNOW_THRESHOLD,
+  timezone: string = getDeviceTimeZone()
+): MonitoredLocation {
+  return {
+    id: crypto.randomUUID(),
+    name: location.name,
+    lat: location.lat,
+    lon: location.lon,
+    snowThreshold,
+    timezone,
+  };
+}
+
+/**
+ * getActiveLocation: Finn lokasjonen som er valgt på hjem-fanen
+ *
+ * Faller tilbake til første lokasjon hvis den valgte er slettet.
+ *
+ * @param settings - Brukerinnstillinger
+ * @returns Aktiv lokasjon
+ */
+export function getActiveLocation(settings: Settings): MonitoredLocation {
+  return settings.locations.find(l => l.id === settings.activeLocationId)
+    || settings.locations[0];
+}
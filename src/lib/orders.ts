@@ -0,0 +1,171 @@
+/**
+ * orders.ts: Bestilling av brøyting
+ *
+ * En bestilling er en SMS eller e-post til en kontakt, fylt ut fra
+ * en meldingsmal (se ORDER_TEMPLATE_VARIABLES). Meldingen sendes fra
+ * brukerens egen telefon/e-postklient via sms:- og mailto:-lenker.
+ *
+ * Bestillingen følges fra sendt → bekreftet → utført. Når den er
+ * utført, lages en SnowEntry i brøytingsloggen automatisk.
+ */
+
+import type {
+  Contractor,
+  MonitoredLocation,
+  OrderChannel,
+  PlowOrder,
+  SnowEntry,
+  SnowStatusResult,
+} from '../types';
+import { renderTemplate } from './templates';
+
+// =============================================================================
+// KONSTANTER
+// =============================================================================
+
+/**
+ * DEFAULT_ORDER_TEMPLATE: Standard bestillingsmelding
+ */
+export const DEFAULT_ORDER_TEMPLATE =
+  'Hei {kontakt}! Kan du brøyte {sted} ({adresse})? Det ligger ca. {cm} cm snø, ' +
+  'og prognosen er {prognose} cm om et døgn. {tilgang}';
+
+/**
+ * ORDER_TEMPLATE_VARIABLES: Variabler som kan brukes i bestillingsmalen
+ */
+export const ORDER_TEMPLATE_VARIABLES: Record<string, string> = {
+  kontakt: 'Kontaktens navn',
+  sted: 'Lokasjonens navn',
+  adresse: 'Adresse',
+  cm: 'Estimert snødybde nå (cm)',
+  prognose: 'Estimert snødybde om 24 timer (cm)',
+  terskel: 'Lokasjonens terskel (cm)',
+  tilgang: 'Adkomst og beskjeder',
+};
+
+/**
+ * ORDER_STATUS_LABELS: Visningsnavn for status
+ */
+export const ORDER_STATUS_LABELS: Record<PlowOrder['status'], string> = {
+  requested: 'Bestilt',
+  confirmed: 'Bekreftet',
+  done: 'Utført',
+  cancelled: 'Avbrutt',
+  escalated: 'Sendt videre',
+};
+
+// =============================================================================
+// FUNKSJONER
+// =============================================================================
+
+/**
+ * renderOrderMessage: Fyll ut bestillingsmalen
+ *
+ * Mangler adresse, brukes lokasjonens navn.
+ *
+ * @param template - Bestillingsmal
+ * @param location - Lokasjonen som skal brøytes
+ * @param status - Beregnet snøstatus for lokasjonen
+ * @param contractor - Kontakten som får bestillingen
+ * @returns Ferdig melding
+ *
+ * @example
+ * renderOrderMessage('{sted}: {cm} cm', hytta, status, ola); // "Hytta: 12 cm"
+ */
+export function renderOrderMessage(
+  template: string,
+  location: MonitoredLocation,
+  status: SnowStatusResult,
+  contractor: Contractor
+): string {
+  return renderTemplate(template, {
+    kontakt: contractor.name,
+    sted: location.name,
+    adresse: location.address || location.name,
+    cm: Math.round(status.currentDepth),
+    prognose: Math.round(status.projectedDepth),
+    terskel: location.snowThreshold,
+    tilgang: location.accessNotes ?? '',
+  }).trim();
+}
+
+/**
+ * getOrderLink: Lenke som åpner SMS eller e-post med meldingen
+ *
+ * @param channel - SMS eller e-post
+ * @param contractor - Mottaker
+ * @param message - Meldingstekst
+ * @param subject - Emne (kun e-post)
+ * @returns sms:- eller mailto:-lenke
+ *
+ * @example
+ * window.location.href = getOrderLink('sms', ola, 'Kan du brøyte?', '');
+ */
+export function getOrderLink(
+  channel: OrderChannel,
+  contractor: Contractor,
+  message: string,
+  subject: string
+): string {
+  if (channel === 'email') {
+    return `mailto:${contractor.email ?? ''}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(message)}`;
+  }
+  // "?&body=" fungerer både på iOS og Android
+  return `sms:${contractor.phone}?&body=${encodeURIComponent(message)}`;
+}
+
+/**
+ * createPlowOrder: Lag en ny bestilling
+ *
+ * @param location - Lokasjonen som skal brøytes
+ * @param contractor - Kontakten som får bestillingen
+ * @param channel - SMS eller e-post
+ * @param message - Meldingen som sendes
+ * @returns Ny bestilling med status 'requested'
+ */
+export function createPlowOrder(
+  location: MonitoredLocation,
+  contractor: Contractor,
+  channel: OrderChannel,
+  message: string
+): PlowOrder {
+  return {
+    id: crypto.randomUUID(),
+    locationId: location.id,
+    contractorId: contractor.id,
+    contractorName: contractor.name,
+    channel,
+    message,
+    status: 'requested',
+    requestedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * isOrderOpen: Venter bestillingen fortsatt på brøyting?
+ *
+ * @param order - Bestillingen
+ * @returns true for bestilt og bekreftet
+ */
+export function isOrderOpen(order: PlowOrder): boolean {
+  return order.status === 'requested' || order.status === 'confirmed';
+}
+
+/**
+ * createEntryFromOrder: Lag loggoppføring for en utført bestilling
+ *
+ * @param order - Bestillingen som er utført
+ * @param forecastDepth - Modellens snødybde (cm) nå (valgfritt)
+ * @returns SnowEntry som kobles til bestillingen
+ */
+export function createEntryFromOrder(order: PlowOrder, forecastDepth?: number): SnowEntry {
+  return {
+    id: crypto.randomUUID(),
+    timestamp: new Date().toISOString(),
+    contractor: order.contractorName,
+    contractorId: order.contractorId,
+    locationId: order.locationId,
+    forecastDepth,
+    comment: 'Bestilt brøyting',
+  };
+}
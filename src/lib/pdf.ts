@@ -0,0 +1,288 @@
+/**
+ * pdf.ts: Enkle PDF-dokumenter uten eksterne pakker
+ *
+ * Lager A4-sider med tekst, linjer og fylte rektangler, nok til
+ * rapporter med tabeller og enkle stolpediagram. Teksten bruker
+ * standardfontene Helvetica og Helvetica-Bold (finnes i alle
+ * PDF-lesere, så ingenting bygges inn) med WinAnsi-koding, som
+ * dekker æøå. Tegn utenfor kodingen blir "?".
+ *
+ * Koordinater er i punkt (1/72 tomme) fra øvre venstre hjørne;
+ * y for tekst er grunnlinjen.
+ *
+ * @see https://opensource.adobe.com/dc-acrobat-sdk-docs/pdfstandards/PDF32000_2008.pdf
+ */
+
+// =============================================================================
+// KONSTANTER
+// =============================================================================
+
+/**
+ * A4: Sidestørrelse i punkt
+ */
+const A4 = { width: 595.28, height: 841.89 };
+
+/**
+ * Tegnbredder (1/1000 av fontstørrelsen) for tegn 32–126
+ *
+ * Fra Adobes AFM-filer for Helvetica og Helvetica-Bold.
+ */
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+/**
+ * EXTRA_WIDTHS: Bredder for tegn over 127 som brukes i appen
+ *
+ * Gjelder begge fontene (forskjellene er små). Andre tegn regnes som 556.
+ */
+const EXTRA_WIDTHS: Record<number, number> = {
+  0x85: 1000, // …
+  0x96: 556, // –
+  0x97: 1000, // —
+  0xa0: 278, // hardt mellomrom
+  0xb0: 400, // °
+  0xb7: 278, // ·
+  0xc5: 667, // Å
+  0xc6: 1000, // Æ
+  0xd8: 778, // Ø
+  0xe5: 556, // å
+  0xe6: 889, // æ
+  0xe9: 556, // é
+  0xf8: 611, // ø
+};
+
+/**
+ * WIN_ANSI: Tegn utenfor Latin-1 som finnes i WinAnsi-kodingen
+ */
+const WIN_ANSI: Record<string, number> = {
+  '€': 0x80, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97,
+  // Mellomrom og minus fra toLocaleString('nb-NO')
+  '\u202f': 0x20, '\u2009': 0x20, '\u2212': 0x2d,
+};
+
+// =============================================================================
+// INTERFACES
+// =============================================================================
+
+/**
+ * PdfTextOptions: Utseende på tekst
+ *
+ * @property size - Fontstørrelse i punkt (standard 10)
+ * @property bold - Fet skrift
+ * @property color - Farge som hex, f.eks. "#0f172a" (standard svart)
+ * @property align - Justering rundt x (standard venstre)
+ */
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: string;
+  align?: 'left' | 'center' | 'right';
+}
+
+/**
+ * PdfDocument: Dokument som bygges side for side
+ *
+ * Tegning skjer alltid på gjeldende side (se addPage og setPage).
+ *
+ * @property width - Sidebredde i punkt
+ * @property height - Sidehøyde i punkt
+ * @property addPage - Legg til en side og gjør den gjeldende
+ * @property setPage - Gå tilbake til en side (0 = første), f.eks. for bunntekst
+ * @property pageCount - Antall sider
+ * @property text - Skriv tekst på én linje
+ * @property line - Tegn en linje
+ * @property rect - Tegn et fylt rektangel
+ * @property measure - Bredden til en tekst i punkt
+ * @property fit - Kort ned tekst med "…" til den får plass
+ * @property save - Ferdig PDF-fil
+ */
+export interface PdfDocument {
+  width: number;
+  height: number;
+  addPage: () => void;
+  setPage: (index: number) => void;
+  pageCount: () => number;
+  text: (text: string, x: number, y: number, options?: PdfTextOptions) => void;
+  line: (x1: number, y1: number, x2: number, y2: number, color?: string, lineWidth?: number) => void;
+  rect: (x: number, y: number, width: number, height: number, color: string) => void;
+  measure: (text: string, size?: number, bold?: boolean) => number;
+  fit: (text: string, maxWidth: number, size?: number, bold?: boolean) => string;
+  save: () => Uint8Array<ArrayBuffer>;
+}
+
+// =============================================================================
+// HJELPEFUNKSJONER
+// =============================================================================
+
+/**
+ * encodeText: Tekst → WinAnsi (én char per byte)
+ */
+function encodeText(text: string): string {
+  return [...text].map((char) => {
+    const code = char.codePointAt(0) ?? 0x3f;
+    if ((code >= 0x20 && code < 0x7f) || (code >= 0xa0 && code <= 0xff)) return char;
+    return String.fromCharCode(WIN_ANSI[char] ?? 0x3f);
+  }).join('');
+}
+
+/**
+ * escapeString: WinAnsi-tekst → PDF-streng i parentes
+ *
+ * Tegn over 127 skrives som oktalkoder, så filen er ren ASCII.
+ */
+function escapeString(encoded: string): string {
+  const escaped = [...encoded].map((char) => {
+    const code = char.charCodeAt(0);
+    if (char === '\\' || char === '(' || char === ')') return `\\${char}`;
+    return code > 0x7e ? `\\${code.toString(8).padStart(3, '0')}` : char;
+  }).join('');
+  return `(${escaped})`;
+}
+
+/**
+ * formatNumber: Tall i PDF (maks to desimaler, punktum)
+ */
+function formatNumber(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+/**
+ * formatColor: Hex-farge → RGB-operander ("#0284c7" → "0.01 0.52 0.78")
+ */
+function formatColor(hex: string): string {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [value >> 16, (value >> 8) & 0xff, value & 0xff].map((c) => formatNumber(c / 255)).join(' ');
+}
+
+/**
+ * getTextWidth: Bredde i 1/1000 av fontstørrelsen
+ */
+function getTextWidth(encoded: string, bold: boolean): number {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  return [...encoded].reduce((sum, char) => {
+    const code = char.charCodeAt(0);
+    return sum + (code >= 32 && code <= 126 ? widths[code - 32] : EXTRA_WIDTHS[code] ?? 556);
+  }, 0);
+}
+
+// =============================================================================
+// FUNKSJONER
+// =============================================================================
+
+/**
+ * createPdf: Lag et nytt dokument med én tom A4-side
+ *
+ * @param title - Tittel i dokumentegenskapene
+ * @returns PdfDocument
+ *
+ * @example
+ * const pdf = createPdf('Sesongrapport');
+ * pdf.text('Hei', 50, 60, { size: 20, bold: true });
+ * const bytes = pdf.save();
+ */
+export function createPdf(title: string): PdfDocument {
+  const pages: string[][] = [[]];
+  let current = 0;
+
+  const measure = (text: string, size = 10, bold = false) => {
+    return (getTextWidth(encodeText(text), bold) * size) / 1000;
+  };
+
+  return {
+    width: A4.width,
+    height: A4.height,
+
+    addPage: () => {
+      pages.push([]);
+      current = pages.length - 1;
+    },
+
+    setPage: (index) => {
+      current = Math.max(0, Math.min(index, pages.length - 1));
+    },
+
+    pageCount: () => pages.length,
+
+    text: (text, x, y, options = {}) => {
+      const size = options.size ?? 10;
+      const bold = options.bold ?? false;
+      const width = measure(text, size, bold);
+      const left = options.align === 'right' ? x - width : options.align === 'center' ? x - width / 2 : x;
+      pages[current].push(
+        `BT /${bold ? 'F2' : 'F1'} ${formatNumber(size)} Tf ${formatColor(options.color ?? '#000000')} rg `
+        + `${formatNumber(left)} ${formatNumber(A4.height - y)} Td ${escapeString(encodeText(text))} Tj ET`
+      );
+    },
+
+    line: (x1, y1, x2, y2, color = '#000000', lineWidth = 0.5) => {
+      pages[current].push(
+        `${formatColor(color)} RG ${formatNumber(lineWidth)} w `
+        + `${formatNumber(x1)} ${formatNumber(A4.height - y1)} m ${formatNumber(x2)} ${formatNumber(A4.height - y2)} l S`
+      );
+    },
+
+    rect: (x, y, width, height, color) => {
+      pages[current].push(
+        `${formatColor(color)} rg ${formatNumber(x)} ${formatNumber(A4.height - y - height)} `
+        + `${formatNumber(width)} ${formatNumber(height)} re f`
+      );
+    },
+
+    measure,
+
+    fit: (text, maxWidth, size = 10, bold = false) => {
+      if (measure(text, size, bold) <= maxWidth) return text;
+      let fitted = text;
+      while (fitted.length > 0 && measure(`${fitted}…`, size, bold) > maxWidth) fitted = fitted.slice(0, -1);
+      return `${fitted.trimEnd()}…`;
+    },
+
+    save: () => {
+      // Objekt 1–4: katalog, sideliste, fonter; 5: info; deretter side + innhold per side
+      const pageIds = pages.map((_, i) => 6 + i * 2);
+      const objects = [
+        '<< /Type /Catalog /Pages 2 0 R >>',
+        `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+        '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+        '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+        `<< /Title ${escapeString(encodeText(title))} /Producer (Snoklar) >>`,
+        ...pages.flatMap((operations, i) => {
+          const content = operations.join('\n');
+          return [
+            `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${A4.width} ${A4.height}] `
+            + `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`,
+            `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+          ];
+        }),
+      ];
+
+      let output = '%PDF-1.4\n';
+      const offsets = objects.map((object, i) => {
+        const offset = output.length;
+        output += `${i + 1} 0 obj\n${object}\nendobj\n`;
+        return offset;
+      });
+      const xref = output.length;
+      output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+      output += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+      output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+      // Alt over er ASCII, så én char er én byte
+      return Uint8Array.from(output, (char) => char.charCodeAt(0));
+    },
+  };
+}
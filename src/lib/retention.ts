@@ -0,0 +1,126 @@
+/**
+ * retention.ts: Hvor lenge brøytinger ligger i den aktive loggen
+ *
+ * Brøytinger utenfor valgt periode slettes ikke, men flyttes til et
+ * komprimert arkiv per sesong (se archiveEntries i services/repository).
+ * Arkiverte sesonger kan blas i fra brøytingshistorikken.
+ *
+ * Siste brøyting på hvert sted arkiveres aldri, fordi snømodellen
+ * regner snø siden forrige brøyting (se getLastPlowing).
+ */
+
+import type { HistoryRetention, SnowEntry } from '../types';
+import { getSeasonStart } from './costs';
+
+// =============================================================================
+// KONSTANTER
+// =============================================================================
+
+/**
+ * DEFAULT_RETENTION: Standard oppbevaring
+ *
+ * To sesonger, slik at fjorårets sesong fortsatt er i loggen
+ * gjennom sommeren når året gjøres opp.
+ */
+export const DEFAULT_RETENTION: HistoryRetention = { type: 'seasons', count: 2 };
+
+/**
+ * RETENTION_LABELS: Visningsnavn for hver type oppbevaring
+ */
+export const RETENTION_LABELS: Record<HistoryRetention['type'], string> = {
+  forever: 'Behold alt',
+  seasons: 'Antall sesonger',
+  months: 'Antall måneder',
+};
+
+// =============================================================================
+// FUNKSJONER
+// =============================================================================
+
+/**
+ * createRetention: Ny oppbevaring av en gitt type
+ *
+ * @param type - Type oppbevaring
+ * @returns Oppbevaring med standard antall
+ *
+ * @example
+ * createRetention('months'); // { type: 'months', count: 6 }
+ */
+export function createRetention(type: HistoryRetention['type']): HistoryRetention {
+  switch (type) {
+    case 'forever':
+      return { type };
+    case 'seasons':
+      return { type, count: 2 };
+    case 'months':
+      return { type, count: 6 };
+  }
+}
+
+/**
+ * getRetentionCutoff: Eldste tidspunkt som beholdes i loggen
+ *
+ * @param retention - Valgt oppbevaring
+ * @param now - Nåværende tidspunkt
+ * @returns Grensen, eller null hvis alt beholdes
+ *
+ * @example
+ * getRetentionCutoff({ type: 'seasons', count: 2 }, new Date('2026-02-01')); // 1. juli 2024
+ */
+export function getRetentionCutoff(retention: HistoryRetention, now: Date): Date | null {
+  switch (retention.type) {
+    case 'forever':
+      return null;
+    case 'seasons': {
+      const cutoff = getSeasonStart(now);
+      cutoff.setFullYear(cutoff.getFullYear() - (Math.max(retention.count, 1) - 1));
+      return cutoff;
+    }
+    case 'months': {
+      const cutoff = new Date(now);
+      cutoff.setMonth(cutoff.getMonth() - Math.max(retention.count, 1));
+      return cutoff;
+    }
+  }
+}
+
+/**
+ * getEntriesToArchive: Brøytinger som er eldre enn oppbevaringen
+ *
+ * @param history - Aktiv brøytingslogg
+ * @param retention - Valgt oppbevaring
+ * @param now - Nåværende tidspunkt
+ * @returns Brøytinger som skal flyttes til arkivet
+ */
+export function getEntriesToArchive(history: SnowEntry[], retention: HistoryRetention, now: Date): SnowEntry[] {
+  const cutoff = getRetentionCutoff(retention, now);
+  if (!cutoff) return [];
+
+  // Siste brøyting per sted (uten sted = felles for alle)
+  const latest = new Map<string, SnowEntry>();
+  history.forEach((entry) => {
+    const key = entry.locationId ?? '';
+    const current = latest.get(key);
+    if (!current || entry.timestamp > current.timestamp) latest.set(key, entry);
+  });
+  const keep = new Set([...latest.values()].map((e) => e.id));
+
+  return history.filter((entry) => new Date(entry.timestamp) < cutoff && !keep.has(entry.id));
+}
+
+/**
+ * describeRetention: Kort beskrivelse for visning
+ *
+ * @example
+ * describeRetention({ type: 'months', count: 6 }); // "siste 6 måneder"
+ */
+export function describeRetention(retention: HistoryRetention): string {
+  switch (retention.type) {
+    case 'forever':
+      return 'alt';
+    case 'seasons':
+      return retention.count === 1 ? 'inneværende sesong' : `siste ${retention.count} sesonger`;
+    case 'months':
+      return retention.count === 1 ? 'siste måned' : `siste ${retention.count} måneder`;
+  }
+}
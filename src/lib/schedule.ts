@@ -0,0 +1,282 @@
+/**
+ * schedule.ts: Varslingsplan (dagtid og stille perioder per ukedag)
+ *
+ * Alle klokkeslett tolkes i lokasjonens tidssone, ikke enhetens.
+ * Slik blir planen lik på telefonen, på PC-en i en annen tidssone
+ * og i push-relayet.
+ *
+ * Stille perioder kan gå over midnatt: "fredag 23:00-07:00" gjelder
+ * fra fredag kveld til lørdag morgen.
+ */
+
+import type { MonitoredLocation, NotificationSchedule, TimeRange } from '../types';
+import { isDaylight } from './sun';
+
+// =============================================================================
+// KONSTANTER
+// =============================================================================
+
+/**
+ * WEEKDAY_LABELS: Ukedager i planen (indeks 0 = mandag)
+ */
+export const WEEKDAY_LABELS = ['Man', 'Tir', 'Ons', 'Tor', 'Fre', 'Lør', 'Søn'];
+
+/**
+ * DEFAULT_SCHEDULE: Standard plan
+ *
+ * Dagtid følger sola, ingen stille perioder, kritisk status
+ * varsles alltid.
+ */
+export const DEFAULT_SCHEDULE: NotificationSchedule = {
+  dayWindow: 'sun',
+  quietHours: WEEKDAY_LABELS.map(() => []),
+  urgentOverridesQuiet: true,
+};
+
+/**
+ * WEEKDAY_INDEX: Engelsk kortnavn (fra Intl) → indeks i planen
+ */
+const WEEKDAY_INDEX: Record<string, number> = {
+  Mon: 0, Tue: 1, Wed: 2, Thu: 3, Fri: 4, Sat: 5, Sun: 6,
+};
+
+/**
+ * MINUTES_PER_DAY: Minutter i et døgn
+ */
+const MINUTES_PER_DAY = 24 * 60;
+
+// =============================================================================
+// HJELPEFUNKSJONER
+// =============================================================================
+
+/**
+ * formatHour: Time → "HH:00" (24 → "24:00")
+ */
+function formatHour(hour: number): string {
+  return `${String(hour).padStart(2, '0')}:00`;
+}
+
+// =============================================================================
+// FUNKSJONER
+// =============================================================================
+
+/**
+ * parseClock: "HH:MM" → minutter etter midnatt
+ *
+ * @example
+ * parseClock('07:30'); // 450
+ */
+export function parseClock(value: string): number {
+  const [hours, minutes] = value.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+}
+
+/**
+ * getDeviceTimeZone: Enhetens tidssone (f.eks. "Europe/Oslo")
+ */
+export function getDeviceTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/**
+ * getCountryTimeZone: Tidssonen til et land med bare én tidssone
+ *
+ * Bruker Intl.Locale sin liste over tidssoner for regionen. Land med
+ * flere soner (f.eks. USA) eller nettlesere uten støtte gir null,
+ * og da må brukeren velge sonen selv.
+ *
+ * @param countryCode - ISO 3166-1 landkode (f.eks. "no")
+ * @returns Tidssonen, eller null hvis den ikke kan avgjøres
+ *
+ * @example
+ * getCountryTimeZone('no'); // "Europe/Oslo"
+ * getCountryTimeZone('us'); // null
+ */
+export function getCountryTimeZone(countryCode: string | undefined): string | null {
+  if (!countryCode) return null;
+  try {
+    const locale = new Intl.Locale(`und-${countryCode.toUpperCase()}`) as Intl.Locale & {
+      getTimeZones?: () => string[];
+      timeZones?: string[];
+    };
+    const zones = locale.getTimeZones?.() ?? locale.timeZones;
+    return zones?.length === 1 ? zones[0] : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * getLocationTimeZone: Tidssonen en lokasjon bruker
+ *
+ * @param location - Lokasjonen
+ * @returns Lokasjonens tidssone, eller enhetens hvis den mangler
+ */
+export function getLocationTimeZone(location: MonitoredLocation): string {
+  return location.timezone || getDeviceTimeZone();
+}
+
+/**
+ * getZonedTime: Ukedag og klokkeslett i en tidssone
+ *
+ * Ugyldig tidssone gir enhetens tid.
+ *
+ * @param date - Tidspunkt
+ * @param timeZone - IANA-tidssone
+ * @returns Ukedag (0 = mandag) og minutter etter midnatt
+ *
+ * @example
+ * getZonedTime(new Date('2026-01-16T22:30:00Z'), 'Europe/Oslo');
+ * // { weekday: 4, minutes: 1410 } (fredag 23:30)
+ */
+export function getZonedTime(date: Date, timeZone: string): { weekday: number; minutes: number } {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(date);
+  } catch {
+    return {
+      weekday: (date.getDay() + 6) % 7,
+      minutes: date.getHours() * 60 + date.getMinutes(),
+    };
+  }
+
+  const get = (type: string) => parts.find((p) => p.type === type)?.value ?? '0';
+  return {
+    weekday: WEEKDAY_INDEX[get('weekday')] ?? 0,
+    minutes: Number(get('hour')) * 60 + Number(get('minute')),
+  };
+}
+
+/**
+ * isInTimeRange: Er klokkeslettet innenfor tidsrommet?
+ *
+ * Støtter tidsrom over midnatt (f.eks. 22:00-07:00).
+ *
+ * @param range - Tidsrom
+ * @param minutes - Minutter etter midnatt
+ * @returns true hvis innenfor
+ */
+export function isInTimeRange(range: TimeRange, minutes: number): boolean {
+  const start = parseClock(range.start);
+  const end = parseClock(range.end);
+
+  if (start === end) return false;
+  return start < end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+}
+
+/**
+ * isQuietTime: Er ukedag og klokkeslett i en stille periode?
+ *
+ * Tar med perioder fra dagen før som går over midnatt.
+ *
+ * @param schedule - Varslingsplan
+ * @param weekday - Ukedag (0 = mandag)
+ * @param minutes - Minutter etter midnatt
+ * @returns true hvis varsler skal holdes tilbake
+ */
+export function isQuietTime(schedule: NotificationSchedule, weekday: number, minutes: number): boolean {
+  const today = schedule.quietHours[weekday] ?? [];
+  const yesterday = schedule.quietHours[(weekday + 6) % 7] ?? [];
+
+  const inToday = today.some((range) => {
+    const start = parseClock(range.start);
+    const end = parseClock(range.end);
+    return start < end ? minutes >= start && minutes < end : start > end && minutes >= start;
+  });
+
+  const fromYesterday = yesterday.some((range) => {
+    const start = parseClock(range.start);
+    const end = parseClock(range.end);
+    return start > end && minutes < end;
+  });
+
+  return inToday || fromYesterday;
+}
+
+/**
+ * isQuietNow: Er det stille periode på lokasjonen nå?
+ *
+ * @param schedule - Varslingsplan
+ * @param location - Lokasjonen (bestemmer tidssonen)
+ * @param now - Tidspunkt
+ * @returns true hvis varsler skal holdes tilbake
+ */
+export function isQuietNow(schedule: NotificationSchedule, location: MonitoredLocation, now: Date): boolean {
+  const { weekday, minutes } = getZonedTime(now, getLocationTimeZone(location));
+  return isQuietTime(schedule, weekday, minutes);
+}
+
+/**
+ * isDayTime: Er det dagtid på lokasjonen?
+ *
+ * Med dayWindow 'sun' brukes faktisk soloppgang og solnedgang,
+ * ellers faste klokkeslett i lokasjonens tidssone.
+ *
+ * @param schedule - Varslingsplan
+ * @param location - Lokasjonen
+ * @param now - Tidspunkt
+ * @returns true hvis det er dagtid
+ *
+ * @example
+ * const emoji = isDayTime(settings.schedule, activeLocation, new Date()) ? '☀️' : '🌙';
+ */
+export function isDayTime(schedule: NotificationSchedule, location: MonitoredLocation, now: Date): boolean {
+  if (schedule.dayWindow === 'sun') {
+    return isDaylight(location.lat, location.lon, now);
+  }
+  const { minutes } = getZonedTime(now, getLocationTimeZone(location));
+  return isInTimeRange(schedule.dayWindow, minutes);
+}
+
+/**
+ * getQuietGrid: Planen som rutenett (7 ukedager × 24 timer)
+ *
+ * En time regnes som stille hvis starten av timen er stille.
+ *
+ * @param schedule - Varslingsplan
+ * @returns grid[ukedag][time] = stille
+ */
+export function getQuietGrid(schedule: NotificationSchedule): boolean[][] {
+  return WEEKDAY_LABELS.map((_, weekday) =>
+    Array.from({ length: 24 }, (_, hour) => isQuietTime(schedule, weekday, hour * 60))
+  );
+}
+
+/**
+ * gridToQuietHours: Rutenett → stille perioder per ukedag
+ *
+ * Sammenhengende timer blir ett tidsrom innenfor døgnet
+ * (en periode over midnatt blir to: kveld og morgen).
+ *
+ * @param grid - grid[ukedag][time] = stille
+ * @returns Stille perioder per ukedag
+ *
+ * @example
+ * // Mandag 00-07 og 22-24 stille:
+ * // [{ start: '00:00', end: '07:00' }, { start: '22:00', end: '24:00' }]
+ */
+export function gridToQuietHours(grid: boolean[][]): TimeRange[][] {
+  return grid.map((hours) => {
+    const ranges: TimeRange[] = [];
+    let start: number | null = null;
+
+    hours.forEach((quiet, hour) => {
+      if (quiet && start === null) start = hour;
+      if (!quiet && start !== null) {
+        ranges.push({ start: formatHour(start), end: formatHour(hour) });
+        start = null;
+      }
+    });
+    if (start !== null) ranges.push({ start: formatHour(start), end: formatHour(MINUTES_PER_DAY / 60) });
+
+    return ranges;
+  });
+}
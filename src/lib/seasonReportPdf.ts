@@ -0,0 +1,409 @@
+/**
+ * seasonReportPdf.ts: Brøyterapport for en sesong som PDF
+ *
+ * Rapporten er laget for styret i borettslaget eller sameiet, og
+ * erstatter den som ellers skrives for hånd hver vår:
+ * - nøkkeltall (antall brøytinger, første og siste, kostnad)
+ * - stolpediagram med brøytinger per måned
+ * - vær og snø: målt snødybde og modellens estimat da brøytingen ble
+ *   logget (`forecastDepth`)
+ * - fordeling per entreprenør (som sesongrapporten i appen)
+ * - tabell med alle brøytinger
+ *
+ * Alt lages i nettleseren (se pdf.ts); ingenting sendes til en server.
+ */
+
+import type { Contractor, MonitoredLocation, SnowEntry } from '../types';
+import { findEntryContractor, formatCost, getSeason, getSeasonReports, getSeasonStart } from './costs';
+import { createPdf, type PdfDocument } from './pdf';
+
+// =============================================================================
+// KONSTANTER
+// =============================================================================
+
+/**
+ * MARGIN: Marg rundt innholdet i punkt
+ */
+const MARGIN = 50;
+
+/**
+ * FOOTER_SPACE: Plass som holdes fri nederst til bunnteksten
+ */
+const FOOTER_SPACE = 60;
+
+/**
+ * COLORS: Farger (Tailwind slate/sky, lyse nok for utskrift)
+ */
+const COLORS = {
+  text: '#0f172a',
+  muted: '#64748b',
+  line: '#cbd5e1',
+  stripe: '#f1f5f9',
+  bar: '#0284c7',
+};
+
+/**
+ * DEFAULT_MONTHS: Månedene som alltid vises i diagrammet (oktober–april)
+ *
+ * Indeks fra sesongstart (0 = juli). Brøytinger utenfor utvider utvalget.
+ */
+const DEFAULT_MONTHS = { first: 3, last: 9 };
+
+/**
+ * ROW_HEIGHT: Radhøyde i tabellene
+ */
+const ROW_HEIGHT = 16;
+
+// =============================================================================
+// INTERFACES
+// =============================================================================
+
+/**
+ * SeasonReportInput: Det rapporten lages fra
+ *
+ * @property season - Sesongen, f.eks. "2025/26" (se getSeason)
+ * @property history - Brøytinger (andre sesonger filtreres bort)
+ * @property contractors - Kontakter med prisavtaler
+ * @property locations - Overvåkede steder
+ * @property propertyName - Navn på delt eiendom (eller null)
+ * @property now - Tidspunktet rapporten lages
+ */
+export interface SeasonReportInput {
+  season: string;
+  history: SnowEntry[];
+  contractors: Contractor[];
+  locations: MonitoredLocation[];
+  propertyName: string | null;
+  now: Date;
+}
+
+/**
+ * MonthlyVisits: Brøytinger i én måned
+ */
+interface MonthlyVisits {
+  label: string;
+  visits: number;
+}
+
+/**
+ * TableColumn: Kolonne i en tabell
+ */
+interface TableColumn {
+  label: string;
+  width: number;
+  align?: 'right';
+}
+
+/**
+ * EntryColumn: Kolonne i brøytingstabellen, med verdien per brøyting
+ */
+interface EntryColumn extends TableColumn {
+  value: (entry: SnowEntry) => string;
+}
+
+// =============================================================================
+// HJELPEFUNKSJONER
+// =============================================================================
+
+/**
+ * formatDate: Dato for rapporten (f.eks. "5. jan. 2026")
+ */
+function formatDate(date: Date): string {
+  return date.toLocaleDateString('nb-NO', { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
+/**
+ * formatCm: Snødybde med én desimal (f.eks. "12,5 cm")
+ */
+function formatCm(value: number): string {
+  return `${value.toLocaleString('nb-NO', { maximumFractionDigits: 1 })} cm`;
+}
+
+/**
+ * average: Gjennomsnitt (0 for tom liste)
+ */
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+/**
+ * getMonthlyVisits: Brøytinger per måned i sesongen
+ *
+ * @param entries - Sesongens brøytinger
+ * @param seasonStart - Starten på sesongen (se getSeasonStart)
+ * @returns Én verdi per måned, fra oktober til april (eller bredere)
+ */
+function getMonthlyVisits(entries: SnowEntry[], seasonStart: Date): MonthlyVisits[] {
+  const counts = new Array<number>(12).fill(0);
+  entries.forEach((entry) => {
+    const date = new Date(entry.timestamp);
+    const index = (date.getFullYear() - seasonStart.getFullYear()) * 12 + date.getMonth() - seasonStart.getMonth();
+    counts[index]++;
+  });
+
+  const used = counts.flatMap((count, i) => (count > 0 ? [i] : []));
+  const first = Math.min(DEFAULT_MONTHS.first, ...used);
+  const last = Math.max(DEFAULT_MONTHS.last, ...used);
+
+  return counts.slice(first, last + 1).map((visits, i) => ({
+    label: new Date(seasonStart.getFullYear(), seasonStart.getMonth() + first + i, 1)
+      .toLocaleDateString('nb-NO', { month: 'short' })
+      .replace('.', ''),
+    visits,
+  }));
+}
+
+/**
+ * getWeatherLines: Vær og snø i sesongen, som setninger
+ *
+ * Bygger på det som er lagret ved hver brøyting: målt snødybde og
+ * modellens estimat da brøytingen ble logget.
+ */
+function getWeatherLines(entries: SnowEntry[], months: MonthlyVisits[]): string[] {
+  const measured = entries.flatMap((e) => (e.snowDepth !== undefined ? [e.snowDepth] : []));
+  const forecast = entries.flatMap((e) => (e.forecastDepth !== undefined ? [e.forecastDepth] : []));
+  const both = entries.filter((e) => e.snowDepth !== undefined && e.forecastDepth !== undefined);
+  const busiest = months.reduce((best, m) => (m.visits > best.visits ? m : best), months[0]);
+  const lines: string[] = [];
+
+  if (measured.length > 0) {
+    lines.push(
+      `Målt snødybde ved brøyting: i snitt ${formatCm(average(measured))}, mest ${formatCm(Math.max(...measured))} `
+      + `(${measured.length} av ${entries.length} brøytinger).`
+    );
+  } else {
+    lines.push('Ingen brøytinger har målt snødybde.');
+  }
+
+  if (forecast.length > 0) {
+    lines.push(`Modellens estimat da brøytingen ble logget: i snitt ${formatCm(average(forecast))} (${forecast.length} brøytinger).`);
+  }
+  if (both.length > 0) {
+    const deviation = average(both.map((e) => Math.abs((e.snowDepth ?? 0) - (e.forecastDepth ?? 0))));
+    lines.push(`Estimatet avvek i snitt ${formatCm(deviation)} fra målt dybde der begge finnes.`);
+  }
+  if (busiest && busiest.visits > 0) {
+    lines.push(`Flest brøytinger i ${busiest.label} (${busiest.visits}).`);
+  }
+  return lines;
+}
+
+/**
+ * drawHeading: Overskrift for en del av rapporten
+ *
+ * @returns y under overskriften
+ */
+function drawHeading(pdf: PdfDocument, text: string, y: number): number {
+  pdf.text(text, MARGIN, y, { size: 13, bold: true, color: COLORS.text });
+  return y + 20;
+}
+
+/**
+ * drawChart: Stolpediagram med brøytinger per måned
+ *
+ * @returns y under diagrammet
+ */
+function drawChart(pdf: PdfDocument, months: MonthlyVisits[], y: number): number {
+  const chartHeight = 110;
+  const width = pdf.width - MARGIN * 2;
+  const slot = width / months.length;
+  const max = Math.max(1, ...months.map((m) => m.visits));
+  const baseline = y + chartHeight;
+
+  months.forEach((month, i) => {
+    const center = MARGIN + slot * (i + 0.5);
+    const barHeight = (month.visits / max) * (chartHeight - 16);
+    if (month.visits > 0) {
+      pdf.rect(center - slot * 0.3, baseline - barHeight, slot * 0.6, barHeight, COLORS.bar);
+    }
+    pdf.text(String(month.visits), center, baseline - barHeight - 4, { size: 9, align: 'center', color: COLORS.text });
+    pdf.text(month.label, center, baseline + 12, { size: 9, align: 'center', color: COLORS.muted });
+  });
+  pdf.line(MARGIN, baseline, pdf.width - MARGIN, baseline, COLORS.line);
+
+  return baseline + 32;
+}
+
+/**
+ * drawTableHeader: Kolonneoverskrifter med strek under
+ *
+ * @returns y for første rad
+ */
+function drawTableHeader(pdf: PdfDocument, columns: TableColumn[], y: number): number {
+  let x = MARGIN;
+  columns.forEach((column) => {
+    const left = column.align === 'right' ? x + column.width - 4 : x;
+    pdf.text(column.label, left, y, { size: 9, bold: true, color: COLORS.muted, align: column.align ?? 'left' });
+    x += column.width;
+  });
+  pdf.line(MARGIN, y + 5, pdf.width - MARGIN, y + 5, COLORS.line);
+  return y + ROW_HEIGHT + 2;
+}
+
+/**
+ * drawTableRow: Én rad, med sebrastriper og tekst kortet ned til kolonnen
+ */
+function drawTableRow(pdf: PdfDocument, columns: TableColumn[], cells: string[], y: number, striped: boolean): void {
+  if (striped) pdf.rect(MARGIN, y - 11, pdf.width - MARGIN * 2, ROW_HEIGHT, COLORS.stripe);
+  let x = MARGIN;
+  columns.forEach((column, i) => {
+    const text = pdf.fit(cells[i], column.width - 6, 9);
+    const left = column.align === 'right' ? x + column.width - 4 : x;
+    pdf.text(text, left, y, { size: 9, color: COLORS.text, align: column.align ?? 'left' });
+    x += column.width;
+  });
+}
+
+// =============================================================================
+// FUNKSJONER
+// =============================================================================
+
+/**
+ * getReportFileName: Filnavn for rapporten (f.eks. "brøyterapport-2025-26.pdf")
+ *
+ * @param season - Sesongen
+ */
+export function getReportFileName(season: string): string {
+  return `brøyterapport-${season.replace('/', '-')}.pdf`;
+}
+
+/**
+ * createSeasonReportPdf: Lag brøyterapporten for en sesong
+ *
+ * Kostnad regnes som i sesongrapporten i appen (se getSeasonReports),
+ * fra dagens prisavtaler.
+ *
+ * @param input - Sesong, brøytinger, kontakter og steder
+ * @returns PDF-filen
+ *
+ * @example
+ * const pdf = createSeasonReportPdf({ season: '2025/26', history, contractors, locations, propertyName: null, now: new Date() });
+ * const blob = new Blob([pdf], { type: 'application/pdf' });
+ */
+export function createSeasonReportPdf(input: SeasonReportInput): Uint8Array<ArrayBuffer> {
+  const { season, contractors, locations, now } = input;
+  const entries = input.history
+    .filter((e) => getSeason(new Date(e.timestamp)) === season)
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  const report = getSeasonReports(entries, contractors, [season])[0];
+  const months = getMonthlyVisits(entries, getSeasonStart(new Date(entries[0]?.timestamp ?? now)));
+  const title = `Brøyterapport ${season}`;
+  const pdf = createPdf(title);
+  const bottom = pdf.height - FOOTER_SPACE;
+
+  const defaultLocation = locations[0];
+  const getLocation = (entry: SnowEntry) => locations.find((l) => l.id === entry.locationId) ?? (entry.locationId ? undefined : defaultLocation);
+  const locationNames = [...new Set(entries.map((e) => getLocation(e)?.name).filter((name): name is string => !!name))];
+
+  // Tittel
+  let y = MARGIN + 20;
+  pdf.text(title, MARGIN, y, { size: 22, bold: true, color: COLORS.text });
+  y += 20;
+  const subtitle = [input.propertyName, locationNames.join(', ')].filter(Boolean).join(' – ');
+  pdf.text(pdf.fit(subtitle ? `${subtitle}. Laget ${formatDate(now)}.` : `Laget ${formatDate(now)}.`, pdf.width - MARGIN * 2, 10), MARGIN, y, {
+    size: 10,
+    color: COLORS.muted,
+  });
+  y += 34;
+
+  // Nøkkeltall
+  const hasCost = report?.contractors.some((c) => c.cost !== null) ?? false;
+  const figures = [
+    { label: 'Brøytinger', value: String(entries.length) },
+    { label: 'Første', value: entries.length > 0 ? formatDate(new Date(entries[0].timestamp)) : '-' },
+    { label: 'Siste', value: entries.length > 0 ? formatDate(new Date(entries[entries.length - 1].timestamp)) : '-' },
+    { label: 'Kostnad', value: report && hasCost ? formatCost(report.totalCost) : '-' },
+  ];
+  const figureWidth = (pdf.width - MARGIN * 2) / figures.length;
+  figures.forEach((figure, i) => {
+    pdf.text(figure.value, MARGIN + figureWidth * i, y, { size: 15, bold: true, color: COLORS.text });
+    pdf.text(figure.label, MARGIN + figureWidth * i, y + 14, { size: 9, color: COLORS.muted });
+  });
+  y += 44;
+
+  // Brøytinger per måned
+  y = drawHeading(pdf, 'Brøytinger per måned', y);
+  y = drawChart(pdf, months, y);
+
+  // Vær og snø
+  y = drawHeading(pdf, 'Vær og snø', y);
+  getWeatherLines(entries, months).forEach((line) => {
+    pdf.text(pdf.fit(line, pdf.width - MARGIN * 2, 10), MARGIN, y, { size: 10, color: COLORS.text });
+    y += 15;
+  });
+  y += 15;
+
+  // Entreprenører
+  if (report && report.contractors.length > 0) {
+    const columns: TableColumn[] = [
+      { label: 'Entreprenør', width: 255 },
+      { label: 'Besøk', width: 80, align: 'right' },
+      { label: 'Timer', width: 80, align: 'right' },
+      { label: 'Kostnad', width: pdf.width - MARGIN * 2 - 415, align: 'right' },
+    ];
+    if (y + 40 + report.contractors.length * ROW_HEIGHT > bottom) {
+      pdf.addPage();
+      y = MARGIN + 10;
+    }
+    y = drawHeading(pdf, 'Entreprenører', y);
+    y = drawTableHeader(pdf, columns, y);
+    report.contractors.forEach((c, i) => {
+      const cells = [c.name, String(c.visits), c.hours > 0 ? c.hours.toFixed(1).replace('.', ',') : '-', c.cost !== null ? formatCost(c.cost) : '-'];
+      drawTableRow(pdf, columns, cells, y, i % 2 === 1);
+      y += ROW_HEIGHT;
+    });
+    y += 24;
+  }
+
+  // Alle brøytinger
+  const showLocation = locationNames.length > 1;
+  const columns: EntryColumn[] = [
+    { label: 'Dato', width: 66, value: (e) => formatDate(new Date(e.timestamp)) },
+    { label: 'Kl.', width: 30, value: (e) => new Date(e.timestamp).toLocaleTimeString('nb-NO', { hour: '2-digit', minute: '2-digit' }) },
+    ...(showLocation ? [{ label: 'Sted', width: 64, value: (e: SnowEntry) => getLocation(e)?.name ?? '-' }] : []),
+    { label: 'Snø', width: 42, align: 'right', value: (e) => (e.snowDepth !== undefined ? formatCm(e.snowDepth) : '-') },
+    { label: 'Estimat', width: 46, align: 'right', value: (e) => (e.forecastDepth !== undefined ? formatCm(e.forecastDepth) : '-') },
+    { label: 'Entreprenør', width: 90, value: (e) => findEntryContractor(e, contractors)?.name ?? e.contractor ?? '-' },
+    { label: 'Tid', width: 40, align: 'right', value: (e) => (e.durationMinutes !== undefined ? `${e.durationMinutes} min` : '-') },
+  ];
+  const usedWidth = columns.reduce((sum, c) => sum + c.width, 0);
+  columns.push({ label: 'Kommentar', width: pdf.width - MARGIN * 2 - usedWidth, value: (e) => e.comment ?? '' });
+
+  if (y + 60 > bottom) {
+    pdf.addPage();
+    y = MARGIN + 10;
+  }
+  y = drawHeading(pdf, 'Alle brøytinger', y);
+  y = drawTableHeader(pdf, columns, y);
+  entries.forEach((entry, i) => {
+    // Ny side med overskriftene gjentatt
+    if (y > bottom) {
+      pdf.addPage();
+      y = drawTableHeader(pdf, columns, MARGIN + 10);
+    }
+    drawTableRow(pdf, columns, columns.map((c) => c.value(entry)), y, i % 2 === 1);
+    y += ROW_HEIGHT;
+  });
+  if (entries.length > 0) {
+    if (y + 8 > bottom) {
+      pdf.addPage();
+      y = MARGIN;
+    }
+    pdf.text('Estimat er modellens snødybde da brøytingen ble logget. Kostnad etter dagens prisavtaler.', MARGIN, y + 8, {
+      size: 8,
+      color: COLORS.muted,
+    });
+  }
+
+  // Bunntekst på alle sider
+  const pageCount = pdf.pageCount();
+  for (let i = 0; i < pageCount; i++) {
+    pdf.setPage(i);
+    const footerY = pdf.height - 30;
+    pdf.line(MARGIN, footerY - 12, pdf.width - MARGIN, footerY - 12, COLORS.line);
+    pdf.text(`Snøklar · ${title}`, MARGIN, footerY, { size: 8, color: COLORS.muted });
+    pdf.text(`Side ${i + 1} av ${pageCount}`, pdf.width - MARGIN, footerY, { size: 8, color: COLORS.muted, align: 'right' });
+  }
+
+  return pdf.save();
+}
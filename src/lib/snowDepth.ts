@@ -0,0 +1,407 @@
+/**
+ * snowDepth.ts: Modell for snø på bakken
+ *
+ * I stedet for å summere nedbør (mm) for de neste 24 timene,
+ * estimerer denne modellen hvor mye snø som faktisk ligger på bakken:
+ *
+ * 1. Starter på 0 cm ved siste loggførte brøyting
+ * 2. Legger til snøfall time for time (passerte timer + prognose)
+ * 3. Konverterer vannekvivalent (mm) til snødybde (cm) med
+ *    temperaturavhengig tetthet - kald snø er lett og luftig,
+ *    snø rundt 0°C er våt og kompakt
+ * 4. Trekker fra smelting i timer med plussgrader
+ *
+ * Modellen er bevisst enkel og ment som beslutningsstøtte.
+ *
+ * @see https://www.weather.gov/media/lmk/soo/Snow_Ratio.pdf - Snø/vann-forhold
+ * @see https://en.wikipedia.org/wiki/Degree_day - Graddag-metoden for smelting
+ */
+
+import type { HourlyForecast, MonitoredLocation, SnowEntry, SnowStatusResult, WeatherData } from '../types';
+
+// =============================================================================
+// KONSTANTER
+// =============================================================================
+
+/**
+ * MELT_CM_PER_DEGREE_HOUR: Smelting per grad per time
+ *
+ * Graddagfaktor på ca. 3 mm vannekvivalent per °C per døgn,
+ * omregnet til dybde for sammenpresset snø (ca. 1:3).
+ */
+const MELT_CM_PER_DEGREE_HOUR = 0.04;
+
+/**
+ * DEFAULT_HORIZON_HOURS: Hvor langt frem modellen ser som standard
+ */
+const DEFAULT_HORIZON_HOURS = 24;
+
+/**
+ * ONE_HOUR_MS: Én time i millisekunder
+ */
+const ONE_HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * CRITICAL_FACTOR: Forventet dybde over terskel × faktor gir kritisk status
+ */
+const CRITICAL_FACTOR = 1.5;
+
+// =============================================================================
+// INTERFACES
+// =============================================================================
+
+/**
+ * SnowScenario: Hvilket anslag fra prognosen som brukes
+ *
+ * - low: precipitation_amount_min (10-persentil)
+ * - expected: precipitation_amount (median)
+ * - high: precipitation_amount_max (90-persentil, "verste tilfelle")
+ */
+export type SnowScenario = 'low' | 'expected' | 'high';
+
+/**
+ * SnowDepthPoint: Estimert snødybde ved slutten av én time
+ *
+ * @property time - Start av timen (ISO-8601)
+ * @property depth - Snødybde i cm etter denne timen
+ */
+export interface SnowDepthPoint {
+  time: string;
+  depth: number;
+}
+
+/**
+ * SnowDepthEstimate: Resultat fra snødybde-modellen
+ *
+ * @property since - Startpunkt for modellen (siste brøyting)
+ * @property currentDepth - Estimert snødybde nå (cm)
+ * @property projectedDepth - Høyeste snødybde innen horisonten (cm)
+ * @property series - Dybde time for time
+ */
+export interface SnowDepthEstimate {
+  since: string | null;
+  currentDepth: number;
+  projectedDepth: number;
+  series: SnowDepthPoint[];
+}
+
+// =============================================================================
+// HJELPEFUNKSJONER
+// =============================================================================
+
+/**
+ * getSnowRatio: Snø/vann-forhold basert på temperatur
+ *
+ * 1 mm vannekvivalent gir:
+ * - ≤ -10°C: 15 mm snø (tørr pudder)
+ * - ≤ -5°C: 12 mm snø
+ * - ≤ -2°C: 10 mm snø (klassisk "1 mm = 1 cm")
+ * - ≤ 0°C: 8 mm snø
+ * - > 0°C: 5 mm snø (våt, tung snø)
+ *
+ * @param temp - Temperatur i Celsius
+ * @returns Forholdstall snø:vann
+ */
+export function getSnowRatio(temp: number): number {
+  if (temp <= -10) return 15;
+  if (temp <= -5) return 12;
+  if (temp <= -2) return 10;
+  if (temp <= 0) return 8;
+  return 5;
+}
+
+/**
+ * getScenarioSnow: Snø (mm) for én time i valgt scenario
+ *
+ * Eldre cachet værdata mangler min/max, da brukes medianen.
+ *
+ * @param hour - Time-forvarsling
+ * @param scenario - Lavt, forventet eller høyt anslag
+ * @returns Snø i mm vannekvivalent
+ */
+function getScenarioSnow(hour: HourlyForecast, scenario: SnowScenario): number {
+  if (scenario === 'low') return hour.snowMin ?? hour.snow;
+  if (scenario === 'high') return hour.snowMax ?? hour.snow;
+  return hour.snow;
+}
+
+/**
+ * round1: Rund av til én desimal
+ */
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+// =============================================================================
+// FUNKSJONER
+// =============================================================================
+
+/**
+ * getLastPlowing: Finn siste brøyting for en lokasjon
+ *
+ * Oppføringer uten lokasjon (fra før flere steder ble støttet)
+ * regnes som gjeldende for alle steder.
+ *
+ * @param history - Brøytingslogg
+ * @param locationId - Lokasjonen det gjelder
+ * @returns Tidspunkt for siste brøyting, eller null
+ */
+export function getLastPlowing(history: SnowEntry[], locationId: string): string | null {
+  const now = Date.now();
+  let latest: string | null = null;
+
+  for (const entry of history) {
+    if (entry.locationId && entry.locationId !== locationId) continue;
+    if (new Date(entry.timestamp).getTime() > now) continue;
+    if (!latest || new Date(entry.timestamp) > new Date(latest)) {
+      latest = entry.timestamp;
+    }
+  }
+
+  return latest;
+}
+
+/**
+ * getModelPeriods: Alle perioder modellen kan bruke
+ *
+ * Passerte timer, timesprognose og 6-timers perioder i ett.
+ *
+ * @param weather - Værdata for én lokasjon
+ * @returns Perioder sortert etter tid
+ */
+export function getModelPeriods(weather: WeatherData): HourlyForecast[] {
+  return [...(weather.pastHours ?? []), ...weather.hourly, ...(weather.sixHourly ?? [])];
+}
+
+/**
+ * estimateSnowDepth: Estimer snødybde på bakken
+ *
+ * Går gjennom timene fra siste brøyting og frem til horisonten.
+ * Uten loggført brøyting starter modellen ved eldste tilgjengelige time.
+ *
+ * @param hours - Passerte timer og prognose (sortert eller usortert)
+ * @param since - Siste brøyting (ISO-8601) eller null
+ * @param horizonHours - Antall timer frem i tid
+ * @param now - Nåtidspunkt (kan overstyres for testing)
+ * @param scenario - Hvilket anslag for fremtidig snøfall som brukes
+ * @returns Estimat med nåværende og forventet dybde
+ *
+ * @example
+ * const estimate = estimateSnowDepth([...weather.pastHours, ...weather.hourly], lastPlowing);
+ * console.log(`${estimate.currentDepth} cm nå`);
+ */
+export function estimateSnowDepth(
+  hours: HourlyForecast[],
+  since: string | null,
+  horizonHours: number = DEFAULT_HORIZON_HOURS,
+  now: Date = new Date(),
+  scenario: SnowScenario = 'expected'
+): SnowDepthEstimate {
+  const sinceMs = since ? new Date(since).getTime() : -Infinity;
+  const nowMs = now.getTime();
+  const horizonMs = nowMs + horizonHours * ONE_HOUR_MS;
+
+  const sorted = [...hours].sort(
+    (a, b) => new Date(a.time).getTime() - new Date(b.time).getTime()
+  );
+
+  let depth = 0;
+  let currentDepth = 0;
+  let projectedDepth = 0;
+  const series: SnowDepthPoint[] = [];
+
+  for (const hour of sorted) {
+    const durationHours = hour.durationHours ?? 1;
+    const startMs = new Date(hour.time).getTime();
+    const endMs = startMs + durationHours * ONE_HOUR_MS;
+
+    // Hopp over perioder som sluttet før brøytingen
+    if (endMs <= sinceMs) continue;
+    if (startMs >= horizonMs) break;
+
+    // Andel av perioden som er etter brøytingen (første periode kan være delvis)
+    const fraction = startMs < sinceMs ? (endMs - sinceMs) / (endMs - startMs) : 1;
+
+    // Snøfall: vannekvivalent (mm) → dybde (cm)
+    // Passerte timer bruker alltid medianen, scenario gjelder kun fremtiden
+    const snow = endMs <= nowMs ? hour.snow : getScenarioSnow(hour, scenario);
+    const snowfall = (snow * getSnowRatio(hour.temperature)) / 10;
+
+    // Smelting når det er plussgrader (hele periodens lengde)
+    const melt = hour.temperature > 0 ? hour.temperature * MELT_CM_PER_DEGREE_HOUR * durationHours : 0;
+
+    depth = Math.max(0, depth + (snowfall - melt) * fraction);
+    series.push({ time: hour.time, depth: round1(depth) });
+
+    if (endMs <= nowMs) {
+      currentDepth = depth;
+    } else if (startMs <= nowMs) {
+      // Timen vi er inne i nå teller både som nå og som prognose
+      currentDepth = depth;
+      projectedDepth = Math.max(projectedDepth, depth);
+    } else {
+      projectedDepth = Math.max(projectedDepth, depth);
+    }
+  }
+
+  return {
+    since,
+    currentDepth: round1(currentDepth),
+    projectedDepth: round1(Math.max(projectedDepth, currentDepth)),
+    series,
+  };
+}
+
+/**
+ * SnowDepthRange: Lavt, forventet og høyt anslag for snødybde
+ */
+export interface SnowDepthRange {
+  low: SnowDepthEstimate;
+  expected: SnowDepthEstimate;
+  high: SnowDepthEstimate;
+}
+
+/**
+ * estimateSnowDepthRange: Kjør modellen for alle tre scenarioer
+ *
+ * Gir et bånd (lav/forventet/høy) basert på usikkerheten i
+ * Met.no sin complete-prognose.
+ *
+ * @param hours - Passerte timer og prognose
+ * @param since - Siste brøyting (ISO-8601) eller null
+ * @param horizonHours - Antall timer frem i tid
+ * @returns Estimat for hvert scenario
+ */
+export function estimateSnowDepthRange(
+  hours: HourlyForecast[],
+  since: string | null,
+  horizonHours: number = DEFAULT_HORIZON_HOURS
+): SnowDepthRange {
+  const now = new Date();
+  return {
+    low: estimateSnowDepth(hours, since, horizonHours, now, 'low'),
+    expected: estimateSnowDepth(hours, since, horizonHours, now, 'expected'),
+    high: estimateSnowDepth(hours, since, horizonHours, now, 'high'),
+  };
+}
+
+/**
+ * getMaxPrecipitationProbability: Høyeste nedbørssannsynlighet i perioden
+ *
+ * @param hours - Prognose
+ * @param horizonHours - Antall timer frem i tid
+ * @param now - Nåtidspunkt
+ * @returns Sannsynlighet i %, eller null hvis prognosen mangler dette
+ */
+export function getMaxPrecipitationProbability(
+  hours: HourlyForecast[],
+  horizonHours: number = DEFAULT_HORIZON_HOURS,
+  now: Date = new Date()
+): number | null {
+  const nowMs = now.getTime();
+  const horizonMs = nowMs + horizonHours * ONE_HOUR_MS;
+  let max: number | null = null;
+
+  for (const hour of hours) {
+    const startMs = new Date(hour.time).getTime();
+    if (startMs + ONE_HOUR_MS <= nowMs || startMs >= horizonMs) continue;
+    if (hour.precipitationProbability === undefined) continue;
+    max = Math.max(max ?? 0, hour.precipitationProbability);
+  }
+
+  return max;
+}
+
+/**
+ * predictNextPlowing: Når trengs neste brøyting?
+ *
+ * Kjører modellen over hele prognosen (ca. 9 døgn) og finner
+ * første periode der snødybden når terskelen.
+ *
+ * @param hours - Passerte timer og prognose (inkl. 6-timers perioder)
+ * @param since - Siste brøyting (ISO-8601) eller null
+ * @param threshold - Terskel i cm
+ * @param scenario - Hvilket anslag som brukes
+ * @returns Starttid for perioden der terskelen nås, eller null
+ *
+ * @example
+ * const when = predictNextPlowing(getModelPeriods(weather), lastPlowing, 10);
+ * // "2026-01-16T06:00:00Z"
+ */
+export function predictNextPlowing(
+  hours: HourlyForecast[],
+  since: string | null,
+  threshold: number,
+  scenario: SnowScenario = 'expected'
+): string | null {
+  const { series } = estimateSnowDepth(hours, since, Infinity, new Date(), scenario);
+  const nowMs = Date.now();
+
+  const hit = series.find((point) => point.depth >= threshold);
+  if (!hit) return null;
+
+  // Allerede over terskel: brøyting trengs nå
+  return new Date(hit.time).getTime() < nowMs ? new Date(nowMs).toISOString() : hit.time;
+}
+
+/**
+ * calculateSnowStatus: Beregn snøstatus for én lokasjon
+ * 
+ * Estimerer snø på bakken fra siste brøyting og 24 timer frem,
+ * og sammenligner forventet (median) dybde med lokasjonens terskel (cm).
+ * Lavt/høyt anslag returneres for visning av usikkerhet, sammen med
+ * når terskelen ventes nådd innen hele prognosen (ca. 9 døgn).
+ * 
+ * - normal: Forventet dybde < terskel
+ * - warning: Forventet dybde >= terskel
+ * - critical: Dybde nå >= terskel, eller forventet >= terskel * 1.5
+ * 
+ * @param location - Lokasjonen (med terskel)
+ * @param weather - Værdata for lokasjonen (eller undefined)
+ * @param history - Brøytingslogg
+ * @returns Status og estimert snødybde
+ */
+export function calculateSnowStatus(
+  location: MonitoredLocation,
+  weather: WeatherData | undefined,
+  history: SnowEntry[]
+): SnowStatusResult {
+  const lastPlowing = getLastPlowing(history, location.id);
+  
+  if (!weather) {
+    return {
+      status: 'normal',
+      currentDepth: 0,
+      projectedDepth: 0,
+      projectedDepthLow: 0,
+      projectedDepthHigh: 0,
+      precipitationProbability: null,
+      nextPlowingExpected: null,
+      nextPlowingEarliest: null,
+      lastPlowing,
+    };
+  }
+  
+  const periods = getModelPeriods(weather);
+  const range = estimateSnowDepthRange(periods, lastPlowing);
+  const { currentDepth, projectedDepth } = range.expected;
+  const threshold = location.snowThreshold;
+  const result = {
+    currentDepth,
+    projectedDepth,
+    projectedDepthLow: range.low.projectedDepth,
+    projectedDepthHigh: range.high.projectedDepth,
+    precipitationProbability: getMaxPrecipitationProbability(weather.hourly),
+    nextPlowingExpected: predictNextPlowing(periods, lastPlowing, threshold),
+    nextPlowingEarliest: predictNextPlowing(periods, lastPlowing, threshold, 'high'),
+    lastPlowing,
+  };
+  
+  if (currentDepth >= threshold || projectedDepth >= threshold * CRITICAL_FACTOR) {
+    return { status: 'critical', ...result };
+  } else if (projectedDepth >= threshold) {
+    return { status: 'warning', ...result };
+  }
+  
+  return { status: 'normal', ...result };
+}
@@ -0,0 +1,618 @@
+/**
+ * storage.ts: Skjema, migrering og validering av lagrede data
+ *
+ * Lagrede data har ett felles skjemaversjonsnummer. Ved oppstart:
+ * 1. Rådata leses (fra IndexedDB, eller localStorage første gang)
+ * 2. Migreringer kjøres fra lagret versjon opp til SCHEMA_VERSION
+ *    (ukjent versjon: alt settes i karantene)
+ * 3. Data valideres; ugyldige elementer settes i karantene
+ * 4. Innstillinger flettes med standardverdiene (nye felt får standard)
+ * 5. Resultatet og versjonsnummeret skrives tilbake
+ *
+ * Selve lagringen gjøres i services/repository (IndexedDB). Eldre
+ * versjoner lagret alt i localStorage under `snomaking_*`-nøklene;
+ * disse leses én gang og flyttes over (readLegacyStorage).
+ *
+ * Karantene: Data som ikke kan brukes, lagres under
+ * `snomaking_quarantine` i stedet for å forsvinne, slik at de kan
+ * lastes ned og eventuelt reddes for hånd.
+ *
+ * Ny migrering: øk SCHEMA_VERSION og legg til en funksjon i MIGRATIONS.
+ * Migreringer skal tåle å kjøres på data som allerede er migrert.
+ */
+
+import type {
+  AlertRule,
+  Contractor,
+  HistoryRetention,
+  Location,
+  MonitoredLocation,
+  NotificationSchedule,
+  PlowOrder,
+  Settings,
+  SnowEntry,
+  TimeRange,
+  WeatherData,
+} from '../types';
+import { getFromLocalStorage, setToLocalStorage } from '../hooks/useLocalStorage';
+import { createDefaultAlertRules } from './alerts';
+import { DEFAULT_SCHEDULE, WEEKDAY_LABELS } from './schedule';
+import { DEFAULT_SNOW_THRESHOLD } from './locations';
+import { linkEntryContractors } from './contractors';
+import { isValidCoordinate } from './validation';
+
+// =============================================================================
+// KONSTANTER
+// =============================================================================
+
+/**
+ * STORAGE_KEYS: Nøkler for localStorage
+ *
+ * Prefix 'snomaking_' unngår konflikter med andre apper.
+ * Alle unntatt karantenen er flyttet til IndexedDB, og brukes kun
+ * for å lese data fra eldre versjoner.
+ */
+export const STORAGE_KEYS = {
+  SETTINGS: 'snomaking_settings',       // Brukerinnstillinger
+  HISTORY: 'snomaking_history',         // Brøytingshistorikk
+  CONTRACTORS: 'snomaking_contractors', // Kontakter
+  ORDERS: 'snomaking_orders',           // Bestillinger
+  WEATHER: 'snomaking_weather',         // Værdata (cache)
+  ALERTS: 'snomaking_alerts',           // Varsel-logg
+  SCHEMA_VERSION: 'snomaking_schema_version', // Skjemaversjon for alle nøklene over
+  QUARANTINE: 'snomaking_quarantine',   // Data som ikke kunne leses
+};
+
+/**
+ * SCHEMA_VERSION: Gjeldende skjemaversjon
+ *
+ * - 0: Før versjonering (én lokasjon, varselbrytere, fritekst-entreprenør)
+ * - 1: Flere lokasjoner, varslingsregler og -plan, værdata per lokasjon
+ * - 2: Brøytinger koblet til kontakter med `contractorId`
+ */
+export const SCHEMA_VERSION = 2;
+
+/**
+ * LEGACY_HISTORY_VERSION_KEY: Eldre versjonsnøkkel kun for historikken
+ *
+ * Erstattet av STORAGE_KEYS.SCHEMA_VERSION og fjernes ved migrering.
+ */
+const LEGACY_HISTORY_VERSION_KEY = 'snomaking_history_version';
+
+/**
+ * QUARANTINE_LIMIT: Maks antall elementer i karantene (eldste fjernes først)
+ */
+const QUARANTINE_LIMIT = 50;
+
+/**
+ * quarantineCount: Antall elementer satt i karantene siden oppstart
+ *
+ * Brukes av migrateStoredData for å se om noe ble fjernet.
+ */
+let quarantineCount = 0;
+
+/**
+ * ORDER_STATUSES: Gyldige statuser for en bestilling
+ */
+const ORDER_STATUSES: PlowOrder['status'][] = ['requested', 'confirmed', 'done', 'cancelled', 'escalated'];
+
+/**
+ * QUARANTINE_KEYS: Lagringsnøkkelen for rådata som kan settes i karantene
+ *
+ * Værdata og varsellogg er bare cache og forkastes i stedet.
+ */
+const QUARANTINE_KEYS: Partial<Record<keyof StoredData, string>> = {
+  settings: STORAGE_KEYS.SETTINGS,
+  contractors: STORAGE_KEYS.CONTRACTORS,
+  history: STORAGE_KEYS.HISTORY,
+  orders: STORAGE_KEYS.ORDERS,
+};
+
+// =============================================================================
+// INTERFACES
+// =============================================================================
+
+/**
+ * StoredData: Alt som lastes ved oppstart, validert og migrert
+ */
+export interface StoredData {
+  settings: Settings;
+  contractors: Contractor[];
+  history: SnowEntry[];
+  orders: PlowOrder[];
+  weather: Record<string, WeatherData>;
+  alertLog: Record<string, string>;
+}
+
+/**
+ * QuarantinedItem: Data som ikke kunne brukes
+ *
+ * @property key - Lagringsnøkkelen dataene hører til (f.eks. "snomaking_history")
+ * @property reason - Hvorfor de ble satt til side
+ * @property value - Dataene (rå tekst hvis JSON-en var ugyldig)
+ * @property quarantinedAt - Tidspunkt (ISO-8601)
+ */
+export interface QuarantinedItem {
+  key: string;
+  reason: string;
+  value: unknown;
+  quarantinedAt: string;
+}
+
+/**
+ * RawStoredData: Rådata før migrering og validering (ukjent form)
+ */
+export type RawStoredData = Partial<Record<keyof StoredData, unknown>>;
+
+/**
+ * Migration: Løfter rådata én versjon
+ */
+type Migration = (data: RawStoredData, defaults: Settings) => RawStoredData;
+
+/**
+ * LegacySettings: Innstillinger slik de ble lagret før versjon 1
+ *
+ * Eldre versjoner hadde én `location` og én global `snowThreshold`,
+ * og faste brytere for snø-varsel på dag/natt i stedet for regler.
+ */
+type LegacySettings = Partial<Settings> & {
+  location?: Location;
+  snowThreshold?: number;
+  notifyOnSnow?: boolean;
+  notifyDay?: boolean;
+  notifyNight?: boolean;
+};
+
+// =============================================================================
+// HJELPEFUNKSJONER
+// =============================================================================
+
+/**
+ * isRecord: Er verdien et vanlig objekt (ikke array eller null)?
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * isFiniteNumber: Er verdien et endelig tall?
+ */
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+/**
+ * isValidTimestamp: Er verdien en tolkbar ISO-dato?
+ */
+function isValidTimestamp(value: unknown): value is string {
+  return typeof value === 'string' && !Number.isNaN(Date.parse(value));
+}
+
+/**
+ * quarantine: Legg data til side i stedet for å slette dem
+ */
+function quarantine(key: string, value: unknown, reason: string): void {
+  console.error(`Quarantined data from "${key}": ${reason}`);
+  quarantineCount++;
+  const item: QuarantinedItem = { key, reason, value, quarantinedAt: new Date().toISOString() };
+  setToLocalStorage(STORAGE_KEYS.QUARANTINE, [...getQuarantine(), item].slice(-QUARANTINE_LIMIT));
+}
+
+/**
+ * readRaw: Les én nøkkel uten å stole på innholdet
+ *
+ * Ugyldig JSON settes i karantene og gir undefined.
+ */
+function readRaw(key: string): unknown {
+  let raw: string | null;
+  try {
+    raw = window.localStorage.getItem(key);
+  } catch (error) {
+    console.error(`Error reading localStorage key "${key}":`, error);
+    return undefined;
+  }
+  if (raw === null) return undefined;
+
+  try {
+    return JSON.parse(raw);
+  } catch {
+    quarantine(key, raw, 'Ugyldig JSON');
+    return undefined;
+  }
+}
+
+/**
+ * deepMerge: Flett lagrede verdier inn i standardverdiene
+ *
+ * Objekter flettes rekursivt, slik at felt som er lagt til etter at
+ * dataene ble lagret får standardverdi. Tall og boolske verdier med
+ * feil type erstattes av standardverdien. Felt som kun finnes i de
+ * lagrede dataene (valgfrie felt) beholdes.
+ *
+ * @param defaults - Standardverdier
+ * @param saved - Lagrede verdier (ukjent form)
+ * @returns Flettet verdi
+ *
+ * @example
+ * deepMerge({ a: 1, b: { c: true } }, { b: {} }); // { a: 1, b: { c: true } }
+ */
+export function deepMerge<T>(defaults: T, saved: unknown): T {
+  if (saved === undefined || saved === null) return defaults;
+
+  if (isRecord(defaults)) {
+    if (!isRecord(saved)) return defaults;
+    const merged: Record<string, unknown> = { ...saved };
+    Object.entries(defaults).forEach(([key, value]) => {
+      merged[key] = deepMerge(value, saved[key]);
+    });
+    return merged as T;
+  }
+
+  if ((typeof defaults === 'number' || typeof defaults === 'boolean') && typeof saved !== typeof defaults) {
+    return defaults;
+  }
+  if (Array.isArray(defaults) && !Array.isArray(saved)) return defaults;
+
+  return saved as T;
+}
+
+/**
+ * validateList: Behold gyldige elementer, sett resten i karantene
+ *
+ * @param key - localStorage-nøkkel (for karantene)
+ * @param value - Rådata
+ * @param isValid - Validering per element
+ * @returns Gyldige elementer
+ */
+function validateList<T>(key: string, value: unknown, isValid: (item: unknown) => boolean): T[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    quarantine(key, value, 'Forventet en liste');
+    return [];
+  }
+
+  return value.filter((item) => {
+    if (isValid(item)) return true;
+    quarantine(key, item, 'Ugyldig element');
+    return false;
+  }) as T[];
+}
+
+/**
+ * isValidTimeRange: Er verdien et tidsrom med "HH:MM"-klokkeslett?
+ */
+function isValidTimeRange(value: unknown): value is TimeRange {
+  return isRecord(value)
+    && typeof value.start === 'string' && /^\d{2}:\d{2}$/.test(value.start)
+    && typeof value.end === 'string' && /^\d{2}:\d{2}$/.test(value.end);
+}
+
+/**
+ * isValidLocation: Har lokasjonen ID, navn og gyldige koordinater?
+ */
+function isValidLocation(value: unknown): value is MonitoredLocation {
+  return isRecord(value)
+    && typeof value.id === 'string'
+    && typeof value.name === 'string'
+    && isFiniteNumber(value.lat)
+    && isFiniteNumber(value.lon)
+    && isValidCoordinate(value.lat, value.lon);
+}
+
+/**
+ * isValidAlertRule: Har regelen ID, betingelse og mal?
+ */
+function isValidAlertRule(value: unknown): value is AlertRule {
+  return isRecord(value)
+    && typeof value.id === 'string'
+    && isRecord(value.condition) && typeof value.condition.type === 'string'
+    && typeof value.template === 'string';
+}
+
+/**
+ * isValidSchedule: Har planen dagtid og stille perioder for 7 dager?
+ */
+function isValidSchedule(value: unknown): value is NotificationSchedule {
+  return isRecord(value)
+    && (value.dayWindow === 'sun' || isValidTimeRange(value.dayWindow))
+    && Array.isArray(value.quietHours) && value.quietHours.length === WEEKDAY_LABELS.length
+    && value.quietHours.every((day) => Array.isArray(day) && day.every(isValidTimeRange));
+}
+
+/**
+ * isValidRetention: Er verdien en gyldig oppbevaring av loggen?
+ */
+function isValidRetention(value: unknown): value is HistoryRetention {
+  if (!isRecord(value)) return false;
+  if (value.type === 'forever') return true;
+  return (value.type === 'seasons' || value.type === 'months')
+    && isFiniteNumber(value.count) && value.count >= 1;
+}
+
+/**
+ * isValidContractor: Har kontakten ID, navn og telefon?
+ */
+function isValidContractor(value: unknown): boolean {
+  return isRecord(value)
+    && typeof value.id === 'string'
+    && typeof value.name === 'string'
+    && typeof value.phone === 'string';
+}
+
+/**
+ * isValidEntry: Har brøytingen ID og gyldig tidspunkt?
+ */
+function isValidEntry(value: unknown): boolean {
+  return isRecord(value)
+    && typeof value.id === 'string'
+    && isValidTimestamp(value.timestamp)
+    && (value.snowDepth === undefined || isFiniteNumber(value.snowDepth))
+    && (value.edits === undefined || Array.isArray(value.edits));
+}
+
+/**
+ * isValidOrder: Har bestillingen ID, sted, kontakt og kjent status?
+ */
+function isValidOrder(value: unknown): boolean {
+  return isRecord(value)
+    && typeof value.id === 'string'
+    && typeof value.locationId === 'string'
+    && typeof value.contractorId === 'string'
+    && ORDER_STATUSES.includes(value.status as PlowOrder['status'])
+    && isValidTimestamp(value.requestedAt);
+}
+
+/**
+ * isValidWeather: Ser værdataene ut som WeatherData?
+ */
+function isValidWeather(value: unknown): value is WeatherData {
+  return isRecord(value) && isRecord(value.current) && Array.isArray(value.hourly);
+}
+
+/**
+ * getLegacySchedule: Gjør gamle dag/natt-brytere om til en varslingsplan
+ *
+ * Dagtid var fast 09:00-18:00 alle dager.
+ *
+ * @param notifyDay - Varsle på dagtid
+ * @param notifyNight - Varsle på natten
+ * @returns Plan med samme stille periode hver dag
+ */
+function getLegacySchedule(notifyDay = true, notifyNight = true): NotificationSchedule {
+  const dayWindow: TimeRange = { start: '09:00', end: '18:00' };
+  let quiet: TimeRange | null = null;
+  if (!notifyNight) quiet = { start: '18:00', end: '09:00' };
+  else if (!notifyDay) quiet = dayWindow;
+
+  return {
+    ...DEFAULT_SCHEDULE,
+    dayWindow,
+    quietHours: WEEKDAY_LABELS.map(() => (quiet ? [quiet] : [])),
+  };
+}
+
+/**
+ * validateSettings: Valider og flett innstillinger med standardverdiene
+ *
+ * Ugyldige lokasjoner og regler settes i karantene. Finnes ingen
+ * gyldige lokasjoner, brukes standard-lokasjonen.
+ */
+function validateSettings(value: unknown, defaults: Settings): Settings {
+  if (value !== undefined && !isRecord(value)) {
+    quarantine(STORAGE_KEYS.SETTINGS, value, 'Forventet et objekt');
+    return defaults;
+  }
+
+  const merged = deepMerge(defaults, value);
+  const locations = validateList<MonitoredLocation>(STORAGE_KEYS.SETTINGS, merged.locations, isValidLocation)
+    .map((location) => ({
+      ...location,
+      snowThreshold: isFiniteNumber(location.snowThreshold) ? location.snowThreshold : DEFAULT_SNOW_THRESHOLD,
+    }));
+
+  if (!isValidSchedule(merged.schedule)) {
+    quarantine(STORAGE_KEYS.SETTINGS, merged.schedule, 'Ugyldig varslingsplan');
+  }
+
+  const settings: Settings = {
+    ...merged,
+    locations: locations.length > 0 ? locations : defaults.locations,
+    alertRules: validateList<AlertRule>(STORAGE_KEYS.SETTINGS, merged.alertRules, isValidAlertRule),
+    schedule: isValidSchedule(merged.schedule) ? merged.schedule : defaults.schedule,
+    // Fra de lagrede dataene, så felt fra standardverdien ikke blandes inn
+    historyRetention: isRecord(value) && isValidRetention(value.historyRetention)
+      ? value.historyRetention
+      : defaults.historyRetention,
+  };
+
+  if (!settings.locations.some((l) => l.id === settings.activeLocationId)) {
+    settings.activeLocationId = settings.locations[0].id;
+  }
+  return settings;
+}
+
+// =============================================================================
+// MIGRERINGER
+// =============================================================================
+
+/**
+ * MIGRATIONS: Migrering til hver versjon (nøkkel = versjonen etter migrering)
+ */
+const MIGRATIONS: Record<number, Migration> = {
+  /**
+   * Versjon 1: Flere lokasjoner, regler og plan, værdata per lokasjon
+   *
+   * Den gamle enkelt-lokasjonen blir første element i `locations`,
+   * og varselbryterne blir standardregler og en plan.
+   */
+  1: (data, defaults) => {
+    if (!isRecord(data.settings)) return data;
+    const { location, snowThreshold, notifyOnSnow, notifyDay, notifyNight, ...rest } =
+      data.settings as LegacySettings;
+
+    if (!rest.alertRules) {
+      rest.alertRules = createDefaultAlertRules({ snowOnset: notifyOnSnow });
+      // Begge av betydde ingen varsler i det hele tatt
+      if (notifyDay === false && notifyNight === false) {
+        rest.notifyEnabled = false;
+      }
+    }
+
+    if (!rest.schedule && (notifyDay !== undefined || notifyNight !== undefined)) {
+      rest.schedule = getLegacySchedule(notifyDay, notifyNight);
+    }
+
+    if (!rest.locations || rest.locations.length === 0) {
+      const migratedLocation: MonitoredLocation = location
+        ? { id: defaults.locations[0].id, ...location, snowThreshold: snowThreshold ?? DEFAULT_SNOW_THRESHOLD }
+        : defaults.locations[0];
+      rest.locations = [migratedLocation];
+      rest.activeLocationId = migratedLocation.id;
+    }
+
+    // Eldre versjoner lagret ett WeatherData-objekt i stedet for ett per lokasjon
+    const weather = data.weather;
+    const migratedWeather = isValidWeather(weather) ? { [rest.locations[0].id]: weather } : weather;
+
+    return { ...data, settings: rest, weather: migratedWeather };
+  },
+
+  /**
+   * Versjon 2: Koble brøytinger til kontakter (fritekst → contractorId)
+   */
+  2: (data) => {
+    const history = data.history;
+    const contractors = data.contractors;
+    if (!Array.isArray(history) || !Array.isArray(contractors)) return data;
+
+    return {
+      ...data,
+      history: linkEntryContractors(
+        history.filter(isValidEntry) as SnowEntry[],
+        contractors.filter(isValidContractor) as Contractor[]
+      ).concat(history.filter((e) => !isValidEntry(e))),
+    };
+  },
+};
+
+// =============================================================================
+// FUNKSJONER
+// =============================================================================
+
+/**
+ * MigrationResult: Resultat av migrering og validering
+ *
+ * @property data - Gyldige data klare for state
+ * @property changed - Om dataene er endret og bør skrives tilbake
+ */
+export interface MigrationResult {
+  data: StoredData;
+  changed: boolean;
+}
+
+/**
+ * migrateStoredData: Migrer og valider rådata
+ *
+ * Versjonen må være et heltall fra 0 til SCHEMA_VERSION. Ellers (f.eks.
+ * data fra en nyere versjon av appen) vet vi ikke hvordan dataene ser
+ * ut, og alt settes i karantene.
+ *
+ * @param raw - Rådata (ukjent form)
+ * @param version - Skjemaversjonen dataene ble lagret med
+ * @param defaults - Standard innstillinger
+ * @returns Gyldige data, og om de må lagres på nytt
+ *
+ * @example
+ * const { data, changed } = migrateStoredData(raw, 1, DEFAULT_SETTINGS);
+ */
+export function migrateStoredData(raw: RawStoredData, version: number, defaults: Settings): MigrationResult {
+  const quarantinedBefore = quarantineCount;
+
+  const knownVersion = Number.isInteger(version) && version >= 0 && version <= SCHEMA_VERSION;
+  if (!knownVersion) {
+    Object.entries(QUARANTINE_KEYS).forEach(([field, key]) => {
+      const value = raw[field as keyof StoredData];
+      if (value !== undefined) quarantine(key, value, `Ukjent skjemaversjon: ${version}`);
+    });
+  }
+
+  // Ukjent versjon: fortsett med standardverdier (dataene ligger i karantenen)
+  let migrated = knownVersion ? raw : {};
+  for (let next = knownVersion ? version + 1 : SCHEMA_VERSION + 1; next <= SCHEMA_VERSION; next++) {
+    migrated = MIGRATIONS[next](migrated, defaults);
+  }
+
+  const settings = validateSettings(migrated.settings, defaults);
+  const contractors = validateList<Contractor>(STORAGE_KEYS.CONTRACTORS, migrated.contractors, isValidContractor);
+  const history = validateList<SnowEntry>(STORAGE_KEYS.HISTORY, migrated.history, isValidEntry);
+  const orders = validateList<PlowOrder>(STORAGE_KEYS.ORDERS, migrated.orders, isValidOrder);
+
+  // Værdata er bare en cache: ugyldige data forkastes uten karantene
+  const weather = isRecord(migrated.weather)
+    ? Object.fromEntries(Object.entries(migrated.weather).filter(([, w]) => isValidWeather(w))) as Record<string, WeatherData>
+    : {};
+
+  const alertLog = isRecord(migrated.alertLog)
+    ? Object.fromEntries(Object.entries(migrated.alertLog).filter(([, time]) => isValidTimestamp(time))) as Record<string, string>
+    : {};
+
+  return {
+    data: { settings, contractors, history, orders, weather, alertLog },
+    changed: !knownVersion || version < SCHEMA_VERSION || quarantineCount > quarantinedBefore,
+  };
+}
+
+/**
+ * readLegacyStorage: Les data lagret i localStorage av eldre versjoner
+ *
+ * @returns Rådata og skjemaversjon, eller null hvis ingenting er lagret
+ */
+export function readLegacyStorage(): { raw: RawStoredData; version: number } | null {
+  const raw: RawStoredData = {
+    settings: readRaw(STORAGE_KEYS.SETTINGS),
+    contractors: readRaw(STORAGE_KEYS.CONTRACTORS),
+    history: readRaw(STORAGE_KEYS.HISTORY),
+    orders: readRaw(STORAGE_KEYS.ORDERS),
+    weather: readRaw(STORAGE_KEYS.WEATHER),
+    alertLog: readRaw(STORAGE_KEYS.ALERTS),
+  };
+  if (Object.values(raw).every((value) => value === undefined)) return null;
+
+  const storedVersion = readRaw(STORAGE_KEYS.SCHEMA_VERSION);
+  return { raw, version: isFiniteNumber(storedVersion) ? storedVersion : 0 };
+}
+
+/**
+ * clearLegacyStorage: Fjern data fra localStorage etter flytting
+ *
+ * Karantenen og HTTP-cachen for Met.no blir liggende.
+ */
+export function clearLegacyStorage(): void {
+  [
+    STORAGE_KEYS.SETTINGS,
+    STORAGE_KEYS.CONTRACTORS,
+    STORAGE_KEYS.HISTORY,
+    STORAGE_KEYS.ORDERS,
+    STORAGE_KEYS.WEATHER,
+    STORAGE_KEYS.ALERTS,
+    STORAGE_KEYS.SCHEMA_VERSION,
+    LEGACY_HISTORY_VERSION_KEY,
+  ].forEach((key) => window.localStorage.removeItem(key));
+}
+
+/**
+ * getQuarantine: Data som er satt til side ved lasting
+ *
+ * @returns Elementer i karantene, eldste først
+ */
+export function getQuarantine(): QuarantinedItem[] {
+  const items = getFromLocalStorage<unknown>(STORAGE_KEYS.QUARANTINE, []);
+  return Array.isArray(items) ? items as QuarantinedItem[] : [];
+}
+
+/**
+ * clearQuarantine: Tøm karantenen
+ */
+export function clearQuarantine(): void {
+  window.localStorage.removeItem(STORAGE_KEYS.QUARANTINE);
+}
@@ -0,0 +1,153 @@
+/**
+ * sun.ts: Soloppgang, solnedgang og solhøyde
+ *
+ * Forenklet NOAA-algoritme, nøyaktig til et par minutter. Det holder
+ * godt til å velge sol eller måne i værkortet og for dagtid i
+ * varslingsplanen. Tar hensyn til midnattssol og mørketid.
+ *
+ * @see https://gml.noaa.gov/grad/solcalc/solareqns.PDF
+ */
+
+// =============================================================================
+// KONSTANTER
+// =============================================================================
+
+/**
+ * RAD: Grader → radianer
+ */
+const RAD = Math.PI / 180;
+
+/**
+ * DAY_MS: Ett døgn i millisekunder
+ */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * SUNRISE_ELEVATION: Solhøyde ved soloppgang/solnedgang (grader)
+ *
+ * Solens øvre kant i horisonten, inkludert lysbrytning i atmosfæren.
+ */
+const SUNRISE_ELEVATION = -0.833;
+
+// =============================================================================
+// INTERFACES
+// =============================================================================
+
+/**
+ * SunTimes: Sol opp og ned for ett døgn
+ *
+ * @property sunrise - Soloppgang (eller null ved midnattssol/mørketid)
+ * @property sunset - Solnedgang (eller null ved midnattssol/mørketid)
+ * @property polar - 'day' ved midnattssol, 'night' ved mørketid, ellers null
+ */
+export interface SunTimes {
+  sunrise: Date | null;
+  sunset: Date | null;
+  polar: 'day' | 'night' | null;
+}
+
+// =============================================================================
+// HJELPEFUNKSJONER
+// =============================================================================
+
+/**
+ * getSolarParameters: Solens deklinasjon og tidsjevning
+ *
+ * @param date - Tidspunkt
+ * @returns Deklinasjon (radianer) og tidsjevning (minutter)
+ */
+function getSolarParameters(date: Date): { declination: number; equationOfTime: number } {
+  const startOfYear = Date.UTC(date.getUTCFullYear(), 0, 1);
+  const dayOfYear = Math.floor((date.getTime() - startOfYear) / DAY_MS);
+  const hours = date.getUTCHours() + date.getUTCMinutes() / 60;
+  const g = (2 * Math.PI / 365) * (dayOfYear + (hours - 12) / 24);
+
+  const equationOfTime = 229.18 * (
+    0.000075
+    + 0.001868 * Math.cos(g)
+    - 0.032077 * Math.sin(g)
+    - 0.014615 * Math.cos(2 * g)
+    - 0.040849 * Math.sin(2 * g)
+  );
+
+  const declination = 0.006918
+    - 0.399912 * Math.cos(g)
+    + 0.070257 * Math.sin(g)
+    - 0.006758 * Math.cos(2 * g)
+    + 0.000907 * Math.sin(2 * g)
+    - 0.002697 * Math.cos(3 * g)
+    + 0.00148 * Math.sin(3 * g);
+
+  return { declination, equationOfTime };
+}
+
+// =============================================================================
+// FUNKSJONER
+// =============================================================================
+
+/**
+ * getSunElevation: Solens høyde over horisonten
+ *
+ * @param lat - Breddegrad
+ * @param lon - Lengdegrad
+ * @param date - Tidspunkt
+ * @returns Solhøyde i grader (negativ = under horisonten)
+ */
+export function getSunElevation(lat: number, lon: number, date: Date): number {
+  const { declination, equationOfTime } = getSolarParameters(date);
+  const utcMinutes = date.getUTCHours() * 60 + date.getUTCMinutes() + date.getUTCSeconds() / 60;
+  const hourAngle = ((utcMinutes + equationOfTime + 4 * lon) / 4 - 180) * RAD;
+  const latRad = lat * RAD;
+
+  const cosZenith = Math.sin(latRad) * Math.sin(declination)
+    + Math.cos(latRad) * Math.cos(declination) * Math.cos(hourAngle);
+
+  return 90 - Math.acos(Math.min(1, Math.max(-1, cosZenith))) / RAD;
+}
+
+/**
+ * isDaylight: Er sola oppe?
+ *
+ * @param lat - Breddegrad
+ * @param lon - Lengdegrad
+ * @param date - Tidspunkt
+ * @returns true mellom soloppgang og solnedgang
+ *
+ * @example
+ * isDaylight(69.65, 18.96, new Date('2026-12-21T12:00:00Z')); // false (mørketid i Tromsø)
+ */
+export function isDaylight(lat: number, lon: number, date: Date): boolean {
+  return getSunElevation(lat, lon, date) > SUNRISE_ELEVATION;
+}
+
+/**
+ * getSunTimes: Soloppgang og solnedgang for et døgn (UTC-dato)
+ *
+ * @param lat - Breddegrad
+ * @param lon - Lengdegrad
+ * @param date - Et tidspunkt i døgnet
+ * @returns Soloppgang og solnedgang, eller polar-status
+ *
+ * @example
+ * const { sunrise, sunset } = getSunTimes(59.91, 10.75, new Date());
+ */
+export function getSunTimes(lat: number, lon: number, date: Date): SunTimes {
+  const midnight = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  const { declination, equationOfTime } = getSolarParameters(new Date(midnight + DAY_MS / 2));
+  const latRad = lat * RAD;
+
+  const cosHourAngle = (Math.cos((90 - SUNRISE_ELEVATION) * RAD) - Math.sin(latRad) * Math.sin(declination))
+    / (Math.cos(latRad) * Math.cos(declination));
+
+  if (cosHourAngle > 1) return { sunrise: null, sunset: null, polar: 'night' };
+  if (cosHourAngle < -1) return { sunrise: null, sunset: null, polar: 'day' };
+
+  const hourAngle = Math.acos(cosHourAngle) / RAD;
+  const solarNoonMinutes = 720 - 4 * lon - equationOfTime;
+
+  return {
+    sunrise: new Date(midnight + (solarNoonMinutes - 4 * hourAngle) * 60 * 1000),
+    sunset: new Date(midnight + (solarNoonMinutes + 4 * hourAngle) * 60 * 1000),
+    polar: null,
+  };
+}
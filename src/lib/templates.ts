@@ -0,0 +1,52 @@
+/**
+ * templates.ts: Enkle meldingsmaler
+ *
+ * Maler bruker krøllparenteser rundt variabelnavn:
+ * "{sted}: {mm} mm snø neste {timer} timer"
+ *
+ * Ukjente variabler blir stående urørt, slik at skrivefeil
+ * i en mal er synlige i meldingen i stedet for å forsvinne.
+ */
+
+// =============================================================================
+// INTERFACES
+// =============================================================================
+
+/**
+ * TemplateVariables: Verdier som kan settes inn i en mal
+ */
+export type TemplateVariables = Record<string, string | number>;
+
+// =============================================================================
+// FUNKSJONER
+// =============================================================================
+
+/**
+ * renderTemplate: Sett inn verdier i en mal
+ *
+ * @param template - Mal med {variabel}-plassholdere
+ * @param variables - Verdier som skal settes inn
+ * @returns Ferdig tekst
+ *
+ * @example
+ * renderTemplate('{sted}: {cm} cm snø', { sted: 'Hytta', cm: 12 });
+ * // "Hytta: 12 cm snø"
+ */
+export function renderTemplate(template: string, variables: TemplateVariables): string {
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in variables ? String(variables[name]) : match
+  );
+}
+
+/**
+ * getTemplateVariables: Finn variabelnavn brukt i en mal
+ *
+ * @param template - Mal med {variabel}-plassholdere
+ * @returns Unike variabelnavn i rekkefølge
+ *
+ * @example
+ * getTemplateVariables('{sted}: {cm} cm'); // ['sted', 'cm']
+ */
+export function getTemplateVariables(template: string): string[] {
+  return [...new Set([...template.matchAll(/\{(\w+)\}/g)].map((m) => m[1]))];
+}
@@ -0,0 +1,351 @@
+/**
+ * xlsx.ts: Enkle Excel-filer (XLSX) uten eksterne pakker
+ *
+ * En XLSX-fil er en zip-fil med XML. Her lages ett regneark med tekst
+ * og tall (ukomprimert zip), og første regneark i en fil kan leses
+ * tilbake som tabell. Formler, formatering og flere ark støttes ikke.
+ *
+ * Lesing bruker DecompressionStream ('deflate-raw') og DOMParser fra
+ * nettleseren.
+ *
+ * @see https://learn.microsoft.com/en-us/openspecs/office_standards/ms-xlsx
+ */
+
+// =============================================================================
+// KONSTANTER
+// =============================================================================
+
+/**
+ * XLSX_MIME_TYPE: Filtype for nedlasting
+ */
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+/**
+ * Signaturer i zip-formatet
+ */
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_DIRECTORY = 0x06054b50;
+
+/**
+ * CRC_TABLE: Oppslagstabell for CRC-32 (kreves i zip)
+ */
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+// =============================================================================
+// INTERFACES
+// =============================================================================
+
+/**
+ * XlsxCell: Verdi i en celle (null = tom)
+ */
+export type XlsxCell = string | number | null;
+
+/**
+ * ZipEntry: Fil i en zip-fil
+ */
+interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+// =============================================================================
+// HJELPEFUNKSJONER
+// =============================================================================
+
+/**
+ * crc32: Sjekksum for en fil i zip
+ */
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * isXmlChar: Er tegnet lov i XML? (kontrolltegn unntatt tab og linjeskift er ikke)
+ */
+function isXmlChar(char: string): boolean {
+  const code = char.charCodeAt(0);
+  return code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d;
+}
+
+/**
+ * escapeXml: Tekst trygg for XML
+ *
+ * Kontrolltegn som ikke er lov i XML, fjernes.
+ */
+function escapeXml(text: string): string {
+  return Array.from(text)
+    .filter(isXmlChar)
+    .join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * getColumnName: Kolonnenummer → bokstaver (0 → "A", 26 → "AA")
+ */
+function getColumnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+/**
+ * getColumnIndex: Cellereferanse → kolonnenummer ("B3" → 1)
+ */
+function getColumnIndex(reference: string): number {
+  const letters = reference.replace(/[^A-Z]/gi, '').toUpperCase();
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+/**
+ * createZip: Lag en ukomprimert zip-fil
+ */
+function createZip(entries: ZipEntry[]): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const files = entries.map((entry) => ({ ...entry, nameBytes: encoder.encode(entry.name), crc: crc32(entry.data) }));
+  const localSize = files.reduce((sum, f) => sum + 30 + f.nameBytes.length + f.data.length, 0);
+  const centralSize = files.reduce((sum, f) => sum + 46 + f.nameBytes.length, 0);
+  const output = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(output.buffer);
+  let offset = 0;
+  const offsets: number[] = [];
+
+  // Filene, hver med sin lokale header
+  for (const file of files) {
+    offsets.push(offset);
+    view.setUint32(offset, LOCAL_HEADER, true);
+    view.setUint16(offset + 4, 20, true); // Versjon 2.0
+    view.setUint16(offset + 6, 0x0800, true); // Filnavn i UTF-8
+    view.setUint16(offset + 8, 0, true); // Ukomprimert
+    view.setUint16(offset + 12, 0x21, true); // 1980-01-01
+    view.setUint32(offset + 14, file.crc, true);
+    view.setUint32(offset + 18, file.data.length, true);
+    view.setUint32(offset + 22, file.data.length, true);
+    view.setUint16(offset + 26, file.nameBytes.length, true);
+    output.set(file.nameBytes, offset + 30);
+    output.set(file.data, offset + 30 + file.nameBytes.length);
+    offset += 30 + file.nameBytes.length + file.data.length;
+  }
+
+  // Innholdsfortegnelsen
+  const centralStart = offset;
+  files.forEach((file, i) => {
+    view.setUint32(offset, CENTRAL_HEADER, true);
+    view.setUint16(offset + 4, 20, true);
+    view.setUint16(offset + 6, 20, true);
+    view.setUint16(offset + 8, 0x0800, true);
+    view.setUint16(offset + 10, 0, true);
+    view.setUint16(offset + 14, 0x21, true);
+    view.setUint32(offset + 16, file.crc, true);
+    view.setUint32(offset + 20, file.data.length, true);
+    view.setUint32(offset + 24, file.data.length, true);
+    view.setUint16(offset + 28, file.nameBytes.length, true);
+    view.setUint32(offset + 42, offsets[i], true);
+    output.set(file.nameBytes, offset + 46);
+    offset += 46 + file.nameBytes.length;
+  });
+
+  view.setUint32(offset, END_OF_DIRECTORY, true);
+  view.setUint16(offset + 8, files.length, true);
+  view.setUint16(offset + 10, files.length, true);
+  view.setUint32(offset + 12, offset - centralStart, true);
+  view.setUint32(offset + 16, centralStart, true);
+  return output;
+}
+
+/**
+ * readZip: Les filene i en zip-fil (ukomprimert eller deflate)
+ *
+ * @throws Error hvis filen ikke er en zip-fil
+ */
+async function readZip(buffer: ArrayBuffer): Promise<Map<string, Uint8Array>> {
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+  const decoder = new TextDecoder();
+
+  // Slutten av innholdsfortegnelsen ligger bakerst (etter en ev. kommentar)
+  let end = bytes.length - 22;
+  while (end >= 0 && view.getUint32(end, true) !== END_OF_DIRECTORY) end--;
+  if (end < 0) throw new Error('Filen er ikke en gyldig Excel-fil');
+
+  const files = new Map<string, Uint8Array>();
+  let offset = view.getUint32(end + 16, true);
+  const count = view.getUint16(end + 10, true);
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_HEADER) throw new Error('Filen er ikke en gyldig Excel-fil');
+    const method = view.getUint16(offset + 10, true);
+    const size = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const raw = bytes.subarray(dataStart, dataStart + size);
+    if (method === 0) {
+      files.set(name, raw);
+    } else if (method === 8) {
+      const stream = new Blob([raw]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+      files.set(name, new Uint8Array(await new Response(stream).arrayBuffer()));
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return files;
+}
+
+/**
+ * parseXml: Tekst → XML-dokument
+ */
+function parseXml(data: Uint8Array | undefined): Document | null {
+  if (!data) return null;
+  return new DOMParser().parseFromString(new TextDecoder().decode(data), 'application/xml');
+}
+
+/**
+ * getElements: Elementer med et navn, uansett prefiks (navnerom)
+ */
+function getElements(parent: Document | Element, name: string): Element[] {
+  return Array.from(parent.getElementsByTagNameNS('*', name));
+}
+
+/**
+ * getFirstSheetPath: Stien til første regneark i arbeidsboken
+ */
+function getFirstSheetPath(files: Map<string, Uint8Array>): string | undefined {
+  const workbook = parseXml(files.get('xl/workbook.xml'));
+  const rels = parseXml(files.get('xl/_rels/workbook.xml.rels'));
+  const sheetRel = workbook && getElements(workbook, 'sheet')[0]?.getAttributeNS(
+    'http://schemas.openxmlformats.org/officeDocument/2006/relationships', 'id'
+  );
+  const target = rels && getElements(rels, 'Relationship').find((r) => r.getAttribute('Id') === sheetRel)?.getAttribute('Target');
+  if (target) return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+  return [...files.keys()].filter((name) => name.startsWith('xl/worksheets/')).sort()[0];
+}
+
+// =============================================================================
+// FUNKSJONER
+// =============================================================================
+
+/**
+ * createXlsx: Lag en XLSX-fil med ett regneark
+ *
+ * Første rad blir frosset (overskrift) når `freezeHeader` er satt.
+ *
+ * @param rows - Rader med celler (tekst, tall eller tom)
+ * @param sheetName - Navnet på arket (maks 31 tegn)
+ * @param freezeHeader - Frys første rad
+ * @returns Filen som bytes
+ *
+ * @example
+ * const data = createXlsx([['Dato', 'Snødybde'], ['2026-01-05', 12]], 'Brøytinger', true);
+ * new Blob([data], { type: XLSX_MIME_TYPE });
+ */
+export function createXlsx(rows: XlsxCell[][], sheetName: string, freezeHeader = false): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const xml = (body: string) => encoder.encode(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n${body}`);
+
+  const sheetRows = rows.map((row, r) => {
+    const cells = row.map((value, c) => {
+      const ref = `${getColumnName(c)}${r + 1}`;
+      if (value === null || value === '') return '';
+      if (typeof value === 'number') return Number.isFinite(value) ? `<c r="${ref}"><v>${value}</v></c>` : '';
+      return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+    });
+    return `<row r="${r + 1}">${cells.join('')}</row>`;
+  });
+  const pane = freezeHeader
+    ? '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>'
+    : '';
+
+  return createZip([
+    {
+      name: '[Content_Types].xml',
+      data: xml('<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+        + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+        + '<Default Extension="xml" ContentType="application/xml"/>'
+        + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+        + '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+        + '</Types>'),
+    },
+    {
+      name: '_rels/.rels',
+      data: xml('<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+        + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+        + '</Relationships>'),
+    },
+    {
+      name: 'xl/workbook.xml',
+      data: xml('<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">'
+        + `<sheets><sheet name="${escapeXml(sheetName.slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets>`
+        + '</workbook>'),
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      data: xml('<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+        + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>'
+        + '</Relationships>'),
+    },
+    {
+      name: 'xl/worksheets/sheet1.xml',
+      data: xml('<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+        + `${pane}<sheetData>${sheetRows.join('')}</sheetData></worksheet>`),
+    },
+  ]);
+}
+
+/**
+ * readXlsx: Les første regneark i en XLSX-fil som tabell
+ *
+ * Alle verdier blir tekst. Datoer lagres som tall i Excel (dager
+ * siden 1900), og må tolkes av den som leser (se historyImport).
+ *
+ * @param buffer - Filinnholdet
+ * @returns Rader med celler (tomme celler = "")
+ * @throws Error hvis filen ikke kan leses
+ */
+export async function readXlsx(buffer: ArrayBuffer): Promise<string[][]> {
+  const files = await readZip(buffer);
+  const sheetPath = getFirstSheetPath(files);
+  const sheet = sheetPath ? parseXml(files.get(sheetPath)) : null;
+  if (!sheet) throw new Error('Fant ingen regneark i filen');
+
+  const sharedDoc = parseXml(files.get('xl/sharedStrings.xml'));
+  const shared = sharedDoc
+    ? getElements(sharedDoc, 'si').map((si) => getElements(si, 't').map((t) => t.textContent ?? '').join(''))
+    : [];
+
+  const rows: string[][] = [];
+  for (const row of getElements(sheet, 'row')) {
+    const index = Number(row.getAttribute('r') ?? rows.length + 1) - 1;
+    const values: string[] = [];
+    getElements(row, 'c').forEach((cell, position) => {
+      const ref = cell.getAttribute('r');
+      const column = ref ? getColumnIndex(ref) : position;
+      const type = cell.getAttribute('t');
+      const raw = getElements(cell, 'v')[0]?.textContent ?? '';
+      values[column] = type === 's'
+        ? shared[Number(raw)] ?? ''
+        : type === 'inlineStr'
+          ? getElements(cell, 't').map((t) => t.textContent ?? '').join('')
+          : raw;
+    });
+    rows[index] = Array.from(values, (value) => value ?? '');
+  }
+
+  return Array.from(rows, (row) => row ?? []);
+}
@@ -0,0 +1,259 @@
+/**
+ * auth.ts: Innlogging med Supabase Auth
+ *
+ * Hver enhet logges inn anonymt første gang den synkroniserer, og
+ * blir eier av sin egen eiendom (se services/properties). Kontoen kan
+ * senere få e-post og passord (saveAccount), slik at samme bruker kan
+ * logge inn på andre enheter (signIn).
+ *
+ * Sesjonen lagres i IndexedDB og fornyes automatisk før den utløper.
+ * Tilgangen til data styres av RLS ut fra medlemskap i eiendommer,
+ * så alle kall mot tabellene sender brukerens token.
+ *
+ * Supabase Auth (GoTrue) brukes via fetch, som PostgREST-klienten.
+ *
+ * @see https://supabase.com/docs/guides/auth/auth-anonymous
+ */
+
+import { clearAuthSession, getAuthSession, saveAuthSession } from './repository';
+
+// =============================================================================
+// KONSTANTER
+// =============================================================================
+
+/**
+ * REFRESH_MARGIN_MS: Forny sesjonen så lenge før den utløper
+ */
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+// =============================================================================
+// INTERFACES
+// =============================================================================
+
+/**
+ * AuthSession: Innlogget bruker
+ *
+ * @property accessToken - JWT som sendes til PostgREST
+ * @property refreshToken - Brukes til å fornye sesjonen
+ * @property expiresAt - Når tokenet utløper (ms siden 1970)
+ * @property userId - Brukerens ID
+ * @property email - E-post, eller null for anonyme brukere
+ */
+export interface AuthSession {
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: number;
+  userId: string;
+  email: string | null;
+}
+
+/**
+ * AuthClient: Kall mot Supabase Auth
+ *
+ * Kan byttes ut (f.eks. i tester) ved å sende inn en egen klient.
+ */
+export interface AuthClient {
+  signInAnonymously: () => Promise<AuthSession>;
+  signInWithPassword: (email: string, password: string) => Promise<AuthSession>;
+  refreshSession: (refreshToken: string) => Promise<AuthSession>;
+  updateUser: (accessToken: string, changes: { email: string; password: string }) => Promise<void>;
+  signOut: (accessToken: string) => Promise<void>;
+}
+
+/**
+ * GoTrueSession: Sesjon slik Supabase Auth returnerer den
+ */
+interface GoTrueSession {
+  access_token: string;
+  refresh_token: string;
+  expires_in: number;
+  user: {
+    id: string;
+    email?: string;
+  };
+}
+
+// =============================================================================
+// KLIENT
+// =============================================================================
+
+/**
+ * createAuthClient: Lag en klient mot Supabase Auth
+ *
+ * @param authUrl - Adressen til Auth-API-et (f.eks. "https://xyz.supabase.co/auth/v1")
+ * @param apiKey - Offentlig nøkkel (anon key)
+ * @returns AuthClient som bruker fetch
+ */
+export function createAuthClient(authUrl: string, apiKey: string): AuthClient {
+  const request = async (path: string, init: RequestInit = {}): Promise<Response> => {
+    const response = await fetch(`${authUrl}/${path}`, {
+      ...init,
+      headers: { 'apikey': apiKey, 'Content-Type': 'application/json', ...init.headers },
+    });
+
+    if (!response.ok) {
+      // Auth forklarer feilen i `msg` eller `error_description`
+      const body: { msg?: string; message?: string; error_description?: string } = await response.json().catch(() => ({}));
+      const reason = body.msg ?? body.error_description ?? body.message;
+      throw new Error(`Innlogging feilet: ${response.status}${reason ? ` (${reason})` : ''}`);
+    }
+    return response;
+  };
+
+  const toSession = async (response: Response): Promise<AuthSession> => {
+    const body: GoTrueSession = await response.json();
+    return {
+      accessToken: body.access_token,
+      refreshToken: body.refresh_token,
+      expiresAt: Date.now() + body.expires_in * 1000,
+      userId: body.user.id,
+      email: body.user.email || null,
+    };
+  };
+
+  return {
+    signInAnonymously: async () =>
+      toSession(await request('signup', { method: 'POST', body: JSON.stringify({}) })),
+
+    signInWithPassword: async (email, password) =>
+      toSession(await request('token?grant_type=password', { method: 'POST', body: JSON.stringify({ email, password }) })),
+
+    refreshSession: async (refreshToken) =>
+      toSession(await request('token?grant_type=refresh_token', {
+        method: 'POST',
+        body: JSON.stringify({ refresh_token: refreshToken }),
+      })),
+
+    updateUser: async (accessToken, changes) => {
+      await request('user', {
+        method: 'PUT',
+        headers: { 'Authorization': `Bearer ${accessToken}` },
+        body: JSON.stringify(changes),
+      });
+    },
+
+    signOut: async (accessToken) => {
+      await request('logout', { method: 'POST', headers: { 'Authorization': `Bearer ${accessToken}` } });
+    },
+  };
+}
+
+/**
+ * getDefaultAuthClient: Klient fra VITE_SUPABASE_URL og VITE_SUPABASE_ANON_KEY
+ *
+ * @returns AuthClient, eller null hvis Supabase ikke er satt opp
+ */
+export function getDefaultAuthClient(): AuthClient | null {
+  const projectUrl = (import.meta.env.VITE_SUPABASE_URL ?? '').replace(/\/$/, '');
+  return projectUrl ? createAuthClient(`${projectUrl}/auth/v1`, import.meta.env.VITE_SUPABASE_ANON_KEY ?? '') : null;
+}
+
+// =============================================================================
+// SESJON
+// =============================================================================
+
+let currentSession: AuthSession | null = null;
+let pendingSession: Promise<AuthSession> | null = null;
+
+/**
+ * resolveSession: Gyldig sesjon (fornyet eller ny anonym ved behov)
+ */
+async function resolveSession(client: AuthClient): Promise<AuthSession> {
+  const saved = currentSession ?? await getAuthSession();
+  if (saved && saved.expiresAt - REFRESH_MARGIN_MS > Date.now()) {
+    currentSession = saved;
+    return saved;
+  }
+
+  const session = saved
+    ? await client.refreshSession(saved.refreshToken)
+    : await client.signInAnonymously();
+  await saveAuthSession(session);
+  currentSession = session;
+  return session;
+}
+
+/**
+ * getSession: Innlogget bruker
+ *
+ * Første gang logges enheten inn anonymt. Samtidige kall deler
+ * samme innlogging eller fornying.
+ *
+ * @param client - Auth-klient
+ * @returns Gyldig sesjon
+ * @throws Error hvis Supabase ikke kan nås eller sesjonen ikke kan fornyes
+ */
+export function getSession(client: AuthClient): Promise<AuthSession> {
+  if (!pendingSession) {
+    pendingSession = resolveSession(client).finally(() => {
+      pendingSession = null;
+    });
+  }
+  return pendingSession;
+}
+
+/**
+ * getStoredSession: Lagret sesjon uten å logge inn eller fornye
+ *
+ * @returns Sesjonen, eller null hvis enheten ikke er logget inn
+ */
+export async function getStoredSession(): Promise<AuthSession | null> {
+  return currentSession ?? getAuthSession();
+}
+
+/**
+ * signIn: Logg inn med e-post og passord
+ *
+ * Erstatter den nåværende brukeren på enheten. Bytt deretter
+ * eiendom (se resetActiveProperty i services/sync).
+ *
+ * @param client - Auth-klient
+ * @param email - E-post
+ * @param password - Passord
+ * @returns Ny sesjon
+ * @throws Error ved feil e-post/passord
+ */
+export async function signIn(client: AuthClient, email: string, password: string): Promise<AuthSession> {
+  const session = await client.signInWithPassword(email.trim(), password);
+  await saveAuthSession(session);
+  currentSession = session;
+  return session;
+}
+
+/**
+ * saveAccount: Gi den anonyme brukeren e-post og passord
+ *
+ * Brukeren beholder ID og medlemskap. Krever at e-postbekreftelse
+ * er slått av, eller at e-posten bekreftes via lenken Supabase sender.
+ *
+ * @param client - Auth-klient
+ * @param email - E-post
+ * @param password - Passord (minst 6 tegn)
+ * @returns Oppdatert sesjon
+ */
+export async function saveAccount(client: AuthClient, email: string, password: string): Promise<AuthSession> {
+  const session = await getSession(client);
+  await client.updateUser(session.accessToken, { email: email.trim(), password });
+
+  const updated = { ...session, email: email.trim() };
+  await saveAuthSession(updated);
+  currentSession = updated;
+  return updated;
+}
+
+/**
+ * signOut: Logg ut fra enheten
+ *
+ * Neste synkronisering logger inn som en ny anonym bruker.
+ * Feil fra serveren ignoreres; sesjonen fjernes lokalt uansett.
+ *
+ * @param client - Auth-klient
+ */
+export async function signOut(client: AuthClient): Promise<void> {
+  const session = await getStoredSession();
+  if (session) {
+    await client.signOut(session.accessToken).catch((error) => console.error('Failed to sign out:', error));
+  }
+  await clearAuthSession();
+  currentSession = null;
+}
@@ -0,0 +1,294 @@
+/**
+ * frost.ts: Observasjoner fra Meteorologisk institutt (Frost API)
+ *
+ * Frost gir historiske målinger fra MET sine værstasjoner.
+ * Vi bruker det for å sammenligne prognose, observasjon og
+ * egne målinger for hver brøyting:
+ * - Finne nærmeste stasjon som måler snødybde
+ * - Hente observert snødybde og døgnnedbør
+ *
+ * Frost krever en klient-ID (gratis), satt i VITE_FROST_CLIENT_ID.
+ * Klienten kan byttes ut (f.eks. med testdata) ved å sende inn
+ * en egen `FrostClient` til funksjonene.
+ *
+ * API-Dokumentasjon: https://frost.met.no/api.html
+ */
+
+import type { SnowEntry } from '../types';
+import { isValidCoordinate } from '../lib/validation';
+
+// =============================================================================
+// INTERFACES
+// =============================================================================
+
+/**
+ * FrostClient: Funksjon som henter `data` fra et Frost-endepunkt
+ *
+ * @param path - Endepunkt (f.eks. "/sources/v0.jsonld")
+ * @param params - Query-parametre
+ * @returns Innholdet i `data`, eller tom liste hvis Frost ikke har data
+ */
+export type FrostClient = <T>(path: string, params: Record<string, string>) => Promise<T[]>;
+
+/**
+ * FrostStation: Værstasjon fra Frost
+ *
+ * @property id - Stasjons-ID (f.eks. "SN18700")
+ * @property name - Stasjonsnavn (f.eks. "OSLO - BLINDERN")
+ * @property distance - Avstand fra lokasjonen i km
+ */
+export interface FrostStation {
+  id: string;
+  name: string;
+  distance: number;
+}
+
+/**
+ * DailyObservation: Observasjoner for ett døgn
+ *
+ * @property date - Dato (YYYY-MM-DD, UTC)
+ * @property snowDepth - Observert snødybde i cm (null hvis ikke målt)
+ * @property precipitation - Døgnnedbør i mm (null hvis ikke målt)
+ */
+export interface DailyObservation {
+  date: string;
+  snowDepth: number | null;
+  precipitation: number | null;
+}
+
+/**
+ * EntryObservation: Observasjoner knyttet til én brøyting
+ *
+ * @property snowDepth - Observert snødybde samme døgn (cm)
+ * @property precipitation - Nedbør siden forrige brøyting (mm)
+ */
+export interface EntryObservation {
+  snowDepth: number | null;
+  precipitation: number | null;
+}
+
+/**
+ * FrostSource / FrostObservationSeries: Interne typer for API-respons
+ */
+interface FrostSource {
+  id: string;
+  name: string;
+  distance?: number;
+}
+
+interface FrostObservationSeries {
+  referenceTime: string;
+  observations: {
+    elementId: string;
+    value: number;
+  }[];
+}
+
+// =============================================================================
+// KONSTANTER
+// =============================================================================
+
+/**
+ * FROST_BASE_URL: Frost API endepunkt
+ */
+const FROST_BASE_URL = 'https://frost.met.no';
+
+/**
+ * ELEMENTS: Hvilke målinger vi henter
+ *
+ * - surface_snow_thickness: Snødybde (cm), målt én gang i døgnet
+ * - sum(precipitation_amount P1D): Nedbør siste døgn (mm)
+ *
+ * @see https://frost.met.no/elementtable
+ */
+const ELEMENTS = {
+  SNOW_DEPTH: 'surface_snow_thickness',
+  PRECIPITATION: 'sum(precipitation_amount P1D)',
+};
+
+/**
+ * stationCache: Nærmeste stasjon per koordinat
+ *
+ * Stasjonslisten endres sjelden, så én oppslag per økt holder.
+ */
+const stationCache = new Map<string, FrostStation | null>();
+
+// =============================================================================
+// KLIENT
+// =============================================================================
+
+/**
+ * createFrostClient: Lag en klient mot Frost API
+ *
+ * Frost bruker HTTP Basic Auth med klient-ID som brukernavn
+ * og tomt passord. 404/412 betyr at det ikke finnes data
+ * for forespørselen, og gir en tom liste.
+ *
+ * @param clientId - Klient-ID fra https://frost.met.no/auth/requestCredentials.html
+ * @returns FrostClient som bruker fetch
+ */
+export function createFrostClient(clientId: string): FrostClient {
+  return async <T>(path: string, params: Record<string, string>): Promise<T[]> => {
+    const query = new URLSearchParams(params);
+    const response = await fetch(`${FROST_BASE_URL}${path}?${query}`, {
+      headers: {
+        'Authorization': `Basic ${btoa(`${clientId}:`)}`,
+        'Accept': 'application/json',
+      },
+    });
+
+    if (response.status === 404 || response.status === 412) {
+      return [];
+    }
+
+    if (!response.ok) {
+      throw new Error(`Frost-API feilet: ${response.status}`);
+    }
+
+    const body: { data?: T[] } = await response.json();
+    return body.data ?? [];
+  };
+}
+
+/**
+ * getDefaultFrostClient: Klient fra VITE_FROST_CLIENT_ID
+ *
+ * @returns FrostClient, eller null hvis klient-ID mangler
+ */
+export function getDefaultFrostClient(): FrostClient | null {
+  const clientId = import.meta.env.VITE_FROST_CLIENT_ID;
+  return clientId ? createFrostClient(clientId) : null;
+}
+
+// =============================================================================
+// FUNKSJONER
+// =============================================================================
+
+/**
+ * findNearestStation: Finn nærmeste stasjon som måler snødybde
+ *
+ * @param lat - Breddegrad
+ * @param lon - Lengdegrad
+ * @param client - Frost-klient
+ * @returns Nærmeste stasjon, eller null hvis ingen finnes
+ * @throws Error ved ugyldige koordinater eller API-feil
+ *
+ * @example
+ * const stasjon = await findNearestStation(59.9139, 10.7522, client);
+ * console.log(stasjon?.name); // "OSLO - BLINDERN"
+ */
+export async function findNearestStation(
+  lat: number,
+  lon: number,
+  client: FrostClient
+): Promise<FrostStation | null> {
+  if (!isValidCoordinate(lat, lon)) {
+    throw new Error('Ugyldige koordinater');
+  }
+
+  const key = `${lat.toFixed(4)},${lon.toFixed(4)}`;
+  if (stationCache.has(key)) {
+    return stationCache.get(key) ?? null;
+  }
+
+  const sources = await client<FrostSource>('/sources/v0.jsonld', {
+    types: 'SensorSystem',
+    elements: ELEMENTS.SNOW_DEPTH,
+    geometry: `nearest(POINT(${lon.toFixed(4)} ${lat.toFixed(4)}))`,
+    nearestmaxcount: '1',
+  });
+
+  const station = sources[0]
+    ? { id: sources[0].id, name: sources[0].name, distance: Math.round(sources[0].distance ?? 0) }
+    : null;
+
+  stationCache.set(key, station);
+  return station;
+}
+
+/**
+ * fetchObservations: Hent døgnobservasjoner for en stasjon
+ *
+ * @param stationId - Stasjons-ID (f.eks. "SN18700")
+ * @param from - Første dato (YYYY-MM-DD)
+ * @param to - Siste dato (YYYY-MM-DD, ikke inkludert)
+ * @param client - Frost-klient
+ * @returns Observasjoner sortert etter dato
+ *
+ * @example
+ * const obs = await fetchObservations('SN18700', '2026-01-01', '2026-02-01', client);
+ */
+export async function fetchObservations(
+  stationId: string,
+  from: string,
+  to: string,
+  client: FrostClient
+): Promise<DailyObservation[]> {
+  const series = await client<FrostObservationSeries>('/observations/v0.jsonld', {
+    sources: stationId,
+    referencetime: `${from}/${to}`,
+    elements: `${ELEMENTS.SNOW_DEPTH},${ELEMENTS.PRECIPITATION}`,
+  });
+
+  // Slå sammen målinger fra samme døgn
+  const byDate = new Map<string, DailyObservation>();
+
+  for (const item of series) {
+    const date = item.referenceTime.slice(0, 10);
+    const day = byDate.get(date) ?? { date, snowDepth: null, precipitation: null };
+
+    for (const observation of item.observations) {
+      if (observation.elementId === ELEMENTS.SNOW_DEPTH) {
+        // Negative verdier brukes for "flekkvis snø"/"ingen snø"
+        day.snowDepth = Math.max(0, observation.value);
+      } else if (observation.elementId === ELEMENTS.PRECIPITATION) {
+        day.precipitation = observation.value;
+      }
+    }
+
+    byDate.set(date, day);
+  }
+
+  return [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * getEntryObservation: Koble observasjoner til én brøyting
+ *
+ * - Snødybde: måling samme døgn (eller døgnet før hvis den mangler)
+ * - Nedbør: sum av døgnnedbør siden forrige brøyting
+ *
+ * @param entry - Brøytingen
+ * @param previous - Forrige brøyting på samme sted (eller null)
+ * @param observations - Døgnobservasjoner sortert etter dato
+ * @returns Observert snødybde og nedbør
+ */
+export function getEntryObservation(
+  entry: SnowEntry,
+  previous: SnowEntry | null,
+  observations: DailyObservation[]
+): EntryObservation {
+  const entryDate = entry.timestamp.slice(0, 10);
+  const dayBefore = new Date(new Date(entryDate).getTime() - 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  const previousDate = previous ? previous.timestamp.slice(0, 10) : null;
+
+  let snowDepth: number | null = null;
+  let precipitation: number | null = null;
+
+  for (const day of observations) {
+    if (day.date > entryDate) break;
+
+    if (day.date >= dayBefore && day.snowDepth !== null) {
+      snowDepth = day.snowDepth;
+    }
+
+    if (previousDate && day.date > previousDate && day.precipitation !== null) {
+      precipitation = (precipitation ?? 0) + day.precipitation;
+    }
+  }
+
+  return {
+    snowDepth,
+    precipitation: precipitation === null ? null : Math.round(precipitation * 10) / 10,
+  };
+}
@@ -9,12 +9,14 @@
  * @property lat - Breddegrad
  * @property lon - Lengdegrad
  * @property display_name - Full adresse
+ * @property countryCode - Landkode (f.eks. "no"), brukes til å finne tidssonen
  */
 export interface GeocodingResult {
   name: string;
   lat: number;
   lon: number;
   display_name: string;
+  countryCode?: string;
 }
 
 /**
@@ -25,6 +27,7 @@ interface NominatimPlace {
   lat: string;
   lon: string;
   display_name: string;
+  address?: { country_code?: string };
 }
 
 // =============================================================================
@@ -133,6 +136,7 @@ export async function searchPlaces(query: string): Promise<GeocodingResult[]> {
       lat: parseFloat(item.lat),
       lon: parseFloat(item.lon),
       display_name: item.display_name,
+      countryCode: item.address?.country_code,
     }));
   } catch (error) {
     console.error('Geocoding error:', error);
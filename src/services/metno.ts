@@ -10,22 +10,90 @@
  * API-Dokumentasjon: https://api.met.no/weatherapi/locationforecast/2.0/
  */
 
-import type { MetNoResponse, WeatherData, HourlyForecast, PrecipitationType } from '../types';
+import type {
+  MetNoResponse,
+  MetNoTimeseries,
+  MetNoNowcastResponse,
+  WeatherData,
+  HourlyForecast,
+  PrecipitationType,
+  NowcastData,
+} from '../types';
 import { isValidCoordinate } from '../lib/validation';
+import { getFromLocalStorage, setToLocalStorage } from '../hooks/useLocalStorage';
 
 // =============================================================================
 // KONSTANTER
 // =============================================================================
 
 /**
- * BASE_URL: Met.no API endepunkt
+ * BASE_URL: Met.no API endepunkt (uten variant)
  * 
- * LocationForecast 2.0 Compact er den minste versjonen av API-et
- * og inneholder kun nødvendig data for denne appen.
+ * LocationForecast 2.0 finnes i to varianter:
+ * - compact: Kun forventet verdi (median)
+ * - complete: I tillegg min/max-anslag og sannsynlighet for nedbør
  * 
- * @see https://api.met.no/weatherapi/locationforecast/2.0/compact
+ * @see https://api.met.no/weatherapi/locationforecast/2.0/documentation
  */
-const BASE_URL = 'https://api.met.no/weatherapi/locationforecast/2.0/compact';
+const BASE_URL = 'https://api.met.no/weatherapi/locationforecast/2.0';
+
+/**
+ * NOWCAST_URL: Met.no Nowcast 2.0 (radar, 5-minutters oppløsning)
+ * 
+ * @see https://api.met.no/weatherapi/nowcast/2.0/documentation
+ */
+const NOWCAST_URL = 'https://api.met.no/weatherapi/nowcast/2.0/complete';
+
+/**
+ * NOWCAST_STEP_MS: Lengden på ett Nowcast-steg (5 minutter)
+ */
+const NOWCAST_STEP_MS = 5 * 60 * 1000;
+
+/**
+ * ForecastVariant: Hvilken variant av Locationforecast som hentes
+ */
+export type ForecastVariant = 'compact' | 'complete';
+
+/**
+ * MAX_PAST_HOURS: Hvor mange passerte timer som beholdes
+ * 
+ * Passerte timer brukes av snødybde-modellen for å regne snøfall
+ * siden siste brøyting. 14 døgn dekker lange perioder uten brøyting.
+ */
+const MAX_PAST_HOURS = 14 * 24;
+
+/**
+ * CACHE_STORAGE_KEY: localStorage-nøkkel for HTTP-cachen
+ * 
+ * Ligger i localStorage (ikke i minnet) slik at flere åpne faner
+ * deler samme cache og ikke henter samme prognose hver for seg.
+ */
+const CACHE_STORAGE_KEY = 'snomaking_metno_cache';
+
+/**
+ * USER_AGENT: Påkrevd av Met.no for identifikasjon (endre e-post til din)
+ */
+const USER_AGENT = 'Snoklar/1.0 (kontakt@example.com)';
+
+/**
+ * DEFAULT_CACHE_MS: Levetid hvis Met.no ikke sender Expires
+ */
+const DEFAULT_CACHE_MS = 30 * 60 * 1000;
+
+/**
+ * THROTTLE_BACKOFF_MS: Pause etter 429 Too Many Requests
+ * 
+ * Brukes når svaret mangler Retry-After.
+ */
+const THROTTLE_BACKOFF_MS = 10 * 60 * 1000;
+
+/**
+ * CACHE_RETENTION_MS: Hvor lenge utløpte oppføringer beholdes
+ * 
+ * Utløpte oppføringer trengs for If-Modified-Since, men oppføringer
+ * for steder som ikke lenger hentes ryddes bort etter et døgn.
+ */
+const CACHE_RETENTION_MS = 24 * 60 * 60 * 1000;
 
 /**
  * weatherConditionEmojis: Værkode → Emoji mapping
@@ -93,10 +161,147 @@ const weatherConditionLabels: Record<string, string> = {
   unknown: 'Klarvær',
 };
 
+// =============================================================================
+// INTERFACES
+// =============================================================================
+
+/**
+ * CachedForecast: Én prognose i HTTP-cachen
+ * 
+ * @property expires - Når prognosen kan hentes på nytt (ms siden epoch)
+ * @property lastModified - Last-Modified fra Met.no (sendes som If-Modified-Since)
+ * @property data - Ferdig parsede data (WeatherData eller NowcastData)
+ */
+export interface CachedForecast<T = unknown> {
+  expires: number;
+  lastModified: string | null;
+  data: T;
+}
+
+/**
+ * MetNoCache: Lagring for HTTP-cachen
+ * 
+ * Appen bruker localStorage (delt mellom faner); push-relayet
+ * bruker en cache i minnet.
+ * 
+ * @property read - Hent én prognose (eller undefined)
+ * @property write - Lagre én prognose
+ */
+export interface MetNoCache {
+  read: (key: string) => CachedForecast | undefined;
+  write: (key: string, entry: CachedForecast) => void;
+}
+
+/**
+ * MetNoRequestOptions: Hvor cachen ligger og hvem som spør
+ * 
+ * @property cache - Lagring for HTTP-cachen (standard localStorage)
+ * @property userAgent - Identifikasjon overfor Met.no (standard appens)
+ */
+export interface MetNoRequestOptions {
+  cache?: MetNoCache;
+  userAgent?: string;
+}
+
 // =============================================================================
 // HJELPEFUNKSJONER
 // =============================================================================
 
+/**
+ * inFlight: Pågående forespørsler per cache-nøkkel
+ * 
+ * Hindrer at to samtidige kall for samme koordinat gir to forespørsler.
+ */
+const inFlight = new Map<string, Promise<unknown>>();
+
+/**
+ * throttledUntil: Når vi tidligst kan spørre igjen etter 429 uten cache
+ * 
+ * Med cache forlenges cache-oppføringen i stedet (se requestCached).
+ */
+const throttledUntil = new Map<string, number>();
+
+/**
+ * roundCoordinate: Rund av koordinat til 4 desimaler
+ * 
+ * Met.no krever maks 4 desimaler, flere gir 403 og dårligere caching.
+ * 
+ * @param value - Breddegrad eller lengdegrad
+ * @returns Avrundet koordinat
+ */
+function roundCoordinate(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+/**
+ * getCacheKey: Nøkkel for én prognose i cachen
+ * 
+ * @param product - Variant av Locationforecast, eller "nowcast"
+ */
+function getCacheKey(lat: number, lon: number, product: ForecastVariant | 'nowcast'): string {
+  return `${product}:${lat},${lon}`;
+}
+
+/**
+ * readCache: Hent hele HTTP-cachen fra localStorage
+ */
+function readCache(): Record<string, CachedForecast> {
+  return getFromLocalStorage<Record<string, CachedForecast>>(CACHE_STORAGE_KEY, {});
+}
+
+/**
+ * writeCacheEntry: Lagre én prognose og rydd bort gamle oppføringer
+ * 
+ * @param key - Cache-nøkkel
+ * @param entry - Prognosen som skal lagres
+ */
+function writeCacheEntry(key: string, entry: CachedForecast): void {
+  const now = Date.now();
+  const cache = readCache();
+  
+  Object.keys(cache).forEach((k) => {
+    if (cache[k].expires + CACHE_RETENTION_MS < now) delete cache[k];
+  });
+  
+  setToLocalStorage(CACHE_STORAGE_KEY, { ...cache, [key]: entry });
+}
+
+/**
+ * localStorageCache: Appens HTTP-cache (localStorage)
+ */
+const localStorageCache: MetNoCache = {
+  read: (key) => readCache()[key],
+  write: writeCacheEntry,
+};
+
+/**
+ * parseExpires: Les Expires-headeren
+ * 
+ * @param response - Svar fra Met.no
+ * @returns Utløpstid i ms, eller standard levetid hvis headeren mangler
+ */
+function parseExpires(response: Response): number {
+  const expires = Date.parse(response.headers.get('Expires') ?? '');
+  return Number.isNaN(expires) ? Date.now() + DEFAULT_CACHE_MS : expires;
+}
+
+/**
+ * parseRetryAfter: Les Retry-After (sekunder eller dato) etter 429
+ * 
+ * @param response - Svar fra Met.no
+ * @returns Tidspunkt (ms) da vi tidligst kan prøve igjen
+ */
+function parseRetryAfter(response: Response): number {
+  const header = response.headers.get('Retry-After');
+  if (header) {
+    const seconds = Number(header);
+    if (!Number.isNaN(seconds)) return Date.now() + seconds * 1000;
+    const date = Date.parse(header);
+    if (!Number.isNaN(date)) return date;
+  }
+  return Date.now() + THROTTLE_BACKOFF_MS;
+}
+
 /**
  * getWeatherConditionEmoji: Hent emoji for værkode
  * 
@@ -104,7 +309,7 @@ const weatherConditionLabels: Record<string, string> = {
  * @returns Emoji som representerer været
  */
 export function getWeatherConditionEmoji(condition: string): string {
-  return weatherConditionEmojis[condition] || '☀️';
+  return weatherConditionEmojis[getSymbolBase(condition)] || '☀️';
 }
 
 /**
@@ -114,33 +319,90 @@ export function getWeatherConditionEmoji(condition: string): string {
  * @returns Norsk tekst som beskriver været
  */
 export function getWeatherConditionLabel(condition: string): string {
-  return weatherConditionLabels[condition] || 'Klarvær';
+  return weatherConditionLabels[getSymbolBase(condition)] || 'Klarvær';
+}
+
+/**
+ * PrecipitationPhase: Resultat av fase-klassifisering
+ * 
+ * @property type - Type nedbør (snø, sludd eller regn)
+ * @property snowFraction - Andel av nedbøren som regnes som snø (0-1)
+ * @property source - Om fasen kom fra Met.no-symbol eller temperatur
+ */
+export interface PrecipitationPhase {
+  type: PrecipitationType;
+  snowFraction: number;
+  source: 'symbol' | 'temperature';
+}
+
+/**
+ * getSymbolBase: Fjern døgn-suffiks fra symbolkode
+ * 
+ * Met.no legger til _day, _night eller _polartwilight på enkelte
+ * symboler (f.eks. "snowshowers_day"). Suffikset er irrelevant for fase.
+ * 
+ * @param symbolCode - Symbolkode fra Met.no
+ * @returns Symbolkode uten suffiks
+ */
+function getSymbolBase(symbolCode: string): string {
+  return symbolCode.replace(/_(day|night|polartwilight)$/, '');
 }
 
 /**
- * getPrecipitationType: Bestem type nedbør basert på temperatur
+ * getSnowProbabilityFromTemperature: Sannsynlighet for snø fra temperatur
  * 
- * Logikk:
- * - Hvis temp < 0.5°C → Snø ❄️
- * - Hvis temp 0.5-3°C → Sludd 🌨️
- * - Hvis temp > 3°C → Regn 🌧️
+ * Brukes kun når Met.no ikke gir et nedbørssymbol.
+ * Lineær overgang fra 100 % snø ved -0.5°C til 0 % ved 2.5°C,
+ * slik at 1°C gir 50/50 snø og regn.
  * 
  * @param temp - Temperatur i Celsius
- * @param precip - Nedbør i mm
- * @returns Type nedbør
+ * @returns Sannsynlighet for snø (0-1)
  */
-function getPrecipitationType(temp: number, precip: number): PrecipitationType {
-  // Hvis ingen nedbør, returner regn (for å unngå feil)
-  if (precip <= 0) return 'rain';
+function getSnowProbabilityFromTemperature(temp: number): number {
+  return Math.min(1, Math.max(0, (2.5 - temp) / 3));
+}
+
+/**
+ * classifyPrecipitation: Bestem nedbørsfase for én time
+ * 
+ * Én felles funksjon for både type og snømengde, slik at en time
+ * aldri kan være "sludd" og samtidig telle fullt som snø.
+ * 
+ * Prioritet:
+ * 1. Symbolkode fra Met.no (snow, sleet, rain og byge-varianter)
+ *    - snø → 100 % snø
+ *    - sludd → delvis snø (temperaturbasert, begrenset til 25-75 %)
+ *    - regn → 0 % snø
+ * 2. Temperaturbasert sannsynlighet hvis symbolet ikke sier noe om nedbør
+ * 
+ * @param symbolCode - Symbolkode fra next_1_hours/next_6_hours (valgfritt)
+ * @param temp - Temperatur i Celsius
+ * @returns Type nedbør og snøandel
+ * 
+ * @example
+ * classifyPrecipitation('lightsleetshowers_day', 1.2);
+ * // { type: 'sleet', snowFraction: 0.43, source: 'symbol' }
+ */
+export function classifyPrecipitation(symbolCode: string | undefined, temp: number): PrecipitationPhase {
+  const symbol = symbolCode ? getSymbolBase(symbolCode) : '';
   
-  // Under 0.5°C = snø
-  if (temp < 0.5) return 'snow';
+  if (symbol.includes('snow')) {
+    return { type: 'snow', snowFraction: 1, source: 'symbol' };
+  }
   
-  // 0.5-3°C = sludd
-  if (temp < 3) return 'sleet';
+  if (symbol.includes('sleet')) {
+    const fraction = Math.min(0.75, Math.max(0.25, getSnowProbabilityFromTemperature(temp)));
+    return { type: 'sleet', snowFraction: fraction, source: 'symbol' };
+  }
   
-  // Over 3°C = regn
-  return 'rain';
+  if (symbol.includes('rain')) {
+    return { type: 'rain', snowFraction: 0, source: 'symbol' };
+  }
+  
+  // Ingen nedbørssymbol: bruk temperatur
+  const probability = getSnowProbabilityFromTemperature(temp);
+  const type: PrecipitationType = probability >= 0.8 ? 'snow' : probability <= 0.2 ? 'rain' : 'sleet';
+  return { type, snowFraction: probability, source: 'temperature' };
 }
 
 // =============================================================================
@@ -151,13 +413,17 @@ function getPrecipitationType(temp: number, precip: number): PrecipitationType {
  * fetchWeatherData: Hent værdata fra Met.no API
  * 
  * Denne funksjonen:
- * 1. Bygger URL med koordinater
- * 2. Sender request med riktig headers
- * 3. Sjekker for feil
- * 4. Parser responsen til appens format
+ * 1. Runder av koordinater til 4 desimaler (krav fra Met.no)
+ * 2. Bruker cachet prognose hvis den ikke har utløpt (Expires)
+ * 3. Sender If-Modified-Since, og gjenbruker cachen ved 304 Not Modified
+ * 4. Ved 429 Too Many Requests brukes cachen til Retry-After har passert
+ * 5. Parser og cacher nye svar
+ * 
+ * @see https://api.met.no/doc/TermsOfService - Krav om caching
  * 
  * @param lat - Breddegrad
  * @param lon - Lengdegrad
+ * @param variant - 'complete' (standard) gir min/max og sannsynlighet
  * @returns WeatherData objekt
  * @throws Error hvis API-kall feiler
  * 
@@ -165,148 +431,403 @@ function getPrecipitationType(temp: number, precip: number): PrecipitationType {
  * const vær = await fetchWeatherData(59.9139, 10.7522);
  * console.log(vær.current.temperature); // -2.5
  */
-export async function fetchWeatherData(lat: number, lon: number): Promise<WeatherData> {
+export async function fetchWeatherData(
+  lat: number,
+  lon: number,
+  variant: ForecastVariant = 'complete'
+): Promise<WeatherData> {
   // Validér koordinater
   if (!isValidCoordinate(lat, lon)) {
     throw new Error('Ugyldige koordinater');
   }
   
-  // Bygg URL med koordinater
-  const url = `${BASE_URL}?lat=${lat}&lon=${lon}`;
+  const roundedLat = roundCoordinate(lat);
+  const roundedLon = roundCoordinate(lon);
   
+  return fetchCached(
+    `${BASE_URL}/${variant}?lat=${roundedLat}&lon=${roundedLon}`,
+    getCacheKey(roundedLat, roundedLon, variant),
+    (data) => parseWeatherData(data as MetNoResponse)
+  );
+}
+
+/**
+ * fetchNowcast: Hent radarbasert korttidsvarsel fra Met.no
+ * 
+ * Nowcast gir nedbør hvert 5. minutt de neste 2 timene, basert på radar.
+ * Produktet dekker kun Norden; utenfor dekning svarer API-et med feil.
+ * Bruker samme HTTP-cache som fetchWeatherData.
+ * 
+ * @param lat - Breddegrad
+ * @param lon - Lengdegrad
+ * @returns NowcastData med 5-minutters steg
+ * @throws Error hvis API-kall feiler (f.eks. utenfor dekning)
+ * 
+ * @example
+ * const nowcast = await fetchNowcast(59.9139, 10.7522);
+ * const onset = getSnowOnset(nowcast); // "2026-01-15T10:25:00Z" eller null
+ */
+export async function fetchNowcast(lat: number, lon: number): Promise<NowcastData> {
+  if (!isValidCoordinate(lat, lon)) {
+    throw new Error('Ugyldige koordinater');
+  }
+  
+  const roundedLat = roundCoordinate(lat);
+  const roundedLon = roundCoordinate(lon);
+  
+  return fetchCached(
+    `${NOWCAST_URL}?lat=${roundedLat}&lon=${roundedLon}`,
+    getCacheKey(roundedLat, roundedLon, 'nowcast'),
+    (data) => parseNowcast(data as MetNoNowcastResponse)
+  );
+}
+
+/**
+ * fetchCached: Hent fra Met.no via HTTP-cachen
+ * 
+ * Følger vilkårene til Met.no (Expires, If-Modified-Since, 429 og
+ * Retry-After). Brukes også av push-relayet, med egen cache.
+ * 
+ * @param url - Full URL med avrundede koordinater
+ * @param key - Cache-nøkkel
+ * @param parse - Konverterer JSON-svaret til appens format
+ * @param options - Cache og User-Agent (standard: appens)
+ * @returns Data fra cachen eller et nytt svar
+ * @throws Error hvis API-kall feiler og cachen ikke kan brukes
+ * 
+ * @example
+ * const nowcast = await fetchCached(url, 'nowcast:59.9139,10.7522', (data) => parseNowcast(data as MetNoNowcastResponse));
+ */
+export async function fetchCached<T>(
+  url: string,
+  key: string,
+  parse: (data: unknown) => T,
+  options: MetNoRequestOptions = {}
+): Promise<T> {
+  const cache = options.cache ?? localStorageCache;
+  
+  // Gyldig data i cachen: ingen forespørsel
+  const cached = cache.read(key) as CachedForecast<T> | undefined;
+  if (cached && Date.now() < cached.expires) {
+    return cached.data;
+  }
+  
+  // Strupet uten cache: ikke spør før Retry-After har passert
+  if (Date.now() < (throttledUntil.get(key) ?? 0)) {
+    throw new Error('Vær-API: For mange forespørsler, prøv igjen senere');
+  }
+  
+  // Samme URL hentes allerede: vent på den forespørselen
+  const pending = inFlight.get(key) as Promise<T> | undefined;
+  if (pending) return pending;
+  
+  const request = requestCached(url, key, cached ?? null, parse, cache, options.userAgent ?? USER_AGENT);
+  inFlight.set(key, request);
+  
+  try {
+    return await request;
+  } finally {
+    inFlight.delete(key);
+  }
+}
+
+/**
+ * requestCached: Selve HTTP-kallet mot Met.no
+ * 
+ * @param url - Full URL
+ * @param key - Cache-nøkkel
+ * @param cached - Utløpt cache-oppføring (eller null)
+ * @param parse - Konverterer JSON-svaret til appens format
+ * @param cache - Lagring for HTTP-cachen
+ * @param userAgent - Identifikasjon overfor Met.no
+ * @returns Data fra svaret eller cachen
+ * @throws Error hvis API-kall feiler og cachen ikke kan brukes
+ */
+async function requestCached<T>(
+  url: string,
+  key: string,
+  cached: CachedForecast<T> | null,
+  parse: (data: unknown) => T,
+  cache: MetNoCache,
+  userAgent: string
+): Promise<T> {
   /**
    * Fetch med riktige headers
    * 
    * User-Agent: Påkrevd av Met.no for identifikasjon
    * Accept: Vi vil ha JSON tilbake
+   * If-Modified-Since: Lar Met.no svare 304 hvis prognosen er uendret
    */
-  const response = await fetch(url, {
-    headers: {
-      // Identifiser appen vår (endre e-post til din)
-      'User-Agent': 'Snoklar/1.0 (kontakt@example.com)',
-      'Accept': 'application/json',
-    },
-  });
+  const headers: Record<string, string> = {
+    'User-Agent': userAgent,
+    'Accept': 'application/json',
+  };
+  if (cached?.lastModified) {
+    headers['If-Modified-Since'] = cached.lastModified;
+  }
+  
+  const response = await fetch(url, { headers });
+
+  // 304: Prognosen er uendret, forleng cachen
+  if (response.status === 304 && cached) {
+    cache.write(key, { ...cached, expires: parseExpires(response) });
+    return cached.data;
+  }
+  
+  // 429: Strupet av Met.no, bruk cachen og vent til Retry-After
+  if (response.status === 429) {
+    if (cached) {
+      cache.write(key, { ...cached, expires: parseRetryAfter(response) });
+      return cached.data;
+    }
+    throttledUntil.set(key, parseRetryAfter(response));
+    throw new Error('Vær-API: For mange forespørsler, prøv igjen senere');
+  }
 
   // Sjekk for HTTP-feil
   if (!response.ok) {
     throw new Error(`Vær-API feilet: ${response.status}`);
   }
 
-  // Parse JSON-responsen
-  const data: MetNoResponse = await response.json();
+  // Parse JSON-responsen og konverter til appens format
+  const data = parse(await response.json());
+  
+  throttledUntil.delete(key);
+  cache.write(key, {
+    expires: parseExpires(response),
+    lastModified: response.headers.get('Last-Modified'),
+    data,
+  });
+  
+  return data;
+}
+
+/**
+ * round1: Rund av til én desimal
+ */
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * parsePeriod: Konverter én periode fra Met.no til appens format
+ * 
+ * Met.no gir nedbør for perioden som starter på tidspunktet:
+ * - next_1_hours: Neste time (de første ca. 2-3 døgnene)
+ * - next_6_hours: Neste 6 timer (hele serien, ca. 9 døgn)
+ * 
+ * Mengdene gjelder hele perioden. En 6-timers periode deles ikke
+ * lenger jevnt på 6 timer, men beholdes som én blokk.
+ * 
+ * @param entry - Ett tidspunkt fra Met.no
+ * @param period - Hvilken periode som skal leses
+ * @returns Forvarsling for perioden, eller null hvis den mangler
+ */
+function parsePeriod(
+  entry: MetNoTimeseries,
+  period: 'next_1_hours' | 'next_6_hours'
+): HourlyForecast | null {
+  const details = entry.data[period]?.details;
+  if (details?.precipitation_amount === undefined) return null;
+  
+  const temp = entry.data.instant.details.air_temperature;
+  
+  // Beregn nedbør (median + usikkerhet fra complete-varianten)
+  // Compact mangler min/max, da brukes medianen for begge
+  const precipitation = details.precipitation_amount;
+  const precipitationMin = details.precipitation_amount_min ?? precipitation;
+  const precipitationMax = details.precipitation_amount_max ?? precipitation;
+  
+  // Værkode fra API (f.eks. "snow", "rain")
+  const symbolCode = entry.data[period]?.summary?.symbol_code;
+  
+  /**
+   * Snøberegning
+   * 
+   * Fasen bestemmes av Met.no sitt symbol (eller temperatur som fallback).
+   * Sludd teller kun delvis som snø.
+   * @see classifyPrecipitation
+   */
+  const phase = classifyPrecipitation(symbolCode, temp);
+  const snow = precipitation > 0 ? precipitation * phase.snowFraction : 0;
   
-  // Konverter til appens format
-  return parseWeatherData(data);
+  return {
+    time: entry.time,
+    durationHours: period === 'next_1_hours' ? 1 : 6,
+    snow: round1(snow),
+    snowMin: round1(precipitationMin * phase.snowFraction),
+    snowMax: round1(precipitationMax * phase.snowFraction),
+    // Uten nedbør brukes 'rain' som nøytral verdi (som før)
+    precipitationType: precipitation > 0 ? phase.type : 'rain',
+    temperature: round1(temp),
+    precipitation: round1(precipitation),
+    precipitationMin: round1(precipitationMin),
+    precipitationMax: round1(precipitationMax),
+    precipitationProbability: details.probability_of_precipitation,
+    weatherCondition: symbolCode || 'clearsky',
+  };
 }
 
 /**
  * parseWeatherData: Konverter Met.no data til appens format
  * 
- * Met.no gir 48 timer med data (time for time).
+ * Met.no gir ca. 9 døgn med data: time for time de første døgnene,
+ * deretter 6-timers perioder.
  * Denne funksjonen:
- * 1. Går gjennom hver time
- * 2. Beregner snø basert på temperatur og nedbør
- * 3. Setter sammen current + hourly data
+ * 1. Leser timesperioder så langt de finnes (hourly)
+ * 2. Leser 6-timers perioder som starter etter siste time (sixHourly)
+ * 3. Beregner snø basert på nedbørsfase (symbol/temperatur) og nedbør
+ * 4. Setter sammen current + hourly + sixHourly data
  * 
  * @param data - Rå data fra Met.no
  * @returns WeatherData i appens format
  */
-function parseWeatherData(data: MetNoResponse): WeatherData {
+export function parseWeatherData(data: MetNoResponse): WeatherData {
   const timeseries = data.properties.timeseries;
   
-  // Arrays for time-data
   const hourly: HourlyForecast[] = [];
+  const sixHourly: HourlyForecast[] = [];
   
-  // Variabler for "nåværende" vær (første time i serien)
-  let currentSnow = 0;
-  let currentPrecipitationType: PrecipitationType = 'rain';
-  let currentWeatherCondition = 'clearsky';
-  let currentPrecipitation = 0;
-  let currentTemperature = 0;
-  let currentWindSpeed = 0;
+  // Slutten av siste time med timesoppløsning (ms)
+  let hourlyCoveredUntil = -Infinity;
   
-  /**
-   * Gå gjennom hver time (maks 48 timer)
-   * 
-   * Index 0 = nåværende time
-   * Index 1-47 = fremtidige timer
-   */
-  timeseries.slice(0, 48).forEach((entry, index) => {
-    const time = entry.time;
-    const instant = entry.data.instant.details;
-    const temp = instant.air_temperature;
-    const wind = instant.wind_speed;
-    
-    // Sjekk hvilke tidsperioder som er tilgjengelige
-    const hasNext1Hours = entry.data.next_1_hours?.details?.precipitation_amount !== undefined;
-    const hasNext6Hours = entry.data.next_6_hours?.details?.precipitation_amount !== undefined;
-    
-    // Beregn nedbør
-    let precipitation = 0;
-    let snow = 0;
+  timeseries.forEach((entry) => {
+    const startMs = new Date(entry.time).getTime();
     
     // 1 time ahead er mer presist enn 6 timer
-    if (hasNext1Hours) {
-      precipitation = entry.data.next_1_hours!.details!.precipitation_amount;
-    } else if (hasNext6Hours) {
-      // Del 6-timers nedbør på 6 for å få time-verdi
-      precipitation = entry.data.next_6_hours!.details!.precipitation_amount / 6;
-    }
-    
-    // Værkode fra API (f.eks. "snow", "rain")
-    const weatherCondition = entry.data.next_1_hours?.summary?.symbol_code 
-      || entry.data.next_6_hours?.summary?.symbol_code 
-      || 'clearsky';
-    
-    /**
-     * Snøberegning
-     * 
-     * Snø = Nedbør når temperatur er under 2°C
-     * (Met.no bruker 2°C som grense for snø)
-     */
-    if (temp < 2 && precipitation > 0) {
-      snow = precipitation;
+    const hour = parsePeriod(entry, 'next_1_hours');
+    if (hour) {
+      hourly.push(hour);
+      hourlyCoveredUntil = startMs + 60 * 60 * 1000;
+      return;
     }
     
-    const precipType = getPrecipitationType(temp, precipitation);
-    
-    // Sett "nåværende" vær fra første time
-    if (index === 0) {
-      currentTemperature = temp;
-      currentWindSpeed = wind;
-      currentSnow = snow;
-      currentPrecipitationType = precipType;
-      currentWeatherCondition = weatherCondition;
-      currentPrecipitation = precipitation;
+    // 6-timers perioder brukes kun der timesdata ikke dekker
+    if (startMs < hourlyCoveredUntil) return;
+    const block = parsePeriod(entry, 'next_6_hours');
+    if (block) {
+      sixHourly.push(block);
     }
-    
-    // Legg til i hourly array
-    hourly.push({
-      time,
-      snow: Math.round(snow * 10) / 10,
-      precipitationType: precipType,
-      temperature: Math.round(temp * 10) / 10,
-      precipitation: Math.round(precipitation * 10) / 10,
-      weatherCondition,
-    });
   });
   
+  // "Nåværende" vær fra første tidspunkt i serien
+  const first = timeseries[0];
+  const firstPeriod = hourly[0] ?? sixHourly[0];
+  
+  // Første periode kan være 6 timer (sjelden) - regn om til per time
+  const firstDivisor = firstPeriod?.durationHours ?? 1;
+  const currentSnow = firstPeriod ? firstPeriod.snow / firstDivisor : 0;
+  const currentPrecipitation = firstPeriod ? firstPeriod.precipitation / firstDivisor : 0;
+  
   // Returner ferdig formatert data
   return {
     updatedAt: new Date().toISOString(),
     current: {
-      temperature: Math.round(currentTemperature * 10) / 10,
-      snow: currentSnow,
-      precipitationType: currentPrecipitationType,
-      precipitation: currentPrecipitation,
-      weatherCondition: currentWeatherCondition,
-      windSpeed: Math.round(currentWindSpeed * 10) / 10,
+      temperature: round1(first?.data.instant.details.air_temperature ?? 0),
+      snow: round1(currentSnow),
+      precipitationType: firstPeriod?.precipitationType ?? 'rain',
+      precipitation: round1(currentPrecipitation),
+      weatherCondition: firstPeriod?.weatherCondition ?? 'clearsky',
+      windSpeed: round1(first?.data.instant.details.wind_speed ?? 0),
     },
     hourly,
+    sixHourly,
+    pastHours: [],
   };
 }
 
+/**
+ * mergePastHours: Ta vare på timer som har passert
+ * 
+ * Met.no returnerer kun prognose fra inneværende time og fremover.
+ * For å vite hvor mye snø som har falt siden siste brøyting,
+ * flyttes timer fra forrige henting over i `pastHours`.
+ * 
+ * @param previous - Forrige værdata for samme lokasjon (eller null)
+ * @param next - Nylig hentede værdata
+ * @returns Nye værdata med oppdatert `pastHours`
+ */
+export function mergePastHours(previous: WeatherData | null, next: WeatherData): WeatherData {
+  if (!previous) return next;
+  
+  const firstNewTime = next.hourly.length > 0 
+    ? new Date(next.hourly[0].time).getTime() 
+    : Date.now();
+  const oldestAllowed = firstNewTime - MAX_PAST_HOURS * 60 * 60 * 1000;
+  
+  // Slå sammen og fjern duplikater (nyeste verdi for samme time vinner)
+  const byTime = new Map<string, HourlyForecast>();
+  [...(previous.pastHours ?? []), ...previous.hourly, ...(next.pastHours ?? [])].forEach((hour) => {
+    const time = new Date(hour.time).getTime();
+    if (time < firstNewTime && time >= oldestAllowed) {
+      byTime.set(hour.time, hour);
+    }
+  });
+  
+  const pastHours = [...byTime.values()].sort(
+    (a, b) => new Date(a.time).getTime() - new Date(b.time).getTime()
+  );
+  
+  return { ...next, pastHours };
+}
+
+/**
+ * parseNowcast: Konverter Nowcast-svar til appens format
+ * 
+ * Nedbørstype bestemmes én gang fra første tidspunkt (symbol og
+ * temperatur), siden resten av serien kun har intensitet.
+ * 
+ * @param data - Rå data fra Met.no Nowcast 2.0
+ * @returns NowcastData med 5-minutters steg
+ */
+export function parseNowcast(data: MetNoNowcastResponse): NowcastData {
+  const { meta, timeseries } = data.properties;
+  const first = timeseries[0];
+  const temperature = first?.data.instant.details.air_temperature ?? null;
+  const symbolCode = first?.data.next_1_hours?.summary.symbol_code;
+  
+  // Uten temperatur kan vi kun stole på symbolet (ellers regnes det som regn)
+  const phase = classifyPrecipitation(symbolCode, temperature ?? 10);
+  
+  return {
+    updatedAt: meta.updated_at,
+    radarCoverage: meta.radar_coverage,
+    temperature,
+    steps: timeseries.map((entry) => {
+      const rate = entry.data.instant.details.precipitation_rate ?? 0;
+      return {
+        time: entry.time,
+        precipitationRate: round1(rate),
+        precipitationType: rate > 0 ? phase.type : 'rain',
+      };
+    }),
+  };
+}
+
+/**
+ * getSnowOnset: Når begynner det å snø ifølge radaren?
+ * 
+ * @param nowcast - Korttidsvarsel
+ * @param now - Nåtidspunkt (kan overstyres for testing)
+ * @returns Start av første steg med snø, eller null hvis ingen snø
+ *   de neste 2 timene (eller radaren ikke er tilgjengelig)
+ * 
+ * @example
+ * const onset = getSnowOnset(nowcast);
+ * if (onset) console.log(`Snø fra ${onset}`);
+ */
+export function getSnowOnset(nowcast: NowcastData, now: Date = new Date()): string | null {
+  if (nowcast.radarCoverage !== 'ok') return null;
+  
+  const step = nowcast.steps.find((s) =>
+    new Date(s.time).getTime() + NOWCAST_STEP_MS > now.getTime() &&
+    s.precipitationRate > 0 &&
+    s.precipitationType === 'snow'
+  );
+  
+  return step?.time ?? null;
+}
+
 /**
  * calculateSnowInPeriod: Beregn total snø over en periode
  * 
@@ -338,3 +859,65 @@ export function calculateSnowInPeriod(hourly: HourlyForecast[], hours: number):
   // Rund til 1 desimal
   return Math.round(totalSnow * 10) / 10;
 }
+
+/**
+ * DailySnow: Snøsum for ett døgn
+ * 
+ * @property date - Dato (YYYY-MM-DD, lokal tid)
+ * @property snow - Forventet snø i mm
+ * @property snowMin - Lavt anslag i mm
+ * @property snowMax - Høyt anslag i mm
+ */
+export interface DailySnow {
+  date: string;
+  snow: number;
+  snowMin: number;
+  snowMax: number;
+}
+
+/**
+ * calculateDailySnow: Summer snø per døgn for hele prognosen
+ * 
+ * Bruker timesdata der det finnes og 6-timers perioder etterpå.
+ * Perioder tilordnes døgnet de starter i (lokal tid).
+ * Timer som allerede har passert tas ikke med.
+ * 
+ * @param weather - Værdata
+ * @returns Én rad per døgn, sortert på dato
+ * 
+ * @example
+ * const days = calculateDailySnow(weather);
+ * // [{ date: '2026-01-14', snow: 4.2, snowMin: 1.0, snowMax: 9.8 }, ...]
+ */
+export function calculateDailySnow(weather: WeatherData): DailySnow[] {
+  const now = Date.now();
+  const byDate = new Map<string, DailySnow>();
+  
+  [...weather.hourly, ...(weather.sixHourly ?? [])].forEach((period) => {
+    const start = new Date(period.time);
+    const endMs = start.getTime() + (period.durationHours ?? 1) * 60 * 60 * 1000;
+    if (endMs <= now) return;
+    
+    // Lokal dato (ikke UTC) slik at døgnet matcher brukerens klokke
+    const date = [
+      start.getFullYear(),
+      String(start.getMonth() + 1).padStart(2, '0'),
+      String(start.getDate()).padStart(2, '0'),
+    ].join('-');
+    
+    const day = byDate.get(date) ?? { date, snow: 0, snowMin: 0, snowMax: 0 };
+    day.snow += period.snow;
+    day.snowMin += period.snowMin ?? period.snow;
+    day.snowMax += period.snowMax ?? period.snow;
+    byDate.set(date, day);
+  });
+  
+  return [...byDate.values()]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map((day) => ({
+      date: day.date,
+      snow: round1(day.snow),
+      snowMin: round1(day.snowMin),
+      snowMax: round1(day.snowMax),
+    }));
+}
@@ -4,7 +4,8 @@
  * Denne filen håndterer:
  * - Be om tillatelse for varslinger
  * - Sende push-varslinger til brukeren
- * - Sjekke om det er dagtid eller natt
+ * 
+ * Dagtid/natt styres av varslingsplanen (se lib/schedule.ts).
  * 
  * @see https://developer.mozilla.org/en-US/docs/Web/API/Notifications_API
  */
@@ -77,31 +78,3 @@ export function showNotification(title: string, body: string): void {
     }
   }
 }
-
-/**
- * isDayTime: Sjekk om det er dagtid
- * 
- * Dagtid er definert som kl. 09:00 - 17:59 (09:00 til 18:00).
- * 
- * @returns true hvis det er dagtid
- * 
- * @example
- * if (isDayTime()) {
- *   // Vis sol-ikon
- * }
- */
-export function isDayTime(): boolean {
-  const hour = new Date().getHours();
-  return hour >= 9 && hour < 18;
-}
-
-/**
- * isNightTime: Sjekk om det er natt
- * 
- * Natt er alt som ikke er dagtid (18:00 - 08:59).
- * 
- * @returns true hvis det er natt
- */
-export function isNightTime(): boolean {
-  return !isDayTime();
-}
@@ -0,0 +1,228 @@
+/**
+ * properties.ts: Delte eiendommer i Supabase
+ *
+ * En eiendom (f.eks. en husstand, en hytte eller et borettslag) eier
+ * brøytingslogg, kontakter og innstillinger. Flere brukere kan være
+ * medlem av samme eiendom, med hver sin rolle:
+ * - owner: Alt, inkludert medlemmer og invitasjoner
+ * - member: Lese og endre data
+ * - viewer: Bare lese
+ *
+ * Nye medlemmer inviteres med en kode som eieren deler. Endringer i
+ * medlemskap går via databasefunksjoner, som sjekker rollen til den
+ * innloggede brukeren (se SUPABASE_SETUP.sql).
+ *
+ * Hvilken eiendom appen viser, styres av services/sync.
+ */
+
+import type { Property, PropertyInvitation, PropertyMember, PropertyRole } from '../types';
+import type { SupabaseClient } from './supabase';
+
+// =============================================================================
+// KONSTANTER
+// =============================================================================
+
+/**
+ * PROPERTY_ROLE_LABELS: Visningsnavn for hver rolle
+ */
+export const PROPERTY_ROLE_LABELS: Record<PropertyRole, string> = {
+  owner: 'Eier',
+  member: 'Medlem',
+  viewer: 'Kun lesetilgang',
+};
+
+// =============================================================================
+// INTERFACES
+// =============================================================================
+
+/**
+ * MemberRow: Rad i `property_members`
+ */
+interface MemberRow {
+  user_id: string;
+  display_name: string | null;
+  role: PropertyRole;
+  created_at: string;
+}
+
+/**
+ * InvitationRow: Rad i `property_invitations`
+ */
+interface InvitationRow {
+  code: string;
+  role: PropertyInvitation['role'];
+  expires_at: string;
+  accepted_at: string | null;
+}
+
+// =============================================================================
+// FUNKSJONER
+// =============================================================================
+
+/**
+ * canEdit: Kan brukeren endre eiendommens data?
+ *
+ * Uten eiendom (f.eks. uten Supabase) kan alt endres lokalt.
+ *
+ * @param property - Aktiv eiendom (eller null)
+ * @returns false for rollen viewer
+ */
+export function canEdit(property: Property | null): boolean {
+  return property?.role !== 'viewer';
+}
+
+/**
+ * listProperties: Eiendommene innlogget bruker er medlem av
+ *
+ * @param client - Supabase-klient
+ * @returns Eiendommer med brukerens rolle, eldste først
+ */
+export async function listProperties(client: SupabaseClient): Promise<Property[]> {
+  return (await client.rpc<Property[] | null>('my_properties', {})) ?? [];
+}
+
+/**
+ * createProperty: Opprett eiendom med innlogget bruker som eier
+ *
+ * @param client - Supabase-klient
+ * @param name - Navn på eiendommen
+ * @returns Den nye eiendommen
+ *
+ * @example
+ * const property = await createProperty(client, 'Hytta');
+ */
+export async function createProperty(client: SupabaseClient, name: string): Promise<Property> {
+  const property: Property = { id: crypto.randomUUID(), name: name.trim() || 'Min eiendom', role: 'owner' };
+  await client.rpc('create_property', { p_id: property.id, p_name: property.name });
+  return property;
+}
+
+/**
+ * listMembers: Medlemmer av en eiendom
+ *
+ * @param client - Supabase-klient
+ * @param propertyId - Eiendommen
+ * @returns Medlemmer i rekkefølgen de ble med
+ */
+export async function listMembers(client: SupabaseClient, propertyId: string): Promise<PropertyMember[]> {
+  const rows = await client.select<MemberRow>('property_members', {
+    select: 'user_id,display_name,role,created_at',
+    property_id: `eq.${propertyId}`,
+    order: 'created_at.asc',
+  });
+  return rows.map((row) => ({
+    userId: row.user_id,
+    displayName: row.display_name,
+    role: row.role,
+    joinedAt: row.created_at,
+  }));
+}
+
+/**
+ * listInvitations: Invitasjoner til en eiendom (kun eier)
+ *
+ * @param client - Supabase-klient
+ * @param propertyId - Eiendommen
+ * @returns Invitasjoner, nyeste først
+ */
+export async function listInvitations(client: SupabaseClient, propertyId: string): Promise<PropertyInvitation[]> {
+  const rows = await client.select<InvitationRow>('property_invitations', {
+    select: 'code,role,expires_at,accepted_at',
+    property_id: `eq.${propertyId}`,
+    order: 'created_at.desc',
+  });
+  return rows.map((row) => ({
+    code: row.code,
+    role: row.role,
+    expiresAt: row.expires_at,
+    acceptedAt: row.accepted_at,
+  }));
+}
+
+/**
+ * createInvitation: Lag invitasjon (kun eier)
+ *
+ * Koden gjelder i 7 dager og kan brukes én gang.
+ *
+ * @param client - Supabase-klient
+ * @param propertyId - Eiendommen
+ * @param role - Rollen den inviterte får
+ * @returns Invitasjonskoden
+ */
+export async function createInvitation(
+  client: SupabaseClient,
+  propertyId: string,
+  role: PropertyInvitation['role']
+): Promise<string> {
+  return client.rpc<string>('create_invitation', { p_property_id: propertyId, p_role: role });
+}
+
+/**
+ * revokeInvitation: Trekk tilbake en invitasjon (kun eier)
+ *
+ * @param client - Supabase-klient
+ * @param code - Invitasjonskoden
+ */
+export async function revokeInvitation(client: SupabaseClient, code: string): Promise<void> {
+  await client.rpc('revoke_invitation', { p_code: code });
+}
+
+/**
+ * acceptInvitation: Bli medlem med en invitasjonskode
+ *
+ * Bytt deretter til eiendommen (se switchProperty i services/sync).
+ *
+ * @param client - Supabase-klient
+ * @param code - Invitasjonskoden
+ * @param displayName - Navnet andre medlemmer ser (valgfritt)
+ * @returns Eiendommens ID
+ * @throws Error hvis koden er ugyldig, brukt eller utløpt
+ */
+export async function acceptInvitation(client: SupabaseClient, code: string, displayName?: string): Promise<string> {
+  return client.rpc<string>('accept_invitation', {
+    p_code: code.trim().toUpperCase(),
+    p_display_name: displayName?.trim() || null,
+  });
+}
+
+/**
+ * setMemberRole: Endre rollen til et medlem (kun eier)
+ *
+ * @param client - Supabase-klient
+ * @param propertyId - Eiendommen
+ * @param userId - Medlemmet
+ * @param role - Ny rolle
+ * @throws Error hvis eiendommen ville stått uten eier
+ */
+export async function setMemberRole(
+  client: SupabaseClient,
+  propertyId: string,
+  userId: string,
+  role: PropertyRole
+): Promise<void> {
+  await client.rpc('set_member_role', { p_property_id: propertyId, p_user_id: userId, p_role: role });
+}
+
+/**
+ * removeMember: Fjern et medlem (eier), eller forlat eiendommen (seg selv)
+ *
+ * @param client - Supabase-klient
+ * @param propertyId - Eiendommen
+ * @param userId - Medlemmet
+ * @throws Error hvis eiendommen ville stått uten eier
+ */
+export async function removeMember(client: SupabaseClient, propertyId: string, userId: string): Promise<void> {
+  await client.rpc('remove_member', { p_property_id: propertyId, p_user_id: userId });
+}
+
+/**
+ * setDisplayName: Navnet som vises for innlogget bruker
+ *
+ * Gjelder i alle eiendommer brukeren er medlem av.
+ *
+ * @param client - Supabase-klient
+ * @param name - Navn (tomt fjerner navnet)
+ */
+export async function setDisplayName(client: SupabaseClient, name: string): Promise<void> {
+  await client.rpc('set_display_name', { p_name: name });
+}
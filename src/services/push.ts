@@ -0,0 +1,187 @@
+/**
+ * push.ts: Web Push via push-relayet
+ *
+ * Varsler fra `showNotification` vises bare mens appen er åpen.
+ * Med push abonnerer service workeren på Web Push (VAPID), og
+ * relayet (`relay/server.ts`) henter prognosen, evaluerer de samme
+ * varslingsreglene og sender push - også når telefonen er låst.
+ *
+ * Relayet settes opp med miljøvariabelen VITE_PUSH_RELAY_URL.
+ * Uten den er push skjult i innstillingene.
+ *
+ * @see https://developer.mozilla.org/en-US/docs/Web/API/Push_API
+ */
+
+import type {
+  Contractor,
+  NotificationAction,
+  PushRegistration,
+  Settings,
+  SnowEntry,
+} from '../types';
+import { getLastPlowing } from '../lib/snowDepth';
+import { sortContractors } from '../lib/contractors';
+
+// =============================================================================
+// KONSTANTER
+// =============================================================================
+
+/**
+ * PUSH_RELAY_URL: Adressen til push-relayet (uten avsluttende /)
+ */
+const PUSH_RELAY_URL = (import.meta.env.VITE_PUSH_RELAY_URL ?? '').replace(/\/$/, '');
+
+// =============================================================================
+// HJELPEFUNKSJONER
+// =============================================================================
+
+/**
+ * urlBase64ToUint8Array: VAPID-nøkkel (base64url) → bytes
+ *
+ * PushManager.subscribe krever nøkkelen som bytes.
+ */
+function urlBase64ToUint8Array(base64Url: string): Uint8Array<ArrayBuffer> {
+  const padding = '='.repeat((4 - (base64Url.length % 4)) % 4);
+  const base64 = (base64Url + padding).replace(/-/g, '+').replace(/_/g, '/');
+  const raw = atob(base64);
+  return Uint8Array.from(raw, (char) => char.charCodeAt(0));
+}
+
+/**
+ * getVapidPublicKey: Hent relayets offentlige VAPID-nøkkel
+ */
+async function getVapidPublicKey(): Promise<string> {
+  const response = await fetch(`${PUSH_RELAY_URL}/vapid-public-key`);
+  if (!response.ok) {
+    throw new Error(`Push-relay feil: ${response.status}`);
+  }
+  return (await response.text()).trim();
+}
+
+/**
+ * getSubscription: Hent eksisterende abonnement (eller null)
+ */
+async function getSubscription(): Promise<PushSubscription | null> {
+  const registration = await navigator.serviceWorker.ready;
+  return registration.pushManager.getSubscription();
+}
+
+// =============================================================================
+// FUNKSJONER
+// =============================================================================
+
+/**
+ * isPushSupported: Kan push brukes?
+ *
+ * Krever at relayet er konfigurert og at nettleseren støtter
+ * service worker og Push API (på iOS: kun installert app).
+ *
+ * @returns true hvis push kan aktiveres
+ */
+export function isPushSupported(): boolean {
+  return PUSH_RELAY_URL !== ''
+    && 'serviceWorker' in navigator
+    && 'PushManager' in window;
+}
+
+/**
+ * createPushRegistration: Plukk ut det relayet trenger fra state
+ *
+ * Kun siste brøyting per lokasjon sendes, det er nok for snøstatus.
+ *
+ * @param settings - Innstillinger (lokasjoner, regler og plan)
+ * @param history - Brøytingslogg
+ * @param contractors - Kontakter
+ * @returns Registrering uten abonnement
+ */
+export function createPushRegistration(
+  settings: Settings,
+  history: SnowEntry[],
+  contractors: Contractor[]
+): Omit<PushRegistration, 'subscription'> {
+  const lastPlowings = settings.locations
+    .map((location) => {
+      const timestamp = getLastPlowing(history, location.id);
+      return history.find((e) => e.timestamp === timestamp && (!e.locationId || e.locationId === location.id));
+    })
+    .filter((entry): entry is SnowEntry => entry !== undefined);
+
+  const contractor = sortContractors(contractors)[0];
+
+  return {
+    locations: settings.locations,
+    alertRules: settings.alertRules,
+    schedule: settings.schedule,
+    history: [...new Set(lastPlowings)],
+    contractorPhone: contractor?.phone ?? null,
+  };
+}
+
+/**
+ * syncPushSubscription: Abonner (ved behov) og send registreringen til relayet
+ *
+ * Krever at tillatelse for varsler allerede er gitt.
+ *
+ * @param registration - Lokasjoner, regler og brøytinger
+ * @throws Error hvis relayet ikke svarer
+ *
+ * @example
+ * await syncPushSubscription(createPushRegistration(settings, history, contractors));
+ */
+export async function syncPushSubscription(
+  registration: Omit<PushRegistration, 'subscription'>
+): Promise<void> {
+  const serviceWorker = await navigator.serviceWorker.ready;
+  const subscription = await serviceWorker.pushManager.getSubscription()
+    ?? await serviceWorker.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: urlBase64ToUint8Array(await getVapidPublicKey()),
+    });
+
+  const body: PushRegistration = { ...registration, subscription: subscription.toJSON() };
+  const response = await fetch(`${PUSH_RELAY_URL}/subscriptions`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Push-relay feil: ${response.status}`);
+  }
+}
+
+/**
+ * unsubscribeFromPush: Avslutt abonnementet og fjern det fra relayet
+ *
+ * Gjør ingenting hvis enheten ikke abonnerer.
+ */
+export async function unsubscribeFromPush(): Promise<void> {
+  const subscription = await getSubscription();
+  if (!subscription) return;
+
+  await fetch(`${PUSH_RELAY_URL}/subscriptions`, {
+    method: 'DELETE',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ endpoint: subscription.endpoint }),
+  }).catch((error) => console.error('Failed to remove push subscription:', error));
+
+  await subscription.unsubscribe();
+}
+
+/**
+ * readNotificationAction: Les handling fra et varsel i URL-en
+ *
+ * Service workeren åpner appen med `?action=log&location=<id>`.
+ * Parameterne fjernes fra adressen etter lesing, slik at en
+ * oppdatering av siden ikke gjentar handlingen.
+ *
+ * @returns Handling og lokasjon, eller null
+ */
+export function readNotificationAction(): { action: NotificationAction; locationId: string | null } | null {
+  const params = new URLSearchParams(window.location.search);
+  const action = params.get('action');
+  if (action !== 'call' && action !== 'log') return null;
+
+  window.history.replaceState(null, '', window.location.pathname);
+  return { action, locationId: params.get('location') };
+}
@@ -0,0 +1,357 @@
+/**
+ * realtime.ts: Endringer fra andre enheter og faner i sanntid
+ *
+ * Når et medlem av eiendommen logger en brøyting, skal de andre se den
+ * med en gang, ikke først ved neste synkronisering. To kanaler:
+ * - Supabase Realtime: Endrede rader i `plow_entries` og `contractors`
+ *   for den aktive eiendommen (websocket, RLS gjelder som ellers)
+ * - BroadcastChannel: Faner på samme enhet (virker også uten Supabase)
+ *
+ * Endringene blir vanlige handlinger (ADD_HISTORY, DELETE_HISTORY og
+ * handlingene for kontakter), som sjekkes og merkes i services/sync
+ * (acceptRemoteAction) før de kjøres. Samme endring kan derfor komme
+ * fra begge kanalene og fra synkroniseringen uten å gjentas.
+ *
+ * Realtime snakker Phoenix-protokollen over websocket, så klienten
+ * trenger ingen egne pakker (som PostgREST-klienten).
+ *
+ * @see https://supabase.com/docs/guides/realtime/postgres-changes
+ */
+
+import type { Contractor, RemoteAction, SnowEntry } from '../types';
+import { getDefaultAuthClient, getSession, getStoredSession } from './auth';
+import { listMembers } from './properties';
+import type { ContractorRow, PlowEntryRow, SupabaseClient } from './supabase';
+
+// =============================================================================
+// KONSTANTER
+// =============================================================================
+
+/**
+ * HEARTBEAT_MS: Hvor ofte forbindelsen holdes i live
+ *
+ * Realtime kobler fra etter 60 sekunder uten heartbeat.
+ */
+const HEARTBEAT_MS = 25 * 1000;
+
+/**
+ * RETRY_MS: Ventetid før nytt forsøk (dobles per forsøk, opp til RETRY_MAX_MS)
+ */
+const RETRY_MS = 2 * 1000;
+const RETRY_MAX_MS = 60 * 1000;
+
+/**
+ * TAB_CHANNEL: Navnet på BroadcastChannel mellom faner
+ */
+const TAB_CHANNEL = 'snoklar-changes';
+
+/**
+ * REALTIME_TABLES: Tabellene som sendes i sanntid
+ *
+ * Innstillinger endres sjelden og hentes ved vanlig synkronisering.
+ */
+const REALTIME_TABLES = ['plow_entries', 'contractors'] as const;
+
+/**
+ * authorNames: Visningsnavn per eiendom og bruker (hentes ved behov)
+ */
+const authorNames = new Map<string, string | null>();
+
+// =============================================================================
+// INTERFACES
+// =============================================================================
+
+/**
+ * RealtimeChange: Endret rad fra Supabase Realtime
+ */
+export type RealtimeChange =
+  | { table: 'plow_entries'; row: PlowEntryRow }
+  | { table: 'contractors'; row: ContractorRow };
+
+/**
+ * RealtimeHandlers: Hva abonnementet skal gjøre
+ *
+ * @property onChange - En rad er satt inn eller endret
+ * @property onStatus - Forbindelsen er oppe (true) eller nede (false)
+ */
+export interface RealtimeHandlers {
+  onChange: (change: RealtimeChange) => void;
+  onStatus: (live: boolean) => void;
+}
+
+/**
+ * RealtimeClient: Abonner på endringer i en eiendom
+ *
+ * Kan byttes ut (f.eks. i tester) ved å sende inn en egen klient.
+ *
+ * @property subscribe - Start abonnementet; returnerer en funksjon som stopper det
+ */
+export interface RealtimeClient {
+  subscribe: (propertyId: string, handlers: RealtimeHandlers) => () => void;
+}
+
+/**
+ * TabChannel: Endringer mellom faner på samme enhet
+ *
+ * @property post - Send lokale endringer til de andre fanene
+ * @property subscribe - Motta endringer; returnerer en funksjon som stopper det
+ */
+export interface TabChannel {
+  post: (actions: RemoteAction[]) => void;
+  subscribe: (onAction: (action: RemoteAction) => void) => () => void;
+}
+
+/**
+ * PhoenixMessage: Melding i Phoenix-protokollen
+ */
+interface PhoenixMessage {
+  topic: string;
+  event: string;
+  payload: {
+    status?: string;
+    response?: { reason?: string };
+    data?: { type: string; table: string; record: unknown };
+  };
+  ref: string | null;
+}
+
+// =============================================================================
+// KLIENT
+// =============================================================================
+
+/**
+ * createRealtimeClient: Lag en klient mot Supabase Realtime
+ *
+ * Kobler til på nytt med økende ventetid når forbindelsen brytes
+ * (f.eks. uten nett). Tokenet fornyes før det utløper, og sendes til
+ * kanalen sammen med heartbeat.
+ *
+ * @param socketUrl - Adressen til websocketen (f.eks. "wss://xyz.supabase.co/realtime/v1/websocket")
+ * @param apiKey - Offentlig nøkkel (anon key)
+ * @param getAccessToken - Henter brukerens token (se services/auth)
+ * @returns RealtimeClient som bruker WebSocket
+ */
+export function createRealtimeClient(
+  socketUrl: string,
+  apiKey: string,
+  getAccessToken: () => Promise<string>
+): RealtimeClient {
+  return {
+    subscribe: (propertyId, handlers) => {
+      const topic = `realtime:property:${propertyId}`;
+      let socket: WebSocket | null = null;
+      let heartbeat: ReturnType<typeof setInterval> | undefined;
+      let retry: ReturnType<typeof setTimeout> | undefined;
+      let attempts = 0;
+      let stopped = false;
+      let ref = 0;
+
+      const send = (message: Omit<PhoenixMessage, 'ref'> & { join_ref?: string }) => {
+        if (socket?.readyState !== WebSocket.OPEN) return;
+        socket.send(JSON.stringify({ ...message, ref: String(++ref) }));
+      };
+
+      const scheduleRetry = () => {
+        clearTimeout(retry);
+        retry = setTimeout(connect, Math.min(RETRY_MAX_MS, RETRY_MS * 2 ** attempts++));
+      };
+
+      const handleMessage = (message: PhoenixMessage) => {
+        if (message.topic !== topic) return;
+
+        if (message.event === 'phx_reply' && message.ref === '1') {
+          if (message.payload.status === 'ok') {
+            attempts = 0;
+            handlers.onStatus(true);
+          } else {
+            console.error('Realtime join failed:', message.payload.response?.reason);
+            socket?.close();
+          }
+          return;
+        }
+
+        // Slettinger er rader med deleted = true, så DELETE kan ignoreres
+        const data = message.payload.data;
+        if (message.event === 'postgres_changes' && data && (data.type === 'INSERT' || data.type === 'UPDATE')) {
+          if (data.table === 'plow_entries') handlers.onChange({ table: 'plow_entries', row: data.record as PlowEntryRow });
+          if (data.table === 'contractors') handlers.onChange({ table: 'contractors', row: data.record as ContractorRow });
+        }
+      };
+
+      async function connect() {
+        const token = await getAccessToken().catch(() => null);
+        if (stopped) return;
+        if (!token) {
+          scheduleRetry();
+          return;
+        }
+
+        ref = 0;
+        socket = new WebSocket(`${socketUrl}?${new URLSearchParams({ apikey: apiKey, vsn: '1.0.0' })}`);
+
+        socket.onopen = () => {
+          send({
+            topic,
+            event: 'phx_join',
+            join_ref: '1',
+            payload: {
+              config: {
+                postgres_changes: REALTIME_TABLES.map((table) => ({
+                  event: '*',
+                  schema: 'public',
+                  table,
+                  filter: `property_id=eq.${propertyId}`,
+                })),
+              },
+              access_token: token,
+            } as PhoenixMessage['payload'],
+          });
+
+          heartbeat = setInterval(async () => {
+            send({ topic: 'phoenix', event: 'heartbeat', payload: {} });
+            const fresh = await getAccessToken().catch(() => null);
+            if (fresh) send({ topic, event: 'access_token', payload: { access_token: fresh } as PhoenixMessage['payload'] });
+          }, HEARTBEAT_MS);
+        };
+
+        socket.onmessage = (event) => {
+          try {
+            handleMessage(JSON.parse(event.data));
+          } catch (error) {
+            console.error('Invalid realtime message:', error);
+          }
+        };
+
+        socket.onclose = () => {
+          clearInterval(heartbeat);
+          handlers.onStatus(false);
+          if (!stopped) scheduleRetry();
+        };
+      }
+
+      connect();
+
+      return () => {
+        stopped = true;
+        clearTimeout(retry);
+        clearInterval(heartbeat);
+        socket?.close();
+      };
+    },
+  };
+}
+
+/**
+ * getDefaultRealtimeClient: Klient fra VITE_SUPABASE_URL og VITE_SUPABASE_ANON_KEY
+ *
+ * @returns RealtimeClient, eller null hvis Supabase ikke er satt opp
+ */
+export function getDefaultRealtimeClient(): RealtimeClient | null {
+  const projectUrl = (import.meta.env.VITE_SUPABASE_URL ?? '').replace(/\/$/, '');
+  const auth = getDefaultAuthClient();
+  if (!projectUrl || !auth || typeof WebSocket === 'undefined') return null;
+
+  return createRealtimeClient(
+    `${projectUrl.replace(/^http/, 'ws')}/realtime/v1/websocket`,
+    import.meta.env.VITE_SUPABASE_ANON_KEY ?? '',
+    async () => (await getSession(auth)).accessToken
+  );
+}
+
+/**
+ * createTabChannel: Kanal mellom faner på samme enhet
+ *
+ * Fanene deler den lokale databasen og køen, så endringene trenger
+ * bare å havne i state.
+ *
+ * @returns TabChannel, eller null hvis nettleseren mangler BroadcastChannel
+ */
+export function createTabChannel(): TabChannel | null {
+  if (typeof BroadcastChannel === 'undefined') return null;
+  const channel = new BroadcastChannel(TAB_CHANNEL);
+
+  return {
+    post: (actions) => {
+      if (actions.length > 0) channel.postMessage(actions);
+    },
+
+    subscribe: (onAction) => {
+      const listener = (event: MessageEvent<RemoteAction[]>) => {
+        if (Array.isArray(event.data)) event.data.forEach(onAction);
+      };
+      channel.addEventListener('message', listener);
+      return () => channel.removeEventListener('message', listener);
+    },
+  };
+}
+
+// =============================================================================
+// FUNKSJONER
+// =============================================================================
+
+/**
+ * describeRemoteAction: Hva en endring gjør, for visning
+ *
+ * Kalles før handlingen kjøres, så `contractors` og `history` er
+ * tilstanden før endringen.
+ *
+ * @param action - Endringen
+ * @param contractors - Kontaktene
+ * @param history - Brøytingene
+ * @returns Beskrivelse (f.eks. "logget en brøyting (12 cm)")
+ *
+ * @example
+ * `${author} ${describeRemoteAction(action, contractors, history)}`; // "Kari logget en brøyting (12 cm)"
+ */
+export function describeRemoteAction(action: RemoteAction, contractors: Contractor[], history: SnowEntry[]): string {
+  switch (action.type) {
+    case 'ADD_HISTORY': {
+      if (history.some((e) => e.id === action.payload.id)) return 'endret en brøyting';
+      const depth = action.payload.snowDepth;
+      return depth !== undefined ? `logget en brøyting (${depth} cm)` : 'logget en brøyting';
+    }
+    case 'DELETE_HISTORY':
+      return 'slettet en brøyting';
+    case 'ADD_CONTRACTOR':
+      return `la til kontakten ${action.payload.name}`;
+    case 'UPDATE_CONTRACTOR':
+      return `endret kontakten ${action.payload.name}`;
+    case 'DELETE_CONTRACTOR': {
+      const name = contractors.find((c) => c.id === action.payload)?.name;
+      return name ? `slettet kontakten ${name}` : 'slettet en kontakt';
+    }
+  }
+}
+
+/**
+ * resolveAuthor: Navnet til den som endret en rad (updated_by)
+ *
+ * Medlemmene hentes første gang et ukjent medlem dukker opp. Egne
+ * endringer fra denne enheten kommer aldri hit (de er allerede i
+ * state), så egen bruker betyr en annen enhet.
+ *
+ * @param client - Supabase-klient
+ * @param propertyId - Eiendommen
+ * @param userId - Brukeren (eller null)
+ * @returns Navnet, eller null hvis det er ukjent
+ */
+export async function resolveAuthor(
+  client: SupabaseClient,
+  propertyId: string,
+  userId: string | null | undefined
+): Promise<string | null> {
+  if (!userId) return null;
+  if ((await getStoredSession())?.userId === userId) return 'Du (på en annen enhet)';
+
+  const key = `${propertyId}:${userId}`;
+  if (!authorNames.has(key)) {
+    try {
+      const members = await listMembers(client, propertyId);
+      members.forEach((m) => authorNames.set(`${propertyId}:${m.userId}`, m.displayName));
+    } catch (error) {
+      console.error('Failed to read members:', error);
+      return null;
+    }
+  }
+  return authorNames.get(key) ?? null;
+}
@@ -0,0 +1,768 @@
+/**
+ * repository.ts: Lokal database (IndexedDB)
+ *
+ * All brukerdata lagres i IndexedDB, én post per brøyting,
+ * kontakt, bestilling og observasjon. Dermed skrives bare det som
+ * faktisk er endret, og loggen kan dekke mange sesonger.
+ *
+ * Databasen har disse lagrene:
+ * - meta: Innstillinger, værdata (cache), varsel-logg, skjemaversjon,
+ *   innlogging og synkroniseringsstatus
+ * - history: Brøytinger (indeks på tidspunkt, kontakt og lokasjon)
+ * - contractors: Kontakter
+ * - orders: Bestillinger (indeks på tidspunkt, kontakt og lokasjon)
+ * - observations: Døgnobservasjoner fra Frost per stasjon og dato
+ * - archives: Arkiverte brøytinger, én komprimert bunt per sesong
+ * - syncQueue: Lokale endringer som venter på å sendes til Supabase
+ *
+ * Reduceren i AppContext er ren; endringer lagres etterpå med
+ * persistChanges, som sammenligner forrige og ny state.
+ *
+ * Første gang appen starter med databasen, flyttes data fra
+ * localStorage over automatisk (se lib/storage).
+ *
+ * @see https://developer.mozilla.org/en-US/docs/Web/API/IndexedDB_API
+ */
+
+import type { AppState, Property, Settings, SnowEntry } from '../types';
+import type { AuthSession } from './auth';
+import type { DailyObservation } from './frost';
+import type { SyncRow, SyncTable } from './supabase';
+import { getSeason } from '../lib/costs';
+import {
+  SCHEMA_VERSION,
+  clearLegacyStorage,
+  migrateStoredData,
+  readLegacyStorage,
+  type RawStoredData,
+  type StoredData,
+} from '../lib/storage';
+
+// =============================================================================
+// KONSTANTER
+// =============================================================================
+
+/**
+ * DB_NAME / DB_VERSION: Navn og versjon på databasen
+ *
+ * Versjonen gjelder lagrene og indeksene (se upgradeDatabase),
+ * ikke formen på dataene (se SCHEMA_VERSION i lib/storage).
+ */
+const DB_NAME = 'snoklar';
+const DB_VERSION = 3;
+
+/**
+ * STORES: Navn på lagrene i databasen
+ */
+const STORES = {
+  META: 'meta',
+  HISTORY: 'history',
+  CONTRACTORS: 'contractors',
+  ORDERS: 'orders',
+  OBSERVATIONS: 'observations',
+  ARCHIVES: 'archives',
+  SYNC_QUEUE: 'syncQueue',
+} as const;
+
+/**
+ * META_KEYS: Nøkler i meta-lageret
+ */
+const META_KEYS = {
+  SETTINGS: 'settings',
+  WEATHER: 'weather',
+  ALERT_LOG: 'alertLog',
+  SCHEMA_VERSION: 'schemaVersion',
+  SYNC_STATE: 'syncState',
+  AUTH_SESSION: 'authSession',
+} as const;
+
+// =============================================================================
+// INTERFACES
+// =============================================================================
+
+/**
+ * StoredObservation: Døgnobservasjon lagret for en stasjon
+ *
+ * @property stationId - Frost-stasjonen (f.eks. "SN18700")
+ */
+interface StoredObservation extends DailyObservation {
+  stationId: string;
+}
+
+/**
+ * ArchiveSummary: Oversikt over én arkivert sesong
+ *
+ * @property season - Sesong, f.eks. "2024/25"
+ * @property count - Antall brøytinger
+ * @property from - Første brøyting (ISO-8601)
+ * @property to - Siste brøyting (ISO-8601)
+ */
+export interface ArchiveSummary {
+  season: string;
+  count: number;
+  from: string;
+  to: string;
+}
+
+/**
+ * HistoryQuery: Utvalg av brøytinger som hentes via indeksene
+ *
+ * @property from - Fra og med (null = fra starten)
+ * @property to - Til og med (null = til slutten)
+ * @property contractorId - Bare brøytinger koblet til kontakten (null = alle)
+ */
+export interface HistoryQuery {
+  from: Date | null;
+  to: Date | null;
+  contractorId: string | null;
+}
+
+/**
+ * ArchiveBundle: Arkiverte brøytinger for én sesong
+ *
+ * @property data - Brøytingene som gzip-komprimert JSON
+ *   (ren tekst i nettlesere uten CompressionStream)
+ */
+interface ArchiveBundle extends ArchiveSummary {
+  data: ArrayBuffer | string;
+}
+
+/**
+ * SyncOperation: Lokal endring som venter på å sendes
+ *
+ * Bare siste endring av hver post ligger i køen (samme nøkkel).
+ *
+ * @property key - Tabell og ID, f.eks. "contractors:abc" ("settings" for innstillingene)
+ * @property table - Tabellen raden skal til
+ * @property row - Raden slik den skal lagres (updated_at = tidspunktet for endringen)
+ */
+export interface SyncOperation {
+  key: string;
+  table: SyncTable;
+  row: SyncRow;
+}
+
+/**
+ * SyncState: Hvor langt synkroniseringen har kommet
+ *
+ * @property property - Aktiv eiendom (null før første synkronisering)
+ * @property cursors - Nyeste synced_at hentet fra hver tabell
+ *   (mangler før første synkronisering med eiendommen)
+ * @property cursorColumn - Kolonnen markørene gjelder (mangler i status
+ *   lagret før synced_at, da markørene var updated_at)
+ * @property replaceLocal - Lokale data skal erstattes av eiendommens data
+ *   ved neste synkronisering (etter bytte av eiendom eller bruker)
+ */
+export interface SyncState {
+  property: Property | null;
+  cursors: Partial<Record<SyncTable, string>>;
+  cursorColumn?: 'synced_at';
+  replaceLocal: boolean;
+}
+
+/**
+ * RecordWithId: Post med egen ID (nøkkel i lageret)
+ */
+interface RecordWithId {
+  id: string;
+}
+
+// =============================================================================
+// HJELPEFUNKSJONER
+// =============================================================================
+
+/**
+ * requestToPromise: Vent på en IndexedDB-forespørsel
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * transactionDone: Vent til en transaksjon er fullført
+ */
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaksjonen ble avbrutt'));
+  });
+}
+
+/**
+ * upgradeDatabase: Opprett lagre og indekser
+ *
+ * Kjøres når databasen opprettes eller DB_VERSION økes.
+ * Nye versjoner legges til som egne `if (oldVersion < N)`-blokker.
+ *
+ * @param db - Databasen
+ * @param oldVersion - Versjonen databasen hadde (0 = ny)
+ */
+function upgradeDatabase(db: IDBDatabase, oldVersion: number): void {
+  if (oldVersion < 1) {
+    db.createObjectStore(STORES.META);
+    db.createObjectStore(STORES.CONTRACTORS, { keyPath: 'id' });
+
+    const history = db.createObjectStore(STORES.HISTORY, { keyPath: 'id' });
+    history.createIndex('timestamp', 'timestamp');
+    history.createIndex('contractorId', 'contractorId');
+    history.createIndex('locationId', 'locationId');
+
+    const orders = db.createObjectStore(STORES.ORDERS, { keyPath: 'id' });
+    orders.createIndex('requestedAt', 'requestedAt');
+    orders.createIndex('contractorId', 'contractorId');
+    orders.createIndex('locationId', 'locationId');
+
+    db.createObjectStore(STORES.OBSERVATIONS, { keyPath: ['stationId', 'date'] });
+  }
+  if (oldVersion < 2) {
+    db.createObjectStore(STORES.ARCHIVES, { keyPath: 'season' });
+  }
+  if (oldVersion < 3) {
+    db.createObjectStore(STORES.SYNC_QUEUE, { keyPath: 'key' });
+  }
+}
+
+/**
+ * compress: JSON-tekst → gzip
+ *
+ * Faller tilbake til ren tekst der CompressionStream mangler.
+ */
+async function compress(text: string): Promise<ArrayBuffer | string> {
+  if (typeof CompressionStream === 'undefined') return text;
+  const stream = new Blob([text]).stream().pipeThrough(new CompressionStream('gzip'));
+  return new Response(stream).arrayBuffer();
+}
+
+/**
+ * decompress: gzip (eller ren tekst) → JSON-tekst
+ */
+async function decompress(data: ArrayBuffer | string): Promise<string> {
+  if (typeof data === 'string') return data;
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('gzip'));
+  return new Response(stream).text();
+}
+
+/**
+ * readBundle: Pakk ut brøytingene i en arkivert sesong
+ */
+async function readBundle(bundle: ArchiveBundle | undefined): Promise<SnowEntry[]> {
+  if (!bundle) return [];
+  const entries: unknown = JSON.parse(await decompress(bundle.data));
+  return Array.isArray(entries) ? entries as SnowEntry[] : [];
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * openDatabase: Åpne databasen (gjenbrukes etter første gang)
+ *
+ * @throws Error hvis nettleseren ikke tillater IndexedDB
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => upgradeDatabase(request.result, event.oldVersion);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Prøv på nytt neste gang hvis åpningen feilet
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+}
+
+/**
+ * queryIndex: Hent poster fra en indeks
+ *
+ * @param storeName - Lageret
+ * @param indexName - Indeksen
+ * @param query - Verdi eller område (IDBKeyRange), eller null for alle
+ */
+async function queryIndex<T>(storeName: string, indexName: string, query: IDBValidKey | IDBKeyRange | null): Promise<T[]> {
+  const db = await openDatabase();
+  const index = db.transaction(storeName, 'readonly').objectStore(storeName).index(indexName);
+  return requestToPromise(index.getAll(query));
+}
+
+/**
+ * getTimeRange: Område for en tidspunkt-indeks (ISO-8601 sorterer som tekst)
+ */
+function getTimeRange(from: Date | null, to: Date | null): IDBKeyRange | null {
+  if (from && to) return IDBKeyRange.bound(from.toISOString(), to.toISOString());
+  if (from) return IDBKeyRange.lowerBound(from.toISOString());
+  if (to) return IDBKeyRange.upperBound(to.toISOString());
+  return null;
+}
+
+/**
+ * syncStore: Skriv endrede poster og slett fjernede
+ *
+ * Reduceren beholder samme objekt for poster som ikke er endret,
+ * så det holder å sammenligne referanser.
+ *
+ * @param store - Lageret (i en åpen transaksjon)
+ * @param previous - Postene før endringen
+ * @param next - Postene etter endringen
+ */
+function syncStore<T extends RecordWithId>(store: IDBObjectStore, previous: T[], next: T[]): void {
+  const removed = new Map(previous.map((item) => [item.id, item]));
+
+  next.forEach((item) => {
+    if (removed.get(item.id) !== item) store.put(item);
+    removed.delete(item.id);
+  });
+  removed.forEach((_, id) => store.delete(id));
+}
+
+/**
+ * replaceAll: Erstatt alle lagrede data (etter migrering)
+ *
+ * @param data - Gyldige data
+ */
+async function replaceAll(data: StoredData): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(
+    [STORES.META, STORES.HISTORY, STORES.CONTRACTORS, STORES.ORDERS],
+    'readwrite'
+  );
+
+  const meta = transaction.objectStore(STORES.META);
+  meta.put(data.settings, META_KEYS.SETTINGS);
+  meta.put(data.weather, META_KEYS.WEATHER);
+  meta.put(data.alertLog, META_KEYS.ALERT_LOG);
+  meta.put(SCHEMA_VERSION, META_KEYS.SCHEMA_VERSION);
+
+  const lists: [string, RecordWithId[]][] = [
+    [STORES.HISTORY, data.history],
+    [STORES.CONTRACTORS, data.contractors],
+    [STORES.ORDERS, data.orders],
+  ];
+  lists.forEach(([storeName, items]) => {
+    const store = transaction.objectStore(storeName);
+    store.clear();
+    items.forEach((item) => store.put(item));
+  });
+
+  await transactionDone(transaction);
+}
+
+/**
+ * readAppData: Les, migrer og valider alt som er lagret
+ *
+ * Finnes ingen skjemaversjon i databasen, er den ny: data fra
+ * localStorage (eldre versjoner) flyttes da over og fjernes.
+ */
+async function readAppData(defaults: Settings): Promise<StoredData> {
+  const db = await openDatabase();
+  const transaction = db.transaction(
+    [STORES.META, STORES.HISTORY, STORES.CONTRACTORS, STORES.ORDERS],
+    'readonly'
+  );
+  const meta = transaction.objectStore(STORES.META);
+
+  const [version, settings, weather, alertLog, history, contractors, orders] = await Promise.all([
+    requestToPromise(meta.get(META_KEYS.SCHEMA_VERSION)),
+    requestToPromise(meta.get(META_KEYS.SETTINGS)),
+    requestToPromise(meta.get(META_KEYS.WEATHER)),
+    requestToPromise(meta.get(META_KEYS.ALERT_LOG)),
+    requestToPromise(transaction.objectStore(STORES.HISTORY).getAll()),
+    requestToPromise(transaction.objectStore(STORES.CONTRACTORS).getAll()),
+    requestToPromise(transaction.objectStore(STORES.ORDERS).getAll()),
+  ]);
+
+  if (typeof version === 'number') {
+    const raw: RawStoredData = { settings, weather, alertLog, history, contractors, orders };
+    const { data, changed } = migrateStoredData(raw, version, defaults);
+    if (changed) await replaceAll(data);
+    return data;
+  }
+
+  // Ny database: flytt data fra localStorage (eller start med standardverdier)
+  const legacy = readLegacyStorage();
+  const { data } = migrateStoredData(legacy?.raw ?? {}, legacy?.version ?? SCHEMA_VERSION, defaults);
+  await replaceAll(data);
+  if (legacy) clearLegacyStorage();
+  return data;
+}
+
+let loadPromise: Promise<StoredData> | null = null;
+
+// =============================================================================
+// FUNKSJONER
+// =============================================================================
+
+/**
+ * loadAppData: Les alt som er lagret (migrert og validert)
+ *
+ * Samtidige kall deler samme lesing, slik at data fra localStorage
+ * ikke flyttes to ganger (f.eks. når React kjører effects to ganger
+ * i StrictMode).
+ *
+ * @param defaults - Standard innstillinger
+ * @returns Gyldige data klare for state
+ * @throws Error hvis databasen ikke kan åpnes
+ *
+ * @example
+ * const { settings, history } = await loadAppData(DEFAULT_SETTINGS);
+ */
+export function loadAppData(defaults: Settings): Promise<StoredData> {
+  if (!loadPromise) {
+    loadPromise = readAppData(defaults);
+    // Prøv på nytt neste gang hvis lesingen feilet
+    loadPromise.catch(() => {
+      loadPromise = null;
+    });
+  }
+  return loadPromise;
+}
+
+/**
+ * persistChanges: Lagre det som er endret mellom to tilstander
+ *
+ * Kalles etter hver state-endring. Innstillinger, værdata og
+ * varsel-logg skrives hele; lister skrives post for post.
+ * Korttidsvarsel, status og lasting lagres ikke.
+ *
+ * @param previous - Forrige lagrede tilstand
+ * @param next - Ny tilstand
+ */
+export async function persistChanges(previous: AppState, next: AppState): Promise<void> {
+  const metaChanged = previous.settings !== next.settings
+    || previous.weather !== next.weather
+    || previous.alertLog !== next.alertLog;
+  const lists = [
+    [STORES.HISTORY, previous.history, next.history],
+    [STORES.CONTRACTORS, previous.contractors, next.contractors],
+    [STORES.ORDERS, previous.orders, next.orders],
+  ] as const;
+  const changedLists = lists.filter(([, before, after]) => before !== after);
+  if (!metaChanged && changedLists.length === 0) return;
+
+  const db = await openDatabase();
+  const transaction = db.transaction(
+    [STORES.META, ...changedLists.map(([storeName]) => storeName)],
+    'readwrite'
+  );
+
+  const meta = transaction.objectStore(STORES.META);
+  if (previous.settings !== next.settings) meta.put(next.settings, META_KEYS.SETTINGS);
+  if (previous.weather !== next.weather) meta.put(next.weather, META_KEYS.WEATHER);
+  if (previous.alertLog !== next.alertLog) meta.put(next.alertLog, META_KEYS.ALERT_LOG);
+
+  changedLists.forEach(([storeName, before, after]) => {
+    syncStore<RecordWithId>(transaction.objectStore(storeName), before, after);
+  });
+
+  await transactionDone(transaction);
+}
+
+/**
+ * getHistoryInRange: Brøytinger i et tidsrom
+ *
+ * Gjelder den aktive loggen; arkiverte sesonger hentes med getArchivedEntries.
+ *
+ * @param from - Fra og med (null = fra starten)
+ * @param to - Til og med (null = til slutten)
+ * @returns Brøytinger sortert etter tidspunkt
+ *
+ * @example
+ * const season = await getHistoryInRange(new Date('2025-07-01'), new Date('2026-06-30T23:59:59'));
+ */
+export function getHistoryInRange(from: Date | null, to: Date | null): Promise<SnowEntry[]> {
+  return queryIndex(STORES.HISTORY, 'timestamp', getTimeRange(from, to));
+}
+
+/**
+ * getHistoryByContractor: Brøytinger utført av én kontakt
+ *
+ * @param contractorId - Kontaktens ID
+ * @returns Brøytinger koblet til kontakten
+ */
+export function getHistoryByContractor(contractorId: string): Promise<SnowEntry[]> {
+  return queryIndex(STORES.HISTORY, 'contractorId', contractorId);
+}
+
+/**
+ * queryHistory: Brøytinger i et utvalg
+ *
+ * Bruker kontakt-indeksen når utvalget har kontakt (færrest poster),
+ * ellers tidspunkt-indeksen.
+ *
+ * @param query - Tidsrom og kontakt
+ * @returns Brøytinger sortert etter tidspunkt
+ */
+export async function queryHistory(query: HistoryQuery): Promise<SnowEntry[]> {
+  if (!query.contractorId) return getHistoryInRange(query.from, query.to);
+
+  const entries = await getHistoryByContractor(query.contractorId);
+  return entries
+    .filter((entry) => {
+      const time = new Date(entry.timestamp).getTime();
+      return (!query.from || time >= query.from.getTime()) && (!query.to || time <= query.to.getTime());
+    })
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+}
+
+/**
+ * saveObservations: Lagre døgnobservasjoner for en stasjon
+ *
+ * Eksisterende observasjoner for samme dato overskrives.
+ *
+ * @param stationId - Frost-stasjonen
+ * @param observations - Døgnobservasjoner
+ */
+export async function saveObservations(stationId: string, observations: DailyObservation[]): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.OBSERVATIONS, 'readwrite');
+  const store = transaction.objectStore(STORES.OBSERVATIONS);
+  observations.forEach((observation) => {
+    const record: StoredObservation = { ...observation, stationId };
+    store.put(record);
+  });
+  await transactionDone(transaction);
+}
+
+/**
+ * getObservations: Lagrede døgnobservasjoner for en stasjon
+ *
+ * @param stationId - Frost-stasjonen
+ * @param from - Fra og med dato (YYYY-MM-DD)
+ * @param to - Til og med dato (YYYY-MM-DD)
+ * @returns Observasjoner sortert etter dato
+ */
+export async function getObservations(stationId: string, from: string, to: string): Promise<DailyObservation[]> {
+  const db = await openDatabase();
+  const store = db.transaction(STORES.OBSERVATIONS, 'readonly').objectStore(STORES.OBSERVATIONS);
+  const records = await requestToPromise<StoredObservation[]>(
+    store.getAll(IDBKeyRange.bound([stationId, from], [stationId, to]))
+  );
+  return records.map(({ date, snowDepth, precipitation }) => ({ date, snowDepth, precipitation }));
+}
+
+/**
+ * archiveEntries: Flytt brøytinger til arkivet
+ *
+ * Brøytingene legges i bunten for sin sesong, sammen med det som
+ * allerede er arkivert der. En brøyting som allerede finnes i
+ * bunten (samme ID), erstattes. Fjern dem fra loggen etterpå
+ * (ARCHIVE_HISTORY).
+ *
+ * @param entries - Brøytinger som skal arkiveres
+ *
+ * @example
+ * await archiveEntries(getEntriesToArchive(history, retention, new Date()));
+ */
+export async function archiveEntries(entries: SnowEntry[]): Promise<void> {
+  const bySeason = new Map<string, SnowEntry[]>();
+  entries.forEach((entry) => {
+    const season = getSeason(new Date(entry.timestamp));
+    bySeason.set(season, [...(bySeason.get(season) ?? []), entry]);
+  });
+
+  const db = await openDatabase();
+  const store = db.transaction(STORES.ARCHIVES, 'readonly').objectStore(STORES.ARCHIVES);
+  const existing = await Promise.all(
+    [...bySeason.keys()].map((season) => requestToPromise<ArchiveBundle | undefined>(store.get(season)))
+  );
+
+  // Komprimering er asynkron, så bunter lages før skrivingen starter
+  const bundles = await Promise.all([...bySeason.entries()].map(async ([season, added], index) => {
+    const addedIds = new Set(added.map((e) => e.id));
+    const merged = [...(await readBundle(existing[index])).filter((e) => !addedIds.has(e.id)), ...added]
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+    const bundle: ArchiveBundle = {
+      season,
+      count: merged.length,
+      from: merged[0].timestamp,
+      to: merged[merged.length - 1].timestamp,
+      data: await compress(JSON.stringify(merged)),
+    };
+    return bundle;
+  }));
+
+  const transaction = db.transaction(STORES.ARCHIVES, 'readwrite');
+  bundles.forEach((bundle) => transaction.objectStore(STORES.ARCHIVES).put(bundle));
+  await transactionDone(transaction);
+}
+
+/**
+ * getArchivedSeasons: Alle arkiverte sesonger
+ *
+ * @returns Oversikt per sesong, nyeste først
+ */
+export async function getArchivedSeasons(): Promise<ArchiveSummary[]> {
+  const db = await openDatabase();
+  const store = db.transaction(STORES.ARCHIVES, 'readonly').objectStore(STORES.ARCHIVES);
+  const bundles = await requestToPromise<ArchiveBundle[]>(store.getAll());
+  return bundles
+    .map(({ season, count, from, to }) => ({ season, count, from, to }))
+    .sort((a, b) => b.season.localeCompare(a.season));
+}
+
+/**
+ * getArchivedEntries: Brøytingene i én arkivert sesong
+ *
+ * @param season - Sesong, f.eks. "2024/25"
+ * @returns Brøytinger sortert etter tidspunkt (tom liste hvis sesongen ikke finnes)
+ */
+export async function getArchivedEntries(season: string): Promise<SnowEntry[]> {
+  const db = await openDatabase();
+  const store = db.transaction(STORES.ARCHIVES, 'readonly').objectStore(STORES.ARCHIVES);
+  return readBundle(await requestToPromise<ArchiveBundle | undefined>(store.get(season)));
+}
+
+/**
+ * getAllArchivedEntries: Brøytingene i alle arkiverte sesonger
+ *
+ * @returns Brøytinger fra hele arkivet (tom liste hvis arkivet er tomt)
+ */
+export async function getAllArchivedEntries(): Promise<SnowEntry[]> {
+  const db = await openDatabase();
+  const store = db.transaction(STORES.ARCHIVES, 'readonly').objectStore(STORES.ARCHIVES);
+  const bundles = await requestToPromise<ArchiveBundle[]>(store.getAll());
+  return (await Promise.all(bundles.map(readBundle))).flat();
+}
+
+/**
+ * getSyncState: Lagret synkroniseringsstatus
+ *
+ * @returns Status, eller null hvis appen aldri har synkronisert
+ */
+export async function getSyncState(): Promise<SyncState | null> {
+  const db = await openDatabase();
+  const store = db.transaction(STORES.META, 'readonly').objectStore(STORES.META);
+  return (await requestToPromise<SyncState | undefined>(store.get(META_KEYS.SYNC_STATE))) ?? null;
+}
+
+/**
+ * saveSyncState: Lagre synkroniseringsstatus
+ *
+ * @param state - Nøkkel og markører
+ */
+export async function saveSyncState(state: SyncState): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.META, 'readwrite');
+  transaction.objectStore(STORES.META).put(state, META_KEYS.SYNC_STATE);
+  await transactionDone(transaction);
+}
+
+/**
+ * queueSyncOperations: Legg endringer i køen
+ *
+ * En endring erstatter den forrige endringen av samme post.
+ *
+ * @param operations - Endringer som skal sendes
+ */
+export async function queueSyncOperations(operations: SyncOperation[]): Promise<void> {
+  if (operations.length === 0) return;
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.SYNC_QUEUE, 'readwrite');
+  const store = transaction.objectStore(STORES.SYNC_QUEUE);
+  operations.forEach((operation) => store.put(operation));
+  await transactionDone(transaction);
+}
+
+/**
+ * getSyncOperations: Alle endringer i køen
+ */
+export async function getSyncOperations(): Promise<SyncOperation[]> {
+  const db = await openDatabase();
+  const store = db.transaction(STORES.SYNC_QUEUE, 'readonly').objectStore(STORES.SYNC_QUEUE);
+  return requestToPromise<SyncOperation[]>(store.getAll());
+}
+
+/**
+ * countSyncOperations: Antall endringer i køen
+ */
+export async function countSyncOperations(): Promise<number> {
+  const db = await openDatabase();
+  const store = db.transaction(STORES.SYNC_QUEUE, 'readonly').objectStore(STORES.SYNC_QUEUE);
+  return requestToPromise(store.count());
+}
+
+/**
+ * removeSyncOperations: Fjern sendte (eller forkastede) endringer fra køen
+ *
+ * En post som er endret på nytt i mellomtiden (annen updated_at),
+ * blir liggende slik at den nye endringen også sendes.
+ *
+ * @param operations - Endringene slik de ble lest fra køen
+ */
+export async function removeSyncOperations(operations: SyncOperation[]): Promise<void> {
+  if (operations.length === 0) return;
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.SYNC_QUEUE, 'readwrite');
+  const store = transaction.objectStore(STORES.SYNC_QUEUE);
+  operations.forEach(({ key, row }) => {
+    const request = store.get(key);
+    request.onsuccess = () => {
+      const current: SyncOperation | undefined = request.result;
+      if (current?.row.updated_at === row.updated_at) store.delete(key);
+    };
+  });
+  await transactionDone(transaction);
+}
+
+/**
+ * clearSyncOperations: Tøm køen (f.eks. ved bytte av eiendom)
+ */
+export async function clearSyncOperations(): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.SYNC_QUEUE, 'readwrite');
+  transaction.objectStore(STORES.SYNC_QUEUE).clear();
+  await transactionDone(transaction);
+}
+
+/**
+ * getAuthSession: Lagret innlogging (se services/auth)
+ *
+ * @returns Sesjonen, eller null hvis enheten ikke er logget inn
+ */
+export async function getAuthSession(): Promise<AuthSession | null> {
+  const db = await openDatabase();
+  const store = db.transaction(STORES.META, 'readonly').objectStore(STORES.META);
+  return (await requestToPromise<AuthSession | undefined>(store.get(META_KEYS.AUTH_SESSION))) ?? null;
+}
+
+/**
+ * saveAuthSession: Lagre innlogging
+ *
+ * @param session - Ny eller fornyet sesjon
+ */
+export async function saveAuthSession(session: AuthSession): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.META, 'readwrite');
+  transaction.objectStore(STORES.META).put(session, META_KEYS.AUTH_SESSION);
+  await transactionDone(transaction);
+}
+
+/**
+ * clearAuthSession: Fjern innlogging (ved utlogging)
+ */
+export async function clearAuthSession(): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.META, 'readwrite');
+  transaction.objectStore(STORES.META).delete(META_KEYS.AUTH_SESSION);
+  await transactionDone(transaction);
+}
+
+/**
+ * clearArchives: Slett alle arkiverte sesonger
+ *
+ * Brukes når lokale data erstattes av en annen eiendoms data.
+ * Arkiverte brøytinger ligger fortsatt på serveren.
+ */
+export async function clearArchives(): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.ARCHIVES, 'readwrite');
+  transaction.objectStore(STORES.ARCHIVES).clear();
+  await transactionDone(transaction);
+}
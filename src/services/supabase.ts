@@ -0,0 +1,363 @@
+/**
+ * supabase.ts: Klient og tabeller i Supabase
+ *
+ * Supabase gjør tabellene tilgjengelige via PostgREST (REST over HTTP),
+ * så klienten bruker fetch direkte og trenger ingen egne pakker.
+ * Den virker like godt mot en lokal Supabase (`supabase start`)
+ * under utvikling og testing.
+ *
+ * Miljøvariabler:
+ * - VITE_SUPABASE_URL: Prosjekt-URL (REST-API-et ligger under /rest/v1)
+ * - VITE_SUPABASE_ANON_KEY: Offentlig nøkkel (anon key)
+ *
+ * Alle rader tilhører en eiendom (property_id). Hvem som får lese og
+ * skrive, styres av RLS ut fra medlemskap (se services/properties),
+ * så kallene sender den innloggede brukerens token (se services/auth).
+ *
+ * Tabellene er definert i SUPABASE_SETUP.sql. Funksjonene nederst
+ * oversetter mellom appens typer (camelCase) og radene (snake_case).
+ *
+ * @see https://postgrest.org/en/stable/references/api.html
+ */
+
+import type { Contractor, PricingAgreement, Settings, SnowEntry, SnowEntryEdit, TimeRange } from '../types';
+import { getDefaultAuthClient, getSession } from './auth';
+
+// =============================================================================
+// INTERFACES
+// =============================================================================
+
+/**
+ * SyncTable: Tabellene som synkroniseres
+ */
+export type SyncTable = 'settings' | 'contractors' | 'plow_entries';
+
+/**
+ * SupabaseTable: Alle tabeller appen leser fra
+ */
+export type SupabaseTable = SyncTable | 'property_members' | 'property_invitations';
+
+/**
+ * SupabaseClient: Lese og skrive rader i en tabell
+ *
+ * Kan byttes ut (f.eks. med en falsk server i tester) ved å sende
+ * inn en egen klient til runSync.
+ *
+ * @property select - Hent rader (params er PostgREST-filtre, f.eks. { property_id: 'eq.abc' })
+ * @property upsert - Sett inn rader, eller oppdater rader med samme verdi i `onConflict`
+ * @property rpc - Kall en databasefunksjon (se SUPABASE_SETUP.sql)
+ */
+export interface SupabaseClient {
+  select: <T>(table: SupabaseTable, params: Record<string, string>) => Promise<T[]>;
+  upsert: (table: SyncTable, rows: object[], onConflict: string) => Promise<void>;
+  rpc: <T>(fn: string, args: Record<string, unknown>) => Promise<T>;
+}
+
+/**
+ * SyncedSettings: Innstillingene som synkroniseres
+ *
+ * Aktiv lokasjon, varsler, push og værdata-kilde gjelder kun én enhet.
+ */
+export type SyncedSettings = Omit<Settings, 'activeLocationId' | 'notifyEnabled' | 'pushEnabled' | 'weatherProvider' | 'weatherScenario'>;
+
+/**
+ * SettingsRow: Rad i `settings`
+ *
+ * @property property_id - Eiendommen
+ * @property data - Innstillingene som JSON
+ * @property updated_at - Når innstillingene sist ble endret (ISO-8601)
+ * @property updated_by - Hvem som endret dem (settes av databasen)
+ * @property synced_at - Når raden sist ble skrevet på serveren (settes av databasen)
+ */
+export interface SettingsRow {
+  property_id: string;
+  data: SyncedSettings;
+  updated_at: string;
+  updated_by?: string | null;
+  synced_at?: string;
+}
+
+/**
+ * ContractorRow: Rad i `contractors`
+ *
+ * @property deleted - Kontakten er slettet (raden beholdes for andre enheter)
+ * @property updated_by - Hvem som sist endret raden (settes av databasen)
+ * @property synced_at - Når raden sist ble skrevet på serveren (settes av databasen)
+ */
+export interface ContractorRow {
+  id: string;
+  property_id: string;
+  name: string;
+  phone: string;
+  email: string | null;
+  is_primary: boolean;
+  priority: number | null;
+  available_hours: TimeRange | null;
+  response_timeout_minutes: number | null;
+  pricing: PricingAgreement | null;
+  deleted: boolean;
+  updated_at: string;
+  updated_by?: string | null;
+  synced_at?: string;
+}
+
+/**
+ * PlowEntryRow: Rad i `plow_entries`
+ *
+ * @property deleted - Brøytingen er slettet (raden beholdes for andre enheter)
+ * @property updated_by - Hvem som sist endret raden (settes av databasen)
+ * @property synced_at - Når raden sist ble skrevet på serveren (settes av databasen)
+ */
+export interface PlowEntryRow {
+  id: string;
+  property_id: string;
+  timestamp: string;
+  snow_depth: number | null;
+  comment: string | null;
+  contractor_id: string | null;
+  contractor_name: string | null;
+  duration_minutes: number | null;
+  location_id: string | null;
+  forecast_depth: number | null;
+  edits: SnowEntryEdit[] | null;
+  deleted: boolean;
+  updated_at: string;
+  updated_by?: string | null;
+  synced_at?: string;
+}
+
+/**
+ * SyncRow: En rad i en av tabellene
+ */
+export type SyncRow = SettingsRow | ContractorRow | PlowEntryRow;
+
+// =============================================================================
+// KLIENT
+// =============================================================================
+
+/**
+ * createSupabaseClient: Lag en klient mot PostgREST
+ *
+ * Nøkkelen sendes som `apikey` (kreves av Supabase), og brukerens
+ * token som Bearer-token (RLS). Uten token brukes nøkkelen (rollen `anon`).
+ *
+ * @param restUrl - Adressen til REST-API-et (uten avsluttende /)
+ * @param apiKey - Offentlig nøkkel (anon key)
+ * @param getAccessToken - Henter brukerens token før hvert kall (valgfritt)
+ * @returns SupabaseClient som bruker fetch
+ *
+ * @example
+ * const client = createSupabaseClient('http://127.0.0.1:54321/rest/v1', anonKey, getToken);
+ * const rows = await client.select<ContractorRow>('contractors', { property_id: 'eq.abc' });
+ */
+export function createSupabaseClient(
+  restUrl: string,
+  apiKey: string,
+  getAccessToken?: () => Promise<string>
+): SupabaseClient {
+  const request = async (path: string, init: RequestInit = {}): Promise<Response> => {
+    const token = getAccessToken ? await getAccessToken() : apiKey;
+    const response = await fetch(`${restUrl}/${path}`, {
+      ...init,
+      headers: {
+        'apikey': apiKey,
+        'Authorization': `Bearer ${token}`,
+        'Accept': 'application/json',
+        ...init.headers,
+      },
+    });
+
+    if (!response.ok) {
+      // PostgREST forklarer feilen i `message`
+      const body: { message?: string } = await response.json().catch(() => ({}));
+      throw new Error(`Supabase feilet: ${response.status}${body.message ? ` (${body.message})` : ''}`);
+    }
+    return response;
+  };
+
+  return {
+    select: async <T>(table: SupabaseTable, params: Record<string, string>): Promise<T[]> => {
+      const response = await request(`${table}?${new URLSearchParams(params)}`);
+      return response.json();
+    },
+
+    upsert: async (table: SyncTable, rows: object[], onConflict: string): Promise<void> => {
+      await request(`${table}?${new URLSearchParams({ on_conflict: onConflict })}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Prefer': 'resolution=merge-duplicates,return=minimal',
+        },
+        body: JSON.stringify(rows),
+      });
+    },
+
+    rpc: async <T>(fn: string, args: Record<string, unknown>): Promise<T> => {
+      const response = await request(`rpc/${fn}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(args),
+      });
+      // Funksjoner uten returverdi svarer med tom body (204)
+      const text = await response.text();
+      return (text ? JSON.parse(text) : null) as T;
+    },
+  };
+}
+
+/**
+ * getDefaultSupabaseClient: Klient fra VITE_SUPABASE_URL og VITE_SUPABASE_ANON_KEY
+ *
+ * Logger inn anonymt første gang (se getSession).
+ *
+ * @returns SupabaseClient, eller null hvis Supabase ikke er satt opp
+ */
+export function getDefaultSupabaseClient(): SupabaseClient | null {
+  const projectUrl = (import.meta.env.VITE_SUPABASE_URL ?? '').replace(/\/$/, '');
+  const auth = getDefaultAuthClient();
+  if (!projectUrl || !auth) return null;
+
+  return createSupabaseClient(
+    `${projectUrl}/rest/v1`,
+    import.meta.env.VITE_SUPABASE_ANON_KEY ?? '',
+    async () => (await getSession(auth)).accessToken
+  );
+}
+
+// =============================================================================
+// MAPPING
+// =============================================================================
+
+/**
+ * pickSyncedSettings: Innstillingene som synkroniseres
+ *
+ * Nye felt i Settings må legges til her for å synkroniseres.
+ *
+ * @param settings - Alle innstillinger
+ * @returns Innstillinger uten valg som gjelder én enhet
+ */
+export function pickSyncedSettings(settings: Settings): SyncedSettings {
+  return {
+    locations: settings.locations,
+    alertRules: settings.alertRules,
+    schedule: settings.schedule,
+    orderTemplate: settings.orderTemplate,
+    historyRetention: settings.historyRetention,
+  };
+}
+
+/**
+ * toSettingsRow: Settings → rad
+ *
+ * @param settings - Innstillinger
+ * @param propertyId - Eiendommen
+ * @param updatedAt - Tidspunktet for endringen
+ */
+export function toSettingsRow(settings: Settings, propertyId: string, updatedAt: string): SettingsRow {
+  return { property_id: propertyId, data: pickSyncedSettings(settings), updated_at: updatedAt };
+}
+
+/**
+ * fromSettingsRow: Rad → Settings
+ *
+ * Valg som gjelder denne enheten hentes fra de lokale innstillingene.
+ *
+ * @param row - Rad fra serveren
+ * @param local - Lokale innstillinger
+ */
+export function fromSettingsRow(row: SettingsRow, local: Settings): Settings {
+  return {
+    ...row.data,
+    activeLocationId: local.activeLocationId,
+    notifyEnabled: local.notifyEnabled,
+    pushEnabled: local.pushEnabled,
+    weatherProvider: local.weatherProvider,
+    weatherScenario: local.weatherScenario,
+  };
+}
+
+/**
+ * toContractorRow: Contractor → rad
+ *
+ * @param contractor - Kontakt
+ * @param propertyId - Eiendommen
+ * @param updatedAt - Tidspunktet for endringen
+ * @param deleted - Kontakten er slettet
+ */
+export function toContractorRow(contractor: Contractor, propertyId: string, updatedAt: string, deleted = false): ContractorRow {
+  return {
+    id: contractor.id,
+    property_id: propertyId,
+    name: contractor.name,
+    phone: contractor.phone,
+    email: contractor.email ?? null,
+    is_primary: contractor.isPrimary ?? false,
+    priority: contractor.priority ?? null,
+    available_hours: contractor.availableHours ?? null,
+    response_timeout_minutes: contractor.responseTimeoutMinutes ?? null,
+    pricing: contractor.pricing ?? null,
+    deleted,
+    updated_at: updatedAt,
+  };
+}
+
+/**
+ * fromContractorRow: Rad → Contractor
+ *
+ * Tomme kolonner (null) blir felt som mangler.
+ */
+export function fromContractorRow(row: ContractorRow): Contractor {
+  const contractor: Contractor = { id: row.id, name: row.name, phone: row.phone };
+  if (row.email !== null) contractor.email = row.email;
+  if (row.is_primary) contractor.isPrimary = true;
+  if (row.priority !== null) contractor.priority = row.priority;
+  if (row.available_hours !== null) contractor.availableHours = row.available_hours;
+  if (row.response_timeout_minutes !== null) contractor.responseTimeoutMinutes = row.response_timeout_minutes;
+  if (row.pricing !== null) contractor.pricing = row.pricing;
+  return contractor;
+}
+
+/**
+ * toPlowEntryRow: SnowEntry → rad
+ *
+ * @param entry - Brøyting
+ * @param propertyId - Eiendommen
+ * @param updatedAt - Tidspunktet for endringen
+ * @param deleted - Brøytingen er slettet
+ */
+export function toPlowEntryRow(entry: SnowEntry, propertyId: string, updatedAt: string, deleted = false): PlowEntryRow {
+  return {
+    id: entry.id,
+    property_id: propertyId,
+    timestamp: entry.timestamp,
+    snow_depth: entry.snowDepth ?? null,
+    comment: entry.comment ?? null,
+    contractor_id: entry.contractorId ?? null,
+    contractor_name: entry.contractor ?? null,
+    duration_minutes: entry.durationMinutes ?? null,
+    location_id: entry.locationId ?? null,
+    forecast_depth: entry.forecastDepth ?? null,
+    edits: entry.edits ?? null,
+    deleted,
+    updated_at: updatedAt,
+  };
+}
+
+/**
+ * fromPlowEntryRow: Rad → SnowEntry
+ *
+ * Tidspunktet gjøres om til samme format som appen bruker
+ * (Postgres svarer med "+00:00" i stedet for "Z").
+ */
+export function fromPlowEntryRow(row: PlowEntryRow): SnowEntry {
+  const entry: SnowEntry = { id: row.id, timestamp: new Date(row.timestamp).toISOString() };
+  if (row.snow_depth !== null) entry.snowDepth = Number(row.snow_depth);
+  if (row.comment !== null) entry.comment = row.comment;
+  if (row.contractor_name !== null) entry.contractor = row.contractor_name;
+  if (row.contractor_id !== null) entry.contractorId = row.contractor_id;
+  if (row.duration_minutes !== null) entry.durationMinutes = row.duration_minutes;
+  if (row.location_id !== null) entry.locationId = row.location_id;
+  if (row.forecast_depth !== null) entry.forecastDepth = Number(row.forecast_depth);
+  if (row.edits) entry.edits = row.edits;
+  return entry;
+}
@@ -0,0 +1,756 @@
+/**
+ * sync.ts: Synkronisering med Supabase (offline først)
+ *
+ * Appen jobber alltid mot den lokale databasen (se repository).
+ * Synkroniseringen går i bakgrunnen:
+ * 1. Lokale endringer legges i en kø (queueChanges), også uten nett
+ * 2. runSync henter endringer fra serveren siden forrige gang (synced_at,
+ *    satt av databasen, så enhetenes klokker ikke spiller inn)
+ * 3. Konflikter avgjøres med updated_at: siste endring vinner
+ * 4. Køen sendes til serveren, og sendte endringer fjernes fra køen
+ *
+ * Innstillinger, kontakter og brøytinger synkroniseres. Bestillinger,
+ * værdata og varsel-logg blir på enheten.
+ *
+ * Dataene tilhører den aktive eiendommen (property_id i tabellene),
+ * og alle medlemmer av eiendommen ser de samme dataene (se
+ * services/properties). Første gang opprettes en eiendom med brukeren
+ * som eier, og lokale data sendes dit. Ved bytte av eiendom (eller
+ * bruker) erstattes lokale data av eiendommens data.
+ *
+ * Medlemmer med rollen viewer kan bare lese; lokale endringer sendes
+ * ikke, og forkastes ved neste synkronisering.
+ *
+ * Endringer fra serveren merkes, slik at de ikke legges i køen og
+ * sendes tilbake når de havner i state. Det samme gjelder endringer
+ * som kommer i sanntid fra andre enheter eller faner (se realtime).
+ *
+ * @see SUPABASE_SETUP.sql - Tabellene
+ */
+
+import type {
+  AppState,
+  Contractor,
+  Property,
+  RecordChanges,
+  RemoteAction,
+  RemoteChanges,
+  SnowEntry,
+  SyncPhase,
+} from '../types';
+import { SCHEMA_VERSION, migrateStoredData } from '../lib/storage';
+import {
+  clearArchives,
+  clearSyncOperations,
+  countSyncOperations,
+  getSyncOperations,
+  getSyncState,
+  queueSyncOperations,
+  removeSyncOperations,
+  saveSyncState,
+  type SyncOperation,
+  type SyncState,
+} from './repository';
+import {
+  fromContractorRow,
+  fromPlowEntryRow,
+  fromSettingsRow,
+  pickSyncedSettings,
+  toContractorRow,
+  toPlowEntryRow,
+  toSettingsRow,
+  type ContractorRow,
+  type PlowEntryRow,
+  type SettingsRow,
+  type SupabaseClient,
+  type SyncTable,
+} from './supabase';
+import type { RealtimeChange } from './realtime';
+import { canEdit, createProperty, listProperties } from './properties';
+
+// =============================================================================
+// KONSTANTER
+// =============================================================================
+
+/**
+ * SYNC_PHASE_LABELS: Visningsnavn for hver tilstand
+ */
+export const SYNC_PHASE_LABELS: Record<SyncPhase, string> = {
+  disabled: 'Ikke satt opp',
+  idle: 'Synkronisert',
+  syncing: 'Synkroniserer…',
+  offline: 'Frakoblet',
+  error: 'Feil ved synkronisering',
+};
+
+/**
+ * TABLE_ORDER: Rekkefølgen tabellene sendes i
+ *
+ * Kontakter først, siden brøytinger viser til dem (contractor_id).
+ */
+const TABLE_ORDER: SyncTable[] = ['contractors', 'plow_entries', 'settings'];
+
+/**
+ * CONFLICT_COLUMNS: Kolonnene som identifiserer en rad ved upsert
+ */
+const CONFLICT_COLUMNS: Record<SyncTable, string> = {
+  settings: 'property_id',
+  contractors: 'property_id,id',
+  plow_entries: 'property_id,id',
+};
+
+/**
+ * CURSOR_OVERLAP_MS: Hvor langt før markøren hentingen starter
+ *
+ * synced_at settes når transaksjonen starter, så en rad kan bli synlig
+ * etter en rad med senere synced_at. Rader som hentes to ganger, hoppes
+ * over når innholdet er uendret.
+ */
+const CURSOR_OVERLAP_MS = 60 * 1000;
+
+/**
+ * PAGE_SIZE: Antall rader per forespørsel ved henting
+ */
+const PAGE_SIZE = 500;
+
+/**
+ * remoteVersions: Innhold som kom fra serveren eller en annen fane
+ *
+ * Når posten havner i state med samme innhold, skal den ikke legges i
+ * køen igjen. Innholdet sammenlignes (ikke objektet), siden reduceren
+ * kan lage kopier (f.eks. ADD_CONTRACTOR, som setter rekkefølgen).
+ * Nøkkel = "tabell:ID" (se getOperationKey), verdi = stableStringify.
+ */
+const remoteVersions = new Map<string, string>();
+
+/**
+ * localRemovals: Poster som er fjernet lokalt uten å slettes på serveren
+ *
+ * Gjelder brøytinger som er arkivert, og poster som er slettet på en
+ * annen enhet. Nøkkel = "tabell:ID" (se getOperationKey).
+ */
+const localRemovals = new Set<string>();
+
+// =============================================================================
+// INTERFACES
+// =============================================================================
+
+/**
+ * LocalData: Lokale data som synkroniseres
+ */
+export type LocalData = Pick<AppState, 'settings' | 'contractors' | 'history'>;
+
+/**
+ * SyncResult: Resultat av én synkronisering
+ *
+ * @property changes - Endringer fra serveren som skal inn i state (eller null)
+ * @property pending - Endringer som fortsatt ligger i køen
+ * @property pushError - Feil ved sending (hentede endringer gjelder likevel)
+ * @property property - Aktiv eiendom med brukerens rolle
+ */
+export interface SyncResult {
+  changes: RemoteChanges | null;
+  pending: number;
+  pushError: unknown;
+  property: Property;
+}
+
+// =============================================================================
+// HJELPEFUNKSJONER
+// =============================================================================
+
+/**
+ * getOperationKey: Nøkkel for en post i køen
+ *
+ * @example
+ * getOperationKey('contractors', 'abc'); // "contractors:abc"
+ */
+function getOperationKey(table: SyncTable, id?: string): string {
+  return id === undefined ? table : `${table}:${id}`;
+}
+
+/**
+ * stableStringify: JSON med sorterte nøkler
+ *
+ * Postgres (jsonb) endrer rekkefølgen på nøklene, så vanlig
+ * JSON.stringify kan ikke brukes til å sammenligne innhold.
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * isNewer: Er tidspunkt a senere enn b?
+ *
+ * Sammenligner som datoer, siden Postgres svarer med "+00:00"
+ * der appen bruker "Z".
+ */
+function isNewer(a: string, b: string): boolean {
+  return Date.parse(a) > Date.parse(b);
+}
+
+/**
+ * diffRecords: Endrede og fjernede poster mellom to lister
+ *
+ * Reduceren beholder samme objekt for poster som ikke er endret, så
+ * referansene sammenlignes først (som persistChanges). Kopier med
+ * samme innhold (f.eks. fra setContractorOrder) regnes ikke som endret.
+ */
+function diffRecords<T extends { id: string }>(previous: T[], next: T[]): { changed: T[]; removed: T[] } {
+  const before = new Map(previous.map((item) => [item.id, item]));
+  const changed = next.filter((item) => {
+    const old = before.get(item.id);
+    return old !== item && (!old || stableStringify(old) !== stableStringify(item));
+  });
+  const nextIds = new Set(next.map((item) => item.id));
+  return { changed, removed: previous.filter((item) => !nextIds.has(item.id)) };
+}
+
+/**
+ * markRemote: Merk innhold som kom utenfra (se remoteVersions)
+ */
+function markRemote(key: string, content: unknown): void {
+  remoteVersions.set(key, stableStringify(content));
+}
+
+/**
+ * isRemote: Kom posten med dette innholdet utenfra?
+ *
+ * Merket fjernes når innholdet er endret siden, eller når `consume`
+ * er satt (posten er da behandlet av køen).
+ *
+ * @param key - Nøkkel (se getOperationKey)
+ * @param content - Innholdet i state
+ * @param consume - Fjern merket også når innholdet stemmer
+ */
+function isRemote(key: string, content: unknown, consume: boolean): boolean {
+  const version = remoteVersions.get(key);
+  if (version === undefined) return false;
+  const matches = version === stableStringify(content);
+  if (!matches || consume) remoteVersions.delete(key);
+  return matches;
+}
+
+/**
+ * loadSyncState: Les synkroniseringsstatus
+ *
+ * Status fra før eiendommer (med synkroniseringsnøkkel) gir en ny
+ * start, der lokale data sendes til brukerens nye eiendom.
+ */
+async function loadSyncState(): Promise<SyncState> {
+  const saved = await getSyncState();
+  if (!saved?.property) {
+    return { property: null, cursors: {}, cursorColumn: 'synced_at', replaceLocal: saved?.replaceLocal ?? false };
+  }
+  // Markører fra før synced_at var updated_at fra enhetenes klokker: hent alt på nytt
+  if (saved.cursorColumn !== 'synced_at') {
+    return { ...saved, cursors: {}, cursorColumn: 'synced_at' };
+  }
+  return saved;
+}
+
+/**
+ * resolveProperty: Eiendommen som skal synkroniseres nå
+ *
+ * - Den aktive eiendommen, hvis brukeren fortsatt er medlem
+ * - Ellers den første eiendommen brukeren er medlem av (lokale data erstattes)
+ * - Ellers en ny eiendom med brukeren som eier (lokale data sendes dit)
+ *
+ * @param client - Supabase-klient
+ * @param state - Lagret status
+ * @param name - Navn på en ny eiendom
+ * @returns Eiendommen, og om lokale data skal erstattes
+ */
+async function resolveProperty(
+  client: SupabaseClient,
+  state: SyncState,
+  name: string
+): Promise<{ property: Property; replaceLocal: boolean }> {
+  const properties = await listProperties(client);
+  const current = properties.find((p) => p.id === state.property?.id);
+  if (current) return { property: current, replaceLocal: state.replaceLocal };
+  if (properties.length > 0) return { property: properties[0], replaceLocal: true };
+  return { property: await createProperty(client, name), replaceLocal: false };
+}
+
+/**
+ * fetchChanges: Hent rader endret etter markøren
+ *
+ * @param client - Supabase-klient
+ * @param table - Tabellen
+ * @param propertyId - Eiendommen
+ * @param since - Nyeste synced_at fra forrige gang (eller undefined for alt)
+ * @returns Rader sortert etter synced_at
+ */
+async function fetchChanges<T extends { synced_at?: string }>(
+  client: SupabaseClient,
+  table: SyncTable,
+  propertyId: string,
+  since: string | undefined
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const params: Record<string, string> = {
+      select: '*',
+      property_id: `eq.${propertyId}`,
+      order: 'synced_at.asc',
+      limit: String(PAGE_SIZE),
+      offset: String(offset),
+    };
+    if (since) params.synced_at = `gt.${new Date(Date.parse(since) - CURSOR_OVERLAP_MS).toISOString()}`;
+
+    const page = await client.select<T>(table, params);
+    rows.push(...page);
+    if (page.length < PAGE_SIZE) return rows;
+  }
+}
+
+/**
+ * latestSync: Nyeste synced_at i en liste rader
+ *
+ * @returns Tidspunktet, eller `fallback` hvis listen er tom
+ */
+function latestSync(rows: { synced_at?: string }[], fallback: string | undefined): string | undefined {
+  return rows.reduce<string | undefined>(
+    (latest, row) => (row.synced_at && (!latest || isNewer(row.synced_at, latest)) ? row.synced_at : latest),
+    fallback
+  );
+}
+
+// =============================================================================
+// FUNKSJONER
+// =============================================================================
+
+/**
+ * getActiveProperty: Eiendommen appen viser
+ *
+ * @returns Eiendommen fra forrige synkronisering, eller null
+ */
+export async function getActiveProperty(): Promise<Property | null> {
+  return (await loadSyncState()).property;
+}
+
+/**
+ * switchProperty: Bytt til en annen eiendom
+ *
+ * Neste synkronisering erstatter lokale data med eiendommens data.
+ * Endringer som ikke er sendt, forkastes, så bytt bare når køen er tom.
+ *
+ * @param property - Eiendommen (f.eks. etter acceptInvitation)
+ */
+export async function switchProperty(property: Property): Promise<void> {
+  await clearSyncOperations();
+  await saveSyncState({ property, cursors: {}, cursorColumn: 'synced_at', replaceLocal: true });
+}
+
+/**
+ * resetActiveProperty: Velg eiendom på nytt ved neste synkronisering
+ *
+ * Brukes etter innlogging eller utlogging (se services/auth), siden
+ * den nye brukeren kan være medlem av andre eiendommer.
+ */
+export async function resetActiveProperty(): Promise<void> {
+  await clearSyncOperations();
+  await saveSyncState({ property: null, cursors: {}, cursorColumn: 'synced_at', replaceLocal: true });
+}
+
+/**
+ * markLocalRemovals: Fjern brøytinger lokalt uten å slette dem på serveren
+ *
+ * Kalles før brøytinger arkiveres (ARCHIVE_HISTORY).
+ *
+ * @param ids - Brøytingene som fjernes
+ */
+export function markLocalRemovals(ids: string[]): void {
+  ids.forEach((id) => localRemovals.add(getOperationKey('plow_entries', id)));
+}
+
+/**
+ * queueChanges: Legg lokale endringer i køen
+ *
+ * Kalles etter hver state-endring, sammen med persistChanges.
+ * Endringer som kom fra serveren, hoppes over. Før første
+ * synkronisering legges ingenting i køen (alt sendes da uansett),
+ * og heller ikke når brukeren bare har lesetilgang.
+ *
+ * @param previous - Forrige tilstand
+ * @param next - Ny tilstand
+ * @returns Antall endringer i køen, eller null hvis ingenting ble lagt til
+ */
+export async function queueChanges(previous: AppState, next: AppState): Promise<number | null> {
+  const updatedAt = new Date().toISOString();
+  const settingsChanged = previous.settings !== next.settings
+    && stableStringify(pickSyncedSettings(previous.settings)) !== stableStringify(pickSyncedSettings(next.settings))
+    && !isRemote(getOperationKey('settings'), pickSyncedSettings(next.settings), true);
+  const contractors = previous.contractors !== next.contractors
+    ? diffRecords(previous.contractors, next.contractors)
+    : { changed: [], removed: [] };
+  const history = previous.history !== next.history
+    ? diffRecords(previous.history, next.history)
+    : { changed: [], removed: [] };
+
+  // Poster i localRemovals er fjernet uten å slettes på serveren
+  // (arkivert eller slettet på en annen enhet), og sendes ikke
+  const isDeleted = (key: string) => !localRemovals.delete(key);
+
+  const pending: { table: SyncTable; id?: string; build: (propertyId: string) => SyncOperation['row'] }[] = [
+    ...(settingsChanged ? [{ table: 'settings' as const, build: (propertyId: string) => toSettingsRow(next.settings, propertyId, updatedAt) }] : []),
+    ...contractors.changed
+      .filter((c) => !isRemote(getOperationKey('contractors', c.id), c, true))
+      .map((c) => ({ table: 'contractors' as const, id: c.id, build: (propertyId: string) => toContractorRow(c, propertyId, updatedAt) })),
+    ...contractors.removed
+      .filter((c) => isDeleted(getOperationKey('contractors', c.id)))
+      .map((c) => ({ table: 'contractors' as const, id: c.id, build: (propertyId: string) => toContractorRow(c, propertyId, updatedAt, true) })),
+    ...history.changed
+      .filter((e) => !isRemote(getOperationKey('plow_entries', e.id), e, true))
+      .map((e) => ({ table: 'plow_entries' as const, id: e.id, build: (propertyId: string) => toPlowEntryRow(e, propertyId, updatedAt) })),
+    ...history.removed
+      .filter((e) => isDeleted(getOperationKey('plow_entries', e.id)))
+      .map((e) => ({ table: 'plow_entries' as const, id: e.id, build: (propertyId: string) => toPlowEntryRow(e, propertyId, updatedAt, true) })),
+  ];
+  if (pending.length === 0) return null;
+
+  const { property } = await loadSyncState();
+  if (!property || !canEdit(property)) return null;
+
+  await queueSyncOperations(pending.map(({ table, id, build }) => ({
+    key: getOperationKey(table, id),
+    table,
+    row: build(property.id),
+  })));
+  return countSyncOperations();
+}
+
+/**
+ * getLocalActions: Lokale endringer i brøytinger og kontakter som handlinger
+ *
+ * Sendes til andre faner på samme enhet (se createTabChannel).
+ * Endringer som kom utenfra, og brøytinger som er arkivert, tas ikke med.
+ *
+ * @param previous - Forrige tilstand
+ * @param next - Ny tilstand
+ * @returns Handlinger som gjenskaper endringene
+ */
+export function getLocalActions(previous: AppState, next: AppState): RemoteAction[] {
+  const actions: RemoteAction[] = [];
+
+  if (previous.history !== next.history) {
+    const { changed, removed } = diffRecords(previous.history, next.history);
+    changed
+      .filter((e) => !isRemote(getOperationKey('plow_entries', e.id), e, false))
+      .forEach((e) => actions.push({ type: 'ADD_HISTORY', payload: e }));
+    removed
+      .filter((e) => !localRemovals.has(getOperationKey('plow_entries', e.id)))
+      .forEach((e) => actions.push({ type: 'DELETE_HISTORY', payload: e.id }));
+  }
+
+  if (previous.contractors !== next.contractors) {
+    const { changed, removed } = diffRecords(previous.contractors, next.contractors);
+    const existing = new Set(previous.contractors.map((c) => c.id));
+    changed
+      .filter((c) => !isRemote(getOperationKey('contractors', c.id), c, false))
+      .forEach((c) => actions.push({ type: existing.has(c.id) ? 'UPDATE_CONTRACTOR' : 'ADD_CONTRACTOR', payload: c }));
+    removed
+      .filter((c) => !localRemovals.has(getOperationKey('contractors', c.id)))
+      .forEach((c) => actions.push({ type: 'DELETE_CONTRACTOR', payload: c.id }));
+  }
+
+  return actions;
+}
+
+/**
+ * acceptRemoteAction: Sjekk en endring fra en annen enhet eller fane
+ *
+ * Poster valideres som lagrede data. Endringer som allerede gjelder
+ * (samme ID og innhold), hoppes over. Godkjente endringer merkes, slik
+ * at de ikke legges i køen eller sendes videre når de havner i state.
+ *
+ * @param action - Endringen
+ * @param local - Lokale data
+ * @returns Handlingen som skal kjøres, eller null hvis den ikke endrer noe
+ *
+ * @example
+ * const accepted = acceptRemoteAction(action, { settings, contractors, history });
+ * if (accepted) dispatch(accepted);
+ */
+export function acceptRemoteAction(action: RemoteAction, local: LocalData): RemoteAction | null {
+  switch (action.type) {
+    case 'DELETE_HISTORY':
+    case 'DELETE_CONTRACTOR': {
+      const table: SyncTable = action.type === 'DELETE_HISTORY' ? 'plow_entries' : 'contractors';
+      const records: { id: string }[] = action.type === 'DELETE_HISTORY' ? local.history : local.contractors;
+      if (!records.some((record) => record.id === action.payload)) return null;
+      localRemovals.add(getOperationKey(table, action.payload));
+      return action;
+    }
+
+    case 'ADD_HISTORY': {
+      const [entry] = migrateStoredData({ settings: local.settings, history: [action.payload] }, SCHEMA_VERSION, local.settings).data.history;
+      const current = local.history.find((e) => e.id === entry?.id);
+      if (!entry || (current && stableStringify(current) === stableStringify(entry))) return null;
+      markRemote(getOperationKey('plow_entries', entry.id), entry);
+      return { type: 'ADD_HISTORY', payload: entry };
+    }
+
+    case 'ADD_CONTRACTOR':
+    case 'UPDATE_CONTRACTOR': {
+      const [contractor] = migrateStoredData({ settings: local.settings, contractors: [action.payload] }, SCHEMA_VERSION, local.settings).data.contractors;
+      const current = local.contractors.find((c) => c.id === contractor?.id);
+      if (!contractor || (current && stableStringify(current) === stableStringify(contractor))) return null;
+      markRemote(getOperationKey('contractors', contractor.id), contractor);
+      return { type: current ? 'UPDATE_CONTRACTOR' : 'ADD_CONTRACTOR', payload: contractor };
+    }
+  }
+}
+
+/**
+ * toRealtimeAction: Rad fra sanntidsforbindelsen → handling
+ *
+ * Rader fra andre eiendommer, og rader som er eldre enn en lokal
+ * endring i køen, hoppes over (som i runSync).
+ *
+ * @param change - Tabell og rad fra Supabase Realtime
+ * @param local - Lokale data
+ * @returns Handlingen som skal kjøres, eller null
+ */
+export async function toRealtimeAction(change: RealtimeChange, local: LocalData): Promise<RemoteAction | null> {
+  const { property } = await loadSyncState();
+  if (change.row.property_id !== property?.id) return null;
+
+  const key = getOperationKey(change.table, change.row.id);
+  const pending = (await getSyncOperations()).find((op) => op.key === key);
+  if (pending && isNewer(pending.row.updated_at, change.row.updated_at)) return null;
+
+  const action: RemoteAction = change.table === 'plow_entries'
+    ? change.row.deleted
+      ? { type: 'DELETE_HISTORY', payload: change.row.id }
+      : { type: 'ADD_HISTORY', payload: fromPlowEntryRow(change.row) }
+    : change.row.deleted
+      ? { type: 'DELETE_CONTRACTOR', payload: change.row.id }
+      : { type: 'UPDATE_CONTRACTOR', payload: fromContractorRow(change.row) };
+  return acceptRemoteAction(action, local);
+}
+
+/**
+ * runSync: Hent endringer fra serveren og send køen
+ *
+ * 1. Finner aktiv eiendom og brukerens rolle (se resolveProperty)
+ * 2. Henter rader endret siden forrige gang (markør per tabell)
+ * 3. For hver rad: er det en nyere lokal endring i køen, beholdes
+ *    den (og sendes); ellers gjelder raden fra serveren
+ * 4. Første gang legges lokale poster som mangler på serveren i køen.
+ *    Skal lokale data erstattes, slettes de i stedet lokalt.
+ * 5. Sender køen, kontakter før brøytinger
+ *
+ * Kast ved feil under henting (ingenting er endret da). Feil under
+ * sending returneres i `pushError`, siden hentede endringer og nye
+ * markører allerede gjelder.
+ *
+ * @param client - Supabase-klient
+ * @param local - Lokale data (for sammenligning og første synkronisering)
+ * @returns Endringer fra serveren, antall endringer som gjenstår og aktiv eiendom
+ * @throws Error hvis serveren ikke kan nås
+ *
+ * @example
+ * const { changes } = await runSync(client, { settings, contractors, history });
+ * if (changes) dispatch({ type: 'APPLY_REMOTE_CHANGES', payload: changes });
+ */
+export async function runSync(client: SupabaseClient, local: LocalData): Promise<SyncResult> {
+  const state = await loadSyncState();
+  const resolved = await resolveProperty(client, state, local.settings.locations[0]?.name ?? '');
+  const { property } = resolved;
+  const editable = canEdit(property);
+  let replaceLocal = resolved.replaceLocal;
+  let cursors = property.id === state.property?.id ? state.cursors : {};
+
+  // Køen gjelder en annen eiendom, eller brukeren har mistet skrivetilgang:
+  // forkast den og hent alt på nytt
+  let queued = await getSyncOperations();
+  if (queued.length > 0 && (property.id !== state.property?.id || !editable)) {
+    await clearSyncOperations();
+    queued = [];
+    cursors = {};
+    replaceLocal = true;
+  }
+  const queue = new Map(queued.map((op) => [op.key, op]));
+
+  const [settingsRows, contractorRows, entryRows] = await Promise.all([
+    fetchChanges<SettingsRow>(client, 'settings', property.id, cursors.settings),
+    fetchChanges<ContractorRow>(client, 'contractors', property.id, cursors.contractors),
+    fetchChanges<PlowEntryRow>(client, 'plow_entries', property.id, cursors.plow_entries),
+  ]);
+
+  // Lokale endringer som er eldre enn raden på serveren, forkastes
+  const discarded: SyncOperation[] = [];
+  const accept = (key: string, updatedAt: string): boolean => {
+    const pending = queue.get(key);
+    if (!pending) return true;
+    if (isNewer(pending.row.updated_at, updatedAt)) return false;
+    discarded.push(pending);
+    queue.delete(key);
+    return true;
+  };
+
+  // Innstillinger
+  const settingsRow = settingsRows.find((row) => accept(getOperationKey('settings'), row.updated_at));
+  const remoteSettings = settingsRow ? fromSettingsRow(settingsRow, local.settings) : null;
+  const settings = remoteSettings
+    && stableStringify(pickSyncedSettings(remoteSettings)) !== stableStringify(pickSyncedSettings(local.settings))
+    ? remoteSettings
+    : null;
+
+  // Kontakter og brøytinger: uendret innhold hoppes over (f.eks. egne endringer)
+  const collect = <T extends { id: string }, R extends { id: string; updated_at: string; deleted: boolean }>(
+    table: SyncTable,
+    rows: R[],
+    localRecords: T[],
+    fromRow: (row: R) => T,
+    toRow: (record: T) => R
+  ): RecordChanges<T> => {
+    const byId = new Map(localRecords.map((record) => [record.id, record]));
+    const changes: RecordChanges<T> = { upserted: [], deleted: [] };
+    rows
+      .filter((row) => accept(getOperationKey(table, row.id), row.updated_at))
+      .forEach((row) => {
+        const current = byId.get(row.id);
+        if (row.deleted) {
+          if (current) changes.deleted.push(row.id);
+          return;
+        }
+        const record = fromRow(row);
+        if (!current || stableStringify({ ...toRow(current), updated_at: '' }) !== stableStringify({ ...toRow(record), updated_at: '' })) {
+          changes.upserted.push(record);
+        }
+      });
+
+    // Lokale poster som ikke finnes i eiendommen, fjernes
+    if (replaceLocal) {
+      const remoteIds = new Set(rows.filter((row) => !row.deleted).map((row) => row.id));
+      localRecords
+        .filter((record) => !remoteIds.has(record.id) && !changes.deleted.includes(record.id))
+        .forEach((record) => changes.deleted.push(record.id));
+    }
+    return changes;
+  };
+
+  const contractors = collect<Contractor, ContractorRow>(
+    'contractors', contractorRows, local.contractors, fromContractorRow, (c) => toContractorRow(c, property.id, '')
+  );
+  const history = collect<SnowEntry, PlowEntryRow>(
+    'plow_entries', entryRows, local.history, fromPlowEntryRow, (e) => toPlowEntryRow(e, property.id, '')
+  );
+
+  // Valider som lagrede data (ugyldige poster settes i karantene)
+  const { data: valid } = migrateStoredData(
+    { settings: settings ?? local.settings, contractors: contractors.upserted, history: history.upserted },
+    SCHEMA_VERSION,
+    local.settings
+  );
+  const changes: RemoteChanges = {
+    settings: settings ? valid.settings : null,
+    contractors: { upserted: valid.contractors, deleted: contractors.deleted },
+    history: { upserted: valid.history, deleted: history.deleted },
+  };
+
+  // Første synkronisering: send lokale poster som mangler på serveren
+  const seeded: SyncOperation[] = [];
+  const now = new Date().toISOString();
+  const seed = (table: SyncTable, id: string | undefined, build: () => SyncOperation['row']) => {
+    const key = getOperationKey(table, id);
+    if (editable && !queue.has(key)) seeded.push({ key, table, row: build() });
+  };
+  if (!cursors.settings && settingsRows.length === 0) {
+    seed('settings', undefined, () => toSettingsRow(local.settings, property.id, now));
+  }
+  if (!cursors.contractors && !replaceLocal) {
+    const remoteIds = new Set(contractorRows.map((row) => row.id));
+    local.contractors
+      .filter((c) => !remoteIds.has(c.id))
+      .forEach((c) => seed('contractors', c.id, () => toContractorRow(c, property.id, now)));
+  }
+  if (!cursors.plow_entries && !replaceLocal) {
+    const remoteIds = new Set(entryRows.map((row) => row.id));
+    local.history
+      .filter((e) => !remoteIds.has(e.id))
+      .forEach((e) => seed('plow_entries', e.id, () => toPlowEntryRow(e, property.id, now)));
+  }
+
+  // Arkivet hører til de lokale dataene som erstattes
+  if (replaceLocal) await clearArchives();
+  await removeSyncOperations(discarded);
+  await queueSyncOperations(seeded);
+  await saveSyncState({
+    property,
+    cursors: {
+      settings: latestSync(settingsRows, cursors.settings),
+      contractors: latestSync(contractorRows, cursors.contractors),
+      plow_entries: latestSync(entryRows, cursors.plow_entries),
+    },
+    cursorColumn: 'synced_at',
+    replaceLocal: false,
+  });
+
+  // Merk endringene, så de ikke legges i køen når de havner i state
+  if (changes.settings) markRemote(getOperationKey('settings'), pickSyncedSettings(changes.settings));
+  changes.contractors.upserted.forEach((c) => markRemote(getOperationKey('contractors', c.id), c));
+  changes.history.upserted.forEach((e) => markRemote(getOperationKey('plow_entries', e.id), e));
+  changes.contractors.deleted.forEach((id) => localRemovals.add(getOperationKey('contractors', id)));
+  changes.history.deleted.forEach((id) => localRemovals.add(getOperationKey('plow_entries', id)));
+
+  // Send køen, én tabell om gangen
+  const outgoing = [...queue.values(), ...seeded];
+  let pushError: unknown = null;
+  try {
+    for (const table of TABLE_ORDER) {
+      const operations = outgoing.filter((op) => op.table === table);
+      if (operations.length === 0) continue;
+      await client.upsert(table, operations.map((op) => op.row), CONFLICT_COLUMNS[table]);
+      await removeSyncOperations(operations);
+    }
+  } catch (error) {
+    pushError = error;
+  }
+
+  const hasChanges = changes.settings !== null
+    || [changes.contractors, changes.history].some((c) => c.upserted.length > 0 || c.deleted.length > 0);
+
+  return { changes: hasChanges ? changes : null, pending: await countSyncOperations(), pushError, property };
+}
+
+/**
+ * applyRecordChanges: Flett endringer fra serveren inn i en liste
+ *
+ * Brukes av reduceren (APPLY_REMOTE_CHANGES). Endrede poster
+ * erstattes på samme plass, nye legges bakerst.
+ *
+ * @param records - Lokale poster
+ * @param changes - Endringer fra serveren
+ * @returns Ny liste (samme liste hvis ingenting er endret)
+ */
+export function applyRecordChanges<T extends { id: string }>(records: T[], changes: RecordChanges<T>): T[] {
+  if (changes.upserted.length === 0 && changes.deleted.length === 0) return records;
+
+  const deleted = new Set(changes.deleted);
+  const upserted = new Map(changes.upserted.map((record) => [record.id, record]));
+  const merged = records
+    .filter((record) => !deleted.has(record.id))
+    .map((record) => upserted.get(record.id) ?? record);
+  const existing = new Set(records.map((record) => record.id));
+  return [...merged, ...changes.upserted.filter((record) => !existing.has(record.id))];
+}
+
+/**
+ * isOfflineError: Skyldes feilen manglende nett?
+ *
+ * fetch kaster TypeError når serveren ikke kan nås.
+ */
+export function isOfflineError(error: unknown): boolean {
+  return !navigator.onLine || error instanceof TypeError;
+}
@@ -0,0 +1,350 @@
+/**
+ * weatherProviders.ts: Kilder for værdata
+ *
+ * Appen henter værdata gjennom et felles `WeatherProvider`-grensesnitt.
+ * Dette gjør det mulig å utvikle og demonstrere appen uten nettverk,
+ * og å fremprovosere f.eks. kritisk status ved behov.
+ *
+ * Kilder:
+ * - metno: Locationforecast fra Met.no (standard)
+ * - fixture: Scenarioer fra JSON-filer i `services/fixtures/`
+ *
+ * Kilden velges i innstillingene, eller med miljøvariabler:
+ * - VITE_WEATHER_PROVIDER=fixture
+ * - VITE_WEATHER_SCENARIO=storm
+ */
+
+import type {
+  MetNoResponse,
+  MetNoTimeseries,
+  NowcastData,
+  Settings,
+  WeatherData,
+  WeatherProvider,
+  WeatherProviderId,
+} from '../types';
+import { fetchNowcast, fetchWeatherData, parseWeatherData } from './metno';
+
+// =============================================================================
+// INTERFACES
+// =============================================================================
+
+/**
+ * ScenarioSegment: Et antall timer med likt vær i et syntetisk scenario
+ *
+ * @property hours - Antall timer segmentet varer
+ * @property temperature - Lufttemperatur (°C)
+ * @property precipitation - Nedbør per time (mm)
+ * @property symbol - Met.no symbolkode (f.eks. "heavysnow")
+ * @property probability - Sannsynlighet for nedbør (%)
+ * @property spread - Relativ usikkerhet, gir min/max (0.5 = ±50 %)
+ * @property windSpeed - Vindstyrke (m/s)
+ */
+interface ScenarioSegment {
+  hours: number;
+  temperature: number;
+  precipitation: number;
+  symbol: string;
+  probability?: number;
+  spread?: number;
+  windSpeed?: number;
+}
+
+/**
+ * WeatherScenario: Innholdet i én fixture-fil
+ *
+ * Enten et syntetisk scenario (`segments`) eller et lagret
+ * svar fra Met.no (`response`). Tidspunktene flyttes alltid
+ * slik at scenarioet starter i inneværende time.
+ *
+ * @property id - Unik ID (brukes i innstillinger og VITE_WEATHER_SCENARIO)
+ * @property name - Visningsnavn
+ * @property description - Kort beskrivelse av hva scenarioet viser
+ * @property startOffsetHours - Timer før nå scenarioet starter (negativt = passert snøfall)
+ * @property segments - Syntetiske værsegmenter
+ * @property response - Lagret Met.no-svar (complete eller compact)
+ */
+export interface WeatherScenario {
+  id: string;
+  name: string;
+  description: string;
+  startOffsetHours?: number;
+  segments?: ScenarioSegment[];
+  response?: MetNoResponse;
+}
+
+// =============================================================================
+// KONSTANTER
+// =============================================================================
+
+/**
+ * ONE_HOUR_MS: Én time i millisekunder
+ */
+const ONE_HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * NOWCAST_STEPS: 24 steg à 5 minutter = 2 timer (som Met.no Nowcast)
+ */
+const NOWCAST_STEPS = 24;
+
+/**
+ * NOWCAST_STEP_MS: Lengden på ett steg (5 minutter)
+ */
+const NOWCAST_STEP_MS = 5 * 60 * 1000;
+
+/**
+ * WEATHER_SCENARIOS: Alle scenarioer i fixtures-mappen
+ *
+ * Nye scenarioer (eller lagrede Met.no-svar) legges til ved
+ * å legge en JSON-fil i `services/fixtures/`.
+ */
+export const WEATHER_SCENARIOS: WeatherScenario[] = Object.values(
+  import.meta.glob<WeatherScenario>('./fixtures/*.json', { eager: true, import: 'default' })
+);
+
+/**
+ * WEATHER_PROVIDER_LABELS: Visningsnavn for hver kilde
+ */
+export const WEATHER_PROVIDER_LABELS: Record<WeatherProviderId, string> = {
+  metno: 'Met.no (sanntid)',
+  fixture: 'Testdata (scenario)',
+};
+
+// =============================================================================
+// HJELPEFUNKSJONER
+// =============================================================================
+
+/**
+ * getCurrentHour: Start av inneværende time
+ */
+function getCurrentHour(): number {
+  const now = new Date();
+  now.setMinutes(0, 0, 0);
+  return now.getTime();
+}
+
+/**
+ * round1: Rund av til én desimal
+ */
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * buildTimeseries: Gjør syntetiske segmenter om til Met.no-format
+ *
+ * @param scenario - Scenario med segmenter
+ * @param startMs - Tidspunkt for første time
+ * @returns Timeseries med én oppføring per time
+ */
+function buildTimeseries(scenario: WeatherScenario, startMs: number): MetNoTimeseries[] {
+  const timeseries: MetNoTimeseries[] = [];
+  let time = startMs;
+
+  for (const segment of scenario.segments ?? []) {
+    const spread = segment.spread ?? 0;
+
+    for (let i = 0; i < segment.hours; i++) {
+      timeseries.push({
+        time: new Date(time).toISOString(),
+        data: {
+          instant: {
+            details: {
+              air_temperature: segment.temperature,
+              wind_speed: segment.windSpeed ?? 0,
+            },
+          },
+          next_1_hours: {
+            summary: { symbol_code: segment.symbol },
+            details: {
+              precipitation_amount: segment.precipitation,
+              precipitation_amount_min: round1(segment.precipitation * Math.max(0, 1 - spread)),
+              precipitation_amount_max: round1(segment.precipitation * (1 + spread)),
+              probability_of_precipitation: segment.probability,
+            },
+          },
+        },
+      });
+      time += ONE_HOUR_MS;
+    }
+  }
+
+  return timeseries;
+}
+
+/**
+ * shiftTimeseries: Flytt et lagret svar slik at det starter i `startMs`
+ *
+ * @param timeseries - Lagret timeseries
+ * @param startMs - Ny starttid for første oppføring
+ * @returns Timeseries med flyttede tidspunkter
+ */
+function shiftTimeseries(timeseries: MetNoTimeseries[], startMs: number): MetNoTimeseries[] {
+  if (timeseries.length === 0) return [];
+  const offset = startMs - new Date(timeseries[0].time).getTime();
+
+  return timeseries.map((entry) => ({
+    ...entry,
+    time: new Date(new Date(entry.time).getTime() + offset).toISOString(),
+  }));
+}
+
+/**
+ * scenarioToWeatherData: Bygg WeatherData fra et scenario
+ *
+ * Timer før nå blir `pastHours`, slik at snødybde-modellen ser
+ * snøfall som "allerede har falt" - akkurat som etter flere
+ * hentinger fra Met.no.
+ *
+ * @param scenario - Scenario fra fixtures
+ * @returns Værdata med prognose fra inneværende time
+ */
+function scenarioToWeatherData(scenario: WeatherScenario): WeatherData {
+  const currentHour = getCurrentHour();
+  const startMs = currentHour + (scenario.startOffsetHours ?? 0) * ONE_HOUR_MS;
+
+  const timeseries = scenario.response
+    ? shiftTimeseries(scenario.response.properties.timeseries, startMs)
+    : buildTimeseries(scenario, startMs);
+
+  const past = timeseries.filter((entry) => new Date(entry.time).getTime() < currentHour);
+  const future = timeseries.filter((entry) => new Date(entry.time).getTime() >= currentHour);
+
+  if (future.length === 0) {
+    throw new Error(`Scenario "${scenario.id}" mangler prognose fra nå`);
+  }
+
+  const weather = parseWeatherData({ properties: { timeseries: future } });
+  const pastHours = past.length > 0
+    ? parseWeatherData({ properties: { timeseries: past } }).hourly
+    : [];
+
+  return { ...weather, pastHours };
+}
+
+/**
+ * weatherToNowcast: Lag et korttidsvarsel fra timesprognosen
+ *
+ * Testdata har ingen radar, så hver time deles opp i 5-minutters
+ * steg med samme intensitet.
+ *
+ * @param weather - Værdata fra scenarioet
+ * @returns NowcastData for de neste 2 timene
+ */
+function weatherToNowcast(weather: WeatherData): NowcastData {
+  const start = Math.floor(Date.now() / NOWCAST_STEP_MS) * NOWCAST_STEP_MS;
+  const steps = Array.from({ length: NOWCAST_STEPS }, (_, i) => {
+    const time = start + i * NOWCAST_STEP_MS;
+    const hour = weather.hourly.find((h) => {
+      const hourStart = new Date(h.time).getTime();
+      return time >= hourStart && time < hourStart + ONE_HOUR_MS;
+    });
+    return {
+      time: new Date(time).toISOString(),
+      precipitationRate: hour?.precipitation ?? 0,
+      precipitationType: hour?.precipitationType ?? 'rain',
+    };
+  });
+
+  return {
+    updatedAt: new Date(start).toISOString(),
+    radarCoverage: 'ok',
+    temperature: weather.current.temperature,
+    steps,
+  };
+}
+
+// =============================================================================
+// KILDER
+// =============================================================================
+
+/**
+ * metnoProvider: Værdata fra Met.no Locationforecast
+ */
+export const metnoProvider: WeatherProvider = {
+  id: 'metno',
+  name: WEATHER_PROVIDER_LABELS.metno,
+  fetchWeather: (location) => fetchWeatherData(location.lat, location.lon),
+  fetchNowcast: (location) => fetchNowcast(location.lat, location.lon),
+};
+
+/**
+ * createFixtureProvider: Lag en kilde som spiller av et scenario
+ *
+ * Samme scenario brukes for alle lokasjoner.
+ *
+ * @param scenarioId - ID for scenarioet (standard: første i listen)
+ * @returns WeatherProvider som ikke bruker nettverk
+ *
+ * @example
+ * const provider = createFixtureProvider('storm');
+ * const vær = await provider.fetchWeather(location);
+ */
+export function createFixtureProvider(scenarioId?: string): WeatherProvider {
+  const fetchWeather = async () => {
+    const scenario = getWeatherScenario(scenarioId);
+    if (!scenario) {
+      throw new Error('Fant ingen værscenarioer');
+    }
+    return scenarioToWeatherData(scenario);
+  };
+
+  return {
+    id: 'fixture',
+    name: WEATHER_PROVIDER_LABELS.fixture,
+    fetchWeather,
+    fetchNowcast: async () => weatherToNowcast(await fetchWeather()),
+  };
+}
+
+// =============================================================================
+// FUNKSJONER
+// =============================================================================
+
+/**
+ * getWeatherScenario: Finn scenario fra ID
+ *
+ * @param scenarioId - Ønsket scenario (ukjent ID gir første scenario)
+ * @returns Scenario, eller undefined hvis fixtures-mappen er tom
+ */
+export function getWeatherScenario(scenarioId?: string): WeatherScenario | undefined {
+  return WEATHER_SCENARIOS.find((s) => s.id === scenarioId) ?? WEATHER_SCENARIOS[0];
+}
+
+/**
+ * getWeatherProviderId: Hvilken kilde som er valgt
+ *
+ * Innstillingene har forrang, deretter VITE_WEATHER_PROVIDER.
+ *
+ * @param settings - Brukerinnstillinger
+ * @returns Kildens ID
+ */
+export function getWeatherProviderId(settings: Settings): WeatherProviderId {
+  if (settings.weatherProvider) return settings.weatherProvider;
+  return import.meta.env.VITE_WEATHER_PROVIDER === 'fixture' ? 'fixture' : 'metno';
+}
+
+/**
+ * getWeatherScenarioId: Hvilket scenario fixture-kilden spiller av
+ *
+ * @param settings - Brukerinnstillinger
+ * @returns Scenario-ID (innstillinger, VITE_WEATHER_SCENARIO eller første scenario)
+ */
+export function getWeatherScenarioId(settings: Settings): string | undefined {
+  return settings.weatherScenario ?? import.meta.env.VITE_WEATHER_SCENARIO ?? WEATHER_SCENARIOS[0]?.id;
+}
+
+/**
+ * getWeatherProvider: Hent valgt værdata-kilde
+ *
+ * @param settings - Brukerinnstillinger
+ * @returns WeatherProvider som skal brukes
+ *
+ * @example
+ * const vær = await getWeatherProvider(settings).fetchWeather(location);
+ */
+export function getWeatherProvider(settings: Settings): WeatherProvider {
+  return getWeatherProviderId(settings) === 'fixture'
+    ? createFixtureProvider(getWeatherScenarioId(settings))
+    : metnoProvider;
+}
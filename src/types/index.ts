@@ -32,6 +32,26 @@ export interface Location {
   lon: number;
 }
 
+/**
+ * MonitoredLocation: En eiendom/innkjørsel som overvåkes
+ * 
+ * Utvider Location med egen ID og egen snøterskel,
+ * slik at hvert sted (hytte, hjem, kontor) vurderes for seg.
+ * 
+ * @property id - Unik identifikator (UUID)
+ * @property snowThreshold - Snødybde (cm) på bakken før varsling for dette stedet
+ * @property timezone - IANA-tidssone (f.eks. "Europe/Oslo"), styrer varslingsplanen (valgfritt, standard: enhetens)
+ * @property address - Gateadresse til brøyter (valgfritt)
+ * @property accessNotes - Adkomst, f.eks. portkode eller hvor snøen skal legges (valgfritt)
+ */
+export interface MonitoredLocation extends Location {
+  id: string;
+  snowThreshold: number;
+  timezone?: string;
+  address?: string;
+  accessNotes?: string;
+}
+
 // =============================================================================
 // INNSTILLINGER
 // =============================================================================
@@ -40,24 +60,187 @@ export interface Location {
  * Settings: Brukerinnstillinger for appen
  * 
  * Inneholder alle konfigurerbare verdier.
- * Lagres i localStorage og Synkroniseres med Supabase ved behov.
+ * Lagres lokalt (IndexedDB) og Synkroniseres med Supabase ved behov.
  * 
- * @property location - Valgt lokasjon for værdata
- * @property snowThreshold - Minimum snø (mm) før varsling
- * @property notifyNight - Varsle om natten (18:00-09:00)
- * @property notifyDay - Varsle på dagen (09:00-18:00)
+ * @property locations - Alle steder som overvåkes
+ * @property activeLocationId - ID for stedet som vises på hjem-fanen
  * @property notifyEnabled - Hovedbryter for varsler
- * @property notifyOnSnow - Spesifik varsling når det snør
+ * @property alertRules - Varslingsregler (se AlertRule)
+ * @property pushEnabled - Send varsler via push-relay, også når appen er lukket (valgfritt)
+ * @property schedule - Dagtid og stille perioder per ukedag
+ * @property orderTemplate - Meldingsmal for bestilling av brøyting (se ORDER_TEMPLATE_VARIABLES)
+ * @property historyRetention - Hvor lenge brøytinger ligger i loggen før de arkiveres
+ * @property weatherProvider - Kilde for værdata (valgfritt, standard fra VITE_WEATHER_PROVIDER eller Met.no)
+ * @property weatherScenario - Scenario for fixture-kilden (valgfritt)
  */
 export interface Settings {
-  location: Location;
-  snowThreshold: number;
-  notifyNight: boolean;
-  notifyDay: boolean;
+  locations: MonitoredLocation[];
+  activeLocationId: string;
   notifyEnabled: boolean;
-  notifyOnSnow: boolean;
+  alertRules: AlertRule[];
+  pushEnabled?: boolean;
+  schedule: NotificationSchedule;
+  orderTemplate: string;
+  historyRetention: HistoryRetention;
+  weatherProvider?: WeatherProviderId;
+  weatherScenario?: string;
 }
 
+/**
+ * HistoryRetention: Hvor lenge brøytinger ligger i den aktive loggen
+ * 
+ * Eldre brøytinger slettes ikke, men flyttes til et komprimert
+ * arkiv per sesong (se lib/retention).
+ * 
+ * - forever: Alt beholdes i loggen
+ * - seasons: Inneværende og `count - 1` foregående sesonger
+ * - months: De siste `count` månedene
+ */
+export type HistoryRetention =
+  | { type: 'forever' }
+  | { type: 'seasons'; count: number }
+  | { type: 'months'; count: number };
+
+// =============================================================================
+// VARSLING
+// =============================================================================
+
+/**
+ * AlertCondition: Betingelse for en varslingsregel
+ * 
+ * - forecast_snow: Mer enn `amountMm` snø (vannekv.) de neste `hours` timene
+ * - status_critical: Snøstatus har endret seg til kritisk
+ * - freezing_rain: Regn ved kuldegrader etter snøfall (fare for is)
+ * - temperature_crossing: Temperaturen krysser 0°C innen `hours` timer
+ * - snow_onset: Det snør nå, eller radaren viser snø innen 2 timer
+ */
+export type AlertCondition =
+  | { type: 'forecast_snow'; amountMm: number; hours: number }
+  | { type: 'status_critical' }
+  | { type: 'freezing_rain'; hours: number }
+  | { type: 'temperature_crossing'; direction: 'up' | 'down'; hours: number }
+  | { type: 'snow_onset' };
+
+/**
+ * AlertConditionType: Navnet på en betingelse (f.eks. "forecast_snow")
+ */
+export type AlertConditionType = AlertCondition['type'];
+
+/**
+ * TimeRange: Et tidsrom på døgnet
+ * 
+ * Kan gå over midnatt (f.eks. 22:00-07:00). "24:00" betyr midnatt
+ * på slutten av døgnet.
+ * 
+ * @property start - Start (HH:MM)
+ * @property end - Slutt (HH:MM)
+ */
+export interface TimeRange {
+  start: string;
+  end: string;
+}
+
+/**
+ * QuietHours: Tidsrom uten varsler for én regel
+ */
+export type QuietHours = TimeRange;
+
+/**
+ * DayWindow: Hva som regnes som dagtid
+ * 
+ * - 'sun': Fra soloppgang til solnedgang på lokasjonen
+ * - TimeRange: Faste klokkeslett
+ */
+export type DayWindow = 'sun' | TimeRange;
+
+/**
+ * NotificationSchedule: Felles varslingsplan for alle regler
+ * 
+ * Tidene gjelder i hver lokasjons egen tidssone, slik at planen
+ * virker likt i appen og i push-relayet (som kan stå i UTC).
+ * 
+ * @property dayWindow - Dagtid (styrer også sol/måne i værkortet)
+ * @property quietHours - Stille perioder per ukedag (indeks 0 = mandag)
+ * @property urgentOverridesQuiet - Kritisk status varsles også i stille periode
+ */
+export interface NotificationSchedule {
+  dayWindow: DayWindow;
+  quietHours: TimeRange[][];
+  urgentOverridesQuiet: boolean;
+}
+
+/**
+ * AlertRule: Én varslingsregel
+ * 
+ * Evalueres mot hver nye WeatherData for hver lokasjon.
+ * 
+ * @property id - Unik identifikator (UUID)
+ * @property name - Visningsnavn
+ * @property enabled - Om regelen er aktiv
+ * @property condition - Når regelen slår til
+ * @property quietHours - Stille periode (eller null)
+ * @property cooldownMinutes - Minste tid mellom to varsler fra regelen per lokasjon
+ * @property template - Meldingsmal, f.eks. "{sted}: {mm} mm snø neste {timer} t"
+ */
+export interface AlertRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  condition: AlertCondition;
+  quietHours: QuietHours | null;
+  cooldownMinutes: number;
+  template: string;
+}
+
+/**
+ * PushRegistration: Det push-relayet trenger for å varsle én enhet
+ * 
+ * Sendes til relayet hver gang innstillinger, brøytinger eller
+ * kontakter endres, slik at relayet evaluerer de samme reglene som appen.
+ * 
+ * @property subscription - Web Push-abonnementet (endpoint og nøkler)
+ * @property locations - Overvåkede lokasjoner
+ * @property alertRules - Varslingsregler
+ * @property schedule - Varslingsplan
+ * @property history - Siste brøyting per lokasjon (for snøstatus)
+ * @property contractorPhone - Telefon til primær entreprenør (eller null)
+ */
+export interface PushRegistration {
+  subscription: PushSubscriptionJSON;
+  locations: MonitoredLocation[];
+  alertRules: AlertRule[];
+  schedule: NotificationSchedule;
+  history: SnowEntry[];
+  contractorPhone: string | null;
+}
+
+/**
+ * PushPayload: Innholdet i én push-melding fra relayet
+ * 
+ * @property title - Overskrift
+ * @property body - Meldingstekst
+ * @property tag - Erstatter tidligere varsel med samme tag (regel og lokasjon)
+ * @property locationId - Lokasjonen varselet gjelder
+ * @property contractorPhone - Nummer for "Ring brøyter" (eller null)
+ */
+export interface PushPayload {
+  title: string;
+  body: string;
+  tag: string;
+  locationId: string;
+  contractorPhone: string | null;
+}
+
+/**
+ * NotificationAction: Handling valgt fra et varsel
+ * 
+ * Service workeren åpner appen med `?action=...&location=...`.
+ * 
+ * - call: Gå til kontakter for å ringe brøyter
+ * - log: Åpne "Logg brøyting" for lokasjonen
+ */
+export type NotificationAction = 'call' | 'log';
+
 // =============================================================================
 // BRØYTING
 // =============================================================================
@@ -71,7 +254,12 @@ export interface Settings {
  * @property timestamp - Når brøytingen skjedde (ISO-8601 format)
  * @property snowDepth - Snødybde i mm (valgfritt)
  * @property comment - Kommentar (valgfritt)
- * @property contractor - Navn på entreprenør (valgfritt)
+ * @property contractor - Navn på entreprenør da brøytingen ble logget (vises hvis kontakten er slettet)
+ * @property contractorId - Kontakten som brøytet (valgfritt)
+ * @property durationMinutes - Tid brukt, for timepris (valgfritt)
+ * @property locationId - Stedet som ble brøytet (valgfritt, eldre oppføringer mangler)
+ * @property forecastDepth - Modellens estimerte snødybde i cm da brøytingen ble logget (valgfritt)
+ * @property edits - Endringer etter at brøytingen ble logget, eldste først (valgfritt)
  */
 export interface SnowEntry {
   id: string;
@@ -79,12 +267,112 @@ export interface SnowEntry {
   snowDepth?: number;
   comment?: string;
   contractor?: string;
+  contractorId?: string;
+  durationMinutes?: number;
+  locationId?: string;
+  forecastDepth?: number;
+  edits?: SnowEntryEdit[];
+}
+
+/**
+ * SnowEntryField: Felt i en brøyting som kan redigeres
+ */
+export type SnowEntryField = 'timestamp' | 'snowDepth' | 'comment' | 'contractor' | 'durationMinutes';
+
+/**
+ * SnowEntryChange: Ett felt som ble endret
+ * 
+ * @property field - Feltet
+ * @property from - Verdien før (null = tom)
+ * @property to - Verdien etter (null = tom)
+ */
+export interface SnowEntryChange {
+  field: SnowEntryField;
+  from: string | number | null;
+  to: string | number | null;
+}
+
+/**
+ * SnowEntryEdit: Én redigering av en brøyting
+ * 
+ * @property at - Når brøytingen ble endret (ISO-8601)
+ * @property by - Brukeren som endret den (Supabase-bruker, null uten innlogging)
+ * @property changes - Feltene som ble endret
+ */
+export interface SnowEntryEdit {
+  at: string;
+  by: string | null;
+  changes: SnowEntryChange[];
+}
+
+/**
+ * PlowOrderStatus: Hvor langt en bestilling har kommet
+ * 
+ * - requested: Melding sendt til brøyter
+ * - confirmed: Brøyter har bekreftet
+ * - done: Brøytet (blir en SnowEntry i loggen)
+ * - cancelled: Avbrutt
+ * - escalated: Ikke bekreftet i tide, sendt videre til neste kontakt
+ */
+export type PlowOrderStatus = 'requested' | 'confirmed' | 'done' | 'cancelled' | 'escalated';
+
+/**
+ * OrderChannel: Hvordan bestillingen ble sendt
+ */
+export type OrderChannel = 'sms' | 'email';
+
+/**
+ * PlowOrder: En bestilling av brøyting
+ * 
+ * Opprettes når brukeren sender en bestilling fra snøstatus-kortet.
+ * Når den markeres som utført, logges brøytingen automatisk.
+ * 
+ * @property id - Unik identifikator (UUID)
+ * @property locationId - Stedet som skal brøytes
+ * @property contractorId - Kontakten som fikk bestillingen
+ * @property contractorName - Kontaktens navn da bestillingen ble sendt
+ * @property channel - SMS eller e-post
+ * @property message - Meldingen som ble sendt
+ * @property status - Status for bestillingen
+ * @property requestedAt - Når bestillingen ble sendt (ISO-8601)
+ * @property confirmedAt - Når brøyter bekreftet (valgfritt)
+ * @property completedAt - Når bestillingen ble utført eller avbrutt (valgfritt)
+ * @property entryId - Oppføringen i brøytingsloggen (når utført)
+ * @property escalatedFrom - Bestillingen denne erstatter ved eskalering (valgfritt)
+ * @property overdueNotifiedAt - Når brukeren ble varslet om manglende svar (valgfritt)
+ */
+export interface PlowOrder {
+  id: string;
+  locationId: string;
+  contractorId: string;
+  contractorName: string;
+  channel: OrderChannel;
+  message: string;
+  status: PlowOrderStatus;
+  requestedAt: string;
+  confirmedAt?: string;
+  completedAt?: string;
+  entryId?: string;
+  escalatedFrom?: string;
+  overdueNotifiedAt?: string;
 }
 
 // =============================================================================
 // KONTAKTER
 // =============================================================================
 
+/**
+ * PricingAgreement: Prisavtale med en entreprenør (beløp i kroner)
+ * 
+ * - per_visit: Fast pris per brøyting
+ * - per_hour: Timepris, med valgfri minstetid per besøk
+ * - seasonal: Fast pris for hele sesongen, uansett antall besøk
+ */
+export type PricingAgreement =
+  | { type: 'per_visit'; amount: number }
+  | { type: 'per_hour'; hourlyRate: number; minimumHours?: number }
+  | { type: 'seasonal'; amount: number };
+
 /**
  * Contractor: Entreprenør / kontakt
  * 
@@ -94,7 +382,11 @@ export interface SnowEntry {
  * @property name - Navn på entreprenøren
  * @property phone - Telefonnummer (inkluderer landskode)
  * @property email - E-postadresse (valgfritt)
- * @property isPrimary - Er dette hovedkontakten? (valgfritt)
+ * @property isPrimary - Er dette hovedkontakten? (valgfritt, samme som priority 0)
+ * @property priority - Plass i eskaleringsrekkefølgen, 0 = først (valgfritt)
+ * @property availableHours - Når kontakten kan bestilles, i stedets tidssone (valgfritt, standard: hele døgnet)
+ * @property responseTimeoutMinutes - Hvor lenge vi venter på bekreftelse før neste kontakt (valgfritt)
+ * @property pricing - Prisavtale (valgfritt)
  */
 export interface Contractor {
   id: string;
@@ -102,6 +394,10 @@ export interface Contractor {
   phone: string;
   email?: string;
   isPrimary?: boolean;
+  priority?: number;
+  availableHours?: TimeRange;
+  responseTimeoutMinutes?: number;
+  pricing?: PricingAgreement;
 }
 
 // =============================================================================
@@ -119,21 +415,35 @@ export type PrecipitationType = 'snow' | 'sleet' | 'rain';
 /**
  * HourlyForecast: Time-forvarsling
  * 
- * Værvarsel for én time frem i tid.
+ * Værvarsel for én time frem i tid. Lenger frem gir Met.no kun
+ * 6-timers perioder - da er `durationHours` 6 og mengdene gjelder
+ * hele perioden (ikke per time).
  * 
- * @property time - Tidspunkt (ISO-8601)
- * @property snow - Forventet snø i mm
+ * @property time - Starttidspunkt (ISO-8601)
+ * @property durationHours - Periodens lengde i timer (standard 1)
+ * @property snow - Forventet snø i mm (median)
+ * @property snowMin - Lavt anslag for snø i mm (10-persentil)
+ * @property snowMax - Høyt anslag for snø i mm (90-persentil)
  * @property precipitationType - Type nedbør
  * @property temperature - Temperatur i Celsius
- * @property precipitation - Nedbør i mm
+ * @property precipitation - Nedbør i mm (median)
+ * @property precipitationMin - Lavt anslag for nedbør i mm
+ * @property precipitationMax - Høyt anslag for nedbør i mm
+ * @property precipitationProbability - Sannsynlighet for nedbør i % (valgfritt)
  * @property weatherCondition - Værkode (f.eks. "clearsky", "snow")
  */
 export interface HourlyForecast {
   time: string;
+  durationHours?: number;
   snow: number;
+  snowMin: number;
+  snowMax: number;
   precipitationType: PrecipitationType;
   temperature: number;
   precipitation: number;
+  precipitationMin: number;
+  precipitationMax: number;
+  precipitationProbability?: number;
   weatherCondition: string;
 }
 
@@ -144,7 +454,10 @@ export interface HourlyForecast {
  * 
  * @property updatedAt - Når dataene sist ble oppdatert
  * @property current - Nåværende vær
- * @property hourly - Time-forvarsling (48 timer)
+ * @property hourly - Time-forvarsling (så langt Met.no gir timesoppløsning, ca. 2-3 døgn)
+ * @property sixHourly - 6-timers perioder etter time-forvarslingen (ut til ca. 9 døgn)
+ * @property pastHours - Timer som har passert siden tidligere hentinger
+ *   (brukes som "observert" snøfall i snødybde-modellen)
  */
 export interface WeatherData {
   updatedAt: string;
@@ -157,12 +470,98 @@ export interface WeatherData {
     windSpeed: number;
   };
   hourly: HourlyForecast[];
+  sixHourly?: HourlyForecast[];
+  pastHours?: HourlyForecast[];
+}
+
+/**
+ * RadarCoverage: Radardekning for Nowcast
+ * 
+ * - ok: Full dekning
+ * - temporarily unavailable: Radar midlertidig ute av drift
+ * - no coverage: Lokasjonen er utenfor radardekning
+ */
+export type RadarCoverage = 'ok' | 'temporarily unavailable' | 'no coverage';
+
+/**
+ * NowcastStep: Ett 5-minutters steg i korttidsvarselet
+ * 
+ * @property time - Start av steget (ISO-8601)
+ * @property precipitationRate - Nedbørsintensitet i mm/t
+ * @property precipitationType - Type nedbør (snø, sludd eller regn)
+ */
+export interface NowcastStep {
+  time: string;
+  precipitationRate: number;
+  precipitationType: PrecipitationType;
+}
+
+/**
+ * NowcastData: Radarbasert korttidsvarsel (Nowcast)
+ * 
+ * Egen datastrøm ved siden av WeatherData: 5-minutters
+ * oppløsning, 2 timer frem i tid.
+ * 
+ * @property updatedAt - Når radarvarselet ble laget
+ * @property radarCoverage - Radardekning for lokasjonen
+ * @property temperature - Temperatur nå (°C), eller null
+ * @property steps - 5-minutters steg
+ */
+export interface NowcastData {
+  updatedAt: string;
+  radarCoverage: RadarCoverage;
+  temperature: number | null;
+  steps: NowcastStep[];
+}
+
+/**
+ * WeatherProviderId: Tilgjengelige kilder for værdata
+ * 
+ * - metno: Locationforecast fra Met.no (nettverk)
+ * - fixture: Lagrede svar eller syntetiske scenarioer fra JSON (offline)
+ */
+export type WeatherProviderId = 'metno' | 'fixture';
+
+/**
+ * WeatherProvider: Felles grensesnitt for værdata-kilder
+ * 
+ * Resten av appen kjenner kun `WeatherData`, slik at kilden
+ * kan byttes uten å endre modell eller komponenter.
+ * 
+ * @property id - Kildens ID
+ * @property name - Visningsnavn
+ * @property fetchWeather - Hent værdata for en lokasjon
+ * @property fetchNowcast - Hent korttidsvarsel (valgfritt, ikke alle kilder har det)
+ */
+export interface WeatherProvider {
+  id: WeatherProviderId;
+  name: string;
+  fetchWeather: (location: Location) => Promise<WeatherData>;
+  fetchNowcast?: (location: Location) => Promise<NowcastData>;
 }
 
 // =============================================================================
 // MET.NO API TYPER
 // =============================================================================
 
+/**
+ * MetNoPeriodDetails: Nedbørsdetaljer for en periode (1 eller 6 timer)
+ * 
+ * Compact-varianten gir kun precipitation_amount.
+ * Complete-varianten gir i tillegg usikkerhet og sannsynlighet.
+ * 
+ * @property precipitation_amount - Forventet nedbør (median) i mm
+ * @property precipitation_amount_min - Lavt anslag i mm (kun complete)
+ * @property precipitation_amount_max - Høyt anslag i mm (kun complete)
+ * @property probability_of_precipitation - Sannsynlighet for nedbør i % (kun complete)
+ */
+export interface MetNoPeriodDetails {
+  precipitation_amount: number;
+  precipitation_amount_min?: number;
+  precipitation_amount_max?: number;
+  probability_of_precipitation?: number;
+}
+
 /**
  * MetNoTimeseries: Rå format fra Met.no API
  * 
@@ -186,17 +585,13 @@ export interface MetNoTimeseries {
       summary: {
         symbol_code: string;
       };
-      details: {
-        precipitation_amount: number;
-      };
+      details: MetNoPeriodDetails;
     };
     next_6_hours?: {
       summary?: {
         symbol_code: string;
       };
-      details?: {
-        precipitation_amount: number;
-      };
+      details?: MetNoPeriodDetails;
     };
   };
 }
@@ -212,6 +607,37 @@ export interface MetNoResponse {
   };
 }
 
+/**
+ * MetNoNowcastResponse: Rå format fra Met.no Nowcast 2.0
+ * 
+ * Kun første tidspunkt har temperatur og symbol,
+ * resten har bare nedbørsintensitet.
+ */
+export interface MetNoNowcastResponse {
+  properties: {
+    meta: {
+      updated_at: string;
+      radar_coverage: RadarCoverage;
+    };
+    timeseries: {
+      time: string;
+      data: {
+        instant: {
+          details: {
+            precipitation_rate?: number;
+            air_temperature?: number;
+          };
+        };
+        next_1_hours?: {
+          summary: {
+            symbol_code: string;
+          };
+        };
+      };
+    }[];
+  };
+}
+
 // =============================================================================
 // APP STATUS
 // =============================================================================
@@ -228,6 +654,179 @@ export interface MetNoResponse {
  */
 export type SnowStatus = 'normal' | 'warning' | 'critical';
 
+/**
+ * SnowStatusResult: Resultat av snøstatus-beregning for én lokasjon
+ * 
+ * Drevet av estimert snødybde på bakken siden siste brøyting.
+ * 
+ * @property status - Fargekodet status
+ * @property currentDepth - Estimert snødybde nå (cm)
+ * @property projectedDepth - Høyeste estimerte snødybde de neste 24 timene (cm)
+ * @property projectedDepthLow - Lavt anslag for dybde om 24 timer (cm)
+ * @property projectedDepthHigh - Høyt anslag (verste tilfelle) om 24 timer (cm)
+ * @property precipitationProbability - Høyeste nedbørssannsynlighet neste 24t i % (null hvis ukjent)
+ * @property nextPlowingExpected - Når forventet dybde når terskelen (null hvis ikke innen prognosen)
+ * @property nextPlowingEarliest - Når høyt anslag når terskelen (null hvis ikke innen prognosen)
+ * @property lastPlowing - Tidspunkt for siste loggførte brøyting (null hvis ingen)
+ */
+export interface SnowStatusResult {
+  status: SnowStatus;
+  currentDepth: number;
+  projectedDepth: number;
+  projectedDepthLow: number;
+  projectedDepthHigh: number;
+  precipitationProbability: number | null;
+  nextPlowingExpected: string | null;
+  nextPlowingEarliest: string | null;
+  lastPlowing: string | null;
+}
+
+// =============================================================================
+// SYNKRONISERING
+// =============================================================================
+
+/**
+ * SyncPhase: Tilstanden til synkroniseringen med Supabase
+ * 
+ * - disabled: Supabase er ikke satt opp (VITE_SUPABASE_URL mangler)
+ * - idle: Ferdig, venter på neste runde
+ * - syncing: Sender og henter endringer
+ * - offline: Ingen nettforbindelse (endringene venter i køen)
+ * - error: Serveren svarte med feil
+ */
+export type SyncPhase = 'disabled' | 'idle' | 'syncing' | 'offline' | 'error';
+
+/**
+ * PropertyRole: Rolle i en delt eiendom
+ * 
+ * - owner: Alt, inkludert medlemmer og invitasjoner
+ * - member: Lese og endre brøytinger, kontakter og innstillinger
+ * - viewer: Bare lese
+ */
+export type PropertyRole = 'owner' | 'member' | 'viewer';
+
+/**
+ * Property: Eiendom som deles av flere brukere
+ * 
+ * Brøytingslogg, kontakter og innstillinger i appen tilhører
+ * den aktive eiendommen.
+ * 
+ * @property id - Unik ID
+ * @property name - Navn (f.eks. "Hytta" eller "Borettslaget")
+ * @property role - Innlogget brukers rolle
+ */
+export interface Property {
+  id: string;
+  name: string;
+  role: PropertyRole;
+}
+
+/**
+ * PropertyMember: Medlem av en eiendom
+ * 
+ * @property userId - Brukerens ID (Supabase Auth)
+ * @property displayName - Navnet som vises (eller null)
+ * @property role - Rolle i eiendommen
+ * @property joinedAt - Når brukeren ble med (ISO-8601)
+ */
+export interface PropertyMember {
+  userId: string;
+  displayName: string | null;
+  role: PropertyRole;
+  joinedAt: string;
+}
+
+/**
+ * PropertyInvitation: Invitasjon til en eiendom
+ * 
+ * Koden deles med den som inviteres, og kan brukes én gang.
+ * 
+ * @property code - Invitasjonskode
+ * @property role - Rollen den inviterte får
+ * @property expiresAt - Utløper (ISO-8601)
+ * @property acceptedAt - Når invitasjonen ble brukt (eller null)
+ */
+export interface PropertyInvitation {
+  code: string;
+  role: Exclude<PropertyRole, 'owner'>;
+  expiresAt: string;
+  acceptedAt: string | null;
+}
+
+/**
+ * PushStatus: Status for push-abonnementet hos relayet
+ * 
+ * Lokale varsler skrus bare av når relayet har bekreftet abonnementet,
+ * ellers ville en feil hos relayet gitt ingen varsler i det hele tatt.
+ * 
+ * @property subscribed - Relayet har bekreftet abonnementet (og sender varslene)
+ * @property error - Siste feil ved abonnering (eller null)
+ */
+export interface PushStatus {
+  subscribed: boolean;
+  error: string | null;
+}
+
+/**
+ * SyncStatus: Status for synkroniseringen (vises i appen)
+ * 
+ * @property phase - Tilstand (se SyncPhase)
+ * @property pending - Antall lokale endringer som ikke er sendt
+ * @property lastSyncedAt - Siste vellykkede synkronisering (ISO-8601, eller null)
+ * @property error - Feilmelding (eller null)
+ * @property property - Aktiv eiendom (null før første synkronisering)
+ * @property live - Sanntidsforbindelsen til Supabase er oppe
+ * @property userId - Innlogget bruker på enheten (null uten Supabase)
+ */
+export interface SyncStatus {
+  phase: SyncPhase;
+  pending: number;
+  lastSyncedAt: string | null;
+  error: string | null;
+  property: Property | null;
+  live: boolean;
+  userId: string | null;
+}
+
+/**
+ * RecordChanges: Endrede og slettede poster fra serveren
+ * 
+ * @property upserted - Nye eller endrede poster
+ * @property deleted - ID-er til slettede poster
+ */
+export interface RecordChanges<T> {
+  upserted: T[];
+  deleted: string[];
+}
+
+/**
+ * RemoteChanges: Endringer hentet fra Supabase
+ * 
+ * @property settings - Nye innstillinger (eller null hvis uendret)
+ * @property contractors - Endrede kontakter
+ * @property history - Endrede brøytinger
+ */
+export interface RemoteChanges {
+  settings: Settings | null;
+  contractors: RecordChanges<Contractor>;
+  history: RecordChanges<SnowEntry>;
+}
+
+/**
+ * RemoteChangeNotice: Siste endring gjort av andre (vises kort i appen)
+ * 
+ * @property description - Hva som ble gjort (f.eks. "logget en brøyting")
+ * @property author - Hvem som gjorde det (navn, eller null hvis ukjent)
+ * @property source - 'device' (annen enhet via Supabase) eller 'tab' (annen fane)
+ * @property at - Når endringen kom (ISO-8601)
+ */
+export interface RemoteChangeNotice {
+  description: string;
+  author: string | null;
+  source: 'device' | 'tab';
+  at: string;
+}
+
 // =============================================================================
 // APP STATE
 // =============================================================================
@@ -239,21 +838,33 @@ export type SnowStatus = 'normal' | 'warning' | 'critical';
  * Forvaltes av AppContext og AppReducer.
  * 
  * @property settings - Brukerinnstillinger
- * @property weather - Nåværende værdata
+ * @property weather - Værdata per lokasjon (nøkkel = lokasjons-ID)
+ * @property nowcast - Radarbasert korttidsvarsel per lokasjon (lagres ikke)
  * @property history - Logg over brøytinger
  * @property contractors - Lagrede kontakter
+ * @property orders - Bestillinger av brøyting
  * @property loading - Laster appen?
  * @property error - Feilmelding (hvis noe gikk galt)
- * @property lastNotifiedSnow - Timestamp for siste snø-varsel
+ * @property alertLog - Siste varsel per regel og lokasjon (nøkkel = "regel-ID:lokasjons-ID")
+ * @property lastStatus - Forrige snøstatus per lokasjon (for å oppdage endringer)
+ * @property sync - Status for synkronisering med Supabase (lagres ikke)
+ * @property push - Status for push-abonnementet (lagres ikke)
+ * @property remoteChange - Siste endring fra andre enheter eller faner (lagres ikke)
  */
 export interface AppState {
   settings: Settings;
-  weather: WeatherData | null;
+  weather: Record<string, WeatherData>;
+  nowcast: Record<string, NowcastData>;
   history: SnowEntry[];
   contractors: Contractor[];
+  orders: PlowOrder[];
   loading: boolean;
   error: string | null;
-  lastNotifiedSnow: string | null;
+  alertLog: Record<string, string>;
+  lastStatus: Record<string, SnowStatus>;
+  sync: SyncStatus;
+  push: PushStatus;
+  remoteChange: RemoteChangeNotice | null;
 }
 
 /**
@@ -266,15 +877,43 @@ export interface AppState {
  */
 export type AppAction =
   | { type: 'SET_SETTINGS'; payload: Settings }
-  | { type: 'SET_WEATHER'; payload: WeatherData }
+  | { type: 'SET_ACTIVE_LOCATION'; payload: string }
+  | { type: 'SET_WEATHER'; payload: { locationId: string; weather: WeatherData } }
+  | { type: 'SET_NOWCAST'; payload: { locationId: string; nowcast: NowcastData | null } }
   | { type: 'SET_HISTORY'; payload: SnowEntry[] }
   | { type: 'ADD_HISTORY'; payload: SnowEntry }
+  | { type: 'UPDATE_HISTORY'; payload: { entry: SnowEntry; editedAt: string } }
   | { type: 'DELETE_HISTORY'; payload: string }
+  | { type: 'ARCHIVE_HISTORY'; payload: string[] }
   | { type: 'SET_CONTRACTORS'; payload: Contractor[] }
   | { type: 'ADD_CONTRACTOR'; payload: Contractor }
   | { type: 'UPDATE_CONTRACTOR'; payload: Contractor }
   | { type: 'DELETE_CONTRACTOR'; payload: string }
   | { type: 'SET_CONTRACTOR_PRIMARY'; payload: string }
+  | { type: 'REORDER_CONTRACTORS'; payload: string[] }
+  | { type: 'SET_ORDERS'; payload: PlowOrder[] }
+  | { type: 'ADD_ORDER'; payload: PlowOrder }
+  | { type: 'UPDATE_ORDER'; payload: PlowOrder }
+  | { type: 'COMPLETE_ORDER'; payload: { order: PlowOrder; entry: SnowEntry } }
+  | { type: 'ESCALATE_ORDER'; payload: { previous: PlowOrder; next: PlowOrder } }
   | { type: 'SET_LOADING'; payload: boolean }
   | { type: 'SET_ERROR'; payload: string | null }
-  | { type: 'SET_LAST_NOTIFIED_SNOW'; payload: string | null };
+  | { type: 'SET_ALERT_LOG'; payload: Record<string, string> }
+  | { type: 'RECORD_ALERT'; payload: { key: string; time: string } }
+  | { type: 'SET_LAST_STATUS'; payload: { locationId: string; status: SnowStatus } }
+  | { type: 'SET_SYNC_STATUS'; payload: Partial<SyncStatus> }
+  | { type: 'SET_PUSH_STATUS'; payload: PushStatus }
+  | { type: 'APPLY_REMOTE_CHANGES'; payload: RemoteChanges }
+  | { type: 'SET_REMOTE_CHANGE'; payload: RemoteChangeNotice | null };
+
+/**
+ * RemoteAction: Endring fra en annen enhet eller fane
+ * 
+ * Sendes i sanntid og kjøres som vanlige handlinger, slik at alle
+ * ser samme brøytinger og kontakter uten å laste siden på nytt.
+ * 
+ * @see services/realtime
+ */
+export type RemoteAction = Extract<AppAction, {
+  type: 'ADD_HISTORY' | 'DELETE_HISTORY' | 'ADD_CONTRACTOR' | 'UPDATE_CONTRACTOR' | 'DELETE_CONTRACTOR';
+}>;
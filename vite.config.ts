@@ -53,7 +53,17 @@ export default defineConfig({
       // Filer som skal inkluderes i PWA-ressursene
       // Disse caches av service worker for offline-støtte
       includeAssets: ['pwa-192x192.svg', 'pwa-512x512.svg'],
-      
+
+      /**
+       * Workbox (genererer service worker)
+       *
+       * importScripts: Egne scripts som lastes inn i service workeren
+       * - push-sw.js: Viser push-varsler og håndterer "Ring brøyter"/"Logg brøyting"
+       */
+      workbox: {
+        importScripts: ['push-sw.js'],
+      },
+
       /**
        * Web App Manifest
        * 